@@ -1,14 +1,65 @@
 import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import typescript from '@rollup/plugin-typescript';
+import path from 'node:path';
 import postcss from 'rollup-plugin-postcss';
 
-const external = ['react', 'react-dom', 'react/jsx-runtime', 'markdown-to-jsx'];
+const external = ['react', 'react-dom', 'react-dom/client', 'react/jsx-runtime', 'markdown-to-jsx'];
+
+// Library entry points; `elements` and `testing` are published as
+// `@devicai/ui/elements` and `@devicai/ui/testing`
+const input = ['src/index.ts', 'src/elements/index.ts', 'src/testing/index.ts'];
+
+const EMBED_STYLES = path.resolve('src/elements/embedStyles.ts');
+
+// Elements of a component rendered with `unstyled` (and their descendants)
+const UNSTYLED_GUARD = ':not(:where([data-devic-unstyled], [data-devic-unstyled] *))';
+
+// Rules that must survive `unstyled` (visually hidden screen-reader text)
+const ALWAYS_STYLED = new Set(['.devic-sr-only']);
+
+/**
+ * PostCSS plugin making every library rule skip `[data-devic-unstyled]`
+ * subtrees, so `unstyled` drops the stylesheet while class names remain as
+ * styling hooks. The guard sits on the subject compound (before any
+ * pseudo-element) and adds no specificity.
+ */
+function unstyledGuard() {
+  return {
+    postcssPlugin: 'devic-unstyled-guard',
+    Rule(rule) {
+      if (rule.parent?.type === 'atrule' && /keyframes$/i.test(rule.parent.name)) return;
+      if (rule.selector.includes(UNSTYLED_GUARD)) return;
+      rule.selectors = rule.selectors.map((selector) => {
+        if (ALWAYS_STYLED.has(selector)) return selector;
+        const pseudoElement = selector.search(/::[\w-]+(?:[:\w-]*)$/);
+        return pseudoElement === -1
+          ? `${selector}${UNSTYLED_GUARD}`
+          : `${selector.slice(0, pseudoElement)}${UNSTYLED_GUARD}${selector.slice(pseudoElement)}`;
+      });
+    },
+  };
+}
+unstyledGuard.postcss = true;
+
+/**
+ * Replace `process.env.NODE_ENV` in bundled dependencies (React) for the
+ * browser build
+ */
+function defineNodeEnv(value) {
+  return {
+    name: 'devic-define-node-env',
+    transform(code) {
+      if (!code.includes('process.env.NODE_ENV')) return null;
+      return { code: code.split('process.env.NODE_ENV').join(JSON.stringify(value)), map: null };
+    },
+  };
+}
 
 export default [
   // ESM build with types
   {
-    input: 'src/index.ts',
+    input,
     output: {
       dir: 'dist/esm',
       format: 'esm',
@@ -27,13 +78,14 @@ export default [
       postcss({
         extract: 'styles.css',
         minimize: true,
+        plugins: [unstyledGuard()],
       }),
     ],
     external,
   },
   // CJS build
   {
-    input: 'src/index.ts',
+    input,
     output: {
       dir: 'dist/cjs',
       format: 'cjs',
@@ -54,8 +106,38 @@ export default [
       postcss({
         extract: 'styles.css',
         minimize: true,
+        plugins: [unstyledGuard()],
       }),
     ],
     external,
   },
+  // Script-tag build: React and the stylesheet bundled, custom elements
+  // registered on load
+  {
+    input: 'src/embed.ts',
+    output: {
+      file: 'dist/embed/devic-ui.js',
+      format: 'iife',
+      name: 'DevicUI',
+      sourcemap: true,
+    },
+    plugins: [
+      defineNodeEnv('production'),
+      resolve({ browser: true }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined,
+        outDir: 'dist/embed',
+      }),
+      postcss({
+        inject: (cssVariableName) =>
+          `import { registerEmbedStyles } from ${JSON.stringify(EMBED_STYLES)};\n` +
+          `registerEmbedStyles(${cssVariableName});`,
+        minimize: true,
+        plugins: [unstyledGuard()],
+      }),
+    ],
+  },
 ];
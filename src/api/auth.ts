@@ -0,0 +1,170 @@
+/**
+ * A short-lived, scoped bearer token issued by the integrator's backend
+ */
+export interface DevicAuthToken {
+  /** Bearer token sent as `Authorization: Bearer <token>` */
+  token: string;
+  /** Expiry as epoch milliseconds (epoch seconds are detected and converted) */
+  expiresAt: number;
+}
+
+/**
+ * Async token provider, typically a call to the integrator's own backend
+ * which exchanges its session for a scoped Devic token.
+ */
+export type DevicTokenProvider = () => Promise<DevicAuthToken>;
+
+/**
+ * Authentication state exposed by DevicProvider
+ */
+export interface DevicAuthState {
+  /** How requests are authenticated */
+  mode: "apiKey" | "token" | "none";
+  /** Token lifecycle status (`ready` for apiKey mode) */
+  status: "idle" | "loading" | "ready" | "error";
+  /** Expiry of the current token as epoch milliseconds */
+  expiresAt: number | null;
+  /** Last token provider failure */
+  error: Error | null;
+}
+
+export interface TokenManagerOptions {
+  /**
+   * Refresh the token this many ms before it expires
+   * @default 60000
+   */
+  refreshMargin?: number;
+
+  /**
+   * Called whenever the token or auth status changes
+   */
+  onChange?: (state: DevicAuthState, token: string | null) => void;
+}
+
+const DEFAULT_REFRESH_MARGIN_MS = 60000;
+const MIN_REFRESH_DELAY_MS = 1000;
+// Expiries below this are epoch seconds (1e12 ms is September 2001)
+const EPOCH_SECONDS_LIMIT = 1e12;
+
+/**
+ * Validate a provider result, converting an expiry given in epoch seconds
+ * to milliseconds. Throws when the token is missing or already expired, so
+ * a bad provider surfaces as an error instead of a refresh loop.
+ */
+function normalizeToken(result: DevicAuthToken | null | undefined): DevicAuthToken {
+  if (!result?.token) {
+    throw new Error("Token provider returned no token");
+  }
+  let expiresAt = Number(result.expiresAt);
+  if (!Number.isFinite(expiresAt) || expiresAt <= 0) {
+    throw new Error("Token provider returned an invalid expiresAt");
+  }
+  if (expiresAt < EPOCH_SECONDS_LIMIT) expiresAt *= 1000;
+  if (expiresAt <= Date.now()) {
+    throw new Error("Token provider returned an expired token");
+  }
+  return { token: result.token, expiresAt };
+}
+
+/**
+ * Caches a token from a DevicTokenProvider, shares one in-flight fetch
+ * between concurrent callers and refreshes it ahead of expiry.
+ */
+export class TokenManager {
+  private provider: DevicTokenProvider;
+  private options: TokenManagerOptions;
+  private current: DevicAuthToken | null = null;
+  private refreshAt = 0;
+  private inflight: Promise<string> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+  private state: DevicAuthState = {
+    mode: "token",
+    status: "idle",
+    expiresAt: null,
+    error: null,
+  };
+
+  constructor(provider: DevicTokenProvider, options: TokenManagerOptions = {}) {
+    this.provider = provider;
+    this.options = options;
+  }
+
+  /**
+   * Current auth state
+   */
+  getState(): DevicAuthState {
+    return this.state;
+  }
+
+  /**
+   * Resolve a valid token, fetching a new one when missing, about to expire
+   * or when `forceRefresh` is set (e.g. after a 401).
+   */
+  getToken({ forceRefresh = false }: { forceRefresh?: boolean } = {}): Promise<string> {
+    if (this.inflight) return this.inflight;
+    if (!forceRefresh && this.current && Date.now() < this.refreshAt) {
+      return Promise.resolve(this.current.token);
+    }
+    return this.fetchToken();
+  }
+
+  /**
+   * Stop the refresh timer and ignore pending results
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private get refreshMargin(): number {
+    return this.options.refreshMargin ?? DEFAULT_REFRESH_MARGIN_MS;
+  }
+
+  private fetchToken(): Promise<string> {
+    this.setState({ status: "loading" });
+
+    const request = this.provider()
+      .then((raw) => {
+        const result = normalizeToken(raw);
+        if (!this.disposed) {
+          this.current = result;
+          this.setState({ status: "ready", expiresAt: result.expiresAt, error: null });
+          this.schedule(result);
+        }
+        return result.token;
+      })
+      .catch((err) => {
+        const error = err instanceof Error ? err : new Error(String(err));
+        if (!this.disposed) {
+          this.setState({ status: "error", error });
+        }
+        throw error;
+      })
+      .finally(() => {
+        this.inflight = null;
+      });
+
+    this.inflight = request;
+    return request;
+  }
+
+  private schedule(token: DevicAuthToken): void {
+    if (this.timer) clearTimeout(this.timer);
+    // Tokens shorter-lived than the margin are refreshed at half their lifetime
+    const remaining = token.expiresAt - Date.now();
+    const delay = Math.max(remaining - this.refreshMargin, remaining / 2, MIN_REFRESH_DELAY_MS);
+    this.refreshAt = Date.now() + delay;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Failures surface through the auth state; the next request retries
+      this.getToken({ forceRefresh: true }).catch(() => {});
+    }, delay);
+  }
+
+  private setState(patch: Partial<DevicAuthState>): void {
+    this.state = { ...this.state, ...patch };
+    this.options.onChange?.(this.state, this.current?.token ?? null);
+  }
+}
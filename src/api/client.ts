@@ -3,12 +3,15 @@ import type {
   ChatMessage,
   AsyncResponse,
   RealtimeChatHistory,
+  RealtimeStreamEvent,
   ChatHistory,
   AssistantSpecialization,
   ApiError,
   ToolCallResponse,
   ConversationSummary,
   ListConversationsResponse,
+  SearchConversationsResponse,
+  UpdateConversationDto,
   FeedbackSubmission,
   FeedbackEntry,
   AgentThreadDto,
@@ -19,9 +22,211 @@ import type {
   TenantUsageHistoryQuery,
 } from "./types";
 
+/**
+ * Retry policy for transient failures.
+ *
+ * Idempotent requests (GET/HEAD) are retried on network errors, timeouts and
+ * 5xx responses with exponential backoff and full jitter. A 429 carrying a
+ * `Retry-After` header is retried for any method after the advertised delay,
+ * except usage-limit blocks (`TENANT_LIMIT_EXCEEDED`), which are final.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of retries after the first attempt
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Base delay (ms) of the exponential backoff
+   * @default 300
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound (ms) of a single backoff delay
+   * @default 5000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Longest `Retry-After` (ms) the client is willing to wait on a 429.
+   * Longer waits fail immediately so the caller can surface the error.
+   * @default 10000
+   */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * An outgoing request as seen by middleware. `headers` is a mutable `Headers`
+ * instance; `onRequest` may mutate it in place or return a replacement.
+ */
+export interface DevicApiRequest {
+  url: string;
+  init: RequestInit & { headers: Headers };
+  /** Zero-based attempt number (increments on retries) */
+  attempt: number;
+}
+
+/**
+ * Request/response interceptor for DevicApiClient.
+ *
+ * Middleware runs for every request the client makes (JSON requests, file
+ * uploads, transcription and the realtime stream), once per attempt.
+ * `onRequest` hooks run in registration order; `onResponse` and `onError`
+ * run in reverse order, so the first middleware wraps all the others.
+ */
+export interface DevicApiMiddleware {
+  /** Inspect or modify the request before it is sent */
+  onRequest?: (
+    request: DevicApiRequest,
+  ) => DevicApiRequest | void | Promise<DevicApiRequest | void>;
+  /** Inspect or replace the response (successful or not) */
+  onResponse?: (
+    response: Response,
+    request: DevicApiRequest,
+  ) => Response | void | Promise<Response | void>;
+  /** Observe a failed attempt (HTTP error, network error or timeout) */
+  onError?: (error: unknown, request: DevicApiRequest) => void | Promise<void>;
+}
+
 export interface DevicApiClientConfig {
   apiKey: string;
   baseUrl: string;
+
+  /**
+   * Resolves a short-lived bearer token used instead of `apiKey`. Called
+   * before every attempt; `forceRefresh` is set when retrying after a 401.
+   */
+  getToken?: (options: { forceRefresh: boolean }) => Promise<string>;
+
+  /**
+   * Middleware chain applied to every request, before any middleware
+   * registered later with `use()`.
+   */
+  middleware?: DevicApiMiddleware[];
+
+  /**
+   * Timeout (ms) for a single request attempt, including reading the
+   * response body. `0` disables the timeout.
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * Timeout (ms) for file uploads and audio transcription.
+   * `0` disables the timeout.
+   * @default 120000
+   */
+  uploadTimeout?: number;
+
+  /**
+   * Retry policy for transient failures, or `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * `fetch` implementation used for every request. Defaults to the global
+   * `fetch`; tests can pass a mock server's (see `createMockDevicServer`).
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Client options other than credentials and endpoint. Used by DevicProvider to
+ * share middleware and token auth with every client created under it.
+ */
+export type DevicApiClientOptions = Omit<DevicApiClientConfig, "apiKey" | "baseUrl">;
+
+/**
+ * Options for a single request attempt loop
+ */
+interface SendOptions<T> {
+  /** Timeout (ms) per attempt; 0 disables it */
+  timeout: number;
+  /** Reads the successful response; runs inside the timeout window */
+  read: (response: Response) => Promise<T>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_UPLOAD_TIMEOUT_MS = 120000;
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 10000,
+};
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD"];
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Build the error thrown for a non-2xx response
+ */
+async function toApiError(response: Response): Promise<DevicApiError> {
+  let errorData: ApiError;
+  try {
+    errorData = await response.json();
+  } catch {
+    errorData = {
+      statusCode: response.status,
+      message: response.statusText,
+    };
+  }
+  if (errorData.statusCode == null) {
+    errorData.statusCode = response.status;
+  }
+  return new DevicApiError(errorData);
+}
+
+/**
+ * Unwrap the common `{ data }` response envelope
+ */
+async function readJson<T>(response: Response): Promise<T> {
+  // Empty bodies (e.g. 204 No Content on DELETE)
+  const text = await response.text();
+  if (!text) return undefined as T;
+  const data = JSON.parse(text);
+
+  // If the response has a data property, extract it (common wrapper pattern)
+  if (data && typeof data === "object" && "data" in data) {
+    return data.data as T;
+  }
+
+  return data as T;
 }
 
 /**
@@ -29,6 +234,7 @@ export interface DevicApiClientConfig {
  */
 export class DevicApiClient {
   private config: DevicApiClientConfig;
+  private registeredMiddleware: DevicApiMiddleware[] = [];
 
   constructor(config: DevicApiClientConfig) {
     this.config = config;
@@ -41,6 +247,199 @@ export class DevicApiClient {
     this.config = { ...this.config, ...config };
   }
 
+  /**
+   * Register a middleware at the end of the chain.
+   * Returns a function that removes it.
+   */
+  use(middleware: DevicApiMiddleware): () => void {
+    this.registeredMiddleware = [...this.registeredMiddleware, middleware];
+    return () => {
+      this.registeredMiddleware = this.registeredMiddleware.filter(
+        (m) => m !== middleware,
+      );
+    };
+  }
+
+  /**
+   * Full middleware chain: configured middleware, then registered ones
+   */
+  private get middleware(): DevicApiMiddleware[] {
+    return [...(this.config.middleware ?? []), ...this.registeredMiddleware];
+  }
+
+  /**
+   * Run the onRequest hooks in order
+   */
+  private async applyRequestMiddleware(
+    chain: DevicApiMiddleware[],
+    request: DevicApiRequest,
+  ): Promise<DevicApiRequest> {
+    let current = request;
+    for (const m of chain) {
+      if (m.onRequest) {
+        current = (await m.onRequest(current)) ?? current;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Run the onResponse hooks in reverse order
+   */
+  private async applyResponseMiddleware(
+    chain: DevicApiMiddleware[],
+    response: Response,
+    request: DevicApiRequest,
+  ): Promise<Response> {
+    let current = response;
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const m = chain[i];
+      if (m.onResponse) {
+        current = (await m.onResponse(current, request)) ?? current;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Run the onError hooks in reverse order. Hook failures are swallowed so
+   * an observer can never mask the original error.
+   */
+  private async applyErrorMiddleware(
+    chain: DevicApiMiddleware[],
+    error: unknown,
+    request: DevicApiRequest,
+  ): Promise<void> {
+    for (let i = chain.length - 1; i >= 0; i--) {
+      try {
+        await chain[i].onError?.(error, request);
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  /**
+   * Run a fetch under the configured timeout and retry policy.
+   * Caller aborts (via `init.signal`) are rethrown as-is and never retried.
+   */
+  private async send<T>(
+    url: string,
+    init: RequestInit,
+    { timeout, read }: SendOptions<T>,
+  ): Promise<T> {
+    const method = (init.method || "GET").toUpperCase();
+    const idempotent = IDEMPOTENT_METHODS.includes(method);
+    const policy =
+      this.config.retry === false
+        ? null
+        : { ...DEFAULT_RETRY_POLICY, ...this.config.retry };
+    const maxRetries = policy ? policy.retries : 0;
+    const callerSignal = init.signal;
+    const chain = this.middleware;
+    const { getToken } = this.config;
+    // Called unbound: native fetch throws when invoked as a method of config
+    const fetchImpl = this.config.fetch ?? fetch;
+    let authRetried = false;
+    let forceRefresh = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      let timedOut = false;
+      const onCallerAbort = () => controller.abort(callerSignal?.reason);
+      if (callerSignal?.aborted) {
+        controller.abort(callerSignal.reason);
+      } else {
+        callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+      }
+      const timer =
+        timeout > 0
+          ? setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, timeout)
+          : null;
+
+      let retryDelay: number | null = null;
+      let failure: unknown;
+      let request: DevicApiRequest = {
+        url,
+        init: { ...init, headers: new Headers(init.headers), signal: controller.signal },
+        attempt,
+      };
+
+      try {
+        if (getToken) {
+          const token = await getToken({ forceRefresh });
+          forceRefresh = false;
+          request.init.headers.set("Authorization", `Bearer ${token}`);
+        }
+        request = await this.applyRequestMiddleware(chain, request);
+        const response = await this.applyResponseMiddleware(
+          chain,
+          await fetchImpl(request.url, request.init),
+          request,
+        );
+
+        if (response.ok) {
+          return await read(response);
+        }
+
+        const error = await toApiError(response);
+        failure = error;
+
+        if (response.status === 401 && getToken && !authRetried) {
+          // The token may have been revoked or expired early: retry once
+          // with a fresh one
+          authRetried = true;
+          forceRefresh = true;
+          retryDelay = 0;
+        } else if (policy && attempt < maxRetries) {
+          if (response.status === 429) {
+            const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+            if (
+              retryAfter != null &&
+              retryAfter <= policy.maxRetryAfterMs &&
+              error.errorType !== "TENANT_LIMIT_EXCEEDED"
+            ) {
+              retryDelay = retryAfter;
+            }
+          } else if (idempotent && (response.status >= 500 || response.status === 408)) {
+            retryDelay = this.backoff(policy, attempt);
+          }
+        }
+      } catch (err) {
+        if (callerSignal?.aborted) throw err;
+        failure = timedOut
+          ? new DevicApiError({
+              statusCode: 408,
+              message: `Request timed out after ${timeout}ms`,
+              error: "REQUEST_TIMEOUT",
+            })
+          : err;
+        // Network errors and timeouts are only safe to replay for idempotent requests
+        if (policy && attempt < maxRetries && idempotent && !(err instanceof DevicApiError)) {
+          retryDelay = this.backoff(policy, attempt);
+        }
+      } finally {
+        if (timer) clearTimeout(timer);
+        callerSignal?.removeEventListener("abort", onCallerAbort);
+      }
+
+      await this.applyErrorMiddleware(chain, failure, request);
+      if (retryDelay == null) throw failure;
+      await sleep(retryDelay, callerSignal);
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoff(policy: Required<RetryPolicy>, attempt: number): number {
+    const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.random() * cap;
+  }
+
   /**
    * Make an authenticated request to the API
    */
@@ -57,51 +456,37 @@ export class DevicApiClient {
       ...options.headers,
     };
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
-
-    if (!response.ok) {
-      let errorData: ApiError;
-      try {
-        errorData = await response.json();
-      } catch {
-        errorData = {
-          statusCode: response.status,
-          message: response.statusText,
-        };
-      }
-      throw new DevicApiError(errorData);
-    }
-
-    // Handle responses that may have a wrapper structure
-    const data = await response.json();
-
-    // If the response has a data property, extract it (common wrapper pattern)
-    if (data && typeof data === "object" && "data" in data) {
-      return data.data as T;
-    }
-
-    return data as T;
+    return this.send<T>(
+      url,
+      { ...options, headers },
+      { timeout: this.config.timeout ?? DEFAULT_TIMEOUT_MS, read: readJson },
+    );
   }
 
   /**
    * Get all assistant specializations
    */
-  async getAssistants(external = false): Promise<AssistantSpecialization[]> {
+  async getAssistants(
+    external = false,
+    signal?: AbortSignal,
+  ): Promise<AssistantSpecialization[]> {
     const query = external ? "?external=true" : "";
     return this.request<AssistantSpecialization[]>(
       `/api/v1/assistants${query}`,
+      { signal },
     );
   }
 
   /**
    * Get a specific assistant specialization
    */
-  async getAssistant(identifier: string): Promise<AssistantSpecialization> {
+  async getAssistant(
+    identifier: string,
+    signal?: AbortSignal,
+  ): Promise<AssistantSpecialization> {
     return this.request<AssistantSpecialization>(
       `/api/v1/assistants/${identifier}`,
+      { signal },
     );
   }
 
@@ -129,12 +514,14 @@ export class DevicApiClient {
   async sendMessageAsync(
     assistantId: string,
     dto: ProcessMessageDto,
+    signal?: AbortSignal,
   ): Promise<AsyncResponse> {
     return this.request<AsyncResponse>(
       `/api/v1/assistants/${assistantId}/messages?async=true${dto.skipSummarization ? "&skipSummarization=true" : ""}`,
       {
         method: "POST",
         body: JSON.stringify(dto),
+        signal,
       },
     );
   }
@@ -143,8 +530,8 @@ export class DevicApiClient {
    * Get the list of unique tags used across this account's chat histories.
    * Backed by GET /api/v1/assistants/tags. Useful for autocompletion / filters.
    */
-  async getChatTags(): Promise<string[]> {
-    return this.request<string[]>(`/api/v1/assistants/tags`);
+  async getChatTags(signal?: AbortSignal): Promise<string[]> {
+    return this.request<string[]>(`/api/v1/assistants/tags`, { signal });
   }
 
   /**
@@ -153,9 +540,88 @@ export class DevicApiClient {
   async getRealtimeHistory(
     assistantId: string,
     chatUid: string,
+    signal?: AbortSignal,
   ): Promise<RealtimeChatHistory> {
     return this.request<RealtimeChatHistory>(
       `/api/v1/assistants/${assistantId}/chats/${chatUid}/realtime`,
+      { signal },
+    );
+  }
+
+  /**
+   * Stream real-time updates for an async chat over server-sent events.
+   * Resolves when the server closes the stream; rejects on HTTP or network
+   * errors (including when the server does not answer with an event stream).
+   * Abort the stream through `signal`. The request timeout does not apply to
+   * the open stream.
+   */
+  async streamRealtimeHistory(
+    assistantId: string,
+    chatUid: string,
+    onEvent: (event: RealtimeStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const url = `${this.config.baseUrl}/api/v1/assistants/${assistantId}/chats/${chatUid}/stream`;
+
+    const read = async (response: Response): Promise<void> => {
+      const contentType = response.headers.get("content-type") || "";
+      if (!response.body || !contentType.includes("text/event-stream")) {
+        throw new DevicApiError({
+          statusCode: response.status,
+          message: "Realtime stream not available",
+          error: "STREAM_UNAVAILABLE",
+        });
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      const dispatch = (frame: string) => {
+        let type = "message";
+        const dataLines: string[] = [];
+        for (const line of frame.split(/\r?\n/)) {
+          if (line.startsWith("event:")) {
+            type = line.slice(6).trim();
+          } else if (line.startsWith("data:")) {
+            dataLines.push(line.slice(5).replace(/^ /, ""));
+          }
+        }
+        if (dataLines.length === 0) return;
+        let data: unknown;
+        try {
+          data = JSON.parse(dataLines.join("\n"));
+        } catch {
+          // Ignore malformed frames (e.g. keep-alive comments)
+          return;
+        }
+        // Outside the try: handler errors must not pass for malformed frames
+        onEvent({ type, data } as RealtimeStreamEvent);
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const frames = buffer.split(/\r?\n\r?\n/);
+        buffer = frames.pop() ?? "";
+        frames.forEach(dispatch);
+      }
+      if (buffer.trim()) dispatch(buffer);
+    };
+
+    return this.send<void>(
+      url,
+      {
+        method: "GET",
+        headers: {
+          Accept: "text/event-stream",
+          Authorization: `Bearer ${this.config.apiKey}`,
+          "devic-api-source": "ui",
+        },
+        signal,
+      },
+      { timeout: 0, read },
     );
   }
 
@@ -166,6 +632,7 @@ export class DevicApiClient {
     assistantId: string,
     chatUid: string,
     options?: { tenantId?: string },
+    signal?: AbortSignal,
   ): Promise<ChatHistory> {
     const params = new URLSearchParams();
     if (options?.tenantId) {
@@ -174,6 +641,7 @@ export class DevicApiClient {
     const query = params.toString();
     return this.request<ChatHistory>(
       `/api/v1/assistants/${assistantId}/chats/${chatUid}${query ? `?${query}` : ""}`,
+      { signal },
     );
   }
 
@@ -187,7 +655,10 @@ export class DevicApiClient {
       subtenantId?: string;
       offset?: number;
       limit?: number;
+      /** List archived conversations instead of active ones */
+      archived?: boolean;
     },
+    signal?: AbortSignal,
   ): Promise<ListConversationsResponse> {
     const params = new URLSearchParams();
     if (options?.tenantId) {
@@ -202,10 +673,118 @@ export class DevicApiClient {
     if (options?.limit != null) {
       params.set("limit", String(options.limit));
     }
+    if (options?.archived != null) {
+      params.set("archived", String(options.archived));
+    }
     params.set("omitContent", "true");
     const query = params.toString();
     return this.request<ListConversationsResponse>(
       `/api/v1/assistants/${assistantId}/chats${query ? `?${query}` : ""}`,
+      { signal },
+    );
+  }
+
+  /**
+   * Search the content of all of the user's conversations with an assistant.
+   * Returns matching message snippets, most relevant first.
+   */
+  async searchConversations(
+    assistantId: string,
+    query: string,
+    options?: {
+      tenantId?: string;
+      subtenantId?: string;
+      offset?: number;
+      limit?: number;
+    },
+    signal?: AbortSignal,
+  ): Promise<SearchConversationsResponse> {
+    const params = new URLSearchParams();
+    params.set("q", query);
+    if (options?.tenantId) {
+      params.set("tenantId", options.tenantId);
+    }
+    if (options?.subtenantId) {
+      params.set("subtenantId", options.subtenantId);
+    }
+    if (options?.offset != null) {
+      params.set("offset", String(options.offset));
+    }
+    if (options?.limit != null) {
+      params.set("limit", String(options.limit));
+    }
+    return this.request<SearchConversationsResponse>(
+      `/api/v1/assistants/${assistantId}/chats/search?${params.toString()}`,
+      { signal },
+    );
+  }
+
+  /**
+   * Update a conversation's name, pinned or archived flag
+   */
+  async updateConversation(
+    assistantId: string,
+    chatUid: string,
+    updates: UpdateConversationDto,
+    signal?: AbortSignal,
+  ): Promise<ConversationSummary> {
+    return this.request<ConversationSummary>(
+      `/api/v1/assistants/${assistantId}/chats/${chatUid}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+        signal,
+      },
+    );
+  }
+
+  /**
+   * Rename a conversation
+   */
+  async renameConversation(
+    assistantId: string,
+    chatUid: string,
+    name: string,
+    signal?: AbortSignal,
+  ): Promise<ConversationSummary> {
+    return this.updateConversation(assistantId, chatUid, { name }, signal);
+  }
+
+  /**
+   * Pin or unpin a conversation
+   */
+  async pinConversation(
+    assistantId: string,
+    chatUid: string,
+    pinned: boolean,
+    signal?: AbortSignal,
+  ): Promise<ConversationSummary> {
+    return this.updateConversation(assistantId, chatUid, { pinned }, signal);
+  }
+
+  /**
+   * Archive or restore a conversation
+   */
+  async archiveConversation(
+    assistantId: string,
+    chatUid: string,
+    archived: boolean,
+    signal?: AbortSignal,
+  ): Promise<ConversationSummary> {
+    return this.updateConversation(assistantId, chatUid, { archived }, signal);
+  }
+
+  /**
+   * Permanently delete a conversation
+   */
+  async deleteConversation(
+    assistantId: string,
+    chatUid: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await this.request<unknown>(
+      `/api/v1/assistants/${assistantId}/chats/${chatUid}`,
+      { method: "DELETE", signal },
     );
   }
 
@@ -216,12 +795,14 @@ export class DevicApiClient {
     assistantId: string,
     chatUid: string,
     responses: ToolCallResponse[],
+    signal?: AbortSignal,
   ): Promise<AsyncResponse> {
     return this.request<AsyncResponse>(
       `/api/v1/assistants/${assistantId}/chats/${chatUid}/tool-response`,
       {
         method: "POST",
         body: JSON.stringify({ responses }),
+        signal,
       },
     );
   }
@@ -233,12 +814,14 @@ export class DevicApiClient {
     assistantId: string,
     chatUid: string,
     data: FeedbackSubmission,
+    signal?: AbortSignal,
   ): Promise<FeedbackEntry> {
     return this.request<FeedbackEntry>(
       `/api/v1/assistants/${assistantId}/chats/${chatUid}/feedback`,
       {
         method: "POST",
         body: JSON.stringify(data),
+        signal,
       },
     );
   }
@@ -249,9 +832,11 @@ export class DevicApiClient {
   async getChatFeedback(
     assistantId: string,
     chatUid: string,
+    signal?: AbortSignal,
   ): Promise<FeedbackEntry[]> {
     return this.request<FeedbackEntry[]>(
       `/api/v1/assistants/${assistantId}/chats/${chatUid}/feedback`,
+      { signal },
     );
   }
 
@@ -261,26 +846,35 @@ export class DevicApiClient {
   async getThreadById(
     threadId: string,
     withTasks = false,
+    signal?: AbortSignal,
   ): Promise<AgentThreadDto> {
     const query = withTasks ? "?withTasks=true" : "";
     return this.request<AgentThreadDto>(
       `/api/v1/agents/threads/${threadId}${query}`,
+      { signal },
     );
   }
 
   /**
    * Get agent details
    */
-  async getAgentDetails(agentId: string): Promise<AgentDto> {
-    return this.request<AgentDto>(`/api/v1/agents/${agentId}`);
+  async getAgentDetails(
+    agentId: string,
+    signal?: AbortSignal,
+  ): Promise<AgentDto> {
+    return this.request<AgentDto>(`/api/v1/agents/${agentId}`, { signal });
   }
 
   /**
    * Get an AI-generated explanation of a thread's execution
    */
-  async explainAgentThread(threadId: string): Promise<string> {
+  async explainAgentThread(
+    threadId: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
     return this.request<string>(
       `/api/v1/agents/threads/${threadId}/explain`,
+      { signal },
     );
   }
 
@@ -290,12 +884,14 @@ export class DevicApiClient {
   async pauseResumeThread(
     threadId: string,
     action: "paused" | "queued",
+    signal?: AbortSignal,
   ): Promise<void> {
     return this.request<void>(
       `/api/v1/agents/threads/${threadId}/pause-resume`,
       {
         method: "POST",
         body: JSON.stringify({ action }),
+        signal,
       },
     );
   }
@@ -308,6 +904,7 @@ export class DevicApiClient {
     approved: boolean,
     retry: boolean,
     message: string,
+    signal?: AbortSignal,
   ): Promise<void> {
     return this.request<void>(
       `/api/v1/agents/threads/${threadId}/approval`,
@@ -318,6 +915,7 @@ export class DevicApiClient {
           message,
           retry,
         }),
+        signal,
       },
     );
   }
@@ -328,12 +926,14 @@ export class DevicApiClient {
   async completeThread(
     threadId: string,
     completionState: string,
+    signal?: AbortSignal,
   ): Promise<void> {
     return this.request<void>(
       `/api/v1/agents/threads/${threadId}/complete`,
       {
         method: "POST",
         body: JSON.stringify({ state: completionState }),
+        signal,
       },
     );
   }
@@ -346,10 +946,11 @@ export class DevicApiClient {
   async stopChat(
     assistantId: string,
     chatUid: string,
+    signal?: AbortSignal,
   ): Promise<{ chatUid: string; message: string }> {
     return this.request<{ chatUid: string; message: string }>(
       `/api/v1/assistants/${assistantId}/chats/${chatUid}/stop`,
-      { method: "POST" },
+      { method: "POST", signal },
     );
   }
 
@@ -358,39 +959,29 @@ export class DevicApiClient {
    */
   async uploadFile(
     file: File,
+    signal?: AbortSignal,
   ): Promise<{ name: string; downloadUrl: string; fileType: string }> {
     const url = `${this.config.baseUrl}/api/v1/files/upload`;
 
     const formData = new FormData();
     formData.append("file", file);
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-        "devic-api-source": "ui",
+    return this.send<{ name: string; downloadUrl: string; fileType: string }>(
+      url,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          "devic-api-source": "ui",
+        },
+        body: formData,
+        signal,
       },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      let errorData: { statusCode: number; message: string };
-      try {
-        errorData = await response.json();
-      } catch {
-        errorData = {
-          statusCode: response.status,
-          message: response.statusText,
-        };
-      }
-      throw new DevicApiError(errorData);
-    }
-
-    const data = await response.json();
-    if (data && typeof data === "object" && "data" in data) {
-      return data.data;
-    }
-    return data;
+      {
+        timeout: this.config.uploadTimeout ?? DEFAULT_UPLOAD_TIMEOUT_MS,
+        read: readJson,
+      },
+    );
   }
 
   /**
@@ -409,6 +1000,7 @@ export class DevicApiClient {
       tenantId?: string;
       fileName?: string;
     },
+    signal?: AbortSignal,
   ): Promise<WhisperTranscriptionResponse> {
     const url = `${this.config.baseUrl}/api/v1/whisper`;
 
@@ -423,33 +1015,22 @@ export class DevicApiClient {
     if (options?.chatUid) formData.append("chatUid", options.chatUid);
     if (options?.tenantId) formData.append("tenantId", options.tenantId);
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-        "devic-api-source": "ui",
+    return this.send<WhisperTranscriptionResponse>(
+      url,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          "devic-api-source": "ui",
+        },
+        body: formData,
+        signal,
       },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      let errorData: { statusCode: number; message: string };
-      try {
-        errorData = await response.json();
-      } catch {
-        errorData = {
-          statusCode: response.status,
-          message: response.statusText,
-        };
-      }
-      throw new DevicApiError(errorData);
-    }
-
-    const data = await response.json();
-    if (data && typeof data === "object" && "data" in data) {
-      return data.data;
-    }
-    return data;
+      {
+        timeout: this.config.uploadTimeout ?? DEFAULT_UPLOAD_TIMEOUT_MS,
+        read: readJson,
+      },
+    );
   }
 
   /**
@@ -459,9 +1040,11 @@ export class DevicApiClient {
    */
   async getTranscript(
     transcriptId: string,
+    signal?: AbortSignal,
   ): Promise<WhisperTranscriptionResponse> {
     return this.request<WhisperTranscriptionResponse>(
       `/api/v1/whisper/${encodeURIComponent(transcriptId)}`,
+      { signal },
     );
   }
 
@@ -471,9 +1054,11 @@ export class DevicApiClient {
   async getChatHistoryContent(
     assistantId: string,
     chatUid: string,
+    signal?: AbortSignal,
   ): Promise<ChatMessage[]> {
     return this.request<ChatMessage[]>(
       `/api/v1/assistants/${assistantId}/chats/${chatUid}/content`,
+      { signal },
     );
   }
 
@@ -487,11 +1072,12 @@ export class DevicApiClient {
   async getTenantUsage(
     tenantId: string,
     subtenantId?: string,
+    signal?: AbortSignal,
   ): Promise<TenantUsage> {
     const path = subtenantId
       ? `/api/v1/tenant-usage/${encodeURIComponent(tenantId)}/subtenants/${encodeURIComponent(subtenantId)}`
       : `/api/v1/tenant-usage/${encodeURIComponent(tenantId)}`;
-    return this.request<TenantUsage>(path);
+    return this.request<TenantUsage>(path, { signal });
   }
 
   /**
@@ -501,6 +1087,7 @@ export class DevicApiClient {
   async getTenantUsageHistory(
     tenantId: string,
     options?: TenantUsageHistoryQuery,
+    signal?: AbortSignal,
   ): Promise<TenantUsageHistoryRow[]> {
     const params = new URLSearchParams();
     if (options?.subtenantId) params.set("subtenantId", options.subtenantId);
@@ -514,6 +1101,7 @@ export class DevicApiClient {
     const query = params.toString();
     return this.request<TenantUsageHistoryRow[]>(
       `/api/v1/tenant-usage/${encodeURIComponent(tenantId)}/history${query ? `?${query}` : ""}`,
+      { signal },
     );
   }
 }
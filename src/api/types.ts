@@ -53,6 +53,11 @@ export interface ChatMessage {
    * playback.
    */
   transcriptId?: string;
+  /**
+   * Client-side only: the message is queued in the offline outbox and has not
+   * reached the server yet.
+   */
+  pending?: boolean;
 }
 
 /**
@@ -74,21 +79,106 @@ export interface ModelInterfaceToolSchema {
     parameters: {
       type: 'object';
       properties: Record<string, any>;
-      required?: string[];
+      required?: readonly string[];
     };
   };
 }
 
+/**
+ * JSON Schema types understood by the tool argument validator
+ */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * The JSON Schema subset checked against tool arguments: `type`,
+ * `properties`, `required`, `enum`, `items` and `additionalProperties`.
+ * Other keywords are allowed and ignored.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  [keyword: string]: any;
+}
+
+type InferJsonSchemaType<T, S> = T extends 'string'
+  ? string
+  : T extends 'number' | 'integer'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends 'null'
+        ? null
+        : T extends 'array'
+          ? S extends { items: infer I }
+            ? InferJsonSchema<I>[]
+            : unknown[]
+          : T extends 'object'
+            ? S extends { properties: infer P }
+              ? InferJsonSchemaObject<
+                  P,
+                  S extends { required: readonly (infer R)[] } ? R : never
+                >
+              : Record<string, unknown>
+            : unknown;
+
+type InferJsonSchemaObject<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: InferJsonSchema<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: InferJsonSchema<P[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+/**
+ * TypeScript type of the values a JSON Schema accepts. Declare the schema
+ * `as const` (or through `defineModelInterfaceTool`) so literal types are kept.
+ *
+ * @example
+ * ```ts
+ * type Params = InferJsonSchema<{
+ *   type: 'object';
+ *   properties: { city: { type: 'string' }; unit: { enum: ['c', 'f'] } };
+ *   required: ['city'];
+ * }>; // { city: string; unit?: 'c' | 'f' }
+ * ```
+ */
+export type InferJsonSchema<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: readonly (infer T)[] }
+    ? InferJsonSchemaType<T, S>
+    : S extends { type: infer T }
+      ? InferJsonSchemaType<T, S>
+      : unknown;
+
+/**
+ * Parameters type of a tool, inferred from its schema
+ */
+export type InferToolParams<S extends ModelInterfaceToolSchema> = InferJsonSchema<
+  S['function']['parameters']
+>;
+
 /**
  * Props passed to a response widget component.
  * The widget is responsible for collecting the user's response and
  * calling `submit` with the payload to resolve the tool call.
  */
-export interface ResponseWidgetProps {
+export interface ResponseWidgetProps<TParams = any> {
   /** The tool call this widget is responding to */
   toolCall: ToolCall;
-  /** Parsed arguments from the tool call */
-  params: any;
+  /** Parsed arguments from the tool call, validated against the tool's schema */
+  params: TParams;
   /** Submit the tool response payload (sent as the tool call result to the model) */
   submit: (response: any) => void;
   /** Cancel the tool call. Sends an error response so the model can continue. */
@@ -110,13 +200,35 @@ export interface ResponseWidgetProps {
  * - `render: 'input'` replaces the chat input area with the widget
  *   while it is pending. The text input is disabled until submission.
  */
-export interface ResponseWidgetConfig {
+export interface ResponseWidgetConfig<TParams = any> {
   /** Where to render the widget */
   render: 'inline' | 'input';
   /** The widget component */
-  component: React.ComponentType<ResponseWidgetProps>;
+  component: React.ComponentType<ResponseWidgetProps<TParams>>;
 }
 
+/**
+ * Second argument of a client-side tool's callback
+ */
+export interface ToolCallContext {
+  /** The model's tool call being answered */
+  toolCall: ToolCall;
+  /**
+   * Aborted when the call times out or the conversation is stopped or
+   * cleared. Pass it to `fetch` and other cancellable work.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Whether a client-side tool asks the user before its callback runs:
+ * `'always'`, `'never'`, or a predicate on the call's params (`true` to ask)
+ */
+export type ToolConfirmationPolicy<TParams = any> =
+  | 'always'
+  | 'never'
+  | ((params: TParams) => boolean);
+
 /**
  * Model interface tool definition for client-side tools.
  *
@@ -124,13 +236,33 @@ export interface ResponseWidgetConfig {
  * the model invokes the tool) or a `responseWidget` (renders UI for
  * the user to produce the tool response). Providing both is an error.
  */
-export interface ModelInterfaceTool {
+export interface ModelInterfaceTool<TParams = any> {
   toolName: string;
   schema: ModelInterfaceToolSchema;
   /** Executed automatically when the model calls this tool */
-  callback?: (params: any) => Promise<any> | any;
+  callback?: (params: TParams, context: ToolCallContext) => Promise<any> | any;
   /** Interactive widget that collects the user's tool response */
-  responseWidget?: ResponseWidgetConfig;
+  responseWidget?: ResponseWidgetConfig<TParams>;
+  /**
+   * Check the call's arguments against `schema.function.parameters` before
+   * running the callback or rendering the widget. Invalid arguments are
+   * answered with a validation error so the model can retry.
+   * @default true
+   */
+  validateArguments?: boolean;
+  /**
+   * Ask the user to approve each call before the callback runs (e.g. tools
+   * that delete records or send emails). A denial is returned to the model
+   * as the tool response, with the user's reason. Widget tools already wait
+   * for the user and ignore it.
+   * @default 'never'
+   */
+  requiresConfirmation?: ToolConfirmationPolicy<TParams>;
+  /**
+   * Milliseconds the callback may run before the call is aborted and
+   * answered with a timeout error. Overrides the chat's `toolTimeoutMs`.
+   */
+  timeoutMs?: number;
 }
 
 /**
@@ -261,6 +393,42 @@ export interface RealtimeChatHistory {
   limitExceeded?: TenantLimitExceeded;
 }
 
+/**
+ * Transport used to follow an async chat while the assistant is processing.
+ * - `polling`: re-fetch the realtime history at a fixed interval.
+ * - `sse`: consume the server-sent-events stream of incremental updates,
+ *   falling back to polling when the stream is unavailable or drops.
+ */
+export type RealtimeTransport = 'polling' | 'sse';
+
+/**
+ * A single event from the realtime SSE stream
+ * (GET /api/v1/assistants/:id/chats/:chatUid/stream).
+ *
+ * The server opens the stream with a `snapshot` of the full realtime history,
+ * then sends incremental events:
+ * - `message`: a new or updated message (upserted by uid)
+ * - `token`: a text delta appended to the content of message `uid`
+ * - `status`: a status change, with the fields that accompany it
+ */
+export type RealtimeStreamEvent =
+  | { type: 'snapshot'; data: RealtimeChatHistory }
+  | { type: 'message'; data: ChatMessage }
+  | { type: 'token'; data: { uid: string; delta: string } }
+  | {
+      type: 'status';
+      data: Pick<RealtimeChatHistory, 'status'> &
+        Partial<
+          Pick<
+            RealtimeChatHistory,
+            | 'lastUpdatedAt'
+            | 'pendingToolCalls'
+            | 'handedOffSubThreadId'
+            | 'limitExceeded'
+          >
+        >;
+    };
+
 /**
  * A single usage rule with its current consumption (from GET
  * /api/v1/tenant-usage/:tenantId[/subtenants/:subtenantId]).
@@ -392,6 +560,44 @@ export interface ConversationSummary {
   name?: string;
   creationTimestampMs: number;
   lastEditTimestampMs?: number;
+  /** Pinned conversations are listed first */
+  pinned?: boolean;
+  /** Archived conversations are hidden from the default list */
+  archived?: boolean;
+}
+
+/**
+ * A message matching a conversation search query
+ */
+export interface ConversationSearchMatch {
+  chatUID: string;
+  /** Conversation name, if any */
+  name?: string;
+  /** Uid of the matching message */
+  messageUid: string;
+  role: ChatMessage['role'];
+  /** Excerpt of the message around the match */
+  snippet: string;
+  /** Character ranges of the matched terms within `snippet` */
+  highlights?: Array<{ start: number; end: number }>;
+  /** Timestamp of the matching message */
+  timestamp: number;
+}
+
+export interface SearchConversationsResponse {
+  results: ConversationSearchMatch[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Conversation fields that can be changed after creation
+ */
+export interface UpdateConversationDto {
+  name?: string;
+  pinned?: boolean;
+  archived?: boolean;
 }
 
 export interface ListConversationsResponse {
@@ -2,10 +2,16 @@ import React, { forwardRef, useImperativeHandle, useState, useMemo, useEffect, u
 import { useAICommandBar, formatShortcut } from './useAICommandBar';
 import { MessageActions } from '../Feedback';
 import { useOptionalDevicContext } from '../../provider';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { useDevicDirection } from '../../hooks/useDevicDirection';
+import { useDevicTheme } from '../../hooks/useDevicTheme';
+import { useDevicShadowDom } from '../../hooks/useDevicShadowDom';
+import { applyCssVars, themeToCssVars } from '../../theme';
 import { DevicApiClient } from '../../api/client';
 import type { AICommandBarProps, AICommandBarHandle, AICommandBarOptions, ToolCallSummary } from './AICommandBar.types';
 import type { ToolGroupCall } from '../../api/types';
 import { segmentToolCalls } from '../../utils/toolGroups';
+import { DevicShadowRoot, isEventInside } from '../../shadow';
 import type { FeedbackState, FeedbackTheme } from '../Feedback';
 import './AICommandBar.css';
 import '../Feedback/Feedback.css';
@@ -50,15 +56,18 @@ function adjustColor(color: string, amount: number): string {
 const DEFAULT_OPTIONS: Required<AICommandBarOptions> = {
   position: 'inline',
   fixedPlacement: {},
+  direction: 'auto',
   shortcut: '',
   showShortcutHint: true,
-  placeholder: 'Ask AI...',
+  placeholder: undefined as any,
   icon: undefined as any,
   width: 400,
   maxWidth: '100%',
   zIndex: 9999,
   showResultCard: true,
   resultCardMaxHeight: 300,
+  theme: undefined as any,
+  shadowDom: undefined as any,
   color: '#3b82f6',
   backgroundColor: '#ffffff',
   textColor: '#1f2937',
@@ -71,7 +80,7 @@ const DEFAULT_OPTIONS: Required<AICommandBarOptions> = {
   animationDuration: 200,
   toolRenderers: undefined as any,
   toolIcons: undefined as any,
-  processingMessage: 'Processing...',
+  processingMessage: undefined as any,
   enableHistory: true,
   maxHistoryItems: 50,
   historyStorageKey: 'devic-command-bar-history',
@@ -121,9 +130,27 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
       className,
     } = props;
 
+    const { t } = useDevicI18n();
+
+    // Localised text defaults come from the provider's locale
     const mergedOptions = useMemo(
-      () => ({ ...DEFAULT_OPTIONS, ...options }),
-      [options]
+      () => ({
+        ...DEFAULT_OPTIONS,
+        placeholder: t('commandBar.placeholder'),
+        processingMessage: t('common.processing'),
+        ...options,
+      }),
+      [options, t]
+    );
+    const direction = useDevicDirection(mergedOptions.direction);
+    const theme = useDevicTheme(mergedOptions.theme);
+    const shadowDom = useDevicShadowDom(mergedOptions.shadowDom);
+
+    // With a theme, only explicitly passed styling options override its
+    // tokens; without one the defaults apply as before
+    const styleOptions: AICommandBarOptions = useMemo(
+      () => (theme ? { ...options } : mergedOptions),
+      [theme, options, mergedOptions]
     );
 
     const hook = useAICommandBar({
@@ -173,6 +200,7 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
     useEffect(() => {
       if (resolvedApiKey && !feedbackClientRef.current) {
         feedbackClientRef.current = new DevicApiClient({
+          ...context?.clientOptions,
           apiKey: resolvedApiKey,
           baseUrl: resolvedBaseUrl,
         });
@@ -215,26 +243,20 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
       const el = containerRef.current;
       if (!el) return;
 
-      const vars: [string, string | undefined][] = [
-        ['--devic-cmd-bg-override', mergedOptions.backgroundColor],
-        ['--devic-cmd-text-override', mergedOptions.textColor],
-        ['--devic-cmd-border-override', mergedOptions.borderColor],
-        ['--devic-cmd-primary-override', mergedOptions.color],
-        ['--devic-cmd-font-family-override', mergedOptions.fontFamily],
-        ['--devic-cmd-font-size-override', typeof mergedOptions.fontSize === 'number' ? `${mergedOptions.fontSize}px` : mergedOptions.fontSize],
-        ['--devic-cmd-radius-override', typeof mergedOptions.borderRadius === 'number' ? `${mergedOptions.borderRadius}px` : mergedOptions.borderRadius],
-        ['--devic-cmd-shadow-override', mergedOptions.boxShadow],
+      const { fontSize, borderRadius } = styleOptions;
+      applyCssVars(el, [
+        ...Object.entries(themeToCssVars(theme)),
+        ['--devic-cmd-bg-override', styleOptions.backgroundColor],
+        ['--devic-cmd-text-override', styleOptions.textColor],
+        ['--devic-cmd-border-override', styleOptions.borderColor],
+        ['--devic-cmd-primary-override', styleOptions.color],
+        ['--devic-cmd-font-family-override', styleOptions.fontFamily],
+        ['--devic-cmd-font-size-override', typeof fontSize === 'number' ? `${fontSize}px` : fontSize],
+        ['--devic-cmd-radius-override', typeof borderRadius === 'number' ? `${borderRadius}px` : borderRadius],
+        ['--devic-cmd-shadow-override', styleOptions.boxShadow],
         ['--devic-cmd-animation-duration-override', `${mergedOptions.animationDuration}ms`],
-      ];
-
-      for (const [name, value] of vars) {
-        if (value) {
-          el.style.setProperty(name, value);
-        } else {
-          el.style.removeProperty(name);
-        }
-      }
-    }, [mergedOptions]);
+      ]);
+    }, [theme, styleOptions, mergedOptions.animationDuration]);
 
     // Click-outside detection to close the bar
     useEffect(() => {
@@ -242,7 +264,7 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
 
       const handleClickOutside = (e: MouseEvent) => {
         const container = containerRef.current;
-        if (container && !container.contains(e.target as Node)) {
+        if (container && !isEventInside(e, container)) {
           // Reset if there's a result, otherwise just close
           if (hook.result) {
             hook.reset();
@@ -258,10 +280,10 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
 
     // Feedback theme derived from command bar options
     const feedbackTheme = useMemo((): FeedbackTheme | undefined => {
-      const bg = mergedOptions.backgroundColor;
-      const text = mergedOptions.textColor;
-      const border = mergedOptions.borderColor;
-      const primary = mergedOptions.color;
+      const bg = styleOptions.backgroundColor;
+      const text = styleOptions.textColor;
+      const border = styleOptions.borderColor;
+      const primary = styleOptions.color;
 
       // Only create theme if we have some custom colors
       if (!bg && !text) return undefined;
@@ -277,7 +299,7 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
         primaryColor: primary,
         primaryHoverColor: primary ? (isDark ? adjustColor(primary, 20) : adjustColor(primary, -20)) : undefined,
       };
-    }, [mergedOptions.backgroundColor, mergedOptions.textColor, mergedOptions.borderColor, mergedOptions.color]);
+    }, [styleOptions.backgroundColor, styleOptions.textColor, styleOptions.borderColor, styleOptions.color]);
 
     // Container styles
     const containerStyle = useMemo(() => {
@@ -288,11 +310,13 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
       };
 
       if (mergedOptions.position === 'fixed') {
-        const { top, right, bottom, left } = mergedOptions.fixedPlacement || {};
+        const { top, right, bottom, left, start, end } = mergedOptions.fixedPlacement || {};
         if (top !== undefined) style.top = typeof top === 'number' ? `${top}px` : top;
         if (right !== undefined) style.right = typeof right === 'number' ? `${right}px` : right;
         if (bottom !== undefined) style.bottom = typeof bottom === 'number' ? `${bottom}px` : bottom;
         if (left !== undefined) style.left = typeof left === 'number' ? `${left}px` : left;
+        if (start !== undefined) style.insetInlineStart = typeof start === 'number' ? `${start}px` : start;
+        if (end !== undefined) style.insetInlineEnd = typeof end === 'number' ? `${end}px` : end;
       }
 
       return style;
@@ -395,21 +419,23 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
       });
     };
 
-    return (
+    const content = (
       <div
         ref={containerRef}
         className={`devic-command-bar-container ${className || ''}`}
         data-position={mergedOptions.position}
         data-visible={hook.isVisible}
         style={containerStyle}
+        dir={direction}
       >
         {/* Commands dropdown */}
         {hook.showingCommands && hook.filteredCommands.length > 0 && (
           <div className="devic-command-bar-dropdown">
             <div className="devic-command-bar-dropdown-header">
-              <span>Commands</span>
+              <span>{t('commandBar.commands')}</span>
               <span className="devic-command-bar-dropdown-hint">
-                <kbd>↑</kbd><kbd>↓</kbd> to navigate, <kbd>Enter</kbd> to select
+                <kbd>↑</kbd><kbd>↓</kbd> {t('commandBar.navigateHint')} <kbd>Enter</kbd>{' '}
+                {t('commandBar.selectHint')}
               </span>
             </div>
             <div className="devic-command-bar-dropdown-list">
@@ -436,7 +462,7 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
         {hook.showingHistory && (
           <div className="devic-command-bar-dropdown">
             <div className="devic-command-bar-dropdown-header">
-              <span>Command History</span>
+              <span>{t('commandBar.history')}</span>
               {hook.history.length > 0 && (
                 <button
                   className="devic-command-bar-dropdown-clear"
@@ -446,13 +472,13 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
                   }}
                   type="button"
                 >
-                  Clear
+                  {t('commandBar.clearHistory')}
                 </button>
               )}
             </div>
             <div className="devic-command-bar-dropdown-list" style={resultMessageStyle}>
               {hook.history.length === 0 ? (
-                <div className="devic-command-bar-dropdown-empty">No history yet</div>
+                <div className="devic-command-bar-dropdown-empty">{t('commandBar.noHistory')}</div>
               ) : (
                 hook.history.map((item, index) => (
                   <div
@@ -485,7 +511,7 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
                   onClick={() => setToolsExpanded(!toolsExpanded)}
                 >
                   <ChevronIcon className="devic-command-bar-result-tools-chevron" />
-                  <span>Tool calls</span>
+                  <span>{t('commandBar.toolCalls')}</span>
                   <span className="devic-command-bar-result-tools-count">
                     {hook.result.toolCalls.length}
                   </span>
@@ -502,7 +528,7 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
             {/* Message section */}
             <div className="devic-command-bar-result-message" style={resultMessageStyle}>
               {hook.result.message.content?.message || (
-                <span className="devic-command-bar-result-empty">No response</span>
+                <span className="devic-command-bar-result-empty">{t('commandBar.noResponse')}</span>
               )}
             </div>
 
@@ -565,6 +591,8 @@ export const AICommandBar = forwardRef<AICommandBarHandle, AICommandBarProps>(
         </div>
       </div>
     );
+
+    return shadowDom ? <DevicShadowRoot options={shadowDom}>{content}</DevicShadowRoot> : content;
   }
 );
 
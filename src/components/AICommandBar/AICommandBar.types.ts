@@ -1,4 +1,7 @@
 import type { ChatMessage, ModelInterfaceTool, ToolGroupConfig } from '../../api/types';
+import type { DevicDirectionOption } from '../../i18n';
+import type { DevicThemeOption } from '../../theme';
+import type { DevicShadowDomOption } from '../../shadow';
 
 /**
  * Command definition for the command bar
@@ -37,15 +40,32 @@ export interface AICommandBarOptions {
   position?: 'inline' | 'fixed';
 
   /**
-   * Placement when position is 'fixed'. Use CSS values.
+   * Placement when position is 'fixed'. Use CSS values. `start` and `end`
+   * follow the writing direction.
    */
   fixedPlacement?: {
     top?: number | string;
     right?: number | string;
     bottom?: number | string;
     left?: number | string;
+    start?: number | string;
+    end?: number | string;
   };
 
+  /**
+   * Writing direction of the bar. Defaults to the DevicProvider's direction.
+   * @default 'auto'
+   */
+  direction?: DevicDirectionOption;
+
+  /**
+   * Render the bar inside a shadow root with the library stylesheet
+   * injected there, isolating it from the page's CSS (`className` no longer
+   * applies). The keyboard shortcut keeps working from anywhere on the
+   * page. Defaults to the DevicProvider's `shadowDom`.
+   */
+  shadowDom?: DevicShadowDomOption;
+
   /**
    * Keyboard shortcut to toggle the command bar (e.g., "cmd+j", "ctrl+k")
    */
@@ -59,7 +79,7 @@ export interface AICommandBarOptions {
 
   /**
    * Placeholder text for the input
-   * @default 'Ask AI...'
+   * @default 'Ask AI...' (localised)
    */
   placeholder?: string;
 
@@ -99,6 +119,13 @@ export interface AICommandBarOptions {
 
   // Theming options
 
+  /**
+   * Theme of the bar: a preset, `'auto'`, or token overrides applied on top
+   * of the DevicProvider's theme. With a theme, only the colour, font and
+   * shadow options passed explicitly override its tokens.
+   */
+  theme?: DevicThemeOption;
+
   /**
    * Primary color (used for accents)
    */
@@ -165,7 +192,7 @@ export interface AICommandBarOptions {
 
   /**
    * Message shown while processing (before any tools are called)
-   * @default 'Processing...'
+   * @default 'Processing...' (localised)
    */
   processingMessage?: string;
 
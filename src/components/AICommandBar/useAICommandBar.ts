@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useOptionalDevicContext } from '../../provider';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
 import { DevicApiClient } from '../../api/client';
 import { usePolling } from '../../hooks/usePolling';
 import { useModelInterface } from '../../hooks/useModelInterface';
+import { useRegisteredTools } from '../../hooks/useRegisterTool';
 import type {
   ChatMessage,
   ModelInterfaceTool,
@@ -159,6 +161,7 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
 
   // Get context
   const context = useOptionalDevicContext();
+  const { t } = useDevicI18n();
   const apiKey = propsApiKey || context?.apiKey;
   const baseUrl = propsBaseUrl || context?.baseUrl || 'https://api.devic.ai';
   const resolvedTenantId = tenantId || context?.tenantId;
@@ -214,9 +217,9 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
   // Built-in history command
   const historyCommand: AICommandBarCommand = useMemo(() => ({
     keyword: 'history',
-    description: 'Show command history',
+    description: t('commandBar.historyCommand'),
     message: '', // Special handling
-  }), []);
+  }), [t]);
 
   // All available commands (user commands + built-in)
   const allCommands = useMemo(() => {
@@ -268,22 +271,23 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
   // API client
   const clientRef = useRef<DevicApiClient | null>(null);
   if (!clientRef.current && apiKey) {
-    clientRef.current = new DevicApiClient({ apiKey, baseUrl });
+    clientRef.current = new DevicApiClient({ ...context?.clientOptions, apiKey, baseUrl });
   }
 
   useEffect(() => {
     if (clientRef.current && apiKey) {
-      clientRef.current.setConfig({ apiKey, baseUrl });
+      clientRef.current.setConfig({ ...context?.clientOptions, apiKey, baseUrl });
     }
-  }, [apiKey, baseUrl]);
+  }, [apiKey, baseUrl, context?.clientOptions]);
 
-  // Model interface
+  // Model interface (own tools plus those registered under the provider)
+  const tools = useRegisteredTools(modelInterfaceTools);
   const {
     toolSchemas,
     handleToolCalls: executeToolCalls,
     extractPendingToolCalls,
   } = useModelInterface({
-    tools: modelInterfaceTools,
+    tools,
     onToolExecute: onToolCall,
   });
 
@@ -475,7 +479,19 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
       if (pendingCalls.length === 0) return;
 
       try {
-        const { responses } = await executeToolCalls(pendingCalls);
+        const { responses: executed, confirmationCalls } = await executeToolCalls(pendingCalls);
+        // The command bar has no approve/deny UI: answer calls that need
+        // confirmation with an error so the turn can finish
+        const responses = [
+          ...executed,
+          ...confirmationCalls.map((call) => ({
+            tool_call_id: call.toolCall.id,
+            content: {
+              error: 'This tool requires user confirmation, which is not available here',
+            },
+            role: 'tool' as const,
+          })),
+        ];
         if (responses.length > 0) {
           await clientRef.current.sendToolResponses(assistantId, chatUid, responses);
           setShouldPoll(true);
@@ -499,7 +515,7 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
       return clientRef.current.getRealtimeHistory(assistantId, chatUid);
     },
     {
-      interval: 1000,
+      interval: context?.pollingInterval ?? 1000,
       enabled: shouldPoll,
       stopStatuses: ['completed', 'error', 'waiting_for_tool_response'],
       onUpdate: async (data: RealtimeChatHistory) => {
@@ -602,6 +618,7 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
       onSubmitRef.current?.(msg);
 
       try {
+        const applicationState = context?.collectApplicationState();
         const dto = {
           message: msg,
           chatUid: chatUid || undefined,
@@ -609,6 +626,7 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
           tenantId: resolvedTenantId,
           ...(resolvedTags.length > 0 && { tags: resolvedTags }),
           ...(toolSchemas.length > 0 && { tools: toolSchemas }),
+          ...(applicationState && { applicationState }),
         };
 
         const response = await clientRef.current.sendMessageAsync(assistantId, dto);
@@ -625,7 +643,7 @@ export function useAICommandBar(options: UseAICommandBarOptions): UseAICommandBa
         onErrorRef.current?.(error);
       }
     },
-    [inputValue, chatUid, assistantId, resolvedTenantId, resolvedTenantMetadata, resolvedTags, toolSchemas, addToHistory]
+    [inputValue, chatUid, assistantId, resolvedTenantId, resolvedTenantMetadata, resolvedTags, toolSchemas, context?.collectApplicationState, addToHistory]
   );
 
   // Update submit ref for use in selectCommand
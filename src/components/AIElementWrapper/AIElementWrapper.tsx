@@ -10,6 +10,12 @@ import React, {
 } from 'react';
 import { createPortal } from 'react-dom';
 import { useOptionalDevicContext } from '../../provider';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { useDevicDirection } from '../../hooks/useDevicDirection';
+import { useDevicTheme } from '../../hooks/useDevicTheme';
+import { themeToCssVars } from '../../theme';
+import { resolveInlineSide } from '../../i18n';
+import type { DevicDirection } from '../../i18n';
 import { useAIElementWrapper } from './useAIElementWrapper';
 import {
   getActiveWrapper,
@@ -17,6 +23,8 @@ import {
   subscribeActiveWrapper,
 } from './activeWrapperRegistry';
 import { generateId } from '../../utils';
+import { getSelectionFor, isEventInside } from '../../shadow';
+import { usePortalContainer } from '../../hooks/usePortalContainer';
 import type {
   AIElementWrapperHandle,
   AIElementWrapperOptions,
@@ -26,9 +34,11 @@ import type {
 import './AIElementWrapper.css';
 
 const DEFAULT_OPTIONS: Required<
-  Omit<AIElementWrapperOptions, 'color' | 'drawerPromptPrefix' | 'defaultInlinePrompt'>
+  Omit<AIElementWrapperOptions, 'color' | 'theme' | 'shadowDom' | 'drawerPromptPrefix' | 'defaultInlinePrompt'>
 > & {
   color?: string;
+  theme?: AIElementWrapperOptions['theme'];
+  shadowDom?: AIElementWrapperOptions['shadowDom'];
   drawerPromptPrefix?: AIElementWrapperOptions['drawerPromptPrefix'];
   defaultInlinePrompt?: string;
 } = {
@@ -36,11 +46,13 @@ const DEFAULT_OPTIONS: Required<
   triggerPlacement: 'bottom',
   tooltipPlacement: 'bottom',
   tooltipWidth: 360,
-  triggerLabel: 'Preguntar a IA',
+  triggerLabel: undefined as any,
   highlightOnInteract: true,
   zIndex: 2147483000,
   triggerBorderRadius: 999,
   color: undefined,
+  theme: undefined,
+  shadowDom: undefined,
   drawerPromptPrefix: undefined,
   defaultInlinePrompt: undefined,
 };
@@ -56,8 +68,19 @@ function rectFromDom(rect: DOMRect): AnchorRect {
   return { top: rect.top, left: rect.left, width: rect.width, height: rect.height };
 }
 
-function placementStyle(
+type PhysicalPlacement = Exclude<AIElementWrapperPlacement, 'start' | 'end'>;
+
+function physicalPlacement(
   placement: AIElementWrapperPlacement,
+  direction: DevicDirection
+): PhysicalPlacement {
+  return placement === 'start' || placement === 'end'
+    ? resolveInlineSide(placement, direction)
+    : placement;
+}
+
+function placementStyle(
+  placement: PhysicalPlacement,
   anchor: AnchorRect,
   offset = 8
 ): React.CSSProperties {
@@ -110,7 +133,16 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
       children,
     } = props;
 
-    const merged = useMemo(() => ({ ...DEFAULT_OPTIONS, ...options }), [options]);
+    const { t } = useDevicI18n();
+    const merged = useMemo(
+      () => ({ ...DEFAULT_OPTIONS, triggerLabel: t('elementWrapper.trigger'), ...options }),
+      [options, t]
+    );
+    const direction = useDevicDirection();
+    const theme = useDevicTheme(merged.theme);
+    const portalTarget = usePortalContainer(merged.shadowDom);
+    const triggerPlacement = physicalPlacement(merged.triggerPlacement, direction);
+    const tooltipPlacement = physicalPlacement(merged.tooltipPlacement, direction);
 
     // Stable instance ID used by the active-wrapper registry (singleton)
     const wrapperIdRef = useRef<string>('');
@@ -220,8 +252,8 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
         return cont.contains(node);
       };
       const recompute = () => {
-        const sel = window.getSelection();
         const cont = containerRef.current;
+        const sel = getSelectionFor(cont);
         if (!sel || sel.isCollapsed || !cont || sel.rangeCount === 0) {
           setSelectionRect(null);
           return;
@@ -257,12 +289,12 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
       if (merged.defaultInlinePrompt) return merged.defaultInlinePrompt;
       // Use selected text if available, otherwise fall back to label
       if (merged.showOn === 'select') {
-        const sel = window.getSelection();
+        const sel = getSelectionFor(containerRef.current);
         const txt = sel?.toString().trim();
-        if (txt) return `Cuéntame más sobre: "${txt}"`;
+        if (txt) return t('elementWrapper.tellMeMore', { subject: `"${txt}"` });
       }
-      return `Cuéntame más sobre: ${label}`;
-    }, [getPrompt, data, label, merged.defaultInlinePrompt, merged.showOn]);
+      return t('elementWrapper.tellMeMore', { subject: label });
+    }, [getPrompt, data, label, merged.defaultInlinePrompt, merged.showOn, t]);
 
     const handleActivate = useCallback(() => {
       onActivate?.();
@@ -292,7 +324,7 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
       // For 'select' showOn, prefer selected text as label content fallback
       let finalLabel = label;
       if (merged.showOn === 'select') {
-        const txt = window.getSelection()?.toString().trim();
+        const txt = getSelectionFor(containerRef.current)?.toString().trim();
         if (txt) finalLabel = txt;
       }
       context.addReference({ label: finalLabel, content: referenceContent, data });
@@ -332,11 +364,10 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
         const t = tooltipRef.current;
         const c = containerRef.current;
         const tr = triggerRef.current;
-        const target = e.target as Node;
         if (
-          t && !t.contains(target) &&
-          c && !c.contains(target) &&
-          (!tr || !tr.contains(target))
+          t && !isEventInside(e, t) &&
+          c && !isEventInside(e, c) &&
+          !isEventInside(e, tr)
         ) {
           closeInline();
         }
@@ -350,24 +381,29 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
     // Tooltip anchor: container rect (or selection if select mode)
     const tooltipAnchor = merged.showOn === 'select' && selectionRect ? selectionRect : containerRect;
 
+    // Trigger and tooltip are portaled, so each carries the theme variables
+    const themeStyle = useMemo(() => themeToCssVars(theme) as React.CSSProperties, [theme]);
+
     const triggerStyle = useMemo<React.CSSProperties>(() => {
       if (!triggerAnchor) return { display: 'none' };
       return {
-        ...placementStyle(merged.triggerPlacement, triggerAnchor),
+        ...themeStyle,
+        ...placementStyle(triggerPlacement, triggerAnchor),
         zIndex: merged.zIndex + 1,
         pointerEvents: 'auto',
       };
-    }, [triggerAnchor, merged.triggerPlacement, merged.zIndex]);
+    }, [themeStyle, triggerAnchor, triggerPlacement, merged.zIndex]);
 
     const tooltipStyle = useMemo<React.CSSProperties>(() => {
       const w = typeof merged.tooltipWidth === 'number' ? `${merged.tooltipWidth}px` : merged.tooltipWidth;
       if (!tooltipAnchor) return { display: 'none' };
       return {
-        ...placementStyle(merged.tooltipPlacement, tooltipAnchor),
+        ...themeStyle,
+        ...placementStyle(tooltipPlacement, tooltipAnchor),
         width: w,
         zIndex: merged.zIndex,
       };
-    }, [tooltipAnchor, merged.tooltipPlacement, merged.tooltipWidth, merged.zIndex]);
+    }, [themeStyle, tooltipAnchor, tooltipPlacement, merged.tooltipWidth, merged.zIndex]);
 
     const renderInlineContent = () => {
       if (inline.error) {
@@ -377,7 +413,7 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
         return (
           <div className="devic-aiwrap-processing">
             <span className="devic-aiwrap-spinner" aria-hidden="true" />
-            <span>Pensando…</span>
+            <span>{t('elementWrapper.thinking')}</span>
           </div>
         );
       }
@@ -411,8 +447,6 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
       </button>
     );
 
-    const portalTarget = typeof document !== 'undefined' ? document.body : null;
-
     return (
       <span
         ref={containerRef}
@@ -430,6 +464,7 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
               ref={triggerRef}
               className="devic-aiwrap-trigger-wrapper"
               style={triggerStyle}
+              dir={direction}
               onMouseEnter={() => setHoveredImmediately(true)}
               onMouseLeave={() => setHoveredImmediately(false)}
               onMouseDown={(e) => {
@@ -452,7 +487,8 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
               ref={tooltipRef}
               className="devic-aiwrap-tooltip"
               style={tooltipStyle}
-              data-placement={merged.tooltipPlacement}
+              data-placement={tooltipPlacement}
+              dir={direction}
             >
               <div className="devic-aiwrap-tooltip-header">
                 <span className="devic-aiwrap-tooltip-label">{label}</span>
@@ -460,7 +496,7 @@ export const AIElementWrapper = forwardRef<AIElementWrapperHandle, AIElementWrap
                   type="button"
                   className="devic-aiwrap-tooltip-close"
                   onClick={closeInline}
-                  aria-label="Cerrar"
+                  aria-label={t('common.close')}
                 >
                   <CloseIcon />
                 </button>
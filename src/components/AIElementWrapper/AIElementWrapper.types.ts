@@ -1,4 +1,6 @@
 import type { ChatMessage, ModelInterfaceTool } from '../../api/types';
+import type { DevicThemeOption } from '../../theme';
+import type { DevicShadowDomOption } from '../../shadow';
 
 /**
  * Behavior when the trigger is activated.
@@ -17,9 +19,10 @@ export type AIElementWrapperBehavior = 'inline' | 'drawer';
 export type AIElementWrapperShowOn = 'hover' | 'click' | 'always' | 'select';
 
 /**
- * Tooltip placement (also used for trigger placement).
+ * Tooltip placement (also used for trigger placement). 'start' and 'end'
+ * follow the writing direction.
  */
-export type AIElementWrapperPlacement = 'top' | 'bottom' | 'left' | 'right';
+export type AIElementWrapperPlacement = 'top' | 'bottom' | 'left' | 'right' | 'start' | 'end';
 
 /**
  * Options for AIElementWrapper.
@@ -51,7 +54,7 @@ export interface AIElementWrapperOptions {
 
   /**
    * Label shown inside the default trigger pill.
-   * @default 'Preguntar a IA'
+   * @default 'Ask AI' (localised)
    */
   triggerLabel?: string;
 
@@ -72,6 +75,19 @@ export interface AIElementWrapperOptions {
    */
   color?: string;
 
+  /**
+   * Theme of the trigger and tooltip: a preset, `'auto'`, or token
+   * overrides applied on top of the DevicProvider's theme.
+   */
+  theme?: DevicThemeOption;
+
+  /**
+   * Render the trigger and tooltip in an isolated shadow DOM layer with the
+   * library stylesheet. Inside an isolated ChatDrawer or AICommandBar they
+   * always use its shadow root. Defaults to the DevicProvider's `shadowDom`.
+   */
+  shadowDom?: DevicShadowDomOption;
+
   /**
    * Border radius for the trigger pill and tooltip.
    * @default 999
@@ -70,13 +70,13 @@ export function useAIElementWrapper(
 
   const clientRef = useRef<DevicApiClient | null>(null);
   if (!clientRef.current && apiKey) {
-    clientRef.current = new DevicApiClient({ apiKey, baseUrl });
+    clientRef.current = new DevicApiClient({ ...context?.clientOptions, apiKey, baseUrl });
   }
   useEffect(() => {
     if (clientRef.current && apiKey) {
-      clientRef.current.setConfig({ apiKey, baseUrl });
+      clientRef.current.setConfig({ ...context?.clientOptions, apiKey, baseUrl });
     }
-  }, [apiKey, baseUrl]);
+  }, [apiKey, baseUrl, context?.clientOptions]);
 
   const {
     toolSchemas,
@@ -8,25 +8,32 @@ import type {
 import type { ToolGroupCall } from '../../api/types';
 import type { ToolCallSummary } from '../AICommandBar/AICommandBar.types';
 import { segmentToolCalls } from '../../utils/toolGroups';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { useDevicDirection } from '../../hooks/useDevicDirection';
+import { useDevicTheme } from '../../hooks/useDevicTheme';
+import { applyCssVars, themeToCssVars } from '../../theme';
+import { resolveInlineSide } from '../../i18n';
+import { isEventInside } from '../../shadow';
 import './AIGenerationButton.css';
 
 const DEFAULT_OPTIONS: Required<AIGenerationButtonOptions> = {
   mode: 'modal',
   prompt: '',
-  placeholder: 'Describe what you want to generate...',
-  modalTitle: 'Generate with AI',
+  placeholder: undefined as any,
+  modalTitle: undefined as any,
   modalDescription: '',
-  confirmText: 'Generate',
-  cancelText: 'Cancel',
+  confirmText: undefined as any,
+  cancelText: undefined as any,
   tooltipPlacement: 'top',
   tooltipWidth: 300,
   variant: 'primary',
   size: 'medium',
   icon: undefined as any,
   hideIcon: false,
-  label: 'Generate with AI',
+  label: undefined as any,
   hideLabel: false,
-  loadingLabel: 'Generating...',
+  loadingLabel: undefined as any,
+  theme: undefined as any,
   color: '#3b82f6',
   backgroundColor: '',
   textColor: '',
@@ -38,7 +45,7 @@ const DEFAULT_OPTIONS: Required<AIGenerationButtonOptions> = {
   animationDuration: 200,
   toolRenderers: undefined as any,
   toolIcons: undefined as any,
-  processingMessage: 'Processing...',
+  processingMessage: undefined as any,
   toolGroups: undefined as any,
 };
 
@@ -104,9 +111,31 @@ export const AIGenerationButton = forwardRef<AIGenerationButtonHandle, AIGenerat
       theme,
     } = props;
 
+    const { t } = useDevicI18n();
+
+    // Localised text defaults come from the provider's locale
     const mergedOptions = useMemo(
-      () => ({ ...DEFAULT_OPTIONS, ...options }),
-      [options]
+      () => ({
+        ...DEFAULT_OPTIONS,
+        placeholder: t('generation.placeholder'),
+        modalTitle: t('generation.label'),
+        confirmText: t('generation.confirm'),
+        cancelText: t('common.cancel'),
+        label: t('generation.label'),
+        loadingLabel: t('generation.loading'),
+        processingMessage: t('common.processing'),
+        ...options,
+      }),
+      [options, t]
+    );
+
+    const devicTheme = useDevicTheme(mergedOptions.theme);
+
+    // With a theme, only explicitly passed styling options override its
+    // tokens; without one the defaults apply as before
+    const styleOptions: AIGenerationButtonOptions = useMemo(
+      () => (devicTheme ? options : mergedOptions),
+      [devicTheme, options, mergedOptions]
     );
 
     const hook = useAIGenerationButton({
@@ -145,34 +174,30 @@ export const AIGenerationButton = forwardRef<AIGenerationButtonHandle, AIGenerat
       const el = containerRef.current;
       if (!el) return;
 
+      const { fontSize, borderRadius } = styleOptions;
       const vars: [string, string | undefined][] = [
-        ['--devic-gen-primary', mergedOptions.color],
-        ['----devic-gen-bg', mergedOptions.backgroundColor || undefined],
-        ['--devic-gen-text', mergedOptions.textColor || undefined],
-        ['--devic-gen-border', mergedOptions.borderColor || undefined],
-        ['--devic-gen-font-family', mergedOptions.fontFamily],
-        ['--devic-gen-font-size', typeof mergedOptions.fontSize === 'number' ? `${mergedOptions.fontSize}px` : mergedOptions.fontSize],
-        ['--devic-gen-radius', typeof mergedOptions.borderRadius === 'number' ? `${mergedOptions.borderRadius}px` : mergedOptions.borderRadius],
-        ['--devic-gen-z-index', String(mergedOptions.zIndex)],
-        ['--devic-gen-animation-duration', `${mergedOptions.animationDuration}ms`],
+        ...Object.entries(themeToCssVars(devicTheme)),
+        ['--devic-gen-primary-override', styleOptions.color],
+        ['--devic-gen-bg-override', styleOptions.backgroundColor || undefined],
+        ['--devic-gen-text-override', styleOptions.textColor || undefined],
+        ['--devic-gen-border-override', styleOptions.borderColor || undefined],
+        ['--devic-gen-font-family-override', styleOptions.fontFamily],
+        ['--devic-gen-font-size-override', typeof fontSize === 'number' ? `${fontSize}px` : fontSize],
+        ['--devic-gen-radius-override', typeof borderRadius === 'number' ? `${borderRadius}px` : borderRadius],
+        ['--devic-gen-z-index-override', String(mergedOptions.zIndex)],
+        ['--devic-gen-animation-duration-override', `${mergedOptions.animationDuration}ms`],
       ];
 
       // Apply theme from parent if provided
       if (theme) {
-        if (theme.backgroundColor) vars.push(['--devic-gen-modal-bg', theme.backgroundColor]);
-        if (theme.textColor) vars.push(['--devic-gen-modal-text', theme.textColor]);
-        if (theme.borderColor) vars.push(['--devic-gen-modal-border', theme.borderColor]);
-        if (theme.primaryColor) vars.push(['--devic-gen-primary', theme.primaryColor]);
+        vars.push(['--devic-gen-modal-bg-override', theme.backgroundColor]);
+        vars.push(['--devic-gen-modal-text-override', theme.textColor]);
+        vars.push(['--devic-gen-modal-border-override', theme.borderColor]);
+        vars.push(['--devic-gen-primary-override', theme.primaryColor]);
       }
 
-      for (const [name, value] of vars) {
-        if (value) {
-          el.style.setProperty(name, value);
-        } else {
-          el.style.removeProperty(name);
-        }
-      }
-    }, [mergedOptions, theme]);
+      applyCssVars(el, vars);
+    }, [devicTheme, styleOptions, mergedOptions.zIndex, mergedOptions.animationDuration, theme]);
 
     // Click outside to close tooltip
     useEffect(() => {
@@ -184,8 +209,8 @@ export const AIGenerationButton = forwardRef<AIGenerationButtonHandle, AIGenerat
         if (
           tooltip &&
           container &&
-          !tooltip.contains(e.target as Node) &&
-          !container.contains(e.target as Node)
+          !isEventInside(e, tooltip) &&
+          !isEventInside(e, container)
         ) {
           hook.close();
         }
@@ -211,9 +236,13 @@ export const AIGenerationButton = forwardRef<AIGenerationButtonHandle, AIGenerat
       hook.generate();
     }, [hook.generate]);
 
-    // Tooltip position styles
+    // Tooltip position styles ('start'/'end' follow the writing direction)
+    const direction = useDevicDirection();
+    const placement =
+      mergedOptions.tooltipPlacement === 'start' || mergedOptions.tooltipPlacement === 'end'
+        ? resolveInlineSide(mergedOptions.tooltipPlacement, direction)
+        : mergedOptions.tooltipPlacement;
     const tooltipPositionStyle = useMemo(() => {
-      const placement = mergedOptions.tooltipPlacement;
       const width = typeof mergedOptions.tooltipWidth === 'number'
         ? `${mergedOptions.tooltipWidth}px`
         : mergedOptions.tooltipWidth;
@@ -236,7 +265,7 @@ export const AIGenerationButton = forwardRef<AIGenerationButtonHandle, AIGenerat
         default:
           return baseStyle;
       }
-    }, [mergedOptions.tooltipPlacement, mergedOptions.tooltipWidth, mergedOptions.zIndex]);
+    }, [placement, mergedOptions.tooltipWidth, mergedOptions.zIndex]);
 
     // Render button content
     // Only show loading state on button for direct mode (modal/tooltip have their own loading)
@@ -389,7 +418,7 @@ export const AIGenerationButton = forwardRef<AIGenerationButtonHandle, AIGenerat
             ref={tooltipRef}
             className="devic-gen-tooltip"
             style={tooltipPositionStyle}
-            data-placement={mergedOptions.tooltipPlacement}
+            data-placement={placement}
           >
             {/* Tool calls display */}
             {renderToolCalls()}
@@ -451,7 +480,7 @@ export const AIGenerationButton = forwardRef<AIGenerationButtonHandle, AIGenerat
                   type="button"
                   className="devic-gen-modal-close"
                   onClick={hook.close}
-                  aria-label="Close"
+                  aria-label={t('common.close')}
                   disabled={hook.isProcessing}
                 >
                   <CloseIcon />
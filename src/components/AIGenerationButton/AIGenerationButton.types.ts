@@ -1,5 +1,6 @@
 import type { ChatMessage, ModelInterfaceTool, ToolGroupConfig } from '../../api/types';
 import type { FeedbackTheme } from '../Feedback';
+import type { DevicThemeOption } from '../../theme';
 import type { ToolCallSummary } from '../AICommandBar/AICommandBar.types';
 
 /**
@@ -38,13 +39,13 @@ export interface AIGenerationButtonOptions {
 
   /**
    * Placeholder text for the input (modal and tooltip modes)
-   * @default 'Describe what you want to generate...'
+   * @default 'Describe what you want to generate...' (localised)
    */
   placeholder?: string;
 
   /**
    * Modal title (modal mode only)
-   * @default 'Generate with AI'
+   * @default 'Generate with AI' (localised)
    */
   modalTitle?: string;
 
@@ -55,21 +56,22 @@ export interface AIGenerationButtonOptions {
 
   /**
    * Confirm button text
-   * @default 'Generate'
+   * @default 'Generate' (localised)
    */
   confirmText?: string;
 
   /**
    * Cancel button text
-   * @default 'Cancel'
+   * @default 'Cancel' (localised)
    */
   cancelText?: string;
 
   /**
-   * Tooltip placement (tooltip mode only)
+   * Tooltip placement (tooltip mode only). 'start' and 'end' follow the
+   * writing direction.
    * @default 'top'
    */
-  tooltipPlacement?: 'top' | 'bottom' | 'left' | 'right';
+  tooltipPlacement?: 'top' | 'bottom' | 'left' | 'right' | 'start' | 'end';
 
   /**
    * Tooltip width
@@ -104,7 +106,7 @@ export interface AIGenerationButtonOptions {
 
   /**
    * Button label
-   * @default 'Generate with AI'
+   * @default 'Generate with AI' (localised)
    */
   label?: string;
 
@@ -116,12 +118,20 @@ export interface AIGenerationButtonOptions {
 
   /**
    * Loading label shown during processing
-   * @default 'Generating...'
+   * @default 'Generating...' (localised)
    */
   loadingLabel?: string;
 
   // Theming options
 
+  /**
+   * Theme of the button and its modal/tooltip: a preset, `'auto'`, or token
+   * overrides applied on top of the DevicProvider's theme. With a theme,
+   * only the colour, font and radius options passed explicitly override
+   * its tokens.
+   */
+  theme?: DevicThemeOption;
+
   /**
    * Primary color
    */
@@ -184,7 +194,7 @@ export interface AIGenerationButtonOptions {
 
   /**
    * Message shown while processing (before any tools are called)
-   * @default 'Processing...'
+   * @default 'Processing...' (localised)
    */
   processingMessage?: string;
 
@@ -323,6 +333,7 @@ export interface AIGenerationButtonProps {
 
   /**
    * Theme for the modal/tooltip (inherited from parent component styling)
+   * @deprecated Use `options.theme` or the DevicProvider `theme`
    */
   theme?: FeedbackTheme;
 }
@@ -131,14 +131,14 @@ export function useAIGenerationButton(
   // API client
   const clientRef = useRef<DevicApiClient | null>(null);
   if (!clientRef.current && apiKey) {
-    clientRef.current = new DevicApiClient({ apiKey, baseUrl });
+    clientRef.current = new DevicApiClient({ ...context?.clientOptions, apiKey, baseUrl });
   }
 
   useEffect(() => {
     if (clientRef.current && apiKey) {
-      clientRef.current.setConfig({ apiKey, baseUrl });
+      clientRef.current.setConfig({ ...context?.clientOptions, apiKey, baseUrl });
     }
-  }, [apiKey, baseUrl]);
+  }, [apiKey, baseUrl, context?.clientOptions]);
 
   // Model interface
   const {
@@ -238,7 +238,7 @@ export function useAIGenerationButton(
       return clientRef.current.getRealtimeHistory(assistantId, chatUid);
     },
     {
-      interval: 1000,
+      interval: context?.pollingInterval ?? 1000,
       enabled: shouldPoll,
       stopStatuses: ['completed', 'error', 'waiting_for_tool_response'],
       onUpdate: async (data: RealtimeChatHistory) => {
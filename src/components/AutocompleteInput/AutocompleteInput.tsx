@@ -77,6 +77,7 @@ export const AutocompleteInput = forwardRef<
     tenantMetadata,
     apiKey,
     baseUrl,
+    clientOptions: context?.clientOptions,
     onSuggestionReceived,
     onError: onAutocompleteError,
   });
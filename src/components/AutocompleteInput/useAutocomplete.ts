@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { DevicApiClient } from "../../api/client";
+import type { DevicApiClientOptions } from "../../api/client";
 import { storage } from "../../utils";
 import type { ChatMessage } from "../../api/types";
 
@@ -19,6 +20,7 @@ export interface UseAutocompleteOptions {
   tenantMetadata?: Record<string, any>;
   apiKey?: string;
   baseUrl?: string;
+  clientOptions?: DevicApiClientOptions;
   onSuggestionReceived?: (suggestion: string) => void;
   onError?: (error: Error) => void;
 }
@@ -129,6 +131,7 @@ export function useAutocomplete(
     tenantMetadata,
     apiKey,
     baseUrl,
+    clientOptions,
     onSuggestionReceived,
     onError,
   } = options;
@@ -177,12 +180,12 @@ export function useAutocomplete(
   const getClient = useCallback(() => {
     if (!apiKey || !baseUrl) return null;
     if (!clientRef.current) {
-      clientRef.current = new DevicApiClient({ apiKey, baseUrl });
+      clientRef.current = new DevicApiClient({ ...clientOptions, apiKey, baseUrl });
     } else {
-      clientRef.current.setConfig({ apiKey, baseUrl });
+      clientRef.current.setConfig({ ...clientOptions, apiKey, baseUrl });
     }
     return clientRef.current;
-  }, [apiKey, baseUrl]);
+  }, [apiKey, baseUrl, clientOptions]);
 
   const cancelRequest = useCallback(() => {
     if (abortRef.current) {
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AssistantSpecialization } from '../../api/types';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { getRovingTarget } from '../../utils/a11y';
+import { isEventInside } from '../../shadow';
+
+export interface AssistantPickerProps {
+  /** Assistants to choose from */
+  assistants: AssistantSpecialization[];
+  /** Identifier of the active assistant */
+  value: string;
+  /** Called with the chosen assistant's identifier */
+  onChange: (assistantId: string) => void;
+  /** Disable switching (e.g. while a reply is in progress) */
+  disabled?: boolean;
+}
+
+/**
+ * Header control switching the drawer between assistants.
+ * Styled via `.devic-assistant-picker-*`.
+ */
+export function AssistantPicker({
+  assistants,
+  value,
+  onChange,
+  disabled,
+}: AssistantPickerProps): JSX.Element {
+  const { t } = useDevicI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const current = assistants.find((a) => a.identifier === value);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: MouseEvent) => {
+      if (pickerRef.current && !isEventInside(e, pickerRef.current)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [isOpen]);
+
+  // Move focus to the active assistant when the menu opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const menu = pickerRef.current?.querySelector('[role="menu"]');
+    (
+      menu?.querySelector<HTMLElement>('[aria-checked="true"]') ??
+      menu?.querySelector<HTMLElement>('[role="menuitemradio"]')
+    )?.focus();
+  }, [isOpen]);
+
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape' || e.key === 'Tab') {
+      if (e.key === 'Escape') e.preventDefault();
+      setIsOpen(false);
+      triggerRef.current?.focus();
+      return;
+    }
+    const items = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[role="menuitemradio"]'));
+    const next = getRovingTarget(items, e.target as HTMLElement, e.key, { orientation: 'vertical' });
+    if (next) {
+      e.preventDefault();
+      next.focus();
+    }
+  };
+
+  const select = (assistantId: string) => {
+    setIsOpen(false);
+    triggerRef.current?.focus();
+    if (assistantId !== value) onChange(assistantId);
+  };
+
+  return (
+    <div className="devic-assistant-picker" ref={pickerRef}>
+      <button
+        ref={triggerRef}
+        className="devic-assistant-picker-trigger"
+        onClick={() => setIsOpen(!isOpen)}
+        type="button"
+        aria-label={`${t('chat.assistantPicker')}: ${current?.name ?? value}`}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title={t('chat.assistantPicker')}
+        disabled={disabled}
+      >
+        <span className="devic-assistant-picker-current">{current?.name ?? value}</span>
+        <CaretIcon />
+      </button>
+      {isOpen && (
+        <div className="devic-assistant-picker-menu" role="menu" onKeyDown={handleMenuKeyDown}>
+          {assistants.map((assistant) => (
+            <button
+              key={assistant.identifier}
+              className="devic-assistant-picker-item"
+              type="button"
+              role="menuitemradio"
+              aria-checked={assistant.identifier === value}
+              tabIndex={-1}
+              onClick={() => select(assistant.identifier)}
+            >
+              {assistant.imgUrl ? (
+                <img className="devic-assistant-picker-avatar" src={assistant.imgUrl} alt="" aria-hidden="true" />
+              ) : (
+                <span className="devic-assistant-picker-avatar" aria-hidden="true">
+                  {assistant.name.charAt(0)}
+                </span>
+              )}
+              <span className="devic-assistant-picker-text">
+                <span className="devic-assistant-picker-name">{assistant.name}</span>
+                {assistant.description && (
+                  <span className="devic-assistant-picker-description">{assistant.description}</span>
+                )}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CaretIcon(): JSX.Element {
+  return (
+    <svg
+      width="14"
+      height="14"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <polyline points="6,9 12,15 18,9" />
+    </svg>
+  );
+}
@@ -1,6 +1,14 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef, forwardRef, useImperativeHandle } from 'react';
 import { useDevicChat } from '../../hooks/useDevicChat';
 import { useOptionalDevicContext } from '../../provider';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { useDevicDirection } from '../../hooks/useDevicDirection';
+import { useFocusTrap } from '../../hooks/useFocusTrap';
+import { useDevicTheme } from '../../hooks/useDevicTheme';
+import { useDevicShadowDom } from '../../hooks/useDevicShadowDom';
+import { applyCssVars, themeToCssVars } from '../../theme';
+import { resolveInlineSide } from '../../i18n';
+import { DevicShadowRoot, getActiveElement } from '../../shadow';
 import { DevicApiClient } from '../../api/client';
 import { ChatMessages } from './ChatMessages';
 import { ChatInput } from './ChatInput';
@@ -8,14 +16,24 @@ import { ConversationSelector } from './ConversationSelector';
 import { ChatDrawerErrorBoundary } from './ErrorBoundary';
 import { UsageBar } from './UsageBar';
 import { LimitBanner } from './LimitBanner';
-import type { ChatDrawerProps, ChatDrawerOptions, ChatDrawerHandle } from './ChatDrawer.types';
+import { ExportMenu } from './ExportMenu';
+import { AssistantPicker } from './AssistantPicker';
+import { ReplayControls } from './ReplayControls';
+import { downloadChatExport } from '../../utils/chatExport';
+import { chatExportToMessages } from '../../utils/chatImport';
+import { generateId } from '../../utils';
+import type { ChatExportFormat } from '../../utils/chatExport';
+import type { ChatHistory, AssistantSpecialization } from '../../api/types';
+import type { ChatDrawerProps, ChatDrawerOptions, ChatDrawerHandle, CustomPromptBoxProps } from './ChatDrawer.types';
 import './styles.css';
 
 const DEFAULT_OPTIONS: Required<ChatDrawerOptions> = {
-  position: 'right',
+  position: 'end',
+  direction: 'auto',
   width: '100%',
   defaultOpen: false,
   color: '#1890ff',
+  theme: undefined as any,
   welcomeMessage: '',
   suggestedMessages: [],
   enableFileUploads: false,
@@ -32,8 +50,8 @@ const DEFAULT_OPTIONS: Required<ChatDrawerOptions> = {
   speechHandoff: false,
   speechHandoffSendDelayMs: 1000,
   speechHandoffHoldMs: 3000,
-  inputPlaceholder: 'Type a message...',
-  title: 'Chat',
+  inputPlaceholder: undefined as any,
+  title: undefined as any,
   showAvatar: false,
   showToolTimeline: true,
   zIndex: 1000,
@@ -62,16 +80,28 @@ const DEFAULT_OPTIONS: Required<ChatDrawerOptions> = {
   stopButtonContent: undefined as any,
   debug: false,
   persistConversation: false,
+  transport: 'polling',
+  offlineQueue: true,
+  toolConcurrency: 1,
+  toolTimeoutMs: undefined as any,
   customPromptBox: undefined as any,
   userMessageRenderer: undefined as any,
   assistantMessageRenderer: undefined as any,
+  components: undefined as any,
+  unstyled: false,
+  shadowDom: undefined as any,
   conversationPreview: 'date',
+  conversationActions: true,
+  enableMessageEditing: true,
+  enableExport: false,
+  replayInterval: 1500,
   showUsageBar: false,
   usageBarMetric: undefined as any,
   usageBarDisplay: undefined as any,
   customUsageBar: undefined as any,
   hideLimitBanner: false,
   limitBannerRenderer: undefined as any,
+  assistants: false,
 };
 
 /**
@@ -114,7 +144,7 @@ interface ChatDrawerInnerProps extends ChatDrawerProps {
 }
 
 function ChatDrawerInner({
-  assistantId,
+  assistantId: defaultAssistantId,
   chatUid: initialChatUid,
   options = {},
   enabledTools,
@@ -124,6 +154,8 @@ function ChatDrawerInner({
   subtenantId,
   subtenantMetadata,
   tags,
+  previousConversation,
+  replay,
   apiKey,
   baseUrl,
   onMessageSent,
@@ -131,6 +163,8 @@ function ChatDrawerInner({
   onToolCall,
   onError,
   onChatCreated,
+  assistantRouter,
+  onAssistantChange,
   onFileUpload,
   onOpen,
   onClose,
@@ -140,25 +174,58 @@ function ChatDrawerInner({
   onConversationChange,
   forwardedRef,
 }: ChatDrawerInnerProps): JSX.Element {
-  // Merge options with defaults
+  const { t } = useDevicI18n();
+
+  // Merge options with defaults (localised text defaults come from the provider's locale)
   const mergedOptions = useMemo(
-    () => ({ ...DEFAULT_OPTIONS, ...options }),
-    [options]
+    () => ({
+      ...DEFAULT_OPTIONS,
+      inputPlaceholder: t('chat.inputPlaceholder'),
+      title: t('chat.title'),
+      ...options,
+    }),
+    [options, t]
   );
 
+  // Physical side of the drawer for the current writing direction
+  const direction = useDevicDirection(mergedOptions.direction);
+  const side = resolveInlineSide(mergedOptions.position, direction);
+
+  // Active assistant: the prop, or the one last picked when persisting.
+  // Everything below (conversation list, persisted chatUid) is keyed by it.
+  const assistantStorageKey = mergedOptions.persistConversation && mergedOptions.assistants
+    ? `devic-ui-assistant-${defaultAssistantId}`
+    : null;
+  const [assistantId, setActiveAssistantId] = useState(() => {
+    if (assistantStorageKey && !initialChatUid) {
+      try { return localStorage.getItem(assistantStorageKey) || defaultAssistantId; } catch {}
+    }
+    return defaultAssistantId;
+  });
+
+  // Follow changes of the assistantId prop
+  const defaultAssistantRef = useRef(defaultAssistantId);
+  useEffect(() => {
+    if (defaultAssistantRef.current === defaultAssistantId) return;
+    defaultAssistantRef.current = defaultAssistantId;
+    setActiveAssistantId(defaultAssistantId);
+  }, [defaultAssistantId]);
+
   // localStorage key for persisting selected conversation
   const storageKey = mergedOptions.persistConversation
     ? `devic-ui-chatUid-${assistantId}`
     : null;
 
-  // Resolve initial chatUid: prop takes priority, then localStorage
+  // Resolve initial chatUid: prop takes priority, then localStorage (of the
+  // assistant active on mount; later switches restore their own)
+  const initialStorageKeyRef = useRef(storageKey);
   const resolvedInitialChatUid = useMemo(() => {
     if (initialChatUid) return initialChatUid;
-    if (storageKey) {
-      try { return localStorage.getItem(storageKey) || undefined; } catch { return undefined; }
+    if (initialStorageKeyRef.current) {
+      try { return localStorage.getItem(initialStorageKeyRef.current) || undefined; } catch { return undefined; }
     }
     return undefined;
-  }, [initialChatUid, storageKey]);
+  }, [initialChatUid]);
 
   // Drawer open state (can be controlled or uncontrolled; inline mode is always open)
   const [internalIsOpen, setInternalIsOpen] = useState(mergedOptions.defaultOpen);
@@ -176,10 +243,13 @@ function ChatDrawerInner({
     [storageKey, onChatCreated]
   );
 
+  // Replay mode: read-only playback of an imported conversation
+  const isReplay = !!replay;
+
   // Use chat hook
   const chat = useDevicChat({
     assistantId,
-    chatUid: resolvedInitialChatUid,
+    chatUid: isReplay ? undefined : resolvedInitialChatUid,
     apiKey,
     baseUrl,
     tenantId,
@@ -187,17 +257,64 @@ function ChatDrawerInner({
     subtenantId,
     subtenantMetadata,
     tags,
+    previousConversation,
     enabledTools,
     modelInterfaceTools,
+    toolConcurrency: mergedOptions.toolConcurrency,
+    toolTimeoutMs: mergedOptions.toolTimeoutMs,
     onMessageSent,
     onMessageReceived,
     onToolCall,
     onError,
     onChatCreated: handleChatCreated,
     onFileUpload,
+    transport: mergedOptions.transport,
+    // Never flush queued messages from a replay
+    offlineQueue: mergedOptions.offlineQueue && !isReplay,
     debug: mergedOptions.debug,
   });
 
+  // Recorded messages, revealed one step at a time. Transcript ids are
+  // dropped so playback never fetches audio.
+  const replayMessages = useMemo(
+    () =>
+      replay
+        ? chatExportToMessages(replay).map(({ transcriptId: _transcriptId, ...m }) => m)
+        : [],
+    [replay]
+  );
+  const [replayStep, setReplayStep] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+
+  // Restart when a different conversation is loaded for replay
+  useEffect(() => {
+    setReplayStep(replayMessages.length > 0 ? 1 : 0);
+    setReplayPlaying(false);
+  }, [replayMessages]);
+
+  // Auto-advance while playing
+  useEffect(() => {
+    if (!replayPlaying) return;
+    if (replayStep >= replayMessages.length) {
+      setReplayPlaying(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => setReplayStep((s) => Math.min(s + 1, replayMessages.length)),
+      mergedOptions.replayInterval
+    );
+    return () => clearTimeout(timer);
+  }, [replayPlaying, replayStep, replayMessages.length, mergedOptions.replayInterval]);
+
+  const visibleReplayMessages = useMemo(
+    () => replayMessages.slice(0, replayStep),
+    [replayMessages, replayStep]
+  );
+
+  const displayedMessages = isReplay ? visibleReplayMessages : chat.messages;
+  const messageEditingEnabled =
+    mergedOptions.enableMessageEditing && !isReplay && !chat.handedOff;
+
   // Fetch assistant avatar when showAvatar is enabled
   const context = useOptionalDevicContext();
   const resolvedApiKey = apiKey || context?.apiKey;
@@ -206,13 +323,49 @@ function ChatDrawerInner({
   const avatarFetchedRef = useRef<string | null>(null);
 
   useEffect(() => {
-    if (!mergedOptions.showAvatar || !resolvedApiKey || avatarFetchedRef.current === assistantId) return;
+    if (isReplay || !mergedOptions.showAvatar || !resolvedApiKey || avatarFetchedRef.current === assistantId) return;
     avatarFetchedRef.current = assistantId;
-    const client = new DevicApiClient({ apiKey: resolvedApiKey, baseUrl: resolvedBaseUrl });
+    setAvatarUrl(null);
+    const client = new DevicApiClient({
+      ...context?.clientOptions,
+      apiKey: resolvedApiKey,
+      baseUrl: resolvedBaseUrl,
+    });
     client.getAssistant(assistantId).then((a) => {
       if (a.imgUrl) setAvatarUrl(a.imgUrl);
     }).catch(() => {});
-  }, [mergedOptions.showAvatar, assistantId, resolvedApiKey, resolvedBaseUrl]);
+  }, [isReplay, mergedOptions.showAvatar, assistantId, resolvedApiKey, resolvedBaseUrl]);
+
+  // Assistants offered by the picker and the router: every active one, or
+  // those listed in `options.assistants`, in that order
+  const [assistants, setAssistants] = useState<AssistantSpecialization[]>([]);
+  const assistantsFilterKey = Array.isArray(mergedOptions.assistants)
+    ? mergedOptions.assistants.join(',')
+    : String(mergedOptions.assistants);
+  const needsAssistants = !isReplay && (!!mergedOptions.assistants || !!assistantRouter);
+
+  useEffect(() => {
+    if (!needsAssistants || !resolvedApiKey) return;
+    const controller = new AbortController();
+    const client = new DevicApiClient({
+      ...context?.clientOptions,
+      apiKey: resolvedApiKey,
+      baseUrl: resolvedBaseUrl,
+    });
+    client.getAssistants(false, controller.signal).then((all) => {
+      const active = all.filter((a) => a.state === 'active');
+      const ids = mergedOptions.assistants;
+      setAssistants(
+        Array.isArray(ids)
+          ? ids
+              .map((id) => active.find((a) => a.identifier === id))
+              .filter((a): a is AssistantSpecialization => !!a)
+          : active
+      );
+    }).catch(() => {});
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [needsAssistants, assistantsFilterKey, resolvedApiKey, resolvedBaseUrl]);
 
   // Tenant/subtenant resolution mirrors useDevicChat (prop overrides provider).
   const resolvedTenantId = tenantId || context?.tenantId;
@@ -265,7 +418,11 @@ function ChatDrawerInner({
           new Error('API key not configured. Cannot transcribe audio.'),
         );
       }
-      const client = new DevicApiClient({ apiKey: resolvedApiKey, baseUrl: resolvedBaseUrl });
+      const client = new DevicApiClient({
+        ...context?.clientOptions,
+        apiKey: resolvedApiKey,
+        baseUrl: resolvedBaseUrl,
+      });
       return client.transcribeAudio(audio, {
         language: transcribeOptions?.language ?? mergedOptions.speechLanguage,
         messageUid: transcribeOptions?.messageUid,
@@ -273,7 +430,59 @@ function ChatDrawerInner({
         tenantId: transcribeOptions?.tenantId ?? tenantId,
       });
     },
-    [resolvedApiKey, resolvedBaseUrl, mergedOptions.speechLanguage, tenantId],
+    [resolvedApiKey, resolvedBaseUrl, context?.clientOptions, mergedOptions.speechLanguage, tenantId],
+  );
+
+  // Switch assistants. Each one keeps its own current conversation: the last
+  // one shown this session, else its persisted one.
+  const chatUidsRef = useRef(new Map<string, string | null>());
+  const switchAssistant = useCallback(
+    (id: string) => {
+      if (id === assistantId) return;
+      setActiveAssistantId(id);
+      if (assistantStorageKey) {
+        try { localStorage.setItem(assistantStorageKey, id); } catch {}
+      }
+      onAssistantChange?.(id);
+    },
+    [assistantId, assistantStorageKey, onAssistantChange]
+  );
+
+  // Send a message, letting `assistantRouter` pick the assistant when it
+  // starts a new conversation. `routeText` is what the router sees (the
+  // message without the reference prefix).
+  type SendOptions = Parameters<typeof chat.sendMessage>[1];
+  const [isRouting, setIsRouting] = useState(false);
+  const pendingSendRef = useRef<{
+    assistantId: string;
+    message: string;
+    options?: SendOptions;
+  } | null>(null);
+
+  const sendRouted = useCallback(
+    async (message: string, sendOptions?: SendOptions, routeText = message) => {
+      if (!assistantRouter || chat.chatUid || chat.messages.length > 0) {
+        chat.sendMessage(message, sendOptions);
+        return;
+      }
+      setIsRouting(true);
+      let routedId: string | null | undefined;
+      try {
+        routedId = await assistantRouter(routeText, assistants);
+      } catch (err) {
+        onError?.(err instanceof Error ? err : new Error(String(err)));
+      } finally {
+        setIsRouting(false);
+      }
+      if (routedId && routedId !== assistantId) {
+        // Sent once the routed assistant is active
+        pendingSendRef.current = { assistantId: routedId, message, options: sendOptions };
+        switchAssistant(routedId);
+      } else {
+        chat.sendMessage(message, sendOptions);
+      }
+    },
+    [chat, assistantRouter, assistants, assistantId, switchAssistant, onError]
   );
 
   // Handle open/close
@@ -297,12 +506,18 @@ function ChatDrawerInner({
     close: handleClose,
     toggle: handleToggle,
     setChatUid: (chatUid: string) => {
+      if (isReplay) return;
       chat.loadChat(chatUid);
     },
+    setAssistantId: (id: string) => {
+      if (isReplay) return;
+      switchAssistant(id);
+    },
     sendMessage: (message: string) => {
-      chat.sendMessage(message);
+      if (isReplay) return;
+      sendRouted(message);
     },
-  }), [handleOpen, handleClose, handleToggle, chat]);
+  }), [handleOpen, handleClose, handleToggle, chat, isReplay, switchAssistant, sendRouted]);
 
   // Register this drawer in the DevicProvider so AIElementWrapper can open it
   useEffect(() => {
@@ -311,10 +526,12 @@ function ChatDrawerInner({
       open: handleOpen,
       close: handleClose,
       toggle: handleToggle,
-      sendMessage: (message: string) => chat.sendMessage(message),
+      sendMessage: (message: string) => {
+        if (!isReplay) sendRouted(message);
+      },
     });
     return unregister;
-  }, [context, handleOpen, handleClose, handleToggle, chat]);
+  }, [context, handleOpen, handleClose, handleToggle, sendRouted, isReplay]);
 
   // Partition pending widget calls by render mode
   const { inlineWidgets, inputWidget } = useMemo(() => {
@@ -354,19 +571,24 @@ function ChatDrawerInner({
         const labels = references.map((r) => `"${r.label}"`).join(', ');
         finalMessage = `Elemento referenciado: ${labels}\n\n${message}`;
       }
-      chat.sendMessage(finalMessage, {
-        files,
-        transcriptId: meta?.transcriptId,
-        tags: meta?.tags,
-      });
+      sendRouted(
+        finalMessage,
+        { files, transcriptId: meta?.transcriptId, tags: meta?.tags },
+        message
+      );
       if (references.length > 0) clearReferences();
     },
-    [chat, references, clearReferences]
+    [sendRouted, references, clearReferences]
   );
 
   // Handle conversation selection
+  // Message to scroll to after loading a conversation from a search result
+  const [highlightMessageUid, setHighlightMessageUid] = useState<string | null>(null);
+  const clearHighlight = useCallback(() => setHighlightMessageUid(null), []);
+
   const handleConversationSelect = useCallback(
-    (chatUid: string) => {
+    (chatUid: string, selectOptions?: { messageUid?: string }) => {
+      setHighlightMessageUid(selectOptions?.messageUid ?? null);
       chat.loadChat(chatUid);
       onConversationChange?.(chatUid);
       if (storageKey) {
@@ -376,6 +598,34 @@ function ChatDrawerInner({
     [chat, onConversationChange, storageKey]
   );
 
+  // On assistant change, remember the previous assistant's conversation and
+  // show the new one's (or send the message routed to it)
+  const previousAssistantRef = useRef(assistantId);
+  useEffect(() => {
+    const previous = previousAssistantRef.current;
+    if (previous === assistantId) return;
+    previousAssistantRef.current = assistantId;
+    chatUidsRef.current.set(previous, chat.chatUid);
+    chat.clearChat();
+    setHighlightMessageUid(null);
+
+    const pending = pendingSendRef.current;
+    pendingSendRef.current = null;
+    if (pending?.assistantId === assistantId) {
+      chat.sendMessage(pending.message, pending.options);
+      return;
+    }
+
+    let restoredChatUid: string | null = null;
+    if (chatUidsRef.current.has(assistantId)) {
+      restoredChatUid = chatUidsRef.current.get(assistantId) ?? null;
+    } else if (storageKey) {
+      try { restoredChatUid = localStorage.getItem(storageKey); } catch {}
+    }
+    if (restoredChatUid) chat.loadChat(restoredChatUid);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [assistantId]);
+
   const handleNewChat = useCallback(() => {
     chat.clearChat();
     if (storageKey) {
@@ -383,12 +633,32 @@ function ChatDrawerInner({
     }
   }, [chat, storageKey]);
 
+  // A deleted conversation must not stay open or be restored on the next mount
+  const handleConversationDeleted = useCallback(
+    (deletedChatUid: string) => {
+      if (deletedChatUid === chat.chatUid) {
+        chat.clearChat();
+      }
+      if (storageKey) {
+        try {
+          if (localStorage.getItem(storageKey) === deletedChatUid) {
+            localStorage.removeItem(storageKey);
+          }
+        } catch {}
+      }
+      chatUidsRef.current.forEach((uid, id) => {
+        if (uid === deletedChatUid) chatUidsRef.current.delete(id);
+      });
+    },
+    [chat, storageKey]
+  );
+
   // Handle suggested message click
   const handleSuggestedClick = useCallback(
     (message: string) => {
-      chat.sendMessage(message);
+      sendRouted(message);
     },
-    [chat]
+    [sendRouted]
   );
 
   // Feedback state
@@ -399,6 +669,7 @@ function ChatDrawerInner({
   useEffect(() => {
     if (resolvedApiKey && !feedbackClientRef.current) {
       feedbackClientRef.current = new DevicApiClient({
+        ...context?.clientOptions,
         apiKey: resolvedApiKey,
         baseUrl: resolvedBaseUrl,
       });
@@ -449,13 +720,47 @@ function ChatDrawerInner({
     [chat.chatUid, assistantId]
   );
 
+  // Export the conversation. Prefers the server history (names, token usage,
+  // tool outputs) and falls back to the messages held locally.
+  const handleExport = useCallback(
+    async (format: ChatExportFormat) => {
+      let history: ChatHistory = {
+        chatUID: chat.chatUid || 'draft',
+        clientUID: '',
+        userUID: '',
+        chatContent: chat.messages.filter((m) => !m.pending),
+        assistantSpecializationIdentifier: assistantId,
+        creationTimestampMs: chat.messages[0]?.timestamp ?? Date.now(),
+      };
+      if (chat.chatUid && feedbackClientRef.current) {
+        try {
+          history = await feedbackClientRef.current.getChatHistory(assistantId, chat.chatUid, {
+            tenantId: resolvedTenantId,
+          });
+        } catch {
+          // keep the local copy
+        }
+      }
+      downloadChatExport(history, format, { feedback: feedbackMap });
+    },
+    [
+      chat.chatUid,
+      chat.messages,
+      assistantId,
+      resolvedTenantId,
+      feedbackMap,
+    ]
+  );
+
   // Apply CSS variables for theming on the drawer element itself
   // (must target the component root so they override the defaults defined on .devic-chat-drawer)
   const drawerRef = useRef<HTMLDivElement>(null);
+  const theme = useDevicTheme(mergedOptions.theme);
   useEffect(() => {
     const el = drawerRef.current;
     if (!el) return;
-    const vars: [string, string | undefined][] = [
+    applyCssVars(el, [
+      ...Object.entries(themeToCssVars(theme)),
       ['--devic-primary', mergedOptions.color !== DEFAULT_OPTIONS.color ? mergedOptions.color : undefined],
       ['--devic-font-family', mergedOptions.fontFamily],
       ['--devic-bg', mergedOptions.backgroundColor],
@@ -467,15 +772,30 @@ function ChatDrawerInner({
       ['--devic-assistant-bubble', mergedOptions.assistantBubbleColor],
       ['--devic-assistant-bubble-text', mergedOptions.assistantBubbleTextColor],
       ['--devic-send-btn', mergedOptions.sendButtonColor],
-    ];
-    for (const [name, value] of vars) {
-      if (value) {
-        el.style.setProperty(name, value);
-      } else {
-        el.style.removeProperty(name);
+    ]);
+  }, [theme, mergedOptions.color, mergedOptions.fontFamily, mergedOptions.backgroundColor, mergedOptions.textColor, mergedOptions.secondaryBackgroundColor, mergedOptions.borderColor, mergedOptions.userBubbleColor, mergedOptions.userBubbleTextColor, mergedOptions.assistantBubbleColor, mergedOptions.assistantBubbleTextColor, mergedOptions.sendButtonColor]);
+
+  // Focus management (drawer mode): move focus to the input on open, keep
+  // Tab inside the drawer, close on Escape and return focus on close
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const titleIdRef = useRef(`devic-drawer-title-${generateId()}`);
+  const isModal = !isInline && isOpen;
+  useFocusTrap(drawerRef, isModal, {
+    initialFocus: '.devic-input',
+    onEscape: handleClose,
+  });
+
+  // The trigger is re-mounted on close, so it cannot be restored by the trap
+  const wasOpenRef = useRef(isOpen);
+  useEffect(() => {
+    if (wasOpenRef.current && !isOpen && !isInline) {
+      const active = getActiveElement(drawerRef.current);
+      if (!active || active === document.body || drawerRef.current?.contains(active)) {
+        triggerRef.current?.focus();
       }
     }
-  }, [mergedOptions.color, mergedOptions.fontFamily, mergedOptions.backgroundColor, mergedOptions.textColor, mergedOptions.secondaryBackgroundColor, mergedOptions.borderColor, mergedOptions.userBubbleColor, mergedOptions.userBubbleTextColor, mergedOptions.assistantBubbleColor, mergedOptions.assistantBubbleTextColor, mergedOptions.sendButtonColor]);
+    wasOpenRef.current = isOpen;
+  }, [isOpen, isInline]);
 
   // Resizable drawer
   const [resizedWidth, setResizedWidth] = useState<number | null>(null);
@@ -485,7 +805,7 @@ function ChatDrawerInner({
       e.preventDefault();
       const startX = e.clientX;
       const startWidth = drawerRef.current?.offsetWidth ?? 0;
-      const isLeft = mergedOptions.position === 'left';
+      const isLeft = side === 'left';
 
       const onMove = (ev: MouseEvent) => {
         const delta = ev.clientX - startX;
@@ -505,7 +825,7 @@ function ChatDrawerInner({
       document.addEventListener('mousemove', onMove);
       document.addEventListener('mouseup', onUp);
     },
-    [mergedOptions.position, mergedOptions.minWidth, mergedOptions.maxWidth]
+    [side, mergedOptions.minWidth, mergedOptions.maxWidth]
   );
 
   // Build style object
@@ -534,22 +854,108 @@ function ChatDrawerInner({
     [mergedOptions.zIndex]
   );
 
+  const {
+    Header,
+    ConversationList = ConversationSelector,
+    MessageList = ChatMessages,
+    Composer,
+    Trigger,
+  } = mergedOptions.components ?? {};
+  const unstyled = mergedOptions.unstyled || undefined;
+  const shadowDom = useDevicShadowDom(mergedOptions.shadowDom);
+
+  // Header pieces, also handed to a custom `Header` slot
+  const headerTitle = isReplay
+    ? replay!.conversation.name || mergedOptions.title
+    : mergedOptions.title;
+  const conversationListNode = isReplay ? (
+    <span className="devic-replay-badge">{t('chat.replayBadge')}</span>
+  ) : (
+    <ConversationList
+      assistantId={assistantId}
+      currentChatUid={chat.chatUid}
+      onSelect={handleConversationSelect}
+      onNewChat={handleNewChat}
+      onConversationDeleted={handleConversationDeleted}
+      apiKey={apiKey}
+      baseUrl={baseUrl}
+      tenantId={tenantId}
+      subtenantId={subtenantId}
+      conversationPreview={mergedOptions.conversationPreview}
+      enableActions={mergedOptions.conversationActions}
+    />
+  );
+  const assistantPickerNode =
+    mergedOptions.assistants && !isReplay && assistants.length > 0 ? (
+      <AssistantPicker
+        assistants={assistants}
+        value={assistantId}
+        onChange={switchAssistant}
+        disabled={chat.isLoading || isRouting}
+      />
+    ) : undefined;
+  const promptBoxProps: CustomPromptBoxProps = {
+    sendMessage: handleSend,
+    transcribeAudio,
+    stop: chat.stopChat,
+    isLoading: chat.isLoading || isRouting,
+    newConversation: chat.clearChat,
+    references,
+    removeReference,
+    clearReferences,
+    limitExceeded: chat.limitExceeded,
+  };
+  const headerActionsNode = (
+    <div className="devic-drawer-header-actions">
+      {mergedOptions.enableExport && !isReplay && (
+        <ExportMenu
+          onExport={handleExport}
+          disabled={chat.messages.length === 0}
+        />
+      )}
+      {!isReplay && (
+        <button
+          className="devic-new-chat-btn"
+          onClick={handleNewChat}
+          type="button"
+          aria-label={t('chat.newChat')}
+          title={t('chat.newChat')}
+        >
+          <PlusIcon />
+        </button>
+      )}
+      {!isInline && (
+        <button
+          className="devic-drawer-close"
+          onClick={handleClose}
+          type="button"
+          aria-label={t('chat.close')}
+        >
+          <CloseIcon />
+        </button>
+      )}
+    </div>
+  );
+
+  // The trigger renders outside the drawer, so it takes the theme directly
   const triggerStyle = useMemo(
-    () => ({
+    (): React.CSSProperties => ({
+      ...themeToCssVars(theme),
       zIndex: mergedOptions.zIndex - 1,
-      [mergedOptions.position]: 20,
+      [side]: 20,
       bottom: 20,
     }),
-    [mergedOptions.zIndex, mergedOptions.position]
+    [theme, mergedOptions.zIndex, side]
   );
 
-  return (
+  const content = (
     <>
       {/* Overlay (drawer mode only) */}
       {!isInline && (
         <div
           className="devic-drawer-overlay"
           data-open={isOpen}
+          data-devic-unstyled={unstyled}
           style={overlayStyle}
           onClick={handleClose}
         />
@@ -559,85 +965,79 @@ function ChatDrawerInner({
       <div
         ref={drawerRef}
         className={`devic-chat-drawer ${className || ''}`}
-        data-position={mergedOptions.position}
+        data-position={side}
         data-open={isOpen}
         data-mode={mode}
+        data-devic-unstyled={unstyled}
+        dir={direction}
         style={drawerStyle}
+        role={isInline ? 'region' : 'dialog'}
+        aria-modal={isModal || undefined}
+        aria-hidden={!isOpen || undefined}
+        aria-labelledby={titleIdRef.current}
+        tabIndex={-1}
       >
         {/* Resize handle */}
         {mergedOptions.resizable && (
           <div
             className="devic-resize-handle"
-            data-position={mergedOptions.position}
+            data-position={side}
             onMouseDown={handleResizeStart}
           />
         )}
 
         {/* Header */}
-        <div className="devic-drawer-header">
-          {avatarUrl && (
-            <img
-              className="devic-drawer-avatar"
-              src={avatarUrl}
-              alt=""
-              aria-hidden="true"
-            />
-          )}
-          <h2 className="devic-drawer-title">{mergedOptions.title}</h2>
-          <ConversationSelector
-            assistantId={assistantId}
-            currentChatUid={chat.chatUid}
-            onSelect={handleConversationSelect}
-            onNewChat={handleNewChat}
-            apiKey={apiKey}
-            baseUrl={baseUrl}
-            tenantId={tenantId}
-            subtenantId={subtenantId}
-            conversationPreview={mergedOptions.conversationPreview}
+        {Header ? (
+          <Header
+            title={headerTitle}
+            titleId={titleIdRef.current}
+            avatarUrl={avatarUrl || undefined}
+            conversationList={conversationListNode}
+            assistantPicker={assistantPickerNode}
+            actions={headerActionsNode}
+            onNewChat={isReplay ? undefined : handleNewChat}
+            onClose={isInline ? undefined : handleClose}
+            isReplay={isReplay}
           />
-          <div className="devic-drawer-header-actions">
-            <button
-              className="devic-new-chat-btn"
-              onClick={handleNewChat}
-              type="button"
-              aria-label="New chat"
-              title="New chat"
-            >
-              <PlusIcon />
-            </button>
-            {!isInline && (
-              <button
-                className="devic-drawer-close"
-                onClick={handleClose}
-                type="button"
-                aria-label="Close chat"
-              >
-                <CloseIcon />
-              </button>
+        ) : (
+          <div className="devic-drawer-header">
+            {avatarUrl && (
+              <img
+                className="devic-drawer-avatar"
+                src={avatarUrl}
+                alt=""
+                aria-hidden="true"
+              />
             )}
+            <h2 className="devic-drawer-title" id={titleIdRef.current}>
+              {headerTitle}
+            </h2>
+            {assistantPickerNode}
+            {conversationListNode}
+            {headerActionsNode}
           </div>
-        </div>
+        )}
 
         {/* Error display */}
-        {chat.error && (
-          <div className="devic-error">
+        {chat.error && !isReplay && (
+          <div className="devic-error" role="alert">
             {chat.error.message}
           </div>
         )}
 
         {/* Messages */}
-        <ChatMessages
-          messages={chat.messages}
-          allMessages={chat.messages}
-          isLoading={chat.isLoading}
-          welcomeMessage={mergedOptions.welcomeMessage}
-          suggestedMessages={mergedOptions.suggestedMessages}
+        <MessageList
+          messages={displayedMessages}
+          allMessages={isReplay ? replayMessages : chat.messages}
+          isLoading={isReplay ? false : chat.isLoading}
+          welcomeMessage={isReplay ? '' : mergedOptions.welcomeMessage}
+          suggestedMessages={isReplay ? [] : mergedOptions.suggestedMessages}
           onSuggestedClick={handleSuggestedClick}
           showToolTimeline={mergedOptions.showToolTimeline}
           toolRenderers={mergedOptions.toolRenderers}
           toolIcons={mergedOptions.toolIcons}
           loadingIndicator={mergedOptions.loadingIndicator}
-          showFeedback={mergedOptions.showFeedback}
+          showFeedback={mergedOptions.showFeedback && !isReplay}
           feedbackMap={feedbackMap}
           onFeedback={handleFeedback}
           handedOffSubThreadId={chat.handedOffSubThreadId || undefined}
@@ -651,32 +1051,58 @@ function ChatDrawerInner({
           pendingInlineWidgets={inlineWidgets}
           onSubmitWidget={chat.submitWidgetResponse}
           onCancelWidget={chat.cancelWidgetCall}
+          pendingConfirmations={chat.pendingConfirmations}
+          onApproveToolCall={chat.approveToolCall}
+          onDenyToolCall={chat.denyToolCall}
+          highlightMessageUid={highlightMessageUid}
+          onHighlightShown={clearHighlight}
+          onEditMessage={messageEditingEnabled ? chat.editMessage : undefined}
+          onRegenerateMessage={messageEditingEnabled ? chat.regenerateMessage : undefined}
+          messageBranches={isReplay ? undefined : chat.branches}
+          onSelectBranch={chat.selectBranch}
+          components={mergedOptions.components}
         />
 
-        {/* Input */}
-        {mergedOptions.customPromptBox ? (
+        {/* Input (playback controls while replaying) */}
+        {isReplay ? (
+          <ReplayControls
+            step={replayStep}
+            total={replayMessages.length}
+            playing={replayPlaying}
+            onPlay={() => setReplayPlaying(true)}
+            onPause={() => setReplayPlaying(false)}
+            onStepBack={() => {
+              setReplayPlaying(false);
+              setReplayStep((s) => Math.max(s - 1, 0));
+            }}
+            onStepForward={() => {
+              setReplayPlaying(false);
+              setReplayStep((s) => Math.min(s + 1, replayMessages.length));
+            }}
+            onRestart={() => {
+              setReplayPlaying(false);
+              setReplayStep(0);
+            }}
+          />
+        ) : Composer || mergedOptions.customPromptBox ? (
           <div className="devic-input-area">
             {limitBannerNode}
             {usageBarNode}
-            {mergedOptions.customPromptBox({
-              sendMessage: handleSend,
-              transcribeAudio,
-              stop: chat.stopChat,
-              isLoading: chat.isLoading,
-              newConversation: chat.clearChat,
-              references,
-              removeReference,
-              clearReferences,
-              limitExceeded: chat.limitExceeded,
-            })}
+            {Composer ? (
+              <Composer {...promptBoxProps} />
+            ) : (
+              mergedOptions.customPromptBox(promptBoxProps)
+            )}
           </div>
         ) : (
           <ChatInput
             onSend={handleSend}
             disabled={
               chat.isLoading ||
+              isRouting ||
               chat.handedOff ||
               inlineWidgets.length > 0 ||
+              chat.pendingConfirmations.length > 0 ||
               !!chat.limitExceeded
             }
             placeholder={mergedOptions.inputPlaceholder}
@@ -699,11 +1125,15 @@ function ChatDrawerInner({
             baseUrl={resolvedBaseUrl}
             sendButtonContent={mergedOptions.sendButtonContent}
             disabledMessage={
-              chat.handedOff
-                ? 'Waiting for subagent to complete'
-                : inlineWidgets.length > 0
-                  ? 'Waiting for tool response'
-                  : undefined
+              isRouting
+                ? t('chat.routingAssistant')
+                : chat.handedOff
+                  ? t('chat.waitingForSubagent')
+                  : inlineWidgets.length > 0
+                    ? t('chat.waitingForTool')
+                    : chat.pendingConfirmations.length > 0
+                      ? t('chat.waitingForConfirmation')
+                      : undefined
             }
             isProcessing={chat.isLoading && !chat.handedOff}
             onStop={chat.stopChat}
@@ -720,19 +1150,34 @@ function ChatDrawerInner({
       </div>
 
       {/* Trigger button (drawer mode only, when closed) */}
-      {!isInline && !isOpen && (
+      {!isInline && !isOpen && (Trigger ? (
+        <Trigger
+          buttonProps={{
+            ref: triggerRef,
+            onClick: handleOpen,
+            type: 'button',
+            'aria-label': t('chat.open'),
+          }}
+          style={triggerStyle}
+          open={handleOpen}
+        />
+      ) : (
         <button
+          ref={triggerRef}
           className="devic-trigger"
           onClick={handleOpen}
           style={triggerStyle}
+          data-devic-unstyled={unstyled}
           type="button"
-          aria-label="Open chat"
+          aria-label={t('chat.open')}
         >
           <ChatIcon />
         </button>
-      )}
+      ))}
     </>
   );
+
+  return shadowDom ? <DevicShadowRoot options={shadowDom}>{content}</DevicShadowRoot> : content;
 }
 
 /**
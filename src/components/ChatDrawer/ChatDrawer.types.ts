@@ -1,7 +1,12 @@
-import type { ChatMessage, ModelInterfaceTool, ChatFile, AgentThreadDto, AgentDto, ToolGroupConfig, WhisperTranscriptionResponse, TenantLimitExceeded } from '../../api/types';
-import type { PendingWidgetCall } from '../../hooks/useModelInterface';
+import type { ChatMessage, ModelInterfaceTool, ChatFile, AgentThreadDto, AgentDto, ToolGroupConfig, WhisperTranscriptionResponse, TenantLimitExceeded, RealtimeTransport, PreviousMessage, AssistantSpecialization } from '../../api/types';
+import type { ChatExport } from '../../utils/chatExport';
+import type { PendingWidgetCall, PendingConfirmationCall } from '../../hooks/useModelInterface';
 import type { AIReference } from '../../provider/types';
+import type { DevicDirectionOption } from '../../i18n';
+import type { DevicThemeOption } from '../../theme';
+import type { DevicShadowDomOption } from '../../shadow';
 import type { UsageBarDisplay, UsageBarData } from './UsageBar';
+import type { MessageActionsProps } from '../Feedback/Feedback.types';
 
 /**
  * A suggested message displayed as a quick action button.
@@ -44,6 +49,123 @@ export type MessageBubbleRenderer = (
   props: MessageBubbleRendererProps,
 ) => React.ReactNode;
 
+/**
+ * Props of the `Header` slot. The default pieces are passed pre-rendered so
+ * a custom header can keep, move or drop them.
+ */
+export interface ChatHeaderSlotProps {
+  /** Drawer title */
+  title: React.ReactNode;
+  /** Id for the title element; the drawer is labelled by it */
+  titleId: string;
+  /** Assistant avatar URL, when known */
+  avatarUrl?: string;
+  /** Conversation switcher (the replay badge while replaying) */
+  conversationList: React.ReactNode;
+  /** Assistant picker (undefined unless `options.assistants` is set) */
+  assistantPicker?: React.ReactNode;
+  /** Default export, new chat and close buttons */
+  actions: React.ReactNode;
+  /** Start a new conversation (undefined while replaying) */
+  onNewChat?: () => void;
+  /** Close the drawer (undefined in inline mode) */
+  onClose?: () => void;
+  /** Whether a conversation export is being replayed */
+  isReplay: boolean;
+}
+
+/**
+ * Props of the `MessageBubble` slot, rendered inside each message row (the
+ * row keeps the keyboard navigation and accessibility attributes)
+ */
+export interface MessageBubbleSlotProps {
+  message: ChatMessage;
+  role: 'user' | 'assistant';
+  /** Text content, with the reference prefix of user messages stripped */
+  content: string;
+  /** Reference labels parsed out of the message (user messages only) */
+  references: string[];
+  /** Message time, formatted for the locale */
+  time: string;
+  /** Whether the message waits in the offline outbox */
+  pending: boolean;
+  /** Default bubble content: text, attachments and voice playback */
+  body: React.ReactNode;
+  /** Default footer: time, pending state, versions and message actions */
+  footer: React.ReactNode;
+}
+
+/**
+ * Props of the `ToolTimelineItem` slot, one row of the tool activity list.
+ * Tools with a `toolRenderers` entry and hand-offs keep their renderer.
+ */
+export interface ToolTimelineItemSlotProps {
+  /** Assistant message carrying the tool call */
+  message: ChatMessage;
+  toolName?: string;
+  /** Summary text (falls back to the tool name) */
+  summary: string;
+  status: 'active' | 'completed';
+  /** Parsed tool arguments */
+  input: any;
+  /** Tool result, once available */
+  output?: any;
+  /** Default status icon (spinner, tool icon or check mark) */
+  icon: React.ReactNode;
+}
+
+/**
+ * Props of the `EmptyState` slot, shown while the conversation is empty
+ */
+export interface EmptyStateSlotProps {
+  welcomeMessage?: string;
+  suggestedMessages?: (string | SuggestedMessage)[];
+  /** Send a suggested message */
+  onSuggestedClick?: (message: string) => void;
+}
+
+/**
+ * Props of the `Trigger` slot, the floating button that opens the drawer
+ */
+export interface ChatTriggerSlotProps {
+  /**
+   * Spread onto the button: click handler, accessible label and the ref
+   * focus returns to when the drawer closes
+   */
+  buttonProps: React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    ref: React.Ref<HTMLButtonElement>;
+  };
+  /** Position of the default trigger (fixed, bottom corner) */
+  style: React.CSSProperties;
+  open: () => void;
+}
+
+/**
+ * Components replacing parts of the ChatDrawer. The default building blocks
+ * (`ChatMessages`, `ChatInput`, `ConversationSelector`, `MessageActions`...)
+ * are exported, so a slot can also wrap them.
+ */
+export interface ChatDrawerComponents {
+  /** Header bar: title, conversation list and actions */
+  Header?: React.ComponentType<ChatHeaderSlotProps>;
+  /** Conversation switcher in the header */
+  ConversationList?: React.ComponentType<ConversationSelectorProps>;
+  /** Whole message list (replaces `ChatMessages`) */
+  MessageList?: React.ComponentType<ChatMessagesProps>;
+  /** Content of one message row */
+  MessageBubble?: React.ComponentType<MessageBubbleSlotProps>;
+  /** One row of the tool activity timeline */
+  ToolTimelineItem?: React.ComponentType<ToolTimelineItemSlotProps>;
+  /** Copy / feedback / edit / regenerate buttons of a message */
+  MessageActions?: React.ComponentType<MessageActionsProps>;
+  /** Welcome message and suggestions of an empty conversation */
+  EmptyState?: React.ComponentType<EmptyStateSlotProps>;
+  /** Input area (replaces `ChatInput`; `customPromptBox` as a component) */
+  Composer?: React.ComponentType<CustomPromptBoxProps>;
+  /** Floating button that opens the drawer */
+  Trigger?: React.ComponentType<ChatTriggerSlotProps>;
+}
+
 /**
  * Props passed to a custom prompt box component.
  * The component receives chat actions and state so it can drive the conversation.
@@ -109,10 +231,18 @@ export interface AllowedFileTypes {
  */
 export interface ChatDrawerOptions {
   /**
-   * Drawer position
-   * @default 'right'
+   * Drawer position. 'start' and 'end' follow the writing direction
+   * ('end' is the right side in LTR and the left side in RTL).
+   * @default 'end'
    */
-  position?: 'left' | 'right';
+  position?: 'left' | 'right' | 'start' | 'end';
+
+  /**
+   * Writing direction of the drawer. Mirrors the layout, resize handle and
+   * message alignment. Defaults to the DevicProvider's direction.
+   * @default 'auto'
+   */
+  direction?: DevicDirectionOption;
 
   /**
    * Drawer width as pixels (number) or CSS string (e.g. '50%', '400px')
@@ -127,11 +257,18 @@ export interface ChatDrawerOptions {
   defaultOpen?: boolean;
 
   /**
-   * Primary color for theming
+   * Primary color for theming (shorthand for `theme.colors.primary`)
    * @default '#1890ff'
    */
   color?: string;
 
+  /**
+   * Theme of this drawer: a preset, `'auto'`, or token overrides applied on
+   * top of the DevicProvider's theme. The colour, font and radius options
+   * below take precedence over it.
+   */
+  theme?: DevicThemeOption;
+
   /**
    * Welcome message shown at start
    */
@@ -250,12 +387,13 @@ export interface ChatDrawerOptions {
 
   /**
    * Placeholder text for input
-   * @default 'Type a message...'
+   * @default 'Type a message...' (localised)
    */
   inputPlaceholder?: string;
 
   /**
    * Title displayed in header. Can be a string or React node.
+   * @default 'Chat' (localised)
    */
   title?: string | React.ReactNode;
 
@@ -424,6 +562,33 @@ export interface ChatDrawerOptions {
    */
   persistConversation?: boolean;
 
+  /**
+   * How the drawer follows the assistant while it is processing.
+   * `'sse'` streams incremental messages and tokens (rendered as they arrive)
+   * and falls back to polling if the stream is unavailable.
+   * @default 'polling'
+   */
+  transport?: RealtimeTransport;
+
+  /**
+   * Keep messages sent while offline in a durable outbox and deliver them in
+   * order when the connection returns. Queued messages render as pending.
+   * @default true
+   */
+  offlineQueue?: boolean;
+
+  /**
+   * How many client tool callbacks of one turn may run at the same time
+   * @default 1
+   */
+  toolConcurrency?: number;
+
+  /**
+   * Milliseconds a client tool callback may run before it is aborted and
+   * answered with a timeout error (a tool's `timeoutMs` takes precedence)
+   */
+  toolTimeoutMs?: number;
+
   /**
    * Custom React component to replace the default prompt box (input area).
    * Receives `sendMessage`, `stop`, and `isLoading` props so it can
@@ -460,6 +625,46 @@ export interface ChatDrawerOptions {
    */
   assistantMessageRenderer?: MessageBubbleRenderer;
 
+  /**
+   * Components replacing parts of the drawer (header, message list, message
+   * bubbles, tool rows, composer, empty state...). Combine with `unstyled`
+   * to use the drawer as a headless shell.
+   *
+   * @example
+   * ```tsx
+   * components: {
+   *   MessageBubble: ({ role, body, footer }) => (
+   *     <div className={role === 'user' ? 'my-user-msg' : 'my-bot-msg'}>{body}{footer}</div>
+   *   ),
+   * }
+   * ```
+   */
+  components?: ChatDrawerComponents;
+
+  /**
+   * Drop the library stylesheet rules for this drawer. Class names and
+   * `data-*` attributes stay as styling hooks; only inline sizing and
+   * theme variables are still applied.
+   * @default false
+   */
+  unstyled?: boolean;
+
+  /**
+   * Render the drawer (and its trigger, dropdowns and tooltips) inside a
+   * shadow root with the library stylesheet injected there, isolating it
+   * from the page's CSS. `className` and page styles no longer reach it;
+   * style it with theme variables or the injected `css`. Defaults to the
+   * DevicProvider's `shadowDom`.
+   *
+   * @example
+   * ```tsx
+   * import devicCss from '@devicai/ui/styles.css?inline';
+   *
+   * options={{ shadowDom: { css: devicCss } }}
+   * ```
+   */
+  shadowDom?: DevicShadowDomOption;
+
   /**
    * What to show as fallback when a conversation has no name.
    * - 'date': show the creation date/time (default)
@@ -468,6 +673,33 @@ export interface ChatDrawerOptions {
    */
   conversationPreview?: 'date' | 'firstMessage';
 
+  /**
+   * Show rename, delete, pin and archive actions in the conversation selector
+   * @default true
+   */
+  conversationActions?: boolean;
+
+  /**
+   * Let users edit and resend their messages and regenerate assistant
+   * replies. Both fork the conversation; a navigator switches between the
+   * versions.
+   * @default true
+   */
+  enableMessageEditing?: boolean;
+
+  /**
+   * Show a header action to export the conversation as Markdown, JSON or
+   * printable HTML
+   * @default false
+   */
+  enableExport?: boolean;
+
+  /**
+   * Delay between messages when playing back a `replay`, in milliseconds
+   * @default 1500
+   */
+  replayInterval?: number;
+
   /**
    * Show a usage bar above the input with the current tenant/subtenant usage
    * (most utilized window). Requires a `tenantId` (and reads it via the public
@@ -522,6 +754,15 @@ export interface ChatDrawerOptions {
    * The input is disabled regardless while the limit is active.
    */
   limitBannerRenderer?: (limit: TenantLimitExceeded) => React.ReactNode;
+
+  /**
+   * Show an assistant picker in the header. `true` lists every active
+   * assistant from `getAssistants()`; an array of identifiers restricts the
+   * list to those assistants, in that order. Each assistant keeps its own
+   * conversation list and current conversation.
+   * @default false
+   */
+  assistants?: boolean | string[];
 }
 
 /**
@@ -533,13 +774,26 @@ export interface ChatDrawerOptions {
 export interface ConversationSelectorProps {
   assistantId: string;
   currentChatUid: string | null;
-  onSelect: (chatUid: string) => void;
+  /**
+   * Called when a conversation is picked. `messageUid` is set when it was
+   * picked from a message search result.
+   */
+  onSelect: (chatUid: string, options?: { messageUid?: string }) => void;
   onNewChat: () => void;
   apiKey?: string;
   baseUrl?: string;
   tenantId?: string;
   subtenantId?: string;
   conversationPreview?: 'date' | 'firstMessage';
+  /**
+   * Show rename, delete, pin and archive actions
+   * @default true
+   */
+  enableActions?: boolean;
+  /**
+   * Called after a conversation was deleted
+   */
+  onConversationDeleted?: (chatUid: string) => void;
 }
 
 export interface ChatDrawerProps {
@@ -606,6 +860,20 @@ export interface ChatDrawerProps {
    */
   tags?: string[];
 
+  /**
+   * Prior turns to seed a new conversation with, e.g. from
+   * `chatExportToPreviousConversation(parseChatExport(json))`.
+   * Sent with the first message of a new chat.
+   */
+  previousConversation?: PreviousMessage[];
+
+  /**
+   * Imported conversation to replay. While set, the drawer is read-only: it
+   * steps through the recorded messages and tool calls with playback
+   * controls in place of the input, and makes no API calls.
+   */
+  replay?: ChatExport;
+
   /**
    * API key (overrides provider)
    */
@@ -641,6 +909,22 @@ export interface ChatDrawerProps {
    */
   onChatCreated?: (chatUid: string) => void;
 
+  /**
+   * Pick the assistant that answers a new conversation from its first
+   * message. Receives the message and the available assistants (those of
+   * `options.assistants`, or all active ones) and returns an assistant
+   * identifier; returning nothing keeps the current assistant.
+   */
+  assistantRouter?: (
+    message: string,
+    assistants: AssistantSpecialization[]
+  ) => string | null | undefined | Promise<string | null | undefined>;
+
+  /**
+   * Callback when the active assistant changes (picker, router or handle)
+   */
+  onAssistantChange?: (assistantId: string) => void;
+
   /**
    * Callback when drawer opens
    */
@@ -716,6 +1000,26 @@ export interface ChatMessagesProps {
   onSubmitWidget?: (toolCallId: string, response: any) => void;
   /** Called when a widget cancels */
   onCancelWidget?: (toolCallId: string, reason?: string) => void;
+  /** Tool calls awaiting approval, rendered as approve/deny cards */
+  pendingConfirmations?: PendingConfirmationCall[];
+  /** Called when a confirmation card is approved */
+  onApproveToolCall?: (toolCallId: string, options?: { alwaysAllow?: boolean }) => void;
+  /** Called when a confirmation card is denied */
+  onDenyToolCall?: (toolCallId: string, reason?: string) => void;
+  /** Uid of a message to scroll to and highlight once it is rendered */
+  highlightMessageUid?: string | null;
+  /** Called once the highlighted message has been scrolled into view */
+  onHighlightShown?: () => void;
+  /** Edit-and-resend a user message (shows an edit action on user bubbles) */
+  onEditMessage?: (uid: string, message: string) => void;
+  /** Regenerate an assistant reply (shows a regenerate action) */
+  onRegenerateMessage?: (uid: string) => void;
+  /** Messages with alternatives, by uid, for the branch navigator */
+  messageBranches?: Record<string, { index: number; count: number }>;
+  /** Show another alternative of a message */
+  onSelectBranch?: (uid: string, index: number) => void;
+  /** Slots replacing the message rows, tool rows, actions or empty state */
+  components?: Pick<ChatDrawerComponents, 'MessageBubble' | 'ToolTimelineItem' | 'MessageActions' | 'EmptyState'>;
 }
 
 /**
@@ -839,6 +1143,11 @@ export interface ChatDrawerHandle {
    */
   setChatUid: (chatUid: string) => void;
 
+  /**
+   * Switch to another assistant, restoring its last conversation
+   */
+  setAssistantId: (assistantId: string) => void;
+
   /**
    * Send a message in the drawer
    */
@@ -1,7 +1,9 @@
 import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import type { ChatInputProps } from './ChatDrawer.types';
 import { useSpeechRecording } from '../../hooks/useSpeechRecording';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
 import { DevicApiClient } from '../../api/client';
+import { useOptionalDevicContext } from '../../provider';
 import { ReferenceChip } from './ReferenceChip';
 
 const FILE_TYPE_ACCEPT: Record<string, string[]> = {
@@ -28,7 +30,7 @@ const HANDOFF_HOLD_MS = 3000; // press-and-hold duration on the mic to arm hands
 export function ChatInput({
   onSend,
   disabled = false,
-  placeholder = 'Type a message...',
+  placeholder,
   enableFileUploads = false,
   allowedFileTypes = { images: true, documents: true },
   maxFileSize = 10 * 1024 * 1024, // 10MB
@@ -59,6 +61,8 @@ export function ChatInput({
   usageBar,
   limitBanner,
 }: ChatInputProps): JSX.Element {
+  const { t } = useDevicI18n();
+
   // When a widget is pending as 'input', render it in place of the textarea
   if (pendingInputWidget) {
     const WidgetComponent = pendingInputWidget.widget.component;
@@ -130,13 +134,16 @@ export function ChatInput({
   const holdFiredRef = useRef(false);
 
   // Client used only for the /whisper transcription call.
+  const context = useOptionalDevicContext();
+  const clientOptions = context?.clientOptions;
   const transcribeClient = useMemo(() => {
     if (!enableSpeechToText || !apiKey) return null;
     return new DevicApiClient({
+      ...clientOptions,
       apiKey,
       baseUrl: baseUrl || 'https://api.devic.ai',
     });
-  }, [enableSpeechToText, apiKey, baseUrl]);
+  }, [enableSpeechToText, apiKey, baseUrl, clientOptions]);
 
   const speechEnabled =
     enableSpeechToText && recording.isSupported && !!transcribeClient;
@@ -319,13 +326,15 @@ export function ChatInput({
       return text;
     } catch (e) {
       setSpeechError(
-        `Could not transcribe the audio: ${(e as Error)?.message || 'unknown error'}`,
+        t('speech.transcriptionFailed', {
+          error: (e as Error)?.message || t('speech.unknownError'),
+        }),
       );
       return null;
     } finally {
       setIsTranscribing(false);
     }
-  }, [transcribeClient, recording, speechLanguage, speechTenantId]);
+  }, [transcribeClient, recording, speechLanguage, speechTenantId, t]);
 
   // Cancellable countdown, then auto-send. Handoff stays active across the send
   // so the loop can continue after the assistant replies.
@@ -496,14 +505,14 @@ export function ChatInput({
         <div className="devic-handoff-bar" data-waiting={isProcessing ? 'true' : 'false'}>
           <span className="devic-handoff-dot" aria-hidden="true" />
           <span className="devic-handoff-label">
-            {isProcessing ? 'Hands-free · waiting for reply' : 'Hands-free on'}
+            {isProcessing ? t('speech.handsFreeWaiting') : t('speech.handsFreeOn')}
           </span>
           <button
             type="button"
             className="devic-handoff-stop"
             onClick={cancelHandoff}
-            title="Stop hands-free"
-            aria-label="Stop hands-free"
+            title={t('speech.stopHandsFree')}
+            aria-label={t('speech.stopHandsFree')}
           >
             <CloseIcon />
           </button>
@@ -531,6 +540,7 @@ export function ChatInput({
                 className="devic-file-remove"
                 onClick={() => removeFile(idx)}
                 type="button"
+                aria-label={t('chat.removeFile')}
               >
                 &times;
               </button>
@@ -549,7 +559,7 @@ export function ChatInput({
               </div>
               <div className="devic-handoff-pending-text">
                 <span className="devic-handoff-pending-title">
-                  Sending… interact to cancel
+                  {t('speech.pendingSend')}
                 </span>
                 {message.trim() && (
                   <span className="devic-handoff-pending-preview">{message.trim()}</span>
@@ -560,7 +570,7 @@ export function ChatInput({
         ) : isTranscribing ? (
           <div className="devic-speech-panel" data-state="processing">
             <span className="devic-speech-spinner" aria-hidden="true" />
-            <span className="devic-speech-status">Transcribing…</span>
+            <span className="devic-speech-status">{t('speech.transcribing')}</span>
           </div>
         ) : isRecordingActive ? (
           <div className="devic-speech-panel" data-state="recording">
@@ -568,7 +578,7 @@ export function ChatInput({
               className="devic-input-btn devic-speech-cancel"
               onClick={cancelRecording}
               type="button"
-              title="Cancel recording"
+              title={t('speech.cancelRecording')}
             >
               <CloseIcon />
             </button>
@@ -582,7 +592,7 @@ export function ChatInput({
               className="devic-input-btn"
               onClick={recording.isPaused ? recording.resume : recording.pause}
               type="button"
-              title={recording.isPaused ? 'Resume' : 'Pause'}
+              title={recording.isPaused ? t('common.resume') : t('common.pause')}
             >
               {recording.isPaused ? <PlayIcon /> : <PauseIcon />}
             </button>
@@ -599,8 +609,8 @@ export function ChatInput({
                 type="button"
                 title={
                   recording.isAutoStopping
-                    ? 'Auto-sending… keep talking to cancel'
-                    : 'Confirm'
+                    ? t('speech.autoSending')
+                    : t('speech.confirm')
                 }
               >
                 <CheckIcon />
@@ -624,7 +634,7 @@ export function ChatInput({
                   onClick={() => fileInputRef.current?.click()}
                   disabled={disabled}
                   type="button"
-                  title="Attach file"
+                  title={t('chat.attachFile')}
                 >
                   <AttachIcon />
                 </button>
@@ -647,8 +657,8 @@ export function ChatInput({
                   type="button"
                   title={
                     speechHandoff
-                      ? 'Tap to dictate · hold to start hands-free'
-                      : 'Record voice message'
+                      ? t('speech.tapOrHold')
+                      : t('speech.record')
                   }
                 >
                   <MicIcon />
@@ -659,6 +669,7 @@ export function ChatInput({
             <textarea
               ref={textareaRef}
               className="devic-input"
+              dir="auto"
               value={message}
               onChange={(e) => {
                 const value = e.target.value;
@@ -669,7 +680,8 @@ export function ChatInput({
                 handleInput();
               }}
               onKeyDown={handleKeyDown}
-              placeholder={placeholder}
+              placeholder={placeholder ?? t('chat.inputPlaceholder')}
+              aria-label={placeholder ?? t('chat.inputPlaceholder')}
               disabled={disabled}
               rows={1}
             />
@@ -684,7 +696,7 @@ export function ChatInput({
                     className="devic-send-btn-overlay"
                     onClick={onStop}
                     type="button"
-                    title="Stop"
+                    title={t('common.stop')}
                   />
                 </div>
               ) : (
@@ -692,7 +704,7 @@ export function ChatInput({
                   className="devic-input-btn devic-stop-btn"
                   onClick={onStop}
                   type="button"
-                  title="Stop"
+                  title={t('common.stop')}
                 >
                   <StopIcon />
                 </button>
@@ -707,7 +719,7 @@ export function ChatInput({
                   onClick={handleSend}
                   disabled={disabled || (!message.trim() && files.length === 0)}
                   type="button"
-                  title="Send message"
+                  title={t('chat.sendMessage')}
                 />
               </div>
             ) : (
@@ -716,7 +728,7 @@ export function ChatInput({
                 onClick={handleSend}
                 disabled={disabled || (!message.trim() && files.length === 0)}
                 type="button"
-                title="Send message"
+                title={t('chat.sendMessage')}
               >
                 <SendIcon />
               </button>
@@ -3,22 +3,33 @@ import Markdown from "markdown-to-jsx";
 import { MessageActions } from "../Feedback";
 import { HandoffSubagentWidget } from "./HandoffSubagentWidget";
 import { ReferenceChip } from "./ReferenceChip";
-import type { ChatMessagesProps, SuggestedMessage } from "./ChatDrawer.types";
+import { ToolConfirmationCard } from "./ToolConfirmationCard";
+import type {
+  ChatMessagesProps,
+  SuggestedMessage,
+  ToolTimelineItemSlotProps,
+} from "./ChatDrawer.types";
 import type { ChatMessage, ToolGroupConfig, ToolGroupCall } from "../../api/types";
 import type { FeedbackState } from "../Feedback";
 import { segmentToolCalls } from "../../utils/toolGroups";
 import { DevicApiClient } from "../../api/client";
+import { useOptionalDevicContext } from "../../provider";
+import { useDevicI18n } from "../../hooks/useDevicI18n";
+import { getRovingTarget } from "../../utils/a11y";
 import "../Feedback/Feedback.css";
 
-/**
- * Format timestamp to readable time
- */
-function formatTime(timestamp: number): string {
-  return new Date(timestamp).toLocaleTimeString([], {
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
+// How long a message jumped to from search stays highlighted
+const HIGHLIGHT_DURATION_MS = 2500;
+
+// Replies older than mount time minus this (history, conversation switches)
+// are not announced to screen readers; tolerates server clock skew
+const ANNOUNCE_CLOCK_SKEW_MS = 60_000;
+
+// Message timestamps: time only, in the provider's locale
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  hour: "2-digit",
+  minute: "2-digit",
+};
 
 function MicGlyph(): JSX.Element {
   return (
@@ -76,6 +87,8 @@ function TranscriptPlayback({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const audioUrlRef = useRef<string | null>(null);
+  const context = useOptionalDevicContext();
+  const { t } = useDevicI18n();
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
   useEffect(() => {
@@ -92,13 +105,14 @@ function TranscriptPlayback({
     let url = audioUrlRef.current;
     if (!url) {
       if (!apiKey) {
-        setError("Unavailable");
+        setError(t("speech.audioUnavailable"));
         return null;
       }
       setIsLoading(true);
       setError(null);
       try {
         const client = new DevicApiClient({
+          ...context?.clientOptions,
           apiKey,
           baseUrl: baseUrl || "https://api.devic.ai",
         });
@@ -106,14 +120,14 @@ function TranscriptPlayback({
         url = transcript.audioUrl || null;
         audioUrlRef.current = url;
       } catch {
-        setError("Audio unavailable");
+        setError(t("speech.audioUnavailable"));
         return null;
       } finally {
         setIsLoading(false);
       }
     }
     if (!url) {
-      setError("Audio unavailable");
+      setError(t("speech.audioUnavailable"));
       return null;
     }
     const audio = new Audio(url);
@@ -121,7 +135,7 @@ function TranscriptPlayback({
     audio.onpause = () => setIsPlaying(false);
     audio.onended = () => setIsPlaying(false);
     audio.onerror = () => {
-      setError("Playback failed");
+      setError(t("speech.playbackFailed"));
       setIsPlaying(false);
     };
     audioRef.current = audio;
@@ -138,7 +152,7 @@ function TranscriptPlayback({
       try {
         await audio.play();
       } catch {
-        setError("Playback failed");
+        setError(t("speech.playbackFailed"));
       }
     }
   };
@@ -147,14 +161,14 @@ function TranscriptPlayback({
     <div
       className="devic-transcript-playback"
       data-playing={isPlaying ? "true" : "false"}
-      title="Dictated by voice"
+      title={t("speech.dictated")}
     >
       <button
         type="button"
         className="devic-transcript-btn"
         onClick={toggle}
         disabled={isLoading}
-        aria-label={isPlaying ? "Pause recording" : "Play recording"}
+        aria-label={isPlaying ? t("speech.pauseRecording") : t("speech.playRecording")}
       >
         {isLoading ? (
           <span className="devic-transcript-spinner" aria-hidden="true" />
@@ -168,7 +182,7 @@ function TranscriptPlayback({
         <MicGlyph />
       </span>
       <span className="devic-transcript-label">
-        {error || "Voice message"}
+        {error || t("speech.voiceMessage")}
       </span>
     </div>
   );
@@ -268,6 +282,7 @@ function ToolGroup({
   handoffWidgetRenderer,
   apiKey,
   baseUrl,
+  ToolTimelineItem,
 }: {
   toolMessages: ChatMessage[];
   isActive: boolean;
@@ -280,7 +295,9 @@ function ToolGroup({
   handoffWidgetRenderer?: ChatMessagesProps["handoffWidgetRenderer"];
   apiKey?: string;
   baseUrl?: string;
+  ToolTimelineItem?: React.ComponentType<ToolTimelineItemSlotProps>;
 }): JSX.Element {
+  const { t } = useDevicI18n();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const shouldCollapse = toolMessages.length > 3 && !isActive;
 
@@ -302,7 +319,7 @@ function ToolGroup({
     const toolCall = msg.tool_calls?.[0];
     const toolName = toolCall?.function?.name;
     const summaryText =
-      msg.summary || toolName || (opts.active ? "Processing..." : "Completed");
+      msg.summary || toolName || (opts.active ? t("common.processing") : t("common.completed"));
 
     // Render HandoffSubagentWidget for hand_off_subagent tool calls
     if (toolName === "hand_off_subagent" && toolCall && allMessages) {
@@ -346,6 +363,21 @@ function ToolGroup({
       (toolName && toolIcons?.[toolName]) || <ToolDoneIcon />
     );
 
+    if (ToolTimelineItem) {
+      const call = resolveToolGroupCall(msg);
+      return (
+        <ToolTimelineItem
+          message={msg}
+          toolName={toolName}
+          summary={summaryText}
+          status={opts.active ? "active" : "completed"}
+          input={call?.input ?? {}}
+          output={opts.active ? undefined : call?.output}
+          icon={icon}
+        />
+      );
+    }
+
     return (
       <>
         <span className="devic-tool-activity-icon">{icon}</span>
@@ -456,9 +488,10 @@ function ToolGroup({
           className="devic-tool-collapse-btn"
           onClick={() => setIsCollapsed(false)}
           type="button"
+          aria-expanded={false}
         >
           <ToolDoneIcon />
-          <span>{toolMessages.length} actions</span>
+          <span>{t("chat.toolActions", { count: toolMessages.length })}</span>
           <ChevronDownIcon />
         </button>
       </div>
@@ -472,8 +505,9 @@ function ToolGroup({
           className="devic-tool-collapse-btn"
           onClick={() => setIsCollapsed(true)}
           type="button"
+          aria-expanded={true}
         >
-          <span>{toolMessages.length} actions</span>
+          <span>{t("chat.toolActions", { count: toolMessages.length })}</span>
           <ChevronUpIcon />
         </button>
       )}
@@ -548,9 +582,29 @@ export function ChatMessages({
   pendingInlineWidgets,
   onSubmitWidget,
   onCancelWidget,
+  pendingConfirmations,
+  onApproveToolCall,
+  onDenyToolCall,
+  highlightMessageUid,
+  onHighlightShown,
+  onEditMessage,
+  onRegenerateMessage,
+  messageBranches,
+  onSelectBranch,
+  components,
 }: ChatMessagesProps): JSX.Element {
+  const { t, formatDate } = useDevicI18n();
+  const { MessageBubble, EmptyState } = components ?? {};
+  const Actions = components?.MessageActions ?? MessageActions;
   const containerRef = useRef<HTMLDivElement>(null);
   const prevLengthRef = useRef(messages.length);
+  const [highlightedUid, setHighlightedUid] = useState<string | null>(null);
+  const [editingUid, setEditingUid] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [focusedUid, setFocusedUid] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const announcedUidsRef = useRef<Set<string>>(new Set());
+  const announceSinceRef = useRef(Date.now() - ANNOUNCE_CLOCK_SKEW_MS);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -560,6 +614,26 @@ export function ChatMessages({
     prevLengthRef.current = messages.length;
   }, [messages.length, isLoading]);
 
+  // Scroll to and flash a requested message (e.g. a search result) once it is
+  // rendered. Runs after the auto-scroll above so it wins on the same render.
+  useEffect(() => {
+    if (!highlightMessageUid || !containerRef.current) return;
+    const el = Array.from(
+      containerRef.current.querySelectorAll<HTMLElement>("[data-message-uid]")
+    ).find((node) => node.dataset.messageUid === highlightMessageUid);
+    if (!el) return;
+
+    el.scrollIntoView?.({ block: "center" });
+    setHighlightedUid(highlightMessageUid);
+    onHighlightShown?.();
+  }, [highlightMessageUid, messages, onHighlightShown]);
+
+  useEffect(() => {
+    if (!highlightedUid) return;
+    const timer = setTimeout(() => setHighlightedUid(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedUid]);
+
   const grouped = groupMessages(messages, isLoading);
 
   // Show loading dots only if there's no active tool group at the end
@@ -567,11 +641,89 @@ export function ChatMessages({
   const showLoadingDots =
     isLoading && !(lastGroup?.type === "toolGroup" && lastGroup.isActive);
 
+  // Announce finished assistant replies once the turn completes (streamed or
+  // polled text is read in full, not chunk by chunk)
+  useEffect(() => {
+    if (isLoading) return;
+    const fresh = messages.filter(
+      (m) =>
+        m.role === "assistant" &&
+        !!m.content?.message &&
+        !announcedUidsRef.current.has(m.uid)
+    );
+    fresh.forEach((m) => announcedUidsRef.current.add(m.uid));
+    const live = fresh.filter((m) => m.timestamp >= announceSinceRef.current);
+    if (live.length > 0) {
+      setAnnouncement(
+        t("a11y.newAssistantMessage", {
+          message: live.map((m) => m.content!.message).join("\n"),
+        })
+      );
+    }
+  }, [messages, isLoading, t]);
+
+  // Announce the tool currently running
+  const activeTool =
+    lastGroup?.type === "toolGroup" && lastGroup.isActive
+      ? lastGroup.toolMessages[lastGroup.toolMessages.length - 1]
+      : null;
+  const activeToolLabel = activeTool
+    ? activeTool.summary || activeTool.tool_calls?.[0]?.function?.name || ""
+    : "";
+  useEffect(() => {
+    if (activeToolLabel) {
+      setAnnouncement(t("a11y.toolRunning", { tool: activeToolLabel }));
+    }
+  }, [activeToolLabel, t]);
+
+  // Roving focus between messages: one tab stop (the last focused message,
+  // or the latest one), arrows / Home / End move between messages
+  const messageUids = grouped.flatMap((item) =>
+    item.type === "message" ? [item.message.uid] : []
+  );
+  const rovingUid =
+    focusedUid && messageUids.includes(focusedUid)
+      ? focusedUid
+      : messageUids[messageUids.length - 1];
+
+  const handleListKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (!target.matches(".devic-message[data-message-uid]")) return;
+    const items = Array.from(
+      e.currentTarget.querySelectorAll<HTMLElement>(":scope > .devic-message[data-message-uid]")
+    );
+    const next = getRovingTarget(items, target, e.key, {
+      orientation: "vertical",
+      wrap: false,
+    });
+    if (next) {
+      e.preventDefault();
+      next.focus();
+    }
+  };
+
   return (
-    <div className="devic-messages-container" ref={containerRef}>
+    <div
+      className="devic-messages-container"
+      ref={containerRef}
+      role="log"
+      aria-label={t("a11y.messages")}
+      aria-live="off"
+      aria-busy={isLoading || undefined}
+      onKeyDown={handleListKeyDown}
+    >
+      <div className="devic-sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
       {messages.length === 0 &&
         !isLoading &&
-        (welcomeMessage || suggestedMessages?.length) && (
+        (EmptyState ? (
+          <EmptyState
+            welcomeMessage={welcomeMessage}
+            suggestedMessages={suggestedMessages}
+            onSuggestedClick={onSuggestedClick}
+          />
+        ) : welcomeMessage || suggestedMessages?.length ? (
           <div className="devic-welcome">
             {welcomeMessage && (
               <p className="devic-welcome-text">{welcomeMessage}</p>
@@ -595,7 +747,7 @@ export function ChatMessages({
               </div>
             )}
           </div>
-        )}
+        ) : null)}
 
       {grouped.map((item) => {
         if (item.type === "toolGroup") {
@@ -613,6 +765,7 @@ export function ChatMessages({
               handoffWidgetRenderer={handoffWidgetRenderer}
               apiKey={apiKey}
               baseUrl={baseUrl}
+              ToolTimelineItem={components?.ToolTimelineItem}
             />
           );
         }
@@ -641,12 +794,69 @@ export function ChatMessages({
           ? assistantMessageRenderer
           : userMessageRenderer;
 
-        return (
-          <div
-            key={message.uid}
-            className="devic-message"
-            data-role={message.role}
-          >
+        const branch = messageBranches?.[message.uid];
+        const canEdit = !isAssistant && !!onEditMessage && !message.pending;
+        const canRegenerate = isAssistant && !!onRegenerateMessage;
+        const showFeedbackActions = isAssistant && showFeedback && !!onFeedback;
+
+        if (editingUid === message.uid) {
+          // Keep the reference prefix; only the visible text is editable
+          const prefix = rawText && messageText ? rawText.slice(0, rawText.length - messageText.length) : "";
+          const submitEdit = () => {
+            const text = editValue.trim();
+            setEditingUid(null);
+            if (text && text !== messageText?.trim()) {
+              onEditMessage?.(message.uid, prefix + text);
+            }
+          };
+          return (
+            <div
+              key={message.uid}
+              className="devic-message devic-message--editing"
+              data-role={message.role}
+              data-message-uid={message.uid}
+            >
+              <textarea
+                className="devic-message-edit-input"
+                dir="auto"
+                value={editValue}
+                aria-label={t("chat.editMessage")}
+                onChange={(e) => setEditValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === "Escape") {
+                    e.preventDefault();
+                    setEditingUid(null);
+                  }
+                }}
+                autoFocus
+              />
+              <div className="devic-message-edit-actions">
+                <button
+                  type="button"
+                  className="devic-message-edit-cancel"
+                  onClick={() => setEditingUid(null)}
+                >
+                  {t("common.cancel")}
+                </button>
+                <button
+                  type="button"
+                  className="devic-message-edit-submit"
+                  onClick={submitEdit}
+                  disabled={!editValue.trim()}
+                >
+                  {t("common.send")}
+                </button>
+              </div>
+            </div>
+          );
+        }
+
+        const time = formatDate(message.timestamp, TIME_FORMAT);
+        const body = (
+          <>
             {refLabels.length > 0 && (
               <div className="devic-message-references">
                 {refLabels.map((lbl, i) => (
@@ -654,7 +864,7 @@ export function ChatMessages({
                 ))}
               </div>
             )}
-            <div className="devic-message-bubble">
+            <div className="devic-message-bubble" dir="auto">
               {messageText ? (
                 bubbleRenderer ? (
                   bubbleRenderer({
@@ -687,21 +897,81 @@ export function ChatMessages({
                 />
               )}
             </div>
-            <div className="devic-message-footer">
-              <span className="devic-message-time">
-                {formatTime(message.timestamp)}
+          </>
+        );
+        const footer = (
+          <div className="devic-message-footer">
+            <span className="devic-message-time">{time}</span>
+            {message.pending && (
+              <span className="devic-message-pending" title={t("chat.pendingHint")}>
+                <ClockIcon />
+                {t("chat.pending")}
               </span>
-              {isAssistant && showFeedback && onFeedback && (
-                <MessageActions
-                  messageId={message.uid}
-                  messageContent={messageText}
-                  currentFeedback={currentFeedback as FeedbackState}
-                  onFeedback={onFeedback}
-                  showCopy={true}
-                  showFeedback={true}
-                />
-              )}
-            </div>
+            )}
+            {branch && branch.count > 1 && (
+              <BranchNavigator
+                index={branch.index}
+                count={branch.count}
+                disabled={isLoading}
+                onSelect={(index) => onSelectBranch?.(message.uid, index)}
+              />
+            )}
+            {(showFeedbackActions || canEdit || canRegenerate) && (
+              <Actions
+                messageId={message.uid}
+                messageContent={messageText}
+                currentFeedback={currentFeedback as FeedbackState}
+                onFeedback={onFeedback}
+                showCopy={isAssistant}
+                showFeedback={showFeedbackActions}
+                onEdit={
+                  canEdit
+                    ? () => {
+                        setEditValue(messageText ?? "");
+                        setEditingUid(message.uid);
+                      }
+                    : undefined
+                }
+                onRegenerate={
+                  canRegenerate ? () => onRegenerateMessage!(message.uid) : undefined
+                }
+                disabled={isLoading}
+              />
+            )}
+          </div>
+        );
+
+        return (
+          <div
+            key={message.uid}
+            className={`devic-message${message.pending ? " devic-message--pending" : ""}`}
+            data-role={message.role}
+            data-message-uid={message.uid}
+            data-highlighted={highlightedUid === message.uid || undefined}
+            role="article"
+            aria-label={t(isAssistant ? "a11y.assistantMessage" : "a11y.userMessage", { time })}
+            tabIndex={message.uid === rovingUid ? 0 : -1}
+            onFocus={(e) => {
+              if (e.target === e.currentTarget) setFocusedUid(message.uid);
+            }}
+          >
+            {MessageBubble ? (
+              <MessageBubble
+                message={message}
+                role={isAssistant ? "assistant" : "user"}
+                content={messageText ?? ""}
+                references={refLabels}
+                time={time}
+                pending={!!message.pending}
+                body={body}
+                footer={footer}
+              />
+            ) : (
+              <>
+                {body}
+                {footer}
+              </>
+            )}
           </div>
         );
       })}
@@ -728,14 +998,27 @@ export function ChatMessages({
         </div>
       )}
 
+      {pendingConfirmations && pendingConfirmations.length > 0 && (
+        <div className="devic-inline-widgets">
+          {pendingConfirmations.map((call) => (
+            <ToolConfirmationCard
+              key={call.toolCall.id}
+              call={call}
+              onApprove={(toolCallId, options) => onApproveToolCall?.(toolCallId, options)}
+              onDeny={(toolCallId, reason) => onDenyToolCall?.(toolCallId, reason)}
+            />
+          ))}
+        </div>
+      )}
+
       {showLoadingDots &&
         (loadingIndicator ? (
-          <div className="devic-loading">{loadingIndicator}</div>
+          <div className="devic-loading" role="status" aria-label={t("a11y.responding")}>{loadingIndicator}</div>
         ) : (
-          <div className="devic-loading">
-            <span className="devic-loading-dot"></span>
-            <span className="devic-loading-dot"></span>
-            <span className="devic-loading-dot"></span>
+          <div className="devic-loading" role="status" aria-label={t("a11y.responding")}>
+            <span className="devic-loading-dot" aria-hidden="true"></span>
+            <span className="devic-loading-dot" aria-hidden="true"></span>
+            <span className="devic-loading-dot" aria-hidden="true"></span>
           </div>
         ))}
     </div>
@@ -744,6 +1027,82 @@ export function ChatMessages({
 
 /* ── Icons ── */
 
+/**
+ * "‹ 2 / 3 ›" switcher for a message with alternatives
+ */
+function BranchNavigator({
+  index,
+  count,
+  disabled,
+  onSelect,
+}: {
+  index: number;
+  count: number;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+}): JSX.Element {
+  const { t } = useDevicI18n();
+  return (
+    <span className="devic-branch-nav" role="group" aria-label={t("chat.messageVersions")}>
+      <button
+        type="button"
+        className="devic-branch-nav-btn"
+        onClick={() => onSelect(index - 1)}
+        disabled={disabled || index === 0}
+        aria-label={t("chat.previousVersion")}
+      >
+        <ChevronLeftIcon />
+      </button>
+      <span className="devic-branch-nav-label">
+        {index + 1}/{count}
+      </span>
+      <button
+        type="button"
+        className="devic-branch-nav-btn"
+        onClick={() => onSelect(index + 1)}
+        disabled={disabled || index === count - 1}
+        aria-label={t("chat.nextVersion")}
+      >
+        <ChevronRightIcon />
+      </button>
+    </span>
+  );
+}
+
+function ChevronLeftIcon(): JSX.Element {
+  return (
+    <svg
+      width="12"
+      height="12"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <polyline points="15,18 9,12 15,6" />
+    </svg>
+  );
+}
+
+function ChevronRightIcon(): JSX.Element {
+  return (
+    <svg
+      width="12"
+      height="12"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <polyline points="9,18 15,12 9,6" />
+    </svg>
+  );
+}
+
 function SpinnerIcon(): JSX.Element {
   return (
     <svg
@@ -830,6 +1189,24 @@ function FileIcon(): JSX.Element {
   );
 }
 
+function ClockIcon(): JSX.Element {
+  return (
+    <svg
+      width="12"
+      height="12"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="12" cy="12" r="10" />
+      <polyline points="12,6 12,12 16,14" />
+    </svg>
+  );
+}
+
 /**
  * Extracts the "Elemento referenciado: ..." prefix that ChatDrawer prepends
  * to user messages when AIElementWrapper references are active. Returns the
@@ -1,10 +1,30 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useOptionalDevicContext } from '../../provider';
-import { DevicApiClient } from '../../api/client';
-import type { ConversationSummary } from '../../api/types';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { useDevicDirection } from '../../hooks/useDevicDirection';
+import { generateId } from '../../utils';
+import { getRovingTarget } from '../../utils/a11y';
+import type { DevicI18n } from '../../i18n';
+import { DevicApiClient, DevicApiError } from '../../api/client';
+import type {
+  ConversationSummary,
+  ConversationSearchMatch,
+  UpdateConversationDto,
+} from '../../api/types';
 import type { ConversationSelectorProps } from './ChatDrawer.types';
+import { isEventInside } from '../../shadow';
 
 const PAGE_SIZE = 10;
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_LIMIT = 10;
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Pinned conversations first, keeping the server order otherwise
+ */
+function sortConversations(list: ConversationSummary[]): ConversationSummary[] {
+  return [...list.filter((c) => c.pinned), ...list.filter((c) => !c.pinned)];
+}
 
 export function ConversationSelector({
   assistantId,
@@ -16,8 +36,11 @@ export function ConversationSelector({
   tenantId: propsTenantId,
   subtenantId: propsSubtenantId,
   conversationPreview,
+  enableActions = true,
+  onConversationDeleted,
 }: ConversationSelectorProps): JSX.Element {
   const context = useOptionalDevicContext();
+  const { t, formatDate } = useDevicI18n();
   const apiKey = propsApiKey || context?.apiKey;
   const baseUrl = propsBaseUrl || context?.baseUrl || 'https://api.devic.ai';
   const tenantId = propsTenantId || context?.tenantId;
@@ -30,23 +53,35 @@ export function ConversationSelector({
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [firstMessages, setFirstMessages] = useState<Record<string, string | null>>({});
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingUid, setEditingUid] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [confirmDeleteUid, setConfirmDeleteUid] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<ConversationSearchMatch[]>([]);
+  const [searching, setSearching] = useState(false);
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
   const fetchedChatsRef = useRef<Set<string>>(new Set());
   const dropdownRef = useRef<HTMLDivElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const popupIdRef = useRef(`devic-conversations-${generateId()}`);
+  const direction = useDevicDirection();
   const clientRef = useRef<DevicApiClient | null>(null);
 
   if (!clientRef.current && apiKey) {
-    clientRef.current = new DevicApiClient({ apiKey, baseUrl });
+    clientRef.current = new DevicApiClient({ ...context?.clientOptions, apiKey, baseUrl });
   }
 
   // Update client config when props/context change
   useEffect(() => {
     if (clientRef.current && apiKey) {
-      clientRef.current.setConfig({ apiKey, baseUrl });
+      clientRef.current.setConfig({ ...context?.clientOptions, apiKey, baseUrl });
     } else if (!clientRef.current && apiKey) {
-      clientRef.current = new DevicApiClient({ apiKey, baseUrl });
+      clientRef.current = new DevicApiClient({ ...context?.clientOptions, apiKey, baseUrl });
     }
-  }, [apiKey, baseUrl]);
+  }, [apiKey, baseUrl, context?.clientOptions]);
 
   const fetchConversations = useCallback(async (offset = 0, append = false) => {
     if (!clientRef.current) return;
@@ -61,8 +96,11 @@ export function ConversationSelector({
         subtenantId,
         offset,
         limit: PAGE_SIZE,
+        archived: showArchived,
       });
-      setConversations((prev) => append ? [...prev, ...response.histories] : response.histories);
+      setConversations((prev) =>
+        sortConversations(append ? [...prev, ...response.histories] : response.histories)
+      );
       setHasMore(offset + response.histories.length < response.total);
     } catch {
       // silently fail
@@ -70,7 +108,7 @@ export function ConversationSelector({
       setLoading(false);
       setLoadingMore(false);
     }
-  }, [assistantId, tenantId, subtenantId]);
+  }, [assistantId, tenantId, subtenantId, showArchived]);
 
   useEffect(() => {
     if (isOpen) {
@@ -78,6 +116,131 @@ export function ConversationSelector({
     }
   }, [isOpen, fetchConversations]);
 
+  // Server-side search across all conversations, including message content
+  useEffect(() => {
+    const query = search.trim();
+    if (!isOpen || !clientRef.current || query.length < SEARCH_MIN_LENGTH) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setSearching(true);
+    const timer = setTimeout(() => {
+      clientRef.current!
+        .searchConversations(
+          assistantId,
+          query,
+          { tenantId, subtenantId, limit: SEARCH_LIMIT },
+          controller.signal
+        )
+        .then((response) => setSearchResults(response.results))
+        .catch(() => {
+          // silently fail, local matches are still shown
+          if (!controller.signal.aborted) setSearchResults([]);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search, isOpen, assistantId, tenantId, subtenantId]);
+
+  // Apply a change locally, then persist it. If the server rejects it the
+  // conversation is restored to its previous state and position.
+  const updateOptimistically = useCallback(
+    async (
+      chatUid: string,
+      apply: (conv: ConversationSummary) => ConversationSummary | null,
+      persist: (client: DevicApiClient) => Promise<unknown>
+    ): Promise<boolean> => {
+      const client = clientRef.current;
+      const index = conversationsRef.current.findIndex((c) => c.chatUID === chatUid);
+      if (!client || index === -1) return false;
+      const previous = conversationsRef.current[index];
+
+      setActionError(null);
+      setConversations((prev) => {
+        const next = prev.flatMap((c) => {
+          if (c.chatUID !== chatUid) return [c];
+          const updated = apply(c);
+          return updated ? [updated] : [];
+        });
+        return sortConversations(next);
+      });
+
+      try {
+        await persist(client);
+        return true;
+      } catch (err) {
+        setConversations((prev) => {
+          const rest = prev.filter((c) => c.chatUID !== chatUid);
+          rest.splice(Math.min(index, rest.length), 0, previous);
+          return sortConversations(rest);
+        });
+        setActionError(
+          err instanceof DevicApiError ? err.message : t('conversations.updateFailed')
+        );
+        return false;
+      }
+    },
+    [t]
+  );
+
+  const updateConversation = useCallback(
+    (conv: ConversationSummary, updates: UpdateConversationDto) => {
+      // Archiving or restoring moves the conversation out of the current view
+      const leavesView =
+        updates.archived !== undefined && updates.archived !== showArchived;
+      return updateOptimistically(
+        conv.chatUID,
+        (c) => (leavesView ? null : { ...c, ...updates }),
+        (client) => client.updateConversation(assistantId, conv.chatUID, updates)
+      );
+    },
+    [assistantId, showArchived, updateOptimistically]
+  );
+
+  const handleRenameStart = (conv: ConversationSummary) => {
+    setConfirmDeleteUid(null);
+    setEditingUid(conv.chatUID);
+    setEditValue(conv.name || '');
+  };
+
+  const handleRenameCommit = (conv: ConversationSummary) => {
+    const name = editValue.trim();
+    setEditingUid(null);
+    if (!name || name === conv.name) return;
+    updateConversation(conv, { name });
+  };
+
+  const handleArchive = async (conv: ConversationSummary) => {
+    const archived = !conv.archived;
+    const ok = await updateConversation(conv, { archived });
+    if (ok && archived && conv.chatUID === currentChatUid) {
+      onNewChat();
+    }
+  };
+
+  const handleDelete = async (conv: ConversationSummary) => {
+    setConfirmDeleteUid(null);
+    const ok = await updateOptimistically(
+      conv.chatUID,
+      () => null,
+      (client) => client.deleteConversation(assistantId, conv.chatUID)
+    );
+    if (!ok) return;
+    onConversationDeleted?.(conv.chatUID);
+    if (conv.chatUID === currentChatUid) {
+      onNewChat();
+    }
+  };
+
   // Fetch conversations when currentChatUid changes so the selector label is correct
   useEffect(() => {
     if (currentChatUid && conversations.length === 0) {
@@ -120,7 +283,7 @@ export function ConversationSelector({
   useEffect(() => {
     if (!isOpen) return;
     const handler = (e: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+      if (dropdownRef.current && !isEventInside(e, dropdownRef.current)) {
         setIsOpen(false);
       }
     };
@@ -135,13 +298,52 @@ export function ConversationSelector({
       if (msg === null) return '...';
       if (msg) return msg;
     }
-    return formatDate(conv.creationTimestampMs);
+    return formatConversationDate(conv.creationTimestampMs, formatDate);
+  };
+
+  // Keyboard: Escape closes and returns to the trigger, arrows move between
+  // conversations (ArrowDown from the search field enters the list)
+  const handlePopupKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsOpen(false);
+      triggerRef.current?.focus();
+      return;
+    }
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+    const items = Array.from(
+      listRef.current?.querySelectorAll<HTMLElement>(
+        '.devic-conversation-item-main, .devic-conversation-search-result'
+      ) ?? []
+    );
+    const target = e.target as HTMLElement;
+    const next = items.includes(target)
+      ? getRovingTarget(items, target, e.key, { orientation: 'vertical', wrap: false })
+      : e.key === 'ArrowDown' && target.classList.contains('devic-conversation-search')
+        ? items[0]
+        : null;
+    if (next) {
+      e.preventDefault();
+      next.focus();
+    }
+  };
+
+  const handleFilterKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const tabs = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[role="tab"]'));
+    const next = getRovingTarget(tabs, e.target as HTMLElement, e.key, {
+      orientation: 'horizontal',
+      direction,
+    });
+    if (!next) return;
+    e.preventDefault();
+    next.focus();
+    next.click();
   };
 
   const currentConv = conversations.find((c) => c.chatUID === currentChatUid);
   const currentName = currentConv
     ? getConversationLabel(currentConv)
-    : 'New chat';
+    : t('chat.newChat');
 
   const filtered = conversations.filter((c) => {
     if (!search) return true;
@@ -157,64 +359,255 @@ export function ConversationSelector({
   return (
     <div className="devic-conversation-selector" ref={dropdownRef}>
       <button
+        ref={triggerRef}
         className="devic-conversation-selector-trigger"
         onClick={() => setIsOpen(!isOpen)}
         type="button"
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? popupIdRef.current : undefined}
       >
         <span className="devic-conversation-selector-label">{currentName}</span>
         <ChevronIcon open={isOpen} />
       </button>
 
       {isOpen && (
-        <div className="devic-conversation-dropdown">
+        <div
+          className="devic-conversation-dropdown"
+          id={popupIdRef.current}
+          role="dialog"
+          aria-label={t('conversations.title')}
+          onKeyDown={handlePopupKeyDown}
+        >
           <div className="devic-conversation-search-wrapper">
             <input
               className="devic-conversation-search"
               type="text"
-              placeholder="Search conversations..."
+              placeholder={t('conversations.search')}
+              aria-label={t('conversations.search')}
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               autoFocus
             />
           </div>
 
+          {enableActions && (
+            <div className="devic-conversation-filter" role="tablist" onKeyDown={handleFilterKeyDown}>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={!showArchived}
+                tabIndex={showArchived ? -1 : 0}
+                data-active={!showArchived}
+                onClick={() => setShowArchived(false)}
+              >
+                {t('conversations.active')}
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={showArchived}
+                tabIndex={showArchived ? 0 : -1}
+                data-active={showArchived}
+                onClick={() => setShowArchived(true)}
+              >
+                {t('conversations.archived')}
+              </button>
+            </div>
+          )}
+
+          {actionError && (
+            <div className="devic-conversation-error" role="alert">
+              {actionError}
+            </div>
+          )}
+
           <div
             className="devic-conversation-list"
             ref={listRef}
+            aria-busy={loading || undefined}
           >
             {loading && (
-              <div className="devic-conversation-loading">Loading...</div>
+              <div className="devic-conversation-loading" role="status">{t('conversations.loading')}</div>
             )}
-            {!loading && filtered.length === 0 && (
-              <div className="devic-conversation-empty">No conversations</div>
+            {!loading && filtered.length === 0 && searchResults.length === 0 && !searching && (
+              <div className="devic-conversation-empty" role="status">
+                {showArchived ? t('conversations.emptyArchived') : t('conversations.empty')}
+              </div>
             )}
             {!loading &&
-              filtered.map((conv) => (
-                <button
-                  key={conv.chatUID}
-                  className="devic-conversation-item"
-                  data-active={conv.chatUID === currentChatUid}
-                  type="button"
-                  onClick={() => {
-                    onSelect(conv.chatUID);
-                    setIsOpen(false);
-                  }}
-                >
-                  {conv.chatUID === currentChatUid && (
-                    <span className="devic-conversation-item-check">
-                      <CheckIcon />
+              filtered.map((conv) => {
+                const isActive = conv.chatUID === currentChatUid;
+
+                if (editingUid === conv.chatUID) {
+                  return (
+                    <div key={conv.chatUID} className="devic-conversation-item" data-active={isActive}>
+                      <input
+                        className="devic-conversation-rename-input"
+                        type="text"
+                        value={editValue}
+                        aria-label={t('conversations.name')}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onBlur={() => handleRenameCommit(conv)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            handleRenameCommit(conv);
+                          } else if (e.key === 'Escape') {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setEditingUid(null);
+                          }
+                        }}
+                        autoFocus
+                      />
+                    </div>
+                  );
+                }
+
+                if (confirmDeleteUid === conv.chatUID) {
+                  return (
+                    <div
+                      key={conv.chatUID}
+                      className="devic-conversation-item devic-conversation-item--confirm"
+                      data-active={isActive}
+                    >
+                      <span className="devic-conversation-item-name">{t('conversations.deleteConfirm')}</span>
+                      <div className="devic-conversation-item-actions">
+                        <button
+                          type="button"
+                          className="devic-conversation-confirm-delete"
+                          onClick={() => handleDelete(conv)}
+                        >
+                          {t('conversations.delete')}
+                        </button>
+                        <button
+                          type="button"
+                          className="devic-conversation-confirm-cancel"
+                          onClick={() => setConfirmDeleteUid(null)}
+                          autoFocus
+                        >
+                          {t('common.cancel')}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                }
+
+                return (
+                  <div
+                    key={conv.chatUID}
+                    className="devic-conversation-item"
+                    data-active={isActive}
+                    data-pinned={!!conv.pinned}
+                  >
+                    <button
+                      className="devic-conversation-item-main"
+                      type="button"
+                      aria-current={isActive || undefined}
+                      onClick={() => {
+                        onSelect(conv.chatUID);
+                        setIsOpen(false);
+                      }}
+                    >
+                      {isActive && (
+                        <span className="devic-conversation-item-check" aria-hidden="true">
+                          <CheckIcon />
+                        </span>
+                      )}
+                      {conv.pinned && (
+                        <span className="devic-conversation-item-pin" role="img" aria-label={t('conversations.pinned')}>
+                          <PinIcon />
+                        </span>
+                      )}
+                      <span className="devic-conversation-item-name">
+                        {getConversationLabel(conv)}
+                      </span>
+                      <span className="devic-conversation-item-date">
+                        {formatConversationDate(conv.lastEditTimestampMs || conv.creationTimestampMs, formatDate)}
+                      </span>
+                    </button>
+                    {enableActions && (
+                      <div className="devic-conversation-item-actions">
+                        <button
+                          type="button"
+                          title={conv.pinned ? t('conversations.unpin') : t('conversations.pin')}
+                          aria-label={
+                            conv.pinned ? t('conversations.unpinLabel') : t('conversations.pinLabel')
+                          }
+                          onClick={() => updateConversation(conv, { pinned: !conv.pinned })}
+                        >
+                          <PinIcon />
+                        </button>
+                        <button
+                          type="button"
+                          title={t('conversations.rename')}
+                          aria-label={t('conversations.renameLabel')}
+                          onClick={() => handleRenameStart(conv)}
+                        >
+                          <EditIcon />
+                        </button>
+                        <button
+                          type="button"
+                          title={conv.archived ? t('conversations.unarchive') : t('conversations.archive')}
+                          aria-label={
+                            conv.archived
+                              ? t('conversations.unarchiveLabel')
+                              : t('conversations.archiveLabel')
+                          }
+                          onClick={() => handleArchive(conv)}
+                        >
+                          <ArchiveIcon />
+                        </button>
+                        <button
+                          type="button"
+                          title={t('conversations.delete')}
+                          aria-label={t('conversations.deleteLabel')}
+                          onClick={() => {
+                            setEditingUid(null);
+                            setConfirmDeleteUid(conv.chatUID);
+                          }}
+                        >
+                          <TrashIcon />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            {!loading && search.trim().length >= SEARCH_MIN_LENGTH && (searching || searchResults.length > 0) && (
+              <div className="devic-conversation-search-results">
+                <div className="devic-conversation-section-title">{t('conversations.inMessages')}</div>
+                {searching && searchResults.length === 0 && (
+                  <div className="devic-conversation-loading" role="status">{t('conversations.searching')}</div>
+                )}
+                {searchResults.map((result) => (
+                  <button
+                    key={`${result.chatUID}-${result.messageUid}`}
+                    className="devic-conversation-search-result"
+                    type="button"
+                    onClick={() => {
+                      onSelect(result.chatUID, { messageUid: result.messageUid });
+                      setIsOpen(false);
+                    }}
+                  >
+                    <span className="devic-conversation-search-result-header">
+                      <span className="devic-conversation-item-name">
+                        {result.name || formatConversationDate(result.timestamp, formatDate)}
+                      </span>
+                      <span className="devic-conversation-item-date">
+                        {formatConversationDate(result.timestamp, formatDate)}
+                      </span>
+                    </span>
+                    <span className="devic-conversation-search-snippet">
+                      <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
                     </span>
-                  )}
-                  <span className="devic-conversation-item-name">
-                    {getConversationLabel(conv)}
-                  </span>
-                  <span className="devic-conversation-item-date">
-                    {formatDate(conv.lastEditTimestampMs || conv.creationTimestampMs)}
-                  </span>
-                </button>
-              ))}
+                  </button>
+                ))}
+              </div>
+            )}
             {loadingMore && (
-              <div className="devic-conversation-loading">Loading more...</div>
+              <div className="devic-conversation-loading" role="status">{t('conversations.loadingMore')}</div>
             )}
             {!loadingMore && hasMore && !loading && (
               <button
@@ -222,7 +615,7 @@ export function ConversationSelector({
                 type="button"
                 onClick={handleLoadMore}
               >
-                Load more
+                {t('conversations.loadMore')}
               </button>
             )}
           </div>
@@ -235,7 +628,7 @@ export function ConversationSelector({
               setIsOpen(false);
             }}
           >
-            + Start a new chat
+            {t('conversations.startNew')}
           </button>
         </div>
       )}
@@ -243,6 +636,32 @@ export function ConversationSelector({
   );
 }
 
+/**
+ * Render a search snippet with the matched ranges wrapped in <mark>
+ */
+function HighlightedSnippet({
+  snippet,
+  highlights,
+}: {
+  snippet: string;
+  highlights?: Array<{ start: number; end: number }>;
+}): JSX.Element {
+  if (!highlights || highlights.length === 0) return <>{snippet}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  [...highlights]
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, end }, i) => {
+      if (start < cursor || end <= start) return;
+      if (start > cursor) parts.push(snippet.slice(cursor, start));
+      parts.push(<mark key={i}>{snippet.slice(start, end)}</mark>);
+      cursor = end;
+    });
+  if (cursor < snippet.length) parts.push(snippet.slice(cursor));
+  return <>{parts}</>;
+}
+
 function ChevronIcon({ open }: { open: boolean }): JSX.Element {
   return (
     <svg
@@ -261,6 +680,45 @@ function ChevronIcon({ open }: { open: boolean }): JSX.Element {
   );
 }
 
+function PinIcon(): JSX.Element {
+  return (
+    <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="12" y1="17" x2="12" y2="22" />
+      <path d="M5 17h14v-1.76a2 2 0 0 0-1.11-1.79l-1.78-.9A2 2 0 0 1 15 10.76V6h1a2 2 0 0 0 0-4H8a2 2 0 0 0 0 4h1v4.76a2 2 0 0 1-1.11 1.79l-1.78.9A2 2 0 0 0 5 15.24Z" />
+    </svg>
+  );
+}
+
+function EditIcon(): JSX.Element {
+  return (
+    <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M12 20h9" />
+      <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z" />
+    </svg>
+  );
+}
+
+function ArchiveIcon(): JSX.Element {
+  return (
+    <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="2" y="3" width="20" height="5" rx="1" />
+      <path d="M4 8v11a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8" />
+      <line x1="10" y1="12" x2="14" y2="12" />
+    </svg>
+  );
+}
+
+function TrashIcon(): JSX.Element {
+  return (
+    <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="3,6 5,6 21,6" />
+      <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+      <path d="M10 11v6M14 11v6" />
+      <path d="M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2" />
+    </svg>
+  );
+}
+
 function CheckIcon(): JSX.Element {
   return (
     <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
@@ -269,11 +727,14 @@ function CheckIcon(): JSX.Element {
   );
 }
 
-function formatDate(ms: number): string {
+/**
+ * Time for today's conversations, short date and time otherwise
+ */
+function formatConversationDate(ms: number, formatDate: DevicI18n['formatDate']): string {
   const d = new Date(ms);
   const now = new Date();
   if (d.toDateString() === now.toDateString()) {
-    return d.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+    return formatDate(d, { hour: '2-digit', minute: '2-digit' });
   }
-  return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  return formatDate(d, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
 }
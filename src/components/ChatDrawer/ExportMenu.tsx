@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatExportFormat } from '../../utils/chatExport';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { getRovingTarget } from '../../utils/a11y';
+import { isEventInside } from '../../shadow';
+import type { DevicMessageKey } from '../../i18n';
+
+export interface ExportMenuProps {
+  /** Called with the chosen format */
+  onExport: (format: ChatExportFormat) => void;
+  /** Disable the trigger (e.g. empty conversation) */
+  disabled?: boolean;
+}
+
+const FORMATS: Array<{ format: ChatExportFormat; label: DevicMessageKey }> = [
+  { format: 'markdown', label: 'chat.exportMarkdown' },
+  { format: 'json', label: 'chat.exportJson' },
+  { format: 'html', label: 'chat.exportHtml' },
+];
+
+/**
+ * Header action that exports the current conversation.
+ * Styled via `.devic-export-*`.
+ */
+export function ExportMenu({ onExport, disabled }: ExportMenuProps): JSX.Element {
+  const { t } = useDevicI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: MouseEvent) => {
+      if (menuRef.current && !isEventInside(e, menuRef.current)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [isOpen]);
+
+  // Move focus into the menu when it opens
+  useEffect(() => {
+    if (isOpen) menuRef.current?.querySelector<HTMLElement>('[role="menuitem"]')?.focus();
+  }, [isOpen]);
+
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape' || e.key === 'Tab') {
+      if (e.key === 'Escape') e.preventDefault();
+      setIsOpen(false);
+      triggerRef.current?.focus();
+      return;
+    }
+    const items = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[role="menuitem"]'));
+    const next = getRovingTarget(items, e.target as HTMLElement, e.key, { orientation: 'vertical' });
+    if (next) {
+      e.preventDefault();
+      next.focus();
+    }
+  };
+
+  return (
+    <div className="devic-export" ref={menuRef}>
+      <button
+        ref={triggerRef}
+        className="devic-new-chat-btn devic-export-trigger"
+        onClick={() => setIsOpen(!isOpen)}
+        type="button"
+        aria-label={t('chat.export')}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title={t('chat.export')}
+        disabled={disabled}
+      >
+        <DownloadIcon />
+      </button>
+      {isOpen && (
+        <div className="devic-export-menu" role="menu" onKeyDown={handleMenuKeyDown}>
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              className="devic-export-item"
+              type="button"
+              role="menuitem"
+              tabIndex={-1}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DownloadIcon(): JSX.Element {
+  return (
+    <svg
+      width="18"
+      height="18"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="7,10 12,15 17,10" />
+      <line x1="12" y1="15" x2="12" y2="3" />
+    </svg>
+  );
+}
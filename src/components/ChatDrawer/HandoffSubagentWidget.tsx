@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useOptionalDevicContext } from '../../provider';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
 import { DevicApiClient } from '../../api/client';
 import { AgentThreadState } from '../../api/types';
 import type { AgentThreadDto, AgentDto } from '../../api/types';
@@ -61,6 +62,7 @@ export function HandoffSubagentWidget({
   renderWidget,
 }: HandoffSubagentWidgetProps): JSX.Element {
   const context = useOptionalDevicContext();
+  const { t } = useDevicI18n();
   const resolvedApiKey = apiKey || context?.apiKey;
   const resolvedBaseUrl = baseUrl || context?.baseUrl || 'https://api.devic.ai';
   const debug = context?.debug ?? false;
@@ -77,8 +79,12 @@ export function HandoffSubagentWidget({
 
   const getClient = useCallback((): DevicApiClient | null => {
     if (!resolvedApiKey) return null;
-    return new DevicApiClient({ apiKey: resolvedApiKey, baseUrl: resolvedBaseUrl });
-  }, [resolvedApiKey, resolvedBaseUrl]);
+    return new DevicApiClient({
+      ...context?.clientOptions,
+      apiKey: resolvedApiKey,
+      baseUrl: resolvedBaseUrl,
+    });
+  }, [resolvedApiKey, resolvedBaseUrl, context?.clientOptions]);
 
   const fetchThread = useCallback(async () => {
     const client = getClient();
@@ -194,7 +200,7 @@ export function HandoffSubagentWidget({
           )}
         </div>
         <span className="devic-handoff-agent-name">
-          {agent?.name || thread?.name || 'Subagent'}
+          {agent?.name || thread?.name || t('chat.subagent')}
         </span>
       </div>
 
@@ -204,7 +210,7 @@ export function HandoffSubagentWidget({
           <ThreadStateTag
             state={thread.state}
             threadId={thread._id || subThreadId}
-            agentName={agent?.name || thread?.name || 'Subagent'}
+            agentName={agent?.name || thread?.name || t('chat.subagent')}
             pausedReason={thread.pausedReason}
             finishReason={thread.finishReason}
             pauseUntil={thread.pauseUntil}
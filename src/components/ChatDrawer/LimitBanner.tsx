@@ -1,20 +1,16 @@
 import React from 'react';
 import type { TenantLimitExceeded } from '../../api/types';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import type { DevicI18n } from '../../i18n';
 
 export interface LimitBannerProps {
   limit: TenantLimitExceeded;
 }
 
-function resetText(resetsAt?: number): string | null {
+function resetText(i18n: DevicI18n, resetsAt?: number): string | null {
   if (!resetsAt) return null;
-  const ms = resetsAt - Date.now();
-  if (ms <= 0) return 'You can try again now.';
-  const mins = Math.round(ms / 60000);
-  if (mins < 60) return `Resets in ${mins} minute${mins === 1 ? '' : 's'}.`;
-  const hours = Math.round(mins / 60);
-  if (hours < 48) return `Resets in ${hours} hour${hours === 1 ? '' : 's'}.`;
-  const days = Math.round(hours / 24);
-  return `Resets in ${days} day${days === 1 ? '' : 's'}.`;
+  if (resetsAt <= Date.now()) return i18n.t('limit.tryAgain');
+  return i18n.t('limit.resets', { time: i18n.formatRelativeTime(resetsAt) });
 }
 
 /**
@@ -24,8 +20,9 @@ function resetText(resetsAt?: number): string | null {
  * `options.limitBannerRenderer`.
  */
 export function LimitBanner({ limit }: LimitBannerProps): JSX.Element {
-  const message = limit.message || 'Usage limit reached.';
-  const reset = resetText(limit.resetsAt);
+  const i18n = useDevicI18n();
+  const message = limit.message || i18n.t('limit.reached');
+  const reset = resetText(i18n, limit.resetsAt);
   return (
     <div className="devic-limit-banner" role="alert">
       <span className="devic-limit-banner-icon" aria-hidden="true">
@@ -0,0 +1,126 @@
+import React from 'react';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+
+export interface ReplayControlsProps {
+  /** Number of recorded messages currently shown */
+  step: number;
+  /** Total number of recorded messages */
+  total: number;
+  /** Whether the replay is advancing automatically */
+  playing: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+  onRestart: () => void;
+}
+
+/**
+ * Transport bar shown in place of the input while ChatDrawer replays an
+ * imported conversation. Styled via `.devic-replay-*`.
+ */
+export function ReplayControls({
+  step,
+  total,
+  playing,
+  onPlay,
+  onPause,
+  onStepBack,
+  onStepForward,
+  onRestart,
+}: ReplayControlsProps): JSX.Element {
+  const { t } = useDevicI18n();
+  const atEnd = step >= total;
+
+  return (
+    <div className="devic-input-area devic-replay-controls" role="toolbar" aria-label={t('replay.controls')}>
+      <button
+        type="button"
+        className="devic-replay-btn"
+        onClick={onRestart}
+        disabled={step === 0}
+        title={t('replay.restart')}
+        aria-label={t('replay.restart')}
+      >
+        <RestartIcon />
+      </button>
+      <button
+        type="button"
+        className="devic-replay-btn"
+        onClick={onStepBack}
+        disabled={step === 0}
+        title={t('replay.previous')}
+        aria-label={t('replay.previous')}
+      >
+        <PrevIcon />
+      </button>
+      <button
+        type="button"
+        className="devic-replay-btn devic-replay-btn--primary"
+        onClick={playing ? onPause : onPlay}
+        disabled={atEnd && !playing}
+        title={playing ? t('replay.pause') : t('replay.play')}
+        aria-label={playing ? t('replay.pause') : t('replay.play')}
+      >
+        {playing ? <PauseIcon /> : <PlayIcon />}
+      </button>
+      <button
+        type="button"
+        className="devic-replay-btn"
+        onClick={onStepForward}
+        disabled={atEnd}
+        title={t('replay.next')}
+        aria-label={t('replay.next')}
+      >
+        <NextIcon />
+      </button>
+      <span className="devic-replay-progress" aria-live="polite">
+        {step} / {total}
+      </span>
+    </div>
+  );
+}
+
+function RestartIcon(): JSX.Element {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="1,4 1,10 7,10" />
+      <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10" />
+    </svg>
+  );
+}
+
+function PrevIcon(): JSX.Element {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polygon points="19,20 9,12 19,4" />
+      <line x1="5" y1="19" x2="5" y2="5" />
+    </svg>
+  );
+}
+
+function NextIcon(): JSX.Element {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polygon points="5,4 15,12 5,20" />
+      <line x1="19" y1="5" x2="19" y2="19" />
+    </svg>
+  );
+}
+
+function PlayIcon(): JSX.Element {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor" stroke="none">
+      <polygon points="6,4 20,12 6,20" />
+    </svg>
+  );
+}
+
+function PauseIcon(): JSX.Element {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor" stroke="none">
+      <rect x="6" y="4" width="4" height="16" />
+      <rect x="14" y="4" width="4" height="16" />
+    </svg>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import type { PendingConfirmationCall } from '../../hooks/useModelInterface';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { generateId } from '../../utils';
+
+export interface ToolConfirmationCardProps {
+  /** The tool call awaiting approval */
+  call: PendingConfirmationCall;
+  /** Approve the call; `alwaysAllow` stops asking for this tool this session */
+  onApprove: (toolCallId: string, options?: { alwaysAllow?: boolean }) => void;
+  /** Deny the call with an optional reason for the model */
+  onDeny: (toolCallId: string, reason?: string) => void;
+}
+
+function formatToolName(name: string): string {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/**
+ * Approve/deny card for a tool call with `requiresConfirmation`, showing the
+ * parsed arguments. Styled via `.devic-tool-confirm-*`.
+ */
+export function ToolConfirmationCard({
+  call,
+  onApprove,
+  onDeny,
+}: ToolConfirmationCardProps): JSX.Element {
+  const { t } = useDevicI18n();
+  const [alwaysAllow, setAlwaysAllow] = useState(false);
+  const [denying, setDenying] = useState(false);
+  const [reason, setReason] = useState('');
+  const idRef = useRef(`devic-tool-confirm-${generateId()}`);
+  const hasArguments =
+    call.params !== undefined &&
+    !(typeof call.params === 'object' && call.params !== null && Object.keys(call.params).length === 0);
+
+  return (
+    <div
+      className="devic-tool-confirm"
+      role="group"
+      aria-labelledby={`${idRef.current}-title`}
+      data-tool-name={call.toolName}
+    >
+      <span className="devic-tool-confirm-label">{t('confirm.label')}</span>
+      <span className="devic-tool-confirm-title" id={`${idRef.current}-title`}>
+        {t('confirm.title', { tool: formatToolName(call.toolName) })}
+      </span>
+      {call.description && <p className="devic-tool-confirm-description">{call.description}</p>}
+      {hasArguments ? (
+        <pre className="devic-tool-confirm-args">{JSON.stringify(call.params, null, 2)}</pre>
+      ) : (
+        <span className="devic-tool-confirm-empty">{t('confirm.noArguments')}</span>
+      )}
+
+      {denying ? (
+        <form
+          className="devic-tool-confirm-deny"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onDeny(call.toolCall.id, reason.trim() || undefined);
+          }}
+        >
+          <label className="devic-tool-confirm-reason-label" htmlFor={`${idRef.current}-reason`}>
+            {t('confirm.reason')}
+          </label>
+          <textarea
+            id={`${idRef.current}-reason`}
+            className="devic-tool-confirm-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t('confirm.reasonPlaceholder')}
+            rows={2}
+            autoFocus
+          />
+          <div className="devic-tool-confirm-actions">
+            <button
+              type="button"
+              className="devic-tool-confirm-btn"
+              onClick={() => setDenying(false)}
+            >
+              {t('common.cancel')}
+            </button>
+            <button type="submit" className="devic-tool-confirm-btn" data-variant="danger">
+              {t('confirm.sendDenial')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <label className="devic-tool-confirm-always">
+            <input
+              type="checkbox"
+              checked={alwaysAllow}
+              onChange={(e) => setAlwaysAllow(e.target.checked)}
+            />
+            {t('confirm.alwaysAllow')}
+          </label>
+          <div className="devic-tool-confirm-actions">
+            <button
+              type="button"
+              className="devic-tool-confirm-btn"
+              data-variant="danger"
+              onClick={() => setDenying(true)}
+            >
+              {t('confirm.deny')}
+            </button>
+            <button
+              type="button"
+              className="devic-tool-confirm-btn"
+              data-variant="primary"
+              onClick={() => onApprove(call.toolCall.id, { alwaysAllow })}
+            >
+              {t('confirm.approve')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,26 +1,36 @@
 import React from 'react';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
 import type { ToolTimelineProps } from './ChatDrawer.types';
 
 /**
- * Tool execution timeline component
+ * Tool execution timeline component. Status changes are announced politely
+ * to screen readers.
  */
 export function ToolTimeline({ toolCalls }: ToolTimelineProps): JSX.Element | null {
+  const { t } = useDevicI18n();
+
   if (toolCalls.length === 0) {
     return null;
   }
 
   return (
-    <div className="devic-tool-timeline">
+    <ul
+      className="devic-tool-timeline"
+      aria-label={t('a11y.toolCalls')}
+      aria-live="polite"
+      aria-relevant="additions text"
+    >
       {toolCalls.map((tool) => (
-        <div key={tool.id} className="devic-tool-item">
-          <span className="devic-tool-status" data-status={tool.status} />
+        <li key={tool.id} className="devic-tool-item">
+          <span className="devic-tool-status" data-status={tool.status} aria-hidden="true" />
           <span className="devic-tool-name">{formatToolName(tool.name)}</span>
+          <span className="devic-sr-only">{t(`a11y.toolStatus.${tool.status}`)}</span>
           {tool.status === 'error' && tool.error && (
             <span className="devic-tool-error">{tool.error}</span>
           )}
-        </div>
+        </li>
       ))}
-    </div>
+    </ul>
   );
 }
 
@@ -1,5 +1,8 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { DevicApiClient } from '../../api/client';
+import { useOptionalDevicContext } from '../../provider';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import type { DevicI18n } from '../../i18n';
 import type { TenantUsage, TenantUsageRule } from '../../api/types';
 
 /**
@@ -116,28 +119,31 @@ function fillColor(percent: number, base: string): string {
   return base;
 }
 
-function formatAmount(value: number, metric: 'tokens' | 'cost'): string {
+function formatAmount(i18n: DevicI18n, value: number, metric: TenantUsageRule['metric']): string {
   if (metric === 'cost') {
-    return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+    const digits = value < 1 ? 4 : 2;
+    return i18n.formatNumber(value, {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    });
   }
-  return Math.round(value).toLocaleString();
+  return i18n.formatNumber(Math.round(value));
 }
 
-function windowLabel(unit: string, every: number): string {
-  const u = every > 1 ? `${unit}s` : unit;
-  return every > 1 ? `every ${every} ${u}` : `per ${unit}`;
+function windowLabel(
+  i18n: DevicI18n,
+  unit: TenantUsageRule['windowUnit'],
+  every: number
+): string {
+  return i18n.t(`usage.window.${unit}`, { count: every });
 }
 
-function resetLabel(resetsAt?: number): string {
+function resetLabel(i18n: DevicI18n, resetsAt?: number): string {
   if (!resetsAt) return '';
-  const ms = resetsAt - Date.now();
-  if (ms <= 0) return 'resets now';
-  const mins = Math.round(ms / 60000);
-  if (mins < 60) return `resets in ${mins}m`;
-  const hours = Math.round(mins / 60);
-  if (hours < 48) return `resets in ${hours}h`;
-  const days = Math.round(hours / 24);
-  return `resets in ${days}d`;
+  const time = i18n.formatRelativeTime(Math.max(resetsAt, Date.now()), { style: 'narrow' });
+  return i18n.t('usage.resets', { time });
 }
 
 /**
@@ -159,14 +165,19 @@ export function UsageBar({
   debug = false,
 }: UsageBarProps): JSX.Element | null {
   const cfg = useMemo(() => ({ ...DEFAULT_DISPLAY, ...display }), [display]);
+  const i18n = useDevicI18n();
+  const { t } = i18n;
 
+  const context = useOptionalDevicContext();
+  const clientOptions = context?.clientOptions;
   const client = useMemo(() => {
     if (!apiKey) return null;
     return new DevicApiClient({
+      ...clientOptions,
       apiKey,
       baseUrl: baseUrl || 'https://api.devic.ai',
     });
-  }, [apiKey, baseUrl]);
+  }, [apiKey, baseUrl, clientOptions]);
 
   const [usage, setUsage] = useState<TenantUsage | null>(null);
   const [loaded, setLoaded] = useState(false);
@@ -235,10 +246,10 @@ export function UsageBar({
           type="button"
           className="devic-usage-toggle"
           onClick={() => setVisible(true)}
-          title="Show usage"
+          title={t('usage.show')}
         >
           <GaugeIcon />
-          <span>Usage</span>
+          <span>{t('usage.label')}</span>
         </button>
       </div>
     );
@@ -252,13 +263,13 @@ export function UsageBar({
       return (
         <div className="devic-usage-bar-wrap" data-mode="onDemand">
           <div className="devic-usage-bar" data-empty="true">
-            <span className="devic-usage-bar-label">No usage limits</span>
+            <span className="devic-usage-bar-label">{t('usage.none')}</span>
             <button
               type="button"
               className="devic-usage-collapse"
               onClick={() => setVisible(false)}
-              title="Hide usage"
-              aria-label="Hide usage"
+              title={t('usage.hide')}
+              aria-label={t('usage.hide')}
             >
               &times;
             </button>
@@ -277,7 +288,7 @@ export function UsageBar({
     showTierChip || mode === 'onDemand' ? (
       <div className="devic-usage-bar-head">
         {showTierChip ? (
-          <span className="devic-usage-tier" title={`Tier: ${tierId}`}>
+          <span className="devic-usage-tier" title={t('usage.tier', { tier: tierId })}>
             {tierId}
           </span>
         ) : (
@@ -288,8 +299,8 @@ export function UsageBar({
             type="button"
             className="devic-usage-collapse"
             onClick={() => setVisible(false)}
-            title="Hide usage"
-            aria-label="Hide usage"
+            title={t('usage.hide')}
+            aria-label={t('usage.hide')}
           >
             &times;
           </button>
@@ -305,26 +316,27 @@ export function UsageBar({
         {rules.map((rule, i) => {
           const pct = Math.min(100, Math.round(rule.percent));
           const fill = fillColor(pct, color);
-          const valuesText = `${formatAmount(rule.current, rule.metric)} / ${formatAmount(
+          const valuesText = `${formatAmount(i18n, rule.current, rule.metric)} / ${formatAmount(
+            i18n,
             rule.limit,
             rule.metric,
-          )} ${rule.metric}`;
+          )} ${t(`usage.unit.${rule.metric}`)}`;
           // Distinguish rows by metric when several render; otherwise use the
           // scope-aware label so single-rule mode reads "Usage 24%".
           const prefix = multi
             ? rule.metric === 'cost'
-              ? 'Cost'
-              : 'Tokens'
+              ? t('usage.cost')
+              : t('usage.tokens')
             : rule.scope === 'subtenant'
-              ? 'Your usage'
-              : 'Usage';
+              ? t('usage.yours')
+              : t('usage.label');
           const main: string[] = [];
           if (cfg.showPercent) main.push(`${pct}%`);
           if (cfg.showValues) main.push(valuesText);
           if (main.length === 0) main.push(`${pct}%`);
           const label = `${prefix} ${main.join(' · ')}`.trim();
-          const reset = resetLabel(rule.resetsAt);
-          const win = windowLabel(rule.windowUnit, rule.windowEvery);
+          const reset = resetLabel(i18n, rule.resetsAt);
+          const win = windowLabel(i18n, rule.windowUnit, rule.windowEvery);
           const title = `${valuesText} · ${win}${reset ? ` · ${reset}` : ''}`;
 
           return (
@@ -10,6 +10,14 @@ export { UsageBar } from './UsageBar';
 export type { UsageBarProps, UsageBarDisplay, UsageBarData } from './UsageBar';
 export { LimitBanner } from './LimitBanner';
 export type { LimitBannerProps } from './LimitBanner';
+export { ExportMenu } from './ExportMenu';
+export type { ExportMenuProps } from './ExportMenu';
+export { ReplayControls } from './ReplayControls';
+export type { ReplayControlsProps } from './ReplayControls';
+export { AssistantPicker } from './AssistantPicker';
+export type { AssistantPickerProps } from './AssistantPicker';
+export { ToolConfirmationCard } from './ToolConfirmationCard';
+export type { ToolConfirmationCardProps } from './ToolConfirmationCard';
 export type {
   ChatDrawerProps,
   ChatDrawerOptions,
@@ -17,6 +25,12 @@ export type {
   ChatMessagesProps,
   ChatInputProps,
   CustomPromptBoxProps,
+  ChatDrawerComponents,
+  ChatHeaderSlotProps,
+  MessageBubbleSlotProps,
+  ToolTimelineItemSlotProps,
+  EmptyStateSlotProps,
+  ChatTriggerSlotProps,
   MessageBubbleRenderer,
   MessageBubbleRendererProps,
   ToolTimelineProps,
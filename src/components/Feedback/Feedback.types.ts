@@ -6,7 +6,9 @@ import type { FeedbackEntry } from '../../api/types';
 export type FeedbackState = 'none' | 'positive' | 'negative';
 
 /**
- * Theme configuration for feedback components
+ * Theme configuration for feedback components. Inside a ChatDrawer or
+ * AICommandBar they already follow the DevicTheme of their host.
+ * @deprecated Use a DevicTheme (DevicProvider `theme` or a component's `theme` option)
  */
 export interface FeedbackTheme {
   backgroundColor?: string;
@@ -41,6 +43,10 @@ export interface MessageActionsProps {
   onCopy?: (content: string) => void;
   showCopy?: boolean;
   showFeedback?: boolean;
+  /** Show an edit button (user messages) */
+  onEdit?: () => void;
+  /** Show a regenerate button (assistant messages) */
+  onRegenerate?: () => void;
   disabled?: boolean;
   theme?: FeedbackTheme;
 }
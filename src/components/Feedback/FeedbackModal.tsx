@@ -1,5 +1,9 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import type { FeedbackModalProps } from './Feedback.types';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { useFocusTrap } from '../../hooks/useFocusTrap';
+import { generateId } from '../../utils';
+import { isEventInside } from '../../shadow';
 
 /**
  * Modal for submitting feedback with optional comment
@@ -12,9 +16,11 @@ export function FeedbackModal({
   isSubmitting = false,
   theme,
 }: FeedbackModalProps): JSX.Element | null {
+  const { t } = useDevicI18n();
   const [comment, setComment] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
+  const titleIdRef = useRef(`devic-feedback-title-${generateId()}`);
 
   // Build inline styles from theme
   const modalStyle = useMemo(() => {
@@ -31,12 +37,9 @@ export function FeedbackModal({
     } as React.CSSProperties;
   }, [theme]);
 
-  // Focus textarea when modal opens
-  useEffect(() => {
-    if (isOpen && textareaRef.current) {
-      setTimeout(() => textareaRef.current?.focus(), 50);
-    }
-  }, [isOpen]);
+  // Focus the comment on open, keep Tab inside, close on Escape and return
+  // focus to the button that opened the modal
+  useFocusTrap(modalRef, isOpen, { initialFocus: textareaRef, onEscape: onClose });
 
   // Reset comment when modal closes
   useEffect(() => {
@@ -50,22 +53,14 @@ export function FeedbackModal({
     if (!isOpen) return;
 
     const handleClickOutside = (e: MouseEvent) => {
-      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
-        onClose();
-      }
-    };
-
-    const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
+      if (modalRef.current && !isEventInside(e, modalRef.current)) {
         onClose();
       }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
-    document.addEventListener('keydown', handleEscape);
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
-      document.removeEventListener('keydown', handleEscape);
     };
   }, [isOpen, onClose]);
 
@@ -85,19 +80,27 @@ export function FeedbackModal({
 
   return (
     <div className="devic-feedback-overlay">
-      <div className="devic-feedback-modal" ref={modalRef} style={modalStyle}>
+      <div
+        className="devic-feedback-modal"
+        ref={modalRef}
+        style={modalStyle}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleIdRef.current}
+        tabIndex={-1}
+      >
         <div className="devic-feedback-modal-header">
-          <span className="devic-feedback-modal-icon">
+          <span className="devic-feedback-modal-icon" aria-hidden="true">
             {feedbackType === 'positive' ? <ThumbsUpIcon filled /> : <ThumbsDownIcon filled />}
           </span>
-          <span className="devic-feedback-modal-title">
-            {feedbackType === 'positive' ? 'What did you like?' : 'What could be improved?'}
+          <span className="devic-feedback-modal-title" id={titleIdRef.current}>
+            {feedbackType === 'positive' ? t('feedback.positiveTitle') : t('feedback.negativeTitle')}
           </span>
           <button
             type="button"
             className="devic-feedback-modal-close"
             onClick={onClose}
-            aria-label="Close"
+            aria-label={t('common.close')}
           >
             <CloseIcon />
           </button>
@@ -107,7 +110,8 @@ export function FeedbackModal({
           <textarea
             ref={textareaRef}
             className="devic-feedback-textarea"
-            placeholder="Add a comment (optional)..."
+            placeholder={t('feedback.placeholder')}
+            aria-labelledby={titleIdRef.current}
             value={comment}
             onChange={(e) => setComment(e.target.value)}
             onKeyDown={handleKeyDown}
@@ -122,14 +126,14 @@ export function FeedbackModal({
               onClick={onClose}
               disabled={isSubmitting}
             >
-              Cancel
+              {t('common.cancel')}
             </button>
             <button
               type="submit"
               className="devic-feedback-btn devic-feedback-btn--primary"
               disabled={isSubmitting}
             >
-              {isSubmitting ? 'Sending...' : 'Submit'}
+              {isSubmitting ? t('feedback.sending') : t('feedback.submit')}
             </button>
           </div>
         </form>
@@ -1,9 +1,12 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { FeedbackModal } from './FeedbackModal';
 import type { MessageActionsProps, FeedbackState } from './Feedback.types';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import { useDevicDirection } from '../../hooks/useDevicDirection';
+import { getRovingTarget } from '../../utils/a11y';
 
 /**
- * Action buttons for a message (copy, thumbs up, thumbs down)
+ * Action buttons for a message (copy, edit, regenerate, thumbs up, thumbs down)
  */
 export function MessageActions({
   messageId,
@@ -13,14 +16,20 @@ export function MessageActions({
   onCopy,
   showCopy = true,
   showFeedback = true,
+  onEdit,
+  onRegenerate,
   disabled = false,
   theme,
 }: MessageActionsProps): JSX.Element {
+  const { t } = useDevicI18n();
   const [feedbackState, setFeedbackState] = useState<FeedbackState>(currentFeedback);
   const [modalOpen, setModalOpen] = useState(false);
   const [pendingFeedbackType, setPendingFeedbackType] = useState<'positive' | 'negative'>('positive');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [rovingIndex, setRovingIndex] = useState(0);
+  const buttonRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const direction = useDevicDirection();
 
   // Build inline styles from theme for the actions container
   const containerStyle = useMemo(() => {
@@ -69,47 +78,87 @@ export function MessageActions({
     }
   }, [messageId, pendingFeedbackType, onFeedback]);
 
+  const actions: Array<{
+    key: string;
+    className?: string;
+    label: string;
+    icon: React.ReactNode;
+    onClick: () => void;
+    pressed?: boolean;
+  }> = [];
+  if (showCopy && messageContent) {
+    actions.push({
+      key: 'copy',
+      className: copied ? 'devic-action-btn--active' : undefined,
+      label: t('feedback.copy'),
+      icon: copied ? <CheckIcon /> : <CopyIcon />,
+      onClick: handleCopy,
+    });
+  }
+  if (onEdit) {
+    actions.push({ key: 'edit', label: t('chat.editMessage'), icon: <EditIcon />, onClick: onEdit });
+  }
+  if (onRegenerate) {
+    actions.push({ key: 'regenerate', label: t('feedback.regenerate'), icon: <RegenerateIcon />, onClick: onRegenerate });
+  }
+  if (showFeedback) {
+    actions.push({
+      key: 'positive',
+      className: feedbackState === 'positive' ? 'devic-action-btn--active devic-action-btn--positive' : undefined,
+      label: t('feedback.good'),
+      icon: <ThumbsUpIcon filled={feedbackState === 'positive'} />,
+      onClick: () => handleFeedbackClick('positive'),
+      pressed: feedbackState === 'positive',
+    });
+    actions.push({
+      key: 'negative',
+      className: feedbackState === 'negative' ? 'devic-action-btn--active devic-action-btn--negative' : undefined,
+      label: t('feedback.bad'),
+      icon: <ThumbsDownIcon filled={feedbackState === 'negative'} />,
+      onClick: () => handleFeedbackClick('negative'),
+      pressed: feedbackState === 'negative',
+    });
+  }
+
+  // Toolbar with a single tab stop; arrow keys / Home / End move between actions
+  const activeIndex = Math.min(rovingIndex, actions.length - 1);
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const buttons = buttonRefs.current.slice(0, actions.length);
+    const current = buttons.find((b) => b === e.target);
+    if (!current) return;
+    const next = getRovingTarget(buttons, current, e.key, { orientation: 'horizontal', direction });
+    if (next) {
+      e.preventDefault();
+      next.focus();
+    }
+  };
+
   return (
     <>
-      <div className="devic-message-actions" style={containerStyle}>
-        {showCopy && messageContent && (
+      <div
+        className="devic-message-actions"
+        style={containerStyle}
+        role="toolbar"
+        aria-label={t('a11y.messageActions')}
+        onKeyDown={handleKeyDown}
+      >
+        {actions.map((action, index) => (
           <button
+            key={action.key}
+            ref={(el) => { buttonRefs.current[index] = el; }}
             type="button"
-            className={`devic-action-btn ${copied ? 'devic-action-btn--active' : ''}`}
-            onClick={handleCopy}
+            className={`devic-action-btn ${action.className ?? ''}`}
+            onClick={action.onClick}
+            onFocus={() => setRovingIndex(index)}
             disabled={disabled}
-            title="Copy to clipboard"
-            aria-label="Copy to clipboard"
+            tabIndex={index === activeIndex ? 0 : -1}
+            title={action.label}
+            aria-label={action.label}
+            aria-pressed={action.pressed}
           >
-            {copied ? <CheckIcon /> : <CopyIcon />}
+            {action.icon}
           </button>
-        )}
-
-        {showFeedback && (
-          <>
-            <button
-              type="button"
-              className={`devic-action-btn ${feedbackState === 'positive' ? 'devic-action-btn--active devic-action-btn--positive' : ''}`}
-              onClick={() => handleFeedbackClick('positive')}
-              disabled={disabled}
-              title="Good response"
-              aria-label="Good response"
-            >
-              <ThumbsUpIcon filled={feedbackState === 'positive'} />
-            </button>
-
-            <button
-              type="button"
-              className={`devic-action-btn ${feedbackState === 'negative' ? 'devic-action-btn--active devic-action-btn--negative' : ''}`}
-              onClick={() => handleFeedbackClick('negative')}
-              disabled={disabled}
-              title="Bad response"
-              aria-label="Bad response"
-            >
-              <ThumbsDownIcon filled={feedbackState === 'negative'} />
-            </button>
-          </>
-        )}
+        ))}
       </div>
 
       <FeedbackModal
@@ -161,6 +210,42 @@ function CheckIcon(): JSX.Element {
   );
 }
 
+function EditIcon(): JSX.Element {
+  return (
+    <svg
+      width="14"
+      height="14"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M12 20h9" />
+      <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+    </svg>
+  );
+}
+
+function RegenerateIcon(): JSX.Element {
+  return (
+    <svg
+      width="14"
+      height="14"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <polyline points="23,4 23,10 17,10" />
+      <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
+    </svg>
+  );
+}
+
 function ThumbsUpIcon({ filled = false }: { filled?: boolean }): JSX.Element {
   return (
     <svg
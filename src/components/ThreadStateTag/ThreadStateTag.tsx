@@ -1,67 +1,78 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useOptionalDevicContext } from '../../provider';
+import { useDevicI18n } from '../../hooks/useDevicI18n';
+import type { DevicI18n } from '../../i18n';
 import { DevicApiClient } from '../../api/client';
 import { AgentThreadState } from '../../api/types';
 import type { ThreadStateTagProps, StateConfig } from './ThreadStateTag.types';
+import { isEventInside } from '../../shadow';
+import { usePortalContainer } from '../../hooks/usePortalContainer';
 import './ThreadStateTag.css';
 
 /* ── State configuration map ── */
 
-function getStateConfig(state: string, subthreadCount?: number): StateConfig {
+function getStateConfig(
+  state: string,
+  t: DevicI18n['t'],
+  subthreadCount?: number
+): StateConfig {
   const configs: Record<string, StateConfig> = {
     [AgentThreadState.QUEUED]: {
       color: 'gold', bgColor: '#fffbe6', borderColor: '#ffe58f',
-      text: 'Queued', iconType: null,
+      text: t('thread.state.queued'), iconType: null,
     },
     [AgentThreadState.PROCESSING]: {
       color: 'processing', bgColor: '#e6f4ff', borderColor: '#91caff',
-      text: 'Processing', iconType: 'spinner',
+      text: t('thread.state.processing'), iconType: 'spinner',
     },
     [AgentThreadState.COMPLETED]: {
       color: 'success', bgColor: '#f6ffed', borderColor: '#b7eb8f',
-      text: 'Completed', iconType: null,
+      text: t('thread.state.completed'), iconType: null,
     },
     [AgentThreadState.FAILED]: {
       color: 'error', bgColor: '#fff2f0', borderColor: '#ffa39e',
-      text: 'Failed', iconType: null,
+      text: t('thread.state.failed'), iconType: null,
     },
     [AgentThreadState.TERMINATED]: {
       color: 'default', bgColor: '#fafafa', borderColor: '#d9d9d9',
-      text: 'Terminated', iconType: null,
+      text: t('thread.state.terminated'), iconType: null,
     },
     [AgentThreadState.GUARDRAIL_TRIGGER]: {
       color: 'error', bgColor: '#fff2f0', borderColor: '#ffa39e',
-      text: 'Guardrail Triggered', iconType: 'shield',
+      text: t('thread.state.guardrail'), iconType: 'shield',
     },
     [AgentThreadState.PAUSED]: {
       color: 'purple', bgColor: '#f9f0ff', borderColor: '#d3adf7',
-      text: 'Paused', iconType: 'pause',
+      text: t('thread.state.paused'), iconType: 'pause',
     },
     [AgentThreadState.PAUSED_FOR_APPROVAL]: {
       color: 'gold', bgColor: '#fffbe6', borderColor: '#ffe58f',
-      text: 'Waiting for approval', iconType: 'warning',
+      text: t('thread.state.pausedForApproval'), iconType: 'warning',
     },
     [AgentThreadState.APPROVAL_REJECTED]: {
       color: 'error', bgColor: '#fff2f0', borderColor: '#ffa39e',
-      text: 'Approval rejected', iconType: null,
+      text: t('thread.state.approvalRejected'), iconType: null,
     },
     [AgentThreadState.WAITING_FOR_RESPONSE]: {
       color: 'gold', bgColor: '#fffbe6', borderColor: '#ffe58f',
-      text: 'Waiting for response', iconType: 'envelope',
+      text: t('thread.state.waitingForResponse'), iconType: 'envelope',
     },
     [AgentThreadState.PAUSED_FOR_RESUME]: {
       color: 'blue', bgColor: '#e6f4ff', borderColor: '#91caff',
-      text: 'Resume scheduled', iconType: 'clock',
+      text: t('thread.state.pausedForResume'), iconType: 'clock',
     },
     [AgentThreadState.HANDED_OFF]: {
       color: 'blue', bgColor: '#e6f4ff', borderColor: '#91caff',
-      text: subthreadCount && subthreadCount > 1 ? `Handed off (${subthreadCount})` : 'Handed off',
+      text:
+        subthreadCount && subthreadCount > 1
+          ? t('thread.state.handedOffCount', { count: subthreadCount })
+          : t('thread.state.handedOff'),
       iconType: 'handoff',
     },
   };
 
-  return configs[state] || { color: 'default', bgColor: '#fafafa', borderColor: '#d9d9d9', text: 'Unknown', iconType: null };
+  return configs[state] || { color: 'default', bgColor: '#fafafa', borderColor: '#d9d9d9', text: t('common.unknown'), iconType: null };
 }
 
 /* ── SVG Icons ── */
@@ -238,7 +249,9 @@ function Modal({
   children: React.ReactNode;
   footer?: React.ReactNode;
 }): JSX.Element | null {
-  if (!open) return null;
+  const { t } = useDevicI18n();
+  const portalTarget = usePortalContainer();
+  if (!open || !portalTarget) return null;
 
   return createPortal(
     <div className="devic-state-modal-overlay" onClick={onClose}>
@@ -248,7 +261,12 @@ function Modal({
             {titleIcon}
             {title}
           </h3>
-          <button className="devic-state-modal-close" onClick={onClose} type="button">
+          <button
+            className="devic-state-modal-close"
+            onClick={onClose}
+            type="button"
+            aria-label={t('common.close')}
+          >
             <CloseIcon />
           </button>
         </div>
@@ -262,7 +280,7 @@ function Modal({
         )}
       </div>
     </div>,
-    document.body
+    portalTarget
   );
 }
 
@@ -281,6 +299,7 @@ function ExplainModal({
   isLoading: boolean;
   agentName: string;
 }): JSX.Element | null {
+  const { t } = useDevicI18n();
   const [displayedText, setDisplayedText] = useState('');
   const [fullTextDisplayed, setFullTextDisplayed] = useState(false);
   const charIndexRef = useRef(0);
@@ -316,7 +335,7 @@ function ExplainModal({
     <Modal
       open={open}
       onClose={handleClose}
-      title={`Thread execution description of "${agentName}"`}
+      title={t('thread.explain.title', { agent: agentName })}
       titleIcon={<LightbulbIcon />}
     >
       {isLoading ? (
@@ -348,6 +367,7 @@ function ApprovalModal({
   isLoading: boolean;
   pausedReason?: string;
 }): JSX.Element | null {
+  const { t } = useDevicI18n();
   const [feedback, setFeedback] = useState('');
 
   const handleClose = () => {
@@ -359,21 +379,21 @@ function ApprovalModal({
     <Modal
       open={open}
       onClose={handleClose}
-      title="Review Agent Request"
+      title={t('thread.review.title')}
       titleIcon={<EyeIcon />}
     >
       <div className="devic-approval-layout">
         <div className="devic-approval-request">
-          <div style={{ fontWeight: 600, marginBottom: 8, fontSize: 13 }}>Agent's request:</div>
-          <div style={{ whiteSpace: 'pre-wrap' }}>{pausedReason || 'Agent is waiting for approval to resume execution.'}</div>
+          <div style={{ fontWeight: 600, marginBottom: 8, fontSize: 13 }}>{t('thread.review.request')}</div>
+          <div style={{ whiteSpace: 'pre-wrap' }}>{pausedReason || t('thread.review.defaultRequest')}</div>
         </div>
         <div className="devic-approval-actions">
-          <div style={{ fontWeight: 600, fontSize: 13 }}>Your feedback:</div>
+          <div style={{ fontWeight: 600, fontSize: 13 }}>{t('thread.review.feedback')}</div>
           <textarea
             className="devic-approval-textarea"
             value={feedback}
             onChange={(e) => setFeedback(e.target.value)}
-            placeholder="Optional feedback for the agent..."
+            placeholder={t('thread.review.placeholder')}
           />
           <div className="devic-approval-buttons">
             <button
@@ -382,7 +402,7 @@ function ApprovalModal({
               disabled={isLoading}
               type="button"
             >
-              Reject and finish
+              {t('thread.review.reject')}
             </button>
             <button
               className="devic-state-btn devic-state-btn-primary"
@@ -390,7 +410,7 @@ function ApprovalModal({
               disabled={isLoading || !feedback.trim()}
               type="button"
             >
-              Continue with feedback
+              {t('thread.review.continue')}
             </button>
             <button
               className="devic-state-btn devic-state-btn-success"
@@ -398,7 +418,7 @@ function ApprovalModal({
               disabled={isLoading}
               type="button"
             >
-              Approve
+              {t('thread.review.approve')}
             </button>
           </div>
         </div>
@@ -418,43 +438,44 @@ function CompleteModal({
   onClose: () => void;
   onComplete: (state: string) => void;
 }): JSX.Element | null {
+  const { t } = useDevicI18n();
   const [completionState, setCompletionState] = useState('terminated');
 
   return (
     <Modal
       open={open}
       onClose={onClose}
-      title="Complete Execution Manually"
+      title={t('thread.complete.title')}
       titleIcon={<WrenchIcon />}
       footer={
         <>
-          <button className="devic-state-btn" onClick={onClose} type="button">Cancel</button>
+          <button className="devic-state-btn" onClick={onClose} type="button">{t('common.cancel')}</button>
           <button className="devic-state-btn devic-state-btn-danger" onClick={() => onComplete(completionState)} type="button">
-            Complete
+            {t('thread.complete.confirm')}
           </button>
         </>
       }
     >
       <div style={{ marginBottom: 12 }}>
-        <div style={{ fontWeight: 600, marginBottom: 4 }}>Confirm Manual Completion</div>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>{t('thread.complete.heading')}</div>
         <p style={{ margin: '4px 0 12px', color: '#666', fontSize: 13 }}>
-          You are about to manually complete this agent's execution.
+          {t('thread.complete.description')}
         </p>
         <div style={{ marginBottom: 12 }}>
-          <div style={{ fontWeight: 500, marginBottom: 6, fontSize: 13 }}>Complete as:</div>
+          <div style={{ fontWeight: 500, marginBottom: 6, fontSize: 13 }}>{t('thread.complete.as')}</div>
           <select
             className="devic-completion-select"
             value={completionState}
             onChange={(e) => setCompletionState(e.target.value)}
           >
-            <option value="terminated">Terminated - Finish thread as manually terminated</option>
-            <option value="completed">Completed - Finish thread as successfully completed</option>
-            <option value="failed">Failed - Finish thread as failed or with errors</option>
+            <option value="terminated">{t('thread.complete.terminated')}</option>
+            <option value="completed">{t('thread.complete.completed')}</option>
+            <option value="failed">{t('thread.complete.failed')}</option>
           </select>
         </div>
         <div className="devic-state-warning">
           <InfoIcon />
-          <span>This action will immediately terminate all ongoing processes. The execution cannot be resumed after completion.</span>
+          <span>{t('thread.complete.warning')}</span>
         </div>
       </div>
     </Modal>
@@ -480,6 +501,7 @@ function ConfirmModal({
   message: string;
   confirmText: string;
 }): JSX.Element | null {
+  const { t } = useDevicI18n();
   return (
     <Modal
       open={open}
@@ -488,7 +510,7 @@ function ConfirmModal({
       titleIcon={icon}
       footer={
         <>
-          <button className="devic-state-btn" onClick={onClose} type="button">Cancel</button>
+          <button className="devic-state-btn" onClick={onClose} type="button">{t('common.cancel')}</button>
           <button className="devic-state-btn devic-state-btn-primary" onClick={onConfirm} type="button">
             {confirmText}
           </button>
@@ -520,8 +542,10 @@ export function ThreadStateTag({
   interactive = true,
 }: ThreadStateTagProps): JSX.Element {
   const context = useOptionalDevicContext();
+  const { t, formatDate, formatRelativeTime } = useDevicI18n();
   const resolvedApiKey = apiKey || context?.apiKey;
   const resolvedBaseUrl = baseUrl || context?.baseUrl || 'https://api.devic.ai';
+  const portalTarget = usePortalContainer();
 
   // State
   const [dropdownOpen, setDropdownOpen] = useState(false);
@@ -544,10 +568,9 @@ export function ThreadStateTag({
   useEffect(() => {
     if (!dropdownOpen) return;
     const handleClick = (e: MouseEvent) => {
-      const target = e.target as Node;
       if (
-        tagRef.current && !tagRef.current.contains(target) &&
-        (!dropdownRef.current || !dropdownRef.current.contains(target))
+        tagRef.current && !isEventInside(e, tagRef.current) &&
+        !isEventInside(e, dropdownRef.current)
       ) {
         setDropdownOpen(false);
       }
@@ -559,14 +582,18 @@ export function ThreadStateTag({
   // API client
   const getClient = useCallback((): DevicApiClient | null => {
     if (!resolvedApiKey) return null;
-    return new DevicApiClient({ apiKey: resolvedApiKey, baseUrl: resolvedBaseUrl });
-  }, [resolvedApiKey, resolvedBaseUrl]);
+    return new DevicApiClient({
+      ...context?.clientOptions,
+      apiKey: resolvedApiKey,
+      baseUrl: resolvedBaseUrl,
+    });
+  }, [resolvedApiKey, resolvedBaseUrl, context?.clientOptions]);
 
   // Config
-  const config = getStateConfig(state, subthreadCount);
+  const config = getStateConfig(state, t, subthreadCount);
 
   if (!state) {
-    return <span className="devic-state-tag" data-color="default">Unknown</span>;
+    return <span className="devic-state-tag" data-color="default">{t('common.unknown')}</span>;
   }
 
   // Icon
@@ -581,26 +608,26 @@ export function ThreadStateTag({
   const getTooltipContent = (): string | null => {
     switch (state) {
       case AgentThreadState.PAUSED_FOR_APPROVAL:
-        return 'Agent is waiting for approval to resume execution';
+        return t('thread.tooltip.approval');
       case AgentThreadState.PAUSED_FOR_RESUME:
         if (pauseUntil) {
-          const timeDiff = new Date(pauseUntil).getTime() - Date.now();
-          const hours = Math.floor(timeDiff / 3600000);
-          const minutes = Math.floor(timeDiff / 60000);
-          const timeStr = hours > 0 ? `${hours} hours` : `${minutes} minutes`;
-          return `Agent paused, will resume at ${new Date(pauseUntil).toLocaleString()} (${timeStr})`;
+          const resumeAt = new Date(pauseUntil);
+          return t('thread.tooltip.resumeAt', {
+            date: formatDate(resumeAt),
+            time: formatRelativeTime(resumeAt),
+          });
         }
-        return 'Agent paused, will resume at a scheduled time';
+        return t('thread.tooltip.resumeScheduled');
       case AgentThreadState.WAITING_FOR_RESPONSE:
-        return pausedReason || 'Agent is waiting for response';
+        return pausedReason || t('thread.tooltip.waiting');
       case AgentThreadState.COMPLETED:
       case AgentThreadState.FAILED:
       case AgentThreadState.TERMINATED:
-        return finishReason || 'Manually finished thread';
+        return finishReason || t('thread.tooltip.finished');
       case AgentThreadState.APPROVAL_REJECTED:
-        return approvalRejectedMessage || 'Approval was rejected';
+        return approvalRejectedMessage || t('thread.tooltip.rejected');
       case AgentThreadState.GUARDRAIL_TRIGGER:
-        return 'Agent execution paused due to guardrail trigger';
+        return t('thread.tooltip.guardrail');
       default:
         return null;
     }
@@ -615,7 +642,7 @@ export function ThreadStateTag({
 
     const client = getClient();
     if (!client) {
-      setThreadExplanation('API key not configured.');
+      setThreadExplanation(t('thread.explain.noApiKey'));
       setIsLoadingExplanation(false);
       return;
     }
@@ -624,7 +651,7 @@ export function ThreadStateTag({
       const explanation = await client.explainAgentThread(threadId);
       setThreadExplanation(explanation);
     } catch {
-      setThreadExplanation('Could not obtain the thread explanation.');
+      setThreadExplanation(t('thread.explain.failed'));
     } finally {
       setIsLoadingExplanation(false);
     }
@@ -688,7 +715,7 @@ export function ThreadStateTag({
     dropdownItems.push({
       key: 'complete',
       icon: <WrenchIcon />,
-      label: 'Complete manually',
+      label: t('thread.action.complete'),
       onClick: () => { setDropdownOpen(false); setCompleteModalOpen(true); },
     });
   }
@@ -697,7 +724,7 @@ export function ThreadStateTag({
     dropdownItems.push({
       key: 'pause',
       icon: <PauseIcon />,
-      label: 'Pause',
+      label: t('thread.action.pause'),
       onClick: () => { setDropdownOpen(false); setPauseModalOpen(true); },
     });
   }
@@ -706,7 +733,7 @@ export function ThreadStateTag({
     dropdownItems.push({
       key: 'resume',
       icon: <PlayIcon />,
-      label: 'Resume',
+      label: t('thread.action.resume'),
       onClick: () => { setDropdownOpen(false); setResumeModalOpen(true); },
     });
   }
@@ -715,7 +742,7 @@ export function ThreadStateTag({
     dropdownItems.push({
       key: 'review',
       icon: <EyeIcon />,
-      label: 'Review',
+      label: t('thread.action.review'),
       onClick: () => { setDropdownOpen(false); setReviewModalOpen(true); },
     });
   }
@@ -723,7 +750,7 @@ export function ThreadStateTag({
   dropdownItems.push({
     key: 'explain',
     icon: <LightbulbIcon />,
-    label: 'Explain thread...',
+    label: t('thread.action.explain'),
     onClick: handleExplain,
   });
 
@@ -778,13 +805,13 @@ export function ThreadStateTag({
       </div>
 
       {/* Tooltip - portal to escape overflow/transform containers */}
-      {showTooltip && tooltipContent && !dropdownOpen && createPortal(
+      {portalTarget && showTooltip && tooltipContent && !dropdownOpen && createPortal(
         <div className="devic-state-tooltip-portal" style={tooltipStyle}>{tooltipContent}</div>,
-        document.body
+        portalTarget
       )}
 
       {/* Dropdown - portal to escape overflow/transform containers */}
-      {dropdownOpen && canInteract && createPortal(
+      {portalTarget && dropdownOpen && canInteract && createPortal(
         <div ref={dropdownRef} className="devic-state-dropdown-portal" style={dropdownStyle}>
           {dropdownItems.map((item) => (
             <button
@@ -798,7 +825,7 @@ export function ThreadStateTag({
             </button>
           ))}
         </div>,
-        document.body
+        portalTarget
       )}
 
       {/* Modals */}
@@ -820,20 +847,20 @@ export function ThreadStateTag({
         open={pauseModalOpen}
         onClose={() => setPauseModalOpen(false)}
         onConfirm={handlePause}
-        title="Pause Thread"
+        title={t('thread.pause.title')}
         icon={<PauseIcon />}
-        message="You are about to pause this queued thread. It can be resumed later."
-        confirmText="Pause"
+        message={t('thread.pause.message')}
+        confirmText={t('common.pause')}
       />
 
       <ConfirmModal
         open={resumeModalOpen}
         onClose={() => setResumeModalOpen(false)}
         onConfirm={handleResume}
-        title="Resume Thread"
+        title={t('thread.resume.title')}
         icon={<PlayIcon />}
-        message="You are about to resume this thread. It will go back to the queue and be processed when possible."
-        confirmText="Resume"
+        message={t('thread.resume.message')}
+        confirmText={t('common.resume')}
       />
 
       <ApprovalModal
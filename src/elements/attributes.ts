@@ -0,0 +1,66 @@
+import type { DevicElementAttributeType, DevicElementField } from './types';
+
+/**
+ * Parse an attribute value. Invalid JSON is reported and ignored.
+ */
+export function parseAttribute(value: string, type: DevicElementAttributeType = 'string'): unknown {
+  switch (type) {
+    case 'boolean':
+      return value !== 'false';
+    case 'number':
+      return value.trim() === '' ? undefined : Number(value);
+    case 'size':
+      return /^\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : value;
+    case 'list':
+      if (value.trim().startsWith('[')) return parseJson(value);
+      return value.split(',').map((item) => item.trim()).filter(Boolean);
+    case 'json':
+      if (value.trim() === '') return undefined;
+      // `theme="dark"`, `shadow-dom="false"`
+      if (!/^\s*[{["\d]|^\s*(true|false|null)\s*$/.test(value)) return value;
+      return parseJson(value);
+    default:
+      return value;
+  }
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn('[devic elements] Ignoring attribute with invalid JSON:', value, error);
+    return undefined;
+  }
+}
+
+/**
+ * Attribute names of the fields, for `observedAttributes`
+ */
+export function observedAttributes(fields: Record<string, DevicElementField>): string[] {
+  return Object.values(fields)
+    .map((field) => field.attribute)
+    .filter((attribute): attribute is string => !!attribute);
+}
+
+/**
+ * Provider fields shared by every element
+ */
+export const PROVIDER_FIELDS: Record<string, DevicElementField> = {
+  apiKey: { attribute: 'api-key', target: 'provider' },
+  getToken: { target: 'provider' },
+  baseUrl: { attribute: 'base-url', target: 'provider' },
+  tenantId: { attribute: 'tenant-id', target: 'provider' },
+  tenantMetadata: { attribute: 'tenant-metadata', type: 'json', target: 'provider' },
+  subtenantId: { attribute: 'subtenant-id', target: 'provider' },
+  subtenantMetadata: { attribute: 'subtenant-metadata', type: 'json', target: 'provider' },
+  tags: { attribute: 'tags', type: 'list', target: 'provider' },
+  locale: { attribute: 'locale', target: 'provider' },
+  messages: { target: 'provider' },
+  direction: { attribute: 'direction', target: 'provider' },
+  theme: { attribute: 'theme', type: 'json', target: 'provider' },
+  shadowDom: { attribute: 'shadow-dom', type: 'json', target: 'provider' },
+  middleware: { target: 'provider' },
+  pollingInterval: { attribute: 'polling-interval', type: 'number', target: 'provider' },
+  debug: { attribute: 'debug', type: 'boolean', target: 'provider' },
+};
@@ -0,0 +1,58 @@
+import { DevicProvider } from '../provider';
+import { ChatDrawer } from '../components/ChatDrawer';
+import type { ChatDrawerHandle } from '../components/ChatDrawer';
+import { PROVIDER_FIELDS } from './attributes';
+import type { DevicElementDefinition } from './createElementClass';
+
+/**
+ * `<devic-chat-drawer>`: a DevicProvider with a ChatDrawer
+ *
+ * @example
+ * ```html
+ * <devic-chat-drawer assistant-id="support-assistant" api-key="devic-xxx"
+ *   welcome-message="Hi! How can I help?" theme="auto"></devic-chat-drawer>
+ * ```
+ */
+export const chatDrawerElement: DevicElementDefinition<ChatDrawerHandle> = {
+  fields: {
+    ...PROVIDER_FIELDS,
+    assistantId: { attribute: 'assistant-id', target: 'props' },
+    chatUid: { attribute: 'chat-uid', target: 'props' },
+    mode: { attribute: 'mode', target: 'props' },
+    options: { attribute: 'options', type: 'json', target: 'props' },
+    enabledTools: { attribute: 'enabled-tools', type: 'list', target: 'props' },
+    modelInterfaceTools: { target: 'props' },
+    previousConversation: { target: 'props' },
+    replay: { target: 'props' },
+    onFileUpload: { target: 'props' },
+    assistantRouter: { target: 'props' },
+    position: { attribute: 'position', target: 'options' },
+    width: { attribute: 'width', type: 'size', target: 'options' },
+    defaultOpen: { attribute: 'default-open', type: 'boolean', target: 'options' },
+    welcomeMessage: { attribute: 'welcome-message', target: 'options' },
+    inputPlaceholder: { attribute: 'input-placeholder', target: 'options' },
+    color: { attribute: 'color', target: 'options' },
+    persistConversation: { attribute: 'persist-conversation', type: 'boolean', target: 'options' },
+    assistants: { attribute: 'assistants', type: 'json', target: 'options' },
+  },
+  methods: ['open', 'close', 'toggle', 'setChatUid', 'setAssistantId', 'sendMessage'],
+  render: ({ provider, props, options, handleRef, emit }) => (
+    <DevicProvider {...provider}>
+      <ChatDrawer
+        {...props}
+        ref={handleRef}
+        assistantId={props.assistantId ?? ''}
+        options={options}
+        onMessageSent={(message) => emit('devic-message-sent', { message })}
+        onMessageReceived={(message) => emit('devic-message-received', { message })}
+        onError={(error) => emit('devic-error', { error })}
+        onToolCall={(toolName, params) => emit('devic-tool-call', { toolName, params })}
+        onChatCreated={(chatUid) => emit('devic-chat-created', { chatUid })}
+        onConversationChange={(chatUid) => emit('devic-conversation-change', { chatUid })}
+        onAssistantChange={(assistantId) => emit('devic-assistant-change', { assistantId })}
+        onOpen={() => emit('devic-open')}
+        onClose={() => emit('devic-close')}
+      />
+    </DevicProvider>
+  ),
+};
@@ -0,0 +1,64 @@
+import { DevicProvider } from '../provider';
+import { AICommandBar } from '../components/AICommandBar';
+import type { AICommandBarHandle, ChatDrawerHandle } from '../components/AICommandBar';
+import { PROVIDER_FIELDS } from './attributes';
+import type { DevicElementDefinition } from './createElementClass';
+
+/**
+ * `<devic-command-bar>`: a DevicProvider with an AICommandBar. With a
+ * `drawer` attribute naming a `<devic-chat-drawer>` id, submitted commands
+ * continue in that drawer.
+ *
+ * @example
+ * ```html
+ * <devic-command-bar assistant-id="support-assistant" api-key="devic-xxx"
+ *   position="fixed" shortcut="cmd+k" drawer="support-chat"></devic-command-bar>
+ * ```
+ */
+export const commandBarElement: DevicElementDefinition<AICommandBarHandle> = {
+  fields: {
+    ...PROVIDER_FIELDS,
+    assistantId: { attribute: 'assistant-id', target: 'props' },
+    options: { attribute: 'options', type: 'json', target: 'props' },
+    modelInterfaceTools: { target: 'props' },
+    drawer: { attribute: 'drawer', target: 'props' },
+    position: { attribute: 'position', target: 'options' },
+    shortcut: { attribute: 'shortcut', target: 'options' },
+    placeholder: { attribute: 'placeholder', target: 'options' },
+    width: { attribute: 'width', type: 'size', target: 'options' },
+    color: { attribute: 'color', target: 'options' },
+  },
+  methods: ['open', 'close', 'toggle', 'focus', 'submit', 'reset'],
+  render: ({ element, provider, props, options, handleRef, emit }) => {
+    const { drawer, ...barProps } = props;
+    // Looked up on use, so the drawer may come later in the page; the
+    // element exposes the ChatDrawer handle methods
+    const chatDrawerRef = drawer
+      ? {
+          get current() {
+            return element.ownerDocument.getElementById(drawer) as (HTMLElement & ChatDrawerHandle) | null;
+          },
+        }
+      : undefined;
+
+    return (
+      <DevicProvider {...provider}>
+        <AICommandBar
+          {...barProps}
+          ref={handleRef}
+          assistantId={props.assistantId ?? ''}
+          options={options}
+          onExecute={chatDrawerRef ? 'openDrawer' : 'callback'}
+          chatDrawerRef={chatDrawerRef}
+          onSubmit={(message) => emit('devic-submit', { message })}
+          onResponse={(response) => emit('devic-response', { response })}
+          onError={(error) => emit('devic-error', { error })}
+          onToolCall={(toolName, params) => emit('devic-tool-call', { toolName, params })}
+          onVisibilityChange={(visible) => emit('devic-visibility-change', { visible })}
+          onOpen={() => emit('devic-open')}
+          onClose={() => emit('devic-close')}
+        />
+      </DevicProvider>
+    );
+  },
+};
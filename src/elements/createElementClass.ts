@@ -0,0 +1,166 @@
+import type React from 'react';
+// `react-dom/client` is why this entry (`@devicai/ui/elements`) needs React 18+
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { observedAttributes, parseAttribute } from './attributes';
+import type { DevicElementField, DevicElementsOptions } from './types';
+
+/**
+ * Values an element passes to its definition's `render`
+ */
+export interface DevicElementRenderContext<Handle> {
+  element: HTMLElement;
+  /** DevicProvider props (element settings over the shared ones) */
+  provider: Record<string, any>;
+  /** Component props */
+  props: Record<string, any>;
+  /** Component `options` (the `options` property with option fields over it) */
+  options: Record<string, any>;
+  /** Ref receiving the component handle */
+  handleRef: (handle: Handle | null) => void;
+  /** Dispatch a bubbling, composed CustomEvent from the element */
+  emit: (type: string, detail?: unknown) => void;
+}
+
+/**
+ * A custom element wrapping a component
+ */
+export interface DevicElementDefinition<Handle> {
+  fields: Record<string, DevicElementField>;
+  /**
+   * Handle methods exposed on the element. Calls made before the component
+   * mounts are queued and return a promise of their result.
+   */
+  methods: (keyof Handle & string)[];
+  render: (context: DevicElementRenderContext<Handle>) => React.ReactElement;
+}
+
+/**
+ * Build the custom element class of a definition. Each connected element
+ * owns a React root; attribute and property changes re-render it.
+ */
+export function createElementClass<Handle>(
+  definition: DevicElementDefinition<Handle>,
+  settings: DevicElementsOptions
+): CustomElementConstructor {
+  const { fields, methods } = definition;
+  const fieldNames = Object.keys(fields);
+
+  class DevicElement extends HTMLElement {
+    static get observedAttributes(): string[] {
+      return observedAttributes(fields);
+    }
+
+    private root: Root | null = null;
+    private values: Record<string, unknown> = {};
+    private handle: Handle | null = null;
+    private pendingCalls: [keyof Handle & string, unknown[], (result: unknown) => void][] = [];
+
+    private readonly handleRef = (handle: Handle | null) => {
+      this.handle = handle;
+      if (!handle) return;
+      const calls = this.pendingCalls;
+      this.pendingCalls = [];
+      for (const [method, args, resolve] of calls) resolve(this.invoke(method, args));
+    };
+
+    private readonly emit = (type: string, detail?: unknown) => {
+      this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+    };
+
+    connectedCallback(): void {
+      // Properties set before the element was upgraded shadow the accessors
+      for (const name of fieldNames) {
+        if (Object.prototype.hasOwnProperty.call(this, name)) {
+          const value = (this as any)[name];
+          delete (this as any)[name];
+          this.values[name] = value;
+        }
+      }
+      if (!this.root) this.root = createRoot(this);
+      this.update();
+    }
+
+    disconnectedCallback(): void {
+      // Moving the element disconnects and reconnects it in the same task
+      queueMicrotask(() => {
+        if (this.isConnected || !this.root) return;
+        this.root.unmount();
+        this.root = null;
+        this.handle = null;
+      });
+    }
+
+    attributeChangedCallback(): void {
+      this.update();
+    }
+
+    getField(name: string): unknown {
+      if (name in this.values) return this.values[name];
+      const { attribute, type } = fields[name];
+      const value = attribute ? this.getAttribute(attribute) : null;
+      return value === null ? undefined : parseAttribute(value, type);
+    }
+
+    setField(name: string, value: unknown): void {
+      this.values[name] = value;
+      this.update();
+    }
+
+    invoke(method: keyof Handle & string, args: unknown[]): unknown {
+      if (!this.handle) {
+        return new Promise((resolve) => this.pendingCalls.push([method, args, resolve]));
+      }
+      return (this.handle[method] as unknown as (...a: unknown[]) => unknown)(...args);
+    }
+
+    private update(): void {
+      if (!this.root) return;
+      const provider: Record<string, any> = { shadowDom: settings.shadowDom ?? true, ...settings.provider };
+      const props: Record<string, any> = {};
+      const options: Record<string, any> = {};
+      for (const name of fieldNames) {
+        const value = this.getField(name);
+        if (value === undefined) continue;
+        const target = fields[name].target;
+        if (target === 'provider') provider[name] = value;
+        else if (target === 'props') props[name] = value;
+        else options[name] = value;
+      }
+      this.root.render(
+        definition.render({
+          element: this,
+          provider,
+          props,
+          options: { ...props.options, ...options },
+          handleRef: this.handleRef,
+          emit: this.emit,
+        })
+      );
+    }
+  }
+
+  for (const name of fieldNames) {
+    Object.defineProperty(DevicElement.prototype, name, {
+      configurable: true,
+      enumerable: true,
+      get(this: DevicElement) {
+        return this.getField(name);
+      },
+      set(this: DevicElement, value: unknown) {
+        this.setField(name, value);
+      },
+    });
+  }
+
+  for (const method of methods) {
+    Object.defineProperty(DevicElement.prototype, method, {
+      configurable: true,
+      value(this: DevicElement, ...args: unknown[]) {
+        return this.invoke(method, args);
+      },
+    });
+  }
+
+  return DevicElement;
+}
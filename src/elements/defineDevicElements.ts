@@ -0,0 +1,39 @@
+import { chatDrawerElement } from './chatDrawerElement';
+import { commandBarElement } from './commandBarElement';
+import { createElementClass } from './createElementClass';
+import type { DevicElementsOptions } from './types';
+
+/**
+ * Register the Devic custom elements, `<devic-chat-drawer>` and
+ * `<devic-command-bar>`, for pages that are not React apps. Each element
+ * mounts a DevicProvider with its component; attributes and properties
+ * map to the component props, callbacks become DOM events and the
+ * component handle methods are available on the element. Tags that are
+ * already defined are skipped. Requires React 18 or later.
+ *
+ * @example
+ * ```ts
+ * import { defineDevicElements } from '@devicai/ui/elements';
+ * import devicCss from '@devicai/ui/styles.css?inline';
+ *
+ * defineDevicElements({ shadowDom: { css: devicCss } });
+ *
+ * const drawer = document.querySelector('devic-chat-drawer')!;
+ * drawer.modelInterfaceTools = tools;
+ * drawer.addEventListener('devic-message-received', (e) => console.log(e.detail.message));
+ * drawer.open();
+ * ```
+ */
+export function defineDevicElements(options: DevicElementsOptions = {}): void {
+  if (typeof window === 'undefined' || !window.customElements) return;
+  const prefix = options.prefix ?? 'devic';
+  const elements = {
+    [`${prefix}-chat-drawer`]: chatDrawerElement,
+    [`${prefix}-command-bar`]: commandBarElement,
+  };
+  for (const [tag, definition] of Object.entries(elements)) {
+    if (!customElements.get(tag)) {
+      customElements.define(tag, createElementClass<any>(definition, options));
+    }
+  }
+}
@@ -0,0 +1,18 @@
+// Stylesheets of the components bundled into the script-tag build, in
+// import order. The embed build's PostCSS step registers every CSS module
+// here instead of injecting it into the page.
+const chunks: string[] = [];
+
+/**
+ * Register a bundled stylesheet (called by the embed build)
+ */
+export function registerEmbedStyles(css: string): void {
+  chunks.push(css);
+}
+
+/**
+ * The bundled library stylesheet
+ */
+export function getEmbedStyles(): string {
+  return chunks.join('\n');
+}
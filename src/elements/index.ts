@@ -0,0 +1,13 @@
+// `@devicai/ui/elements` renders with `react-dom/client` and requires React 18+
+// (the root entry still supports React 17)
+export { defineDevicElements } from './defineDevicElements';
+export { parseAttribute } from './attributes';
+export type {
+  DevicElementsOptions,
+  DevicElementAttributeType,
+  DevicElementField,
+  DevicElementProviderProperties,
+  DevicChatDrawerElement,
+  DevicCommandBarElement,
+  DevicElementEventDetail,
+} from './types';
@@ -0,0 +1,159 @@
+import type { DevicShadowDomOption } from '../shadow';
+import type { DevicProviderConfig } from '../provider';
+import type { ChatDrawerHandle, ChatDrawerOptions, ChatDrawerProps } from '../components/ChatDrawer';
+import type { AICommandBarHandle, AICommandBarOptions, CommandBarResult } from '../components/AICommandBar';
+import type { ChatMessage, ModelInterfaceTool, PreviousMessage, ChatFile } from '../api/types';
+import type { ChatExport } from '../utils/chatExport';
+
+/**
+ * Options for defineDevicElements
+ */
+export interface DevicElementsOptions {
+  /**
+   * Prefix of the tag names (`<prefix>-chat-drawer`, `<prefix>-command-bar`)
+   * @default 'devic'
+   */
+  prefix?: string;
+
+  /**
+   * Shadow DOM isolation of the mounted components. Elements may override
+   * it with their `shadow-dom` attribute or `shadowDom` property.
+   * @default true
+   */
+  shadowDom?: DevicShadowDomOption;
+
+  /**
+   * Provider settings shared by every element (e.g. `getToken`), under
+   * the element's own attributes and properties
+   */
+  provider?: Partial<DevicProviderConfig>;
+}
+
+/**
+ * How an element attribute is parsed
+ * - 'string': as is
+ * - 'boolean': present and not "false"
+ * - 'number': `Number()` of the value
+ * - 'size': a number when numeric (`360`), else the CSS value (`40vw`)
+ * - 'list': comma-separated values, or a JSON array
+ * - 'json': JSON (`theme` and `shadow-dom` also accept a bare string)
+ */
+export type DevicElementAttributeType = 'string' | 'boolean' | 'number' | 'size' | 'list' | 'json';
+
+/**
+ * A property of a Devic element and where its value goes
+ */
+export interface DevicElementField {
+  /** Attribute mirroring the property; property-only without one */
+  attribute?: string;
+  /** @default 'string' */
+  type?: DevicElementAttributeType;
+  /** DevicProvider prop, component prop, or key of the component's `options` */
+  target: 'provider' | 'props' | 'options';
+}
+
+/**
+ * Provider properties shared by the elements
+ */
+export interface DevicElementProviderProperties {
+  apiKey?: string;
+  getToken?: DevicProviderConfig['getToken'];
+  baseUrl?: string;
+  tenantId?: string;
+  tenantMetadata?: Record<string, any>;
+  subtenantId?: string;
+  subtenantMetadata?: Record<string, any>;
+  tags?: string[];
+  locale?: string;
+  messages?: DevicProviderConfig['messages'];
+  direction?: DevicProviderConfig['direction'];
+  theme?: DevicProviderConfig['theme'];
+  shadowDom?: DevicShadowDomOption;
+  middleware?: DevicProviderConfig['middleware'];
+  pollingInterval?: number;
+  debug?: boolean;
+}
+
+/**
+ * `<devic-chat-drawer>`: ChatDrawer properties and handle methods.
+ *
+ * Events (bubbling, composed): `devic-message-sent` and
+ * `devic-message-received` (`detail.message`), `devic-error`
+ * (`detail.error`), `devic-tool-call` (`detail.toolName`, `detail.params`),
+ * `devic-chat-created` and `devic-conversation-change` (`detail.chatUid`),
+ * `devic-assistant-change` (`detail.assistantId`), `devic-open`,
+ * `devic-close`.
+ */
+export interface DevicChatDrawerElement
+  extends HTMLElement,
+    ChatDrawerHandle,
+    DevicElementProviderProperties {
+  assistantId?: string;
+  chatUid?: string;
+  mode?: 'drawer' | 'inline';
+  options?: ChatDrawerOptions;
+  enabledTools?: string[];
+  modelInterfaceTools?: ModelInterfaceTool[];
+  previousConversation?: PreviousMessage[];
+  replay?: ChatExport;
+  onFileUpload?: (files: File[]) => Promise<ChatFile[]>;
+  assistantRouter?: ChatDrawerProps['assistantRouter'];
+  position?: ChatDrawerOptions['position'];
+  width?: number | string;
+  defaultOpen?: boolean;
+  welcomeMessage?: string;
+  inputPlaceholder?: string;
+  color?: string;
+  persistConversation?: boolean;
+  assistants?: ChatDrawerOptions['assistants'];
+}
+
+/**
+ * `<devic-command-bar>`: AICommandBar properties and handle methods;
+ * `focus()` focuses the bar's input.
+ *
+ * Events (bubbling, composed): `devic-submit` (`detail.message`),
+ * `devic-response` (`detail.response`), `devic-error` (`detail.error`),
+ * `devic-tool-call` (`detail.toolName`, `detail.params`),
+ * `devic-visibility-change` (`detail.visible`), `devic-open`, `devic-close`.
+ */
+export interface DevicCommandBarElement
+  extends HTMLElement,
+    Omit<AICommandBarHandle, 'focus'>,
+    DevicElementProviderProperties {
+  assistantId?: string;
+  options?: AICommandBarOptions;
+  modelInterfaceTools?: ModelInterfaceTool[];
+  /** Id of a `<devic-chat-drawer>` that opens with the conversation on submit */
+  drawer?: string;
+  position?: AICommandBarOptions['position'];
+  shortcut?: string;
+  placeholder?: string;
+  width?: number | string;
+  color?: string;
+}
+
+/**
+ * Event details of the Devic elements
+ */
+export interface DevicElementEventDetail {
+  'devic-message-sent': { message: ChatMessage };
+  'devic-message-received': { message: ChatMessage };
+  'devic-error': { error: Error };
+  'devic-tool-call': { toolName: string; params: any };
+  'devic-chat-created': { chatUid: string };
+  'devic-conversation-change': { chatUid: string };
+  'devic-assistant-change': { assistantId: string };
+  'devic-submit': { message: string };
+  'devic-response': { response: CommandBarResult };
+  'devic-visibility-change': { visible: boolean };
+  'devic-open': undefined;
+  'devic-close': undefined;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'devic-chat-drawer': DevicChatDrawerElement;
+    'devic-command-bar': DevicCommandBarElement;
+  }
+}
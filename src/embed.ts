@@ -0,0 +1,25 @@
+/**
+ * Script-tag build: React, the components and the library stylesheet in
+ * one file that registers the Devic custom elements on load.
+ *
+ * ```html
+ * <script src="https://unpkg.com/@devicai/ui/dist/embed/devic-ui.js"></script>
+ * <devic-chat-drawer assistant-id="support-assistant" api-key="devic-xxx"></devic-chat-drawer>
+ * ```
+ */
+import { defineDevicElements } from './elements';
+import type { DevicElementsOptions } from './elements';
+import { getEmbedStyles } from './elements/embedStyles';
+
+/**
+ * Register the elements with the bundled stylesheet injected into their
+ * shadow roots. Runs on load with the defaults; call it again with a
+ * different `prefix` to register more tag names.
+ */
+function define(options: DevicElementsOptions = {}): void {
+  defineDevicElements({ shadowDom: { css: getEmbedStyles() }, ...options });
+}
+
+define();
+
+export { define as defineDevicElements, getEmbedStyles };
@@ -4,17 +4,50 @@ export type { UseDevicChatOptions, UseDevicChatResult } from './useDevicChat';
 export { usePolling } from './usePolling';
 export type { UsePollingOptions, UsePollingResult } from './usePolling';
 
-export { useModelInterface } from './useModelInterface';
+export { useRealtimeStream } from './useRealtimeStream';
+export type { UseRealtimeStreamOptions, UseRealtimeStreamResult } from './useRealtimeStream';
+
+export { useOutbox } from './useOutbox';
+export type { UseOutboxOptions, UseOutboxResult, OutboxEntry } from './useOutbox';
+
+export { useMessageBranches } from './useMessageBranches';
+export type {
+  UseMessageBranchesResult,
+  MessageBranchGroup,
+  MessageBranchVariant,
+  MessageBranchInfo,
+} from './useMessageBranches';
+
+export { useModelInterface, ToolCallAbortedError } from './useModelInterface';
 export type {
   UseModelInterfaceOptions,
   UseModelInterfaceResult,
   PendingWidgetCall,
+  PendingConfirmationCall,
   HandleToolCallsResult,
 } from './useModelInterface';
 
+export { useRegisterTool, useRegisteredTools } from './useRegisterTool';
+export type { UseRegisterToolOptions } from './useRegisterTool';
+
+export { useApplicationState } from './useApplicationState';
+export type { UseApplicationStateOptions } from './useApplicationState';
+
 export { useSpeechRecording } from './useSpeechRecording';
 export type {
   UseSpeechRecordingOptions,
   UseSpeechRecordingResult,
   SpeechRecordingStatus,
 } from './useSpeechRecording';
+
+export { useDevicI18n } from './useDevicI18n';
+export { useDevicDirection } from './useDevicDirection';
+
+export { useFocusTrap } from './useFocusTrap';
+export type { UseFocusTrapOptions } from './useFocusTrap';
+
+export { useDevicTheme } from './useDevicTheme';
+export { useSystemTheme } from './useSystemTheme';
+
+export { useDevicShadowDom } from './useDevicShadowDom';
+export { usePortalContainer } from './usePortalContainer';
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { useOptionalDevicContext } from '../provider';
+
+/**
+ * Options for useApplicationState
+ */
+export interface UseApplicationStateOptions {
+  /**
+   * Extra property names whose values are replaced with `'[redacted]'`
+   * (passwords, tokens, API keys and card numbers always are)
+   */
+  redactKeys?: (string | RegExp)[];
+
+  /**
+   * Contribute the state; set to false to withdraw it without unmounting
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Contribute state under `key` to the `applicationState` sent with every
+ * message under the DevicProvider while the calling component is mounted.
+ * `state` is read when a message is sent, not on every render: pass the
+ * value, or a function for state that is costly to compute or read
+ * elsewhere. The snapshot is redacted and size-limited with the provider's
+ * `applicationState` options. Without a provider it does nothing.
+ *
+ * @example
+ * ```tsx
+ * function InvoicePage({ invoice }: { invoice: Invoice }) {
+ *   const location = useLocation();
+ *   useApplicationState('route', { path: location.pathname });
+ *   useApplicationState('selectedInvoice', () => ({ id: invoice.id, total: invoice.total }));
+ *   useApplicationState('paymentForm', form.getValues, { redactKeys: ['iban'] });
+ *   // ...
+ * }
+ * ```
+ */
+export function useApplicationState(
+  key: string,
+  state: unknown | (() => unknown),
+  options: UseApplicationStateOptions = {}
+): void {
+  const { redactKeys, enabled = true } = options;
+  const registerStateProvider = useOptionalDevicContext()?.registerStateProvider;
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const redactKeysRef = useRef(redactKeys);
+  redactKeysRef.current = redactKeys;
+  // Compare by value so an inline list does not re-register every render
+  const redactKey = redactKeys ? redactKeys.map(String).join('\n') : '';
+
+  useEffect(() => {
+    if (!registerStateProvider || !enabled) return;
+    return registerStateProvider({
+      key,
+      getState: () => {
+        const current = stateRef.current;
+        return typeof current === 'function' ? current() : current;
+      },
+      redactKeys: redactKeysRef.current,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [registerStateProvider, key, enabled, redactKey]);
+}
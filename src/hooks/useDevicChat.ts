@@ -3,15 +3,30 @@ import { useOptionalDevicContext } from '../provider';
 import type { TenantMetadata, SubtenantMetadata } from '../provider';
 import { DevicApiClient, DevicApiError } from '../api/client';
 import { usePolling } from './usePolling';
-import { useModelInterface, type PendingWidgetCall } from './useModelInterface';
+import { useRealtimeStream } from './useRealtimeStream';
+import { useOutbox, type OutboxEntry } from './useOutbox';
+import { useRegisteredTools } from './useRegisterTool';
+import {
+  useMessageBranches,
+  getBranchTargetMessage,
+  type MessageBranchInfo,
+} from './useMessageBranches';
+import {
+  useModelInterface,
+  type PendingWidgetCall,
+  type PendingConfirmationCall,
+} from './useModelInterface';
 import { createLogger } from '../utils/logger';
 import type {
   ChatMessage,
   ChatFile,
   ModelInterfaceTool,
+  PreviousMessage,
   RealtimeChatHistory,
   RealtimeStatus,
+  RealtimeTransport,
   TenantLimitExceeded,
+  ToolCallResponse,
 } from '../api/types';
 
 export interface UseDevicChatOptions {
@@ -72,12 +87,55 @@ export interface UseDevicChatOptions {
    */
   modelInterfaceTools?: ModelInterfaceTool[];
 
+  /**
+   * How many client tool callbacks of one turn may run at the same time
+   * @default 1
+   */
+  toolConcurrency?: number;
+
+  /**
+   * Milliseconds a client tool callback may run before it is aborted and
+   * answered with a timeout error (a tool's `timeoutMs` takes precedence).
+   * No timeout when omitted.
+   */
+  toolTimeoutMs?: number;
+
   /**
    * Polling interval for async mode (ms)
-   * @default 1000
+   * @default the provider's `pollingInterval`, else 1000
    */
   pollingInterval?: number;
 
+  /**
+   * How to follow the conversation while the assistant is processing.
+   * `'sse'` consumes the server-sent-events stream (incremental messages and
+   * tokens) and falls back to polling if the stream is unavailable, or for
+   * the rest of the turn if it drops.
+   * @default 'polling'
+   */
+  transport?: RealtimeTransport;
+
+  /**
+   * Queue messages that fail to send because the browser is offline (or the
+   * network drops) in a durable outbox instead of discarding them. Queued
+   * messages are shown as pending and sent in order once back online.
+   * @default true
+   */
+  offlineQueue?: boolean;
+
+  /**
+   * localStorage key for the offline outbox
+   * @default 'devic-chat-outbox-<assistantId>'
+   */
+  outboxStorageKey?: string;
+
+  /**
+   * Prior turns to seed a new conversation with (e.g. from an imported
+   * export, see `chatExportToPreviousConversation`). Sent as
+   * `previousConversation` with the first message of a new chat only.
+   */
+  previousConversation?: PreviousMessage[];
+
   /**
    * Callback when a message is sent
    */
@@ -162,6 +220,22 @@ export interface UseDevicChatResult {
    */
   handedOffSubThreadId: string | null;
 
+  /**
+   * Whether the browser reports being online
+   */
+  isOnline: boolean;
+
+  /**
+   * Number of queued messages for the current conversation that have not
+   * reached the server yet
+   */
+  pendingCount: number;
+
+  /**
+   * Drop a pending (queued) message without sending it
+   */
+  discardPendingMessage: (uid: string) => void;
+
   /**
    * Send a message
    */
@@ -177,6 +251,29 @@ export interface UseDevicChatResult {
     }
   ) => Promise<void>;
 
+  /**
+   * Replace a sent user message and resend from there. The conversation is
+   * forked: earlier turns seed a new conversation and the previous version
+   * stays reachable through `selectBranch`.
+   */
+  editMessage: (uid: string, message: string) => Promise<void>;
+
+  /**
+   * Ask for a new version of an assistant reply, forking the conversation
+   * at the user message it answers
+   */
+  regenerateMessage: (uid: string) => Promise<void>;
+
+  /**
+   * Messages that have alternatives, by message uid
+   */
+  branches: Record<string, MessageBranchInfo>;
+
+  /**
+   * Show another alternative of a message listed in `branches`
+   */
+  selectBranch: (uid: string, index: number) => void;
+
   /**
    * Clear the chat and start a new conversation
    */
@@ -215,6 +312,123 @@ export interface UseDevicChatResult {
    * Sends an error response so the model can continue.
    */
   cancelWidgetCall: (toolCallId: string, reason?: string) => Promise<void>;
+
+  /**
+   * Pending tool calls waiting for the user's approval
+   * (tools with `requiresConfirmation`)
+   */
+  pendingConfirmations: PendingConfirmationCall[];
+
+  /**
+   * Approve a pending confirmation: runs the tool's callback and sends its
+   * result. With `alwaysAllow`, the tool no longer asks for the rest of the
+   * session and its other pending calls are approved too.
+   */
+  approveToolCall: (toolCallId: string, options?: { alwaysAllow?: boolean }) => Promise<void>;
+
+  /**
+   * Deny a pending confirmation. The model receives the denial and `reason`.
+   */
+  denyToolCall: (toolCallId: string, reason?: string) => Promise<void>;
+}
+
+// Server timestamps may lag the client clock; a server copy this much older
+// than a queued message still counts as the same message.
+const DELIVERY_CLOCK_SKEW_MS = 60000;
+
+// Delay before retrying the outbox after a flush failed while still online
+const OUTBOX_RETRY_MS = 15000;
+
+/**
+ * Whether a send failure means the network was unreachable, as opposed to an
+ * error returned by the API
+ */
+function isConnectivityError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  // fetch rejects with a TypeError when the request never reaches the server
+  return !(err instanceof DevicApiError) && err instanceof TypeError;
+}
+
+/**
+ * Whether a stream failure means the server does not offer the SSE endpoint
+ * (as opposed to a dropped connection worth retrying)
+ */
+function isStreamUnsupported(err: unknown): boolean {
+  if (!(err instanceof DevicApiError)) return false;
+  if ([404, 405, 501].includes(err.statusCode)) return true;
+  // Answered successfully, but not with an event stream
+  return err.errorType === 'STREAM_UNAVAILABLE' && err.statusCode >= 200 && err.statusCode < 300;
+}
+
+/**
+ * Whether the server already has a queued message (the original request got
+ * through before the connection dropped)
+ */
+function hasDeliveredCopy(entry: OutboxEntry, history: ChatMessage[]): boolean {
+  const text = entry.message.trim();
+  return history.some(
+    (m) =>
+      m.role === 'user' &&
+      !m.uid.startsWith('temp-') &&
+      (m.content?.message ?? '').trim() === text &&
+      m.timestamp >= entry.createdAt - DELIVERY_CLOCK_SKEW_MS
+  );
+}
+
+/**
+ * Render an outbox entry as a user message
+ */
+function outboxEntryToMessage(entry: OutboxEntry, pending: boolean): ChatMessage {
+  const files = [
+    ...(entry.uploadedFiles ?? []).map((f) => ({
+      name: f.name,
+      url: f.downloadUrl || '',
+      type: f.fileType || 'other',
+    })),
+    ...(entry.pendingFiles ?? []).map((f) => ({ name: f.name, url: '', type: f.type })),
+  ];
+  return {
+    uid: entry.uid,
+    role: 'user',
+    content: {
+      message: entry.message,
+      ...(files.length > 0 && { files }),
+    },
+    timestamp: entry.createdAt,
+    ...(entry.transcriptId && { transcriptId: entry.transcriptId }),
+    ...(pending && { pending: true }),
+  };
+}
+
+/**
+ * Text turns of a message list, as sent in `previousConversation`
+ */
+function toPreviousConversation(messages: ChatMessage[]): PreviousMessage[] {
+  return messages
+    .filter(
+      (m): m is ChatMessage & { role: PreviousMessage['role'] } =>
+        (m.role === 'user' || m.role === 'assistant') && !!m.content?.message?.trim()
+    )
+    .map((m) => ({ role: m.role, message: m.content.message! }));
+}
+
+/**
+ * Prepend the turns a forked conversation was seeded with to its server
+ * history, dropping them from the history if the server echoes them back
+ */
+function withForkPrefix(prefix: ChatMessage[] | undefined, history: ChatMessage[]): ChatMessage[] {
+  if (!prefix?.length) return history;
+  const seeded = toPreviousConversation(prefix);
+  let skip = 0;
+  while (
+    skip < seeded.length &&
+    skip < history.length &&
+    history[skip].role === seeded[skip].role &&
+    (history[skip].content?.message ?? '').trim() === seeded[skip].message.trim()
+  ) {
+    skip++;
+  }
+  return [...prefix, ...history.slice(skip)];
 }
 
 /**
@@ -252,7 +466,13 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     tags,
     enabledTools,
     modelInterfaceTools = [],
-    pollingInterval = 1000,
+    toolConcurrency,
+    toolTimeoutMs,
+    pollingInterval: propsPollingInterval,
+    transport = 'polling',
+    offlineQueue = true,
+    outboxStorageKey,
+    previousConversation,
     onMessageSent,
     onMessageReceived,
     onToolCall,
@@ -268,9 +488,11 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
   // Resolve configuration
   const apiKey = propsApiKey || context?.apiKey;
   const baseUrl = propsBaseUrl || context?.baseUrl || 'https://api.devic.ai';
+  const pollingInterval = propsPollingInterval ?? context?.pollingInterval ?? 1000;
   const resolvedTenantId = tenantId || context?.tenantId;
   const resolvedTenantMetadata = { ...context?.tenantMetadata, ...tenantMetadata };
   const resolvedSubtenantId = subtenantId || context?.subtenantId;
+  const collectApplicationState = context?.collectApplicationState;
   const resolvedSubtenantMetadata = {
     ...context?.subtenantMetadata,
     ...subtenantMetadata,
@@ -307,6 +529,29 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
   const chatUidRef = useRef(chatUid);
   chatUidRef.current = chatUid;
 
+  // Offline outbox: undelivered messages, persisted per assistant
+  const outbox = useOutbox(outboxStorageKey || `devic-chat-outbox-${assistantId}`, {
+    enabled: offlineQueue,
+  });
+  const outboxRef = useRef(outbox);
+  outboxRef.current = outbox;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const [outboxPaused, setOutboxPaused] = useState(false);
+  const flushingRef = useRef(false);
+
+  // Forks: conversations started by editing/regenerating are seeded with the
+  // earlier turns, which are kept here (by chatUid, or as the draft until the
+  // server assigns one) and shown in front of the server history
+  const branches = useMessageBranches();
+  const forkPrefixesRef = useRef<Map<string, ChatMessage[]>>(new Map());
+  const draftForkPrefixRef = useRef<ChatMessage[] | null>(null);
+  const getForkPrefix = useCallback(
+    (uid: string | null) =>
+      uid ? forkPrefixesRef.current.get(uid) : draftForkPrefixRef.current ?? undefined,
+    []
+  );
+
   // Refs for callbacks
   const onMessageReceivedRef = useRef(onMessageReceived);
   const onErrorRef = useRef(onError);
@@ -321,15 +566,15 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
   // Create API client
   const clientRef = useRef<DevicApiClient | null>(null);
   if (!clientRef.current && apiKey) {
-    clientRef.current = new DevicApiClient({ apiKey, baseUrl });
+    clientRef.current = new DevicApiClient({ ...context?.clientOptions, apiKey, baseUrl });
   }
 
   // Update client config if it changes
   useEffect(() => {
     if (clientRef.current && apiKey) {
-      clientRef.current.setConfig({ apiKey, baseUrl });
+      clientRef.current.setConfig({ ...context?.clientOptions, apiKey, baseUrl });
     }
-  }, [apiKey, baseUrl]);
+  }, [apiKey, baseUrl, context?.clientOptions]);
 
   // Resume chat state based on realtime status.
   // Called after loading chat history to detect in-progress conversations.
@@ -342,7 +587,7 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
 
         // Update messages with realtime data (may be fresher than static history)
         if (realtime.chatHistory?.length) {
-          setMessages(realtime.chatHistory);
+          setMessages(withForkPrefix(getForkPrefix(targetChatUid), realtime.chatHistory));
         }
         setStatus(realtime.status);
 
@@ -392,7 +637,7 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
             initialChatUid,
             { tenantId: resolvedTenantId }
           );
-          setMessages(history.chatContent);
+          setMessages(withForkPrefix(getForkPrefix(initialChatUid), history.chatContent));
           setChatUid(initialChatUid);
 
           // Check realtime status to resume in-progress conversations
@@ -409,16 +654,30 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     }
   }, [initialChatUid, assistantId, resolvedTenantId, resumeFromRealtimeStatus]);
 
-  // Model interface hook
+  // Model interface hook (own tools plus those registered under the provider)
+  const tools = useRegisteredTools(modelInterfaceTools);
   const {
     toolSchemas,
     handleToolCalls,
+    executeConfirmedCall,
+    allowToolForSession,
+    abortToolCalls,
     extractPendingToolCalls,
   } = useModelInterface({
-    tools: modelInterfaceTools,
+    tools,
+    concurrency: toolConcurrency,
+    toolTimeoutMs,
     onToolExecute: onToolCall,
   });
 
+  // Bumped when running tool callbacks are cancelled (stop, clear, switching
+  // conversations) so their late results do not resume the conversation
+  const toolRunRef = useRef(0);
+  const cancelToolCalls = useCallback(() => {
+    toolRunRef.current += 1;
+    abortToolCalls();
+  }, [abortToolCalls]);
+
   // Pending widget calls awaiting user interaction
   const [pendingWidgetCalls, setPendingWidgetCalls] = useState<PendingWidgetCall[]>([]);
   const pendingWidgetCallsRef = useRef<PendingWidgetCall[]>([]);
@@ -426,10 +685,144 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     pendingWidgetCallsRef.current = pendingWidgetCalls;
   }, [pendingWidgetCalls]);
 
+  // Pending tool calls awaiting the user's approval
+  const [pendingConfirmations, setPendingConfirmations] = useState<PendingConfirmationCall[]>([]);
+  const pendingConfirmationsRef = useRef<PendingConfirmationCall[]>([]);
+  const updatePendingConfirmations = useCallback((next: PendingConfirmationCall[]) => {
+    pendingConfirmationsRef.current = next;
+    setPendingConfirmations(next);
+  }, []);
+
+  // SSE transport state: a server without the stream endpoint switches to
+  // polling for the rest of the hook's lifetime; other stream failures
+  // (network drops, server restarts) only until the next send or load.
+  const [streamUnsupported, setStreamUnsupported] = useState(false);
+  const [streamInterrupted, setStreamInterrupted] = useState(false);
+  const streamActive = transport === 'sse' && !streamUnsupported && !streamInterrupted;
+
+  // Last assistant message passed to onMessageReceived
+  const notifiedMessageUidRef = useRef<string | null>(null);
+
+  // Realtime handlers shared by the polling and SSE transports
+  const realtimeHandlers = {
+    stopStatuses: [
+      'completed',
+      'error',
+      'waiting_for_tool_response',
+      'handed_off',
+      'limit_exceeded',
+    ] as RealtimeStatus[],
+    onUpdate: async (data: RealtimeChatHistory) => {
+      logRef.current.log('[useDevicChat] onUpdate called, status:', data.status);
+
+      // Merge realtime data with optimistic messages.
+      // When a server user message matches an optimistic one by text, adopt the
+      // optimistic uid so React's key stays stable (avoids unmount/remount flicker).
+      setMessages((prev) => {
+        const normalize = (t?: string) => (t ?? '').trim();
+        const optimisticUserByText = new Map(
+          prev
+            .filter((m) => m.role === 'user' && m.uid.startsWith('temp-'))
+            .map((m) => [normalize(m.content?.message), m.uid])
+        );
+
+        const adoptedTempUids = new Set<string>();
+        const history = withForkPrefix(getForkPrefix(data.chatUID), data.chatHistory);
+        const merged = history.map((m) => {
+          if (m.role === 'user') {
+            const tempUid = optimisticUserByText.get(normalize(m.content?.message));
+            if (tempUid) {
+              adoptedTempUids.add(tempUid);
+              return { ...m, uid: tempUid };
+            }
+          }
+          return m;
+        });
+
+        const mergedUIDs = new Set(merged.map((m) => m.uid));
+        const optimistic = prev.filter(
+          (m) => !mergedUIDs.has(m.uid) && !adoptedTempUids.has(m.uid)
+        );
+
+        return [...merged, ...optimistic];
+      });
+      setStatus(data.status);
+
+      // Drop queued messages the server already has
+      outboxRef.current.entries
+        .filter((e) => (e.chatUid ?? data.chatUID) === data.chatUID)
+        .filter((e) => hasDeliveredCopy(e, data.chatHistory))
+        .forEach((e) => outboxRef.current.remove(e.uid));
+
+      // Notify about each new assistant message once. While streaming, the
+      // last message may still be receiving tokens, so wait until another
+      // message follows it or the turn stops.
+      const streaming = streamActive && data.status === 'processing';
+      const completed = streaming ? data.chatHistory.slice(0, -1) : data.chatHistory;
+      const lastMessage = completed[completed.length - 1];
+      if (lastMessage?.role === 'assistant' && lastMessage.uid !== notifiedMessageUidRef.current) {
+        notifiedMessageUidRef.current = lastMessage.uid;
+        onMessageReceivedRef.current?.(lastMessage);
+      }
+
+      // Handle model interface - check for pending tool calls
+      if (data.status === 'waiting_for_tool_response' || data.pendingToolCalls?.length) {
+        await handlePendingToolCalls(data);
+      }
+    },
+    onStop: (data: RealtimeChatHistory | null) => {
+      logRef.current.log('[useDevicChat] onStop called, status:', data?.status);
+      setShouldPoll(false);
+
+      if (data?.status === 'limit_exceeded') {
+        // The message was blocked by a tenant/subtenant usage limit before
+        // reaching the LLM. Surface the details so the UI can show a banner.
+        setIsLoading(false);
+        const details: TenantLimitExceeded = data.limitExceeded || {
+          message: 'Usage limit reached.',
+        };
+        setLimitExceeded(details);
+        const err = new Error(
+          details.message || 'Usage limit reached.'
+        ) as Error & { errorType?: string; details?: TenantLimitExceeded };
+        err.errorType = 'TENANT_LIMIT_EXCEEDED';
+        err.details = details;
+        setError(err);
+        onErrorRef.current?.(err);
+      } else if (data?.status === 'error') {
+        setIsLoading(false);
+        const err = new Error('Chat processing failed');
+        setError(err);
+        onErrorRef.current?.(err);
+      } else if (data?.status === 'completed') {
+        setIsLoading(false);
+      } else if (data?.status === 'handed_off') {
+        // Subagent is working — keep isLoading true so the UI stays in loading state.
+        // Set handoff state directly from the realtime status.
+        setHandedOff(true);
+
+        const subThreadId = data.handedOffSubThreadId || null;
+        logRef.current.log('[useDevicChat] Handoff state set:', { handedOff: true, subThreadId });
+        if (subThreadId) {
+          setHandedOffSubThreadId(subThreadId);
+        }
+      }
+      // Note: waiting_for_tool_response is handled in onUpdate to avoid double execution
+    },
+    onError: (err: Error) => {
+      logRef.current.error('[useDevicChat] onError called:', err);
+      setError(err);
+      setIsLoading(false);
+      setShouldPoll(false);
+      onErrorRef.current?.(err);
+    },
+    debug,
+  };
+
   // Polling hook - uses callbacks for side effects, return value not needed
   logRef.current.log('[useDevicChat] Render - shouldPoll:', shouldPoll, 'chatUid:', chatUid);
   usePolling(
-    shouldPoll ? chatUid : null,
+    shouldPoll && !streamActive ? chatUid : null,
     async () => {
       logRef.current.log('[useDevicChat] fetchFn called, chatUid:', chatUid);
       if (!clientRef.current || !chatUid) {
@@ -440,108 +833,32 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
       return result;
     },
     {
+      ...realtimeHandlers,
       interval: pollingInterval,
-      enabled: shouldPoll,
-      stopStatuses: [
-        'completed',
-        'error',
-        'waiting_for_tool_response',
-        'handed_off',
-        'limit_exceeded',
-      ],
-      onUpdate: async (data: RealtimeChatHistory) => {
-        logRef.current.log('[useDevicChat] onUpdate called, status:', data.status);
-
-        // Merge realtime data with optimistic messages.
-        // When a server user message matches an optimistic one by text, adopt the
-        // optimistic uid so React's key stays stable (avoids unmount/remount flicker).
-        setMessages((prev) => {
-          const normalize = (t?: string) => (t ?? '').trim();
-          const optimisticUserByText = new Map(
-            prev
-              .filter((m) => m.role === 'user' && m.uid.startsWith('temp-'))
-              .map((m) => [normalize(m.content?.message), m.uid])
-          );
-
-          const adoptedTempUids = new Set<string>();
-          const merged = data.chatHistory.map((m) => {
-            if (m.role === 'user') {
-              const tempUid = optimisticUserByText.get(normalize(m.content?.message));
-              if (tempUid) {
-                adoptedTempUids.add(tempUid);
-                return { ...m, uid: tempUid };
-              }
-            }
-            return m;
-          });
-
-          const mergedUIDs = new Set(merged.map((m) => m.uid));
-          const optimistic = prev.filter(
-            (m) => !mergedUIDs.has(m.uid) && !adoptedTempUids.has(m.uid)
-          );
-
-          return [...merged, ...optimistic];
-        });
-        setStatus(data.status);
-
-        // Notify about new messages
-        const lastMessage = data.chatHistory[data.chatHistory.length - 1];
-        if (lastMessage && lastMessage.role === 'assistant') {
-          onMessageReceivedRef.current?.(lastMessage);
-        }
-
-        // Handle model interface - check for pending tool calls
-        if (data.status === 'waiting_for_tool_response' || data.pendingToolCalls?.length) {
-          await handlePendingToolCalls(data);
-        }
-      },
-      onStop: (data) => {
-        logRef.current.log('[useDevicChat] onStop called, status:', data?.status);
-        setShouldPoll(false);
-
-        if (data?.status === 'limit_exceeded') {
-          // The message was blocked by a tenant/subtenant usage limit before
-          // reaching the LLM. Surface the details so the UI can show a banner.
-          setIsLoading(false);
-          const details: TenantLimitExceeded = data.limitExceeded || {
-            message: 'Usage limit reached.',
-          };
-          setLimitExceeded(details);
-          const err = new Error(
-            details.message || 'Usage limit reached.'
-          ) as Error & { errorType?: string; details?: TenantLimitExceeded };
-          err.errorType = 'TENANT_LIMIT_EXCEEDED';
-          err.details = details;
-          setError(err);
-          onErrorRef.current?.(err);
-        } else if (data?.status === 'error') {
-          setIsLoading(false);
-          const err = new Error('Chat processing failed');
-          setError(err);
-          onErrorRef.current?.(err);
-        } else if (data?.status === 'completed') {
-          setIsLoading(false);
-        } else if (data?.status === 'handed_off') {
-          // Subagent is working — keep isLoading true so the UI stays in loading state.
-          // Set handoff state directly from the realtime status.
-          setHandedOff(true);
+      enabled: shouldPoll && !streamActive,
+    }
+  );
 
-          const subThreadId = data.handedOffSubThreadId || null;
-          logRef.current.log('[useDevicChat] Handoff state set:', { handedOff: true, subThreadId });
-          if (subThreadId) {
-            setHandedOffSubThreadId(subThreadId);
-          }
-        }
-        // Note: waiting_for_tool_response is handled in onUpdate to avoid double execution
-      },
+  // SSE stream hook - same handlers as polling; stream failures switch to polling
+  useRealtimeStream(
+    shouldPoll && streamActive ? chatUid : null,
+    (onEvent, signal) => {
+      if (!clientRef.current || !chatUid) {
+        return Promise.reject(new Error('Cannot stream without client or chatUid'));
+      }
+      return clientRef.current.streamRealtimeHistory(assistantId, chatUid, onEvent, signal);
+    },
+    {
+      ...realtimeHandlers,
+      enabled: shouldPoll && streamActive,
       onError: (err) => {
-        logRef.current.error('[useDevicChat] onError called:', err);
-        setError(err);
-        setIsLoading(false);
-        setShouldPoll(false);
-        onErrorRef.current?.(err);
+        logRef.current.warn('[useDevicChat] Stream failed, falling back to polling:', err);
+        if (isStreamUnsupported(err)) {
+          setStreamUnsupported(true);
+        } else {
+          setStreamInterrupted(true);
+        }
       },
-      debug,
     }
   );
 
@@ -555,9 +872,19 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
 
       if (pendingCalls.length === 0) return;
 
+      const run = toolRunRef.current;
       try {
         // Execute client-side tools (partitioned into immediate responses and widget-driven)
-        const { responses, widgetCalls } = await handleToolCalls(pendingCalls);
+        const { responses, widgetCalls, confirmationCalls } = await handleToolCalls(pendingCalls);
+
+        // Cancelled while running: report the results, but leave the
+        // conversation stopped
+        if (run !== toolRunRef.current) {
+          if (responses.length > 0) {
+            await clientRef.current.sendToolResponses(assistantId, chatUid, responses);
+          }
+          return;
+        }
 
         // Queue widget-driven tool calls for user interaction
         if (widgetCalls.length > 0) {
@@ -572,12 +899,24 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
           setIsLoading(false);
         }
 
+        // Queue calls awaiting approval; like widgets they pause polling
+        // until approveToolCall / denyToolCall answers them
+        if (confirmationCalls.length > 0) {
+          const existingIds = new Set(pendingConfirmationsRef.current.map((c) => c.toolCall.id));
+          updatePendingConfirmations([
+            ...pendingConfirmationsRef.current,
+            ...confirmationCalls.filter((c) => !existingIds.has(c.toolCall.id)),
+          ]);
+          setShouldPoll(false);
+          setIsLoading(false);
+        }
+
         if (responses.length > 0) {
           // Send tool responses back to the API
           await clientRef.current.sendToolResponses(assistantId, chatUid, responses);
 
-          // Only resume polling if no widgets are blocking
-          if (widgetCalls.length === 0) {
+          // Only resume polling if no widgets or confirmations are blocking
+          if (widgetCalls.length === 0 && confirmationCalls.length === 0) {
             setShouldPoll(true);
             setIsLoading(true);
           }
@@ -588,7 +927,187 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
         onErrorRef.current?.(error);
       }
     },
-    [chatUid, assistantId, handleToolCalls, extractPendingToolCalls]
+    [chatUid, assistantId, handleToolCalls, extractPendingToolCalls, updatePendingConfirmations]
+  );
+
+  // Surface a send failure that was not caused by connectivity
+  const handleSendError = useCallback((err: unknown, messageUid: string) => {
+    const error = err instanceof Error ? err : new Error(String(err));
+
+    // A synchronous usage-limit block surfaces as HTTP 429 /
+    // TENANT_LIMIT_EXCEEDED (sync send path). Async sends surface it via the
+    // realtime `limit_exceeded` status instead — both are handled.
+    if (
+      err instanceof DevicApiError &&
+      (err.statusCode === 429 || err.errorType === 'TENANT_LIMIT_EXCEEDED')
+    ) {
+      const details: TenantLimitExceeded =
+        (err.details as TenantLimitExceeded) || { message: err.message };
+      if (!details.message) details.message = err.message;
+      setLimitExceeded(details);
+    }
+
+    setError(error);
+    setIsLoading(false);
+    setStatus('error');
+    onErrorRef.current?.(error);
+
+    // Remove optimistic user message on error
+    setMessages((prev) => prev.filter((m) => m.uid !== messageUid));
+  }, []);
+
+  // Move an undelivered optimistic message into the outbox
+  const queueMessage = useCallback(
+    (entry: OutboxEntry, files?: File[]) => {
+      logRef.current.log('[useDevicChat] Queuing message in outbox:', entry.uid);
+      outboxRef.current.enqueue(entry, files);
+      setMessages((prev) => prev.filter((m) => m.uid !== entry.uid));
+      setIsLoading(false);
+      setStatus('idle');
+    },
+    []
+  );
+
+  // Upload files, send the message and start following the response.
+  // `progress.uploadedFiles` is filled as soon as uploads succeed so a failed
+  // send can be queued without uploading the files twice.
+  const deliverMessage = useCallback(
+    async (
+      messageUid: string,
+      message: string,
+      targetChatUid: string | null,
+      payload: {
+        files?: File[];
+        uploadedFiles?: ChatFile[];
+        metadata?: Record<string, any>;
+        transcriptId?: string;
+        tags?: string[];
+        previousConversation?: PreviousMessage[];
+      },
+      progress: { uploadedFiles?: ChatFile[] }
+    ) => {
+      let uploadedFiles = payload.uploadedFiles;
+
+      // Upload files if provided
+      if (payload.files && payload.files.length > 0) {
+        logRef.current.log('[useDevicChat] Uploading files...');
+        let newlyUploaded: ChatFile[];
+        if (onFileUpload) {
+          // Use custom upload handler
+          newlyUploaded = await onFileUpload(payload.files);
+        } else {
+          // Default: upload via Devic API
+          const uploadResults = await Promise.all(
+            payload.files.map((file) => clientRef.current!.uploadFile(file))
+          );
+          newlyUploaded = uploadResults.map((r) => ({
+            name: r.name,
+            downloadUrl: r.downloadUrl,
+            fileType: r.fileType as ChatFile['fileType'],
+          }));
+        }
+        uploadedFiles = [...(uploadedFiles ?? []), ...newlyUploaded];
+        progress.uploadedFiles = uploadedFiles;
+        logRef.current.log('[useDevicChat] Files uploaded:', uploadedFiles);
+
+        // Update optimistic message with download URLs
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.uid === messageUid
+              ? {
+                  ...m,
+                  content: {
+                    ...m.content,
+                    files: uploadedFiles!.map((f) => ({
+                      name: f.name,
+                      url: f.downloadUrl || '',
+                      type: f.fileType || 'other',
+                    })),
+                  },
+                }
+              : m
+          )
+        );
+      }
+
+      // Build request DTO; application state is snapshotted at delivery
+      const applicationState = collectApplicationState?.();
+      const hasSubtenantMetadata =
+        resolvedSubtenantMetadata &&
+        Object.keys(resolvedSubtenantMetadata).length > 0;
+      const dto = {
+        message,
+        chatUid: targetChatUid || undefined,
+        files: uploadedFiles,
+        metadata: {
+          ...resolvedTenantMetadata,
+          ...(hasSubtenantMetadata && {
+            subtenantMetadata: resolvedSubtenantMetadata,
+          }),
+          ...payload.metadata,
+        },
+        tenantId: resolvedTenantId,
+        ...(resolvedSubtenantId && { subtenantId: resolvedSubtenantId }),
+        // Conversation tags: provider + hook + per-message, deduped
+        ...(() => {
+          const merged = Array.from(
+            new Set([...resolvedTags, ...(payload.tags ?? [])])
+          );
+          return merged.length > 0 ? { tags: merged } : {};
+        })(),
+        enabledTools,
+        // Include model interface tools if any
+        ...(toolSchemas.length > 0 && { tools: toolSchemas }),
+        // What the user is looking at, from registered state providers
+        ...(applicationState && { applicationState }),
+        // Link to the speech-to-text transcript that seeded this message, if any
+        ...(payload.transcriptId && { transcriptId: payload.transcriptId }),
+        // Seed a new conversation with imported history and, for forks, the
+        // turns before the fork point
+        ...(() => {
+          if (targetChatUid) return {};
+          const seed = [...(previousConversation ?? []), ...(payload.previousConversation ?? [])];
+          return seed.length > 0 ? { previousConversation: seed } : {};
+        })(),
+      };
+
+      // Send message in async mode
+      logRef.current.log('[useDevicChat] Sending message async...');
+      const response = await clientRef.current!.sendMessageAsync(assistantId, dto);
+      logRef.current.log('[useDevicChat] sendMessageAsync response:', response);
+
+      // Update chat UID if this is a new chat
+      if (response.chatUid && response.chatUid !== targetChatUid) {
+        logRef.current.log('[useDevicChat] Setting chatUid:', response.chatUid);
+        setChatUid(response.chatUid);
+        if (!targetChatUid && draftForkPrefixRef.current) {
+          forkPrefixesRef.current.set(response.chatUid, draftForkPrefixRef.current);
+          draftForkPrefixRef.current = null;
+        }
+        onChatCreatedRef.current?.(response.chatUid);
+        // Messages queued for the new conversation now belong to it
+        outboxRef.current.update((e) =>
+          e.chatUid === null ? { ...e, chatUid: response.chatUid } : e
+        );
+      }
+
+      // Start polling for results
+      logRef.current.log('[useDevicChat] Setting shouldPoll to true');
+      setShouldPoll(true);
+    },
+    [
+      assistantId,
+      enabledTools,
+      resolvedTenantId,
+      resolvedTenantMetadata,
+      resolvedSubtenantId,
+      resolvedSubtenantMetadata,
+      resolvedTags,
+      toolSchemas,
+      collectApplicationState,
+      previousConversation,
+      onFileUpload,
+    ]
   );
 
   // Send a message
@@ -602,6 +1121,8 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
         tags?: string[];
       }
     ) => {
+      // Give the stream another chance after a transient failure
+      setStreamInterrupted(false);
       if (!clientRef.current) {
         const err = new Error(
           'API client not configured. Please provide an API key.'
@@ -637,135 +1158,172 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
       setMessages((prev) => [...prev, userMessage]);
       onMessageSent?.(userMessage);
 
+      const toOutboxEntry = (uploadedFiles?: ChatFile[]): OutboxEntry => ({
+        uid: userMessage.uid,
+        chatUid,
+        message,
+        uploadedFiles,
+        pendingFiles: uploadedFiles
+          ? undefined
+          : sendOptions?.files?.map((f) => ({
+              name: f.name,
+              type: f.type.split('/')[0] || 'other',
+            })),
+        metadata: sendOptions?.metadata,
+        transcriptId: sendOptions?.transcriptId,
+        tags: sendOptions?.tags,
+        createdAt: userMessage.timestamp,
+      });
+
+      // Queue instead of sending while offline, or behind messages already
+      // queued for this conversation so they are delivered in order
+      const queuedAhead = outboxRef.current.entries.some(
+        (e) => (e.chatUid ?? null) === chatUid
+      );
+      if (offlineQueue && (!outboxRef.current.isOnline || queuedAhead)) {
+        queueMessage(toOutboxEntry(), sendOptions?.files);
+        return;
+      }
+
+      const progress: { uploadedFiles?: ChatFile[] } = {};
       try {
-        // Upload files if provided
-        let uploadedFiles: ChatFile[] | undefined;
-        if (sendOptions?.files && sendOptions.files.length > 0) {
-          logRef.current.log('[useDevicChat] Uploading files...');
-          if (onFileUpload) {
-            // Use custom upload handler
-            uploadedFiles = await onFileUpload(sendOptions.files);
-          } else {
-            // Default: upload via Devic API
-            const uploadResults = await Promise.all(
-              sendOptions.files.map((file) => clientRef.current!.uploadFile(file))
-            );
-            uploadedFiles = uploadResults.map((r) => ({
-              name: r.name,
-              downloadUrl: r.downloadUrl,
-              fileType: r.fileType as ChatFile['fileType'],
-            }));
-          }
-          logRef.current.log('[useDevicChat] Files uploaded:', uploadedFiles);
-
-          // Update optimistic message with download URLs
-          setMessages((prev) =>
-            prev.map((m) =>
-              m.uid === userMessage.uid
-                ? {
-                    ...m,
-                    content: {
-                      ...m.content,
-                      files: uploadedFiles!.map((f) => ({
-                        name: f.name,
-                        url: f.downloadUrl || '',
-                        type: f.fileType || 'other',
-                      })),
-                    },
-                  }
-                : m
-            )
+        await deliverMessage(userMessage.uid, message, chatUid, sendOptions ?? {}, progress);
+      } catch (err) {
+        if (offlineQueue && isConnectivityError(err)) {
+          queueMessage(
+            toOutboxEntry(progress.uploadedFiles),
+            progress.uploadedFiles ? undefined : sendOptions?.files
           );
+          return;
         }
+        handleSendError(err, userMessage.uid);
+      }
+    },
+    [chatUid, offlineQueue, onMessageSent, deliverMessage, queueMessage, handleSendError]
+  );
 
-        // Build request DTO
-        const hasSubtenantMetadata =
-          resolvedSubtenantMetadata &&
-          Object.keys(resolvedSubtenantMetadata).length > 0;
-        const dto = {
-          message,
-          chatUid: chatUid || undefined,
-          files: uploadedFiles,
-          metadata: {
-            ...resolvedTenantMetadata,
-            ...(hasSubtenantMetadata && {
-              subtenantMetadata: resolvedSubtenantMetadata,
-            }),
-            ...sendOptions?.metadata,
-          },
-          tenantId: resolvedTenantId,
-          ...(resolvedSubtenantId && { subtenantId: resolvedSubtenantId }),
-          // Conversation tags: provider + hook + per-message, deduped
-          ...(() => {
-            const merged = Array.from(
-              new Set([...resolvedTags, ...(sendOptions?.tags ?? [])])
-            );
-            return merged.length > 0 ? { tags: merged } : {};
-          })(),
-          enabledTools,
-          // Include model interface tools if any
-          ...(toolSchemas.length > 0 && { tools: toolSchemas }),
-          // Link to the speech-to-text transcript that seeded this message, if any
-          ...(sendOptions?.transcriptId && { transcriptId: sendOptions.transcriptId }),
-        };
+  // Flush the outbox: send the oldest queued message of the current
+  // conversation whenever online and idle. Each flush starts a turn, so the
+  // next message goes out once the assistant has answered.
+  useEffect(() => {
+    if (!offlineQueue || !outbox.isOnline || outboxPaused) return;
+    if (isLoading || handedOff || pendingWidgetCalls.length > 0 || pendingConfirmations.length > 0) return;
+    if (flushingRef.current || !clientRef.current) return;
 
-        // Send message in async mode
-        logRef.current.log('[useDevicChat] Sending message async...');
-        const response = await clientRef.current.sendMessageAsync(assistantId, dto);
-        logRef.current.log('[useDevicChat] sendMessageAsync response:', response);
+    const entry = outbox.entries.find((e) => (e.chatUid ?? null) === chatUid);
+    if (!entry) return;
 
-        // Update chat UID if this is a new chat
-        if (response.chatUid && response.chatUid !== chatUid) {
-          logRef.current.log('[useDevicChat] Setting chatUid:', response.chatUid);
-          setChatUid(response.chatUid);
-          onChatCreatedRef.current?.(response.chatUid);
-        }
+    flushingRef.current = true;
 
-        // Start polling for results
-        logRef.current.log('[useDevicChat] Setting shouldPoll to true');
-        setShouldPoll(true);
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error(String(err));
+    const flush = async () => {
+      if (hasDeliveredCopy(entry, messagesRef.current)) {
+        logRef.current.log('[useDevicChat] Outbox entry already delivered:', entry.uid);
+        outbox.remove(entry.uid);
+        return;
+      }
 
-        // A synchronous usage-limit block surfaces as HTTP 429 /
-        // TENANT_LIMIT_EXCEEDED (sync send path). Async sends surface it via the
-        // realtime `limit_exceeded` status instead — both are handled.
-        if (
-          err instanceof DevicApiError &&
-          (err.statusCode === 429 || err.errorType === 'TENANT_LIMIT_EXCEEDED')
-        ) {
-          const details: TenantLimitExceeded =
-            (err.details as TenantLimitExceeded) || { message: err.message };
-          if (!details.message) details.message = err.message;
-          setLimitExceeded(details);
-        }
+      const files = outbox.getFiles(entry.uid);
+      if (entry.pendingFiles?.length && !files) {
+        logRef.current.warn(
+          '[useDevicChat] Attachments of a queued message were lost on reload:',
+          entry.pendingFiles.map((f) => f.name)
+        );
+      }
 
-        setError(error);
-        setIsLoading(false);
-        setStatus('error');
-        onErrorRef.current?.(error);
+      logRef.current.log('[useDevicChat] Flushing outbox entry:', entry.uid);
+      outbox.remove(entry.uid);
+      setMessages((prev) => [...prev, outboxEntryToMessage(entry, false)]);
+      setIsLoading(true);
+      setError(null);
+      setLimitExceeded(null);
+      setStatus('processing');
 
-        // Remove optimistic user message on error
-        setMessages((prev) => prev.filter((m) => m.uid !== userMessage.uid));
+      const progress: { uploadedFiles?: ChatFile[] } = {};
+      try {
+        await deliverMessage(
+          entry.uid,
+          entry.message,
+          entry.chatUid ?? chatUidRef.current,
+          {
+            files,
+            uploadedFiles: entry.uploadedFiles,
+            metadata: entry.metadata,
+            transcriptId: entry.transcriptId,
+            tags: entry.tags,
+          },
+          progress
+        );
+      } catch (err) {
+        if (isConnectivityError(err)) {
+          logRef.current.warn('[useDevicChat] Outbox flush failed, will retry:', err);
+          const uploadedFiles = progress.uploadedFiles ?? entry.uploadedFiles;
+          queueMessage(
+            {
+              ...entry,
+              uploadedFiles,
+              pendingFiles: progress.uploadedFiles ? undefined : entry.pendingFiles,
+            },
+            progress.uploadedFiles ? undefined : files
+          );
+          setOutboxPaused(true);
+          return;
+        }
+        handleSendError(err, entry.uid);
       }
-    },
-    [
-      chatUid,
-      assistantId,
-      enabledTools,
-      resolvedTenantId,
-      resolvedTenantMetadata,
-      resolvedSubtenantId,
-      resolvedSubtenantMetadata,
-      resolvedTags,
-      toolSchemas,
-      onMessageSent,
-      onFileUpload,
-    ]
+    };
+
+    flush().finally(() => {
+      flushingRef.current = false;
+    });
+  }, [
+    offlineQueue,
+    outbox,
+    outboxPaused,
+    isLoading,
+    handedOff,
+    pendingWidgetCalls.length,
+    pendingConfirmations.length,
+    chatUid,
+    deliverMessage,
+    queueMessage,
+    handleSendError,
+  ]);
+
+  // After a failed flush, retry when the browser comes back online or after
+  // a delay if it never reported going offline
+  useEffect(() => {
+    if (!outboxPaused) return;
+    if (!outbox.isOnline) {
+      setOutboxPaused(false);
+      return;
+    }
+    const timer = setTimeout(() => setOutboxPaused(false), OUTBOX_RETRY_MS);
+    return () => clearTimeout(timer);
+  }, [outboxPaused, outbox.isOnline]);
+
+  // Drop a queued message without sending it
+  const discardPendingMessage = useCallback((uid: string) => {
+    outboxRef.current.remove(uid);
+  }, []);
+
+  // Queued messages of the current conversation, shown after the loaded ones
+  const pendingMessages = useMemo(
+    () =>
+      outbox.entries
+        .filter((e) => (e.chatUid ?? null) === chatUid)
+        .map((e) => outboxEntryToMessage(e, true)),
+    [outbox.entries, chatUid]
   );
 
+  const visibleMessages = useMemo(() => {
+    if (pendingMessages.length === 0) return messages;
+    const uids = new Set(messages.map((m) => m.uid));
+    return [...messages, ...pendingMessages.filter((m) => !uids.has(m.uid))];
+  }, [messages, pendingMessages]);
+
   // Clear chat
   const clearChat = useCallback(() => {
+    cancelToolCalls();
     setShouldPoll(false);
     setHandedOff(false);
     setHandedOffSubThreadId(null);
@@ -781,11 +1339,15 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     setLimitExceeded(null);
     pendingWidgetCallsRef.current = [];
     setPendingWidgetCalls([]);
-  }, []);
+    updatePendingConfirmations([]);
+    draftForkPrefixRef.current = null;
+    branches.reset();
+  }, [branches.reset, updatePendingConfirmations, cancelToolCalls]);
 
   // Load existing chat
   const loadChat = useCallback(
     async (loadChatUid: string) => {
+      setStreamInterrupted(false);
       if (!clientRef.current) {
         const err = new Error('API client not configured');
         setError(err);
@@ -794,11 +1356,15 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
       }
 
       // Reset any active polling/handoff state from previous conversation
+      cancelToolCalls();
+      draftForkPrefixRef.current = null;
+      branches.reset();
       setShouldPoll(false);
       setHandedOff(false);
       setHandedOffSubThreadId(null);
       pendingWidgetCallsRef.current = [];
     setPendingWidgetCalls([]);
+      updatePendingConfirmations([]);
       if (handoffPollRef.current) {
         clearInterval(handoffPollRef.current);
         handoffPollRef.current = null;
@@ -814,7 +1380,7 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
           { tenantId: resolvedTenantId }
         );
 
-        setMessages(history.chatContent);
+        setMessages(withForkPrefix(getForkPrefix(loadChatUid), history.chatContent));
         setChatUid(loadChatUid);
 
         // Check realtime status to resume in-progress conversations
@@ -826,7 +1392,7 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
         setIsLoading(false);
       }
     },
-    [assistantId, resolvedTenantId, resumeFromRealtimeStatus]
+    [assistantId, resolvedTenantId, resumeFromRealtimeStatus, getForkPrefix, branches.reset, updatePendingConfirmations, cancelToolCalls]
   );
 
   // Handoff polling: while handedOff is true, poll the realtime endpoint every 5s
@@ -896,8 +1462,8 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
         await clientRef.current.sendToolResponses(assistantId, uid, [
           { tool_call_id: toolCallId, content: response, role: 'tool' },
         ]);
-        // Resume polling only if no more widget calls are blocking
-        if (remaining.length === 0) {
+        // Resume polling only if no more widget calls or confirmations are blocking
+        if (remaining.length === 0 && pendingConfirmationsRef.current.length === 0) {
           setShouldPoll(true);
           setIsLoading(true);
         }
@@ -921,11 +1487,80 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     [submitWidgetResponse]
   );
 
+  // Answer pending confirmations and resume once nothing else is blocking
+  const respondToConfirmations = useCallback(
+    async (
+      toolCallIds: string[],
+      respond: (call: PendingConfirmationCall) => Promise<ToolCallResponse> | ToolCallResponse
+    ) => {
+      const uid = chatUidRef.current;
+      if (!clientRef.current || !uid) return;
+
+      const current = pendingConfirmationsRef.current;
+      const answered = current.filter((c) => toolCallIds.includes(c.toolCall.id));
+      if (answered.length === 0) return;
+      const remaining = current.filter((c) => !toolCallIds.includes(c.toolCall.id));
+      updatePendingConfirmations(remaining);
+
+      const run = toolRunRef.current;
+      try {
+        const responses = await Promise.all(answered.map((call) => respond(call)));
+        logRef.current.log('[useDevicChat] sending confirmation tool responses', toolCallIds);
+        await clientRef.current.sendToolResponses(assistantId, uid, responses);
+        if (
+          run === toolRunRef.current &&
+          pendingConfirmationsRef.current.length === 0 &&
+          pendingWidgetCallsRef.current.length === 0
+        ) {
+          setShouldPoll(true);
+          setIsLoading(true);
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        logRef.current.error('[useDevicChat] confirmation response failed', error);
+        setError(error);
+        onErrorRef.current?.(error);
+      }
+    },
+    [assistantId, updatePendingConfirmations]
+  );
+
+  const approveToolCall = useCallback(
+    async (toolCallId: string, approveOptions?: { alwaysAllow?: boolean }) => {
+      const call = pendingConfirmationsRef.current.find((c) => c.toolCall.id === toolCallId);
+      if (!call) return;
+      let ids = [toolCallId];
+      if (approveOptions?.alwaysAllow) {
+        allowToolForSession(call.toolName);
+        ids = pendingConfirmationsRef.current
+          .filter((c) => c.toolName === call.toolName)
+          .map((c) => c.toolCall.id);
+      }
+      await respondToConfirmations(ids, executeConfirmedCall);
+    },
+    [allowToolForSession, executeConfirmedCall, respondToConfirmations]
+  );
+
+  const denyToolCall = useCallback(
+    async (toolCallId: string, reason?: string) => {
+      await respondToConfirmations([toolCallId], (call) => ({
+        tool_call_id: call.toolCall.id,
+        content: {
+          error: 'The user denied this tool call',
+          ...(reason ? { reason } : {}),
+        },
+        role: 'tool',
+      }));
+    },
+    [respondToConfirmations]
+  );
+
   // Stop current conversation — calls the server-side stop endpoint
   // then stops polling and resets loading state.
   const stopChat = useCallback(async () => {
     const uid = chatUidRef.current;
     logRef.current.log('[useDevicChat] stopChat called, chatUid:', uid);
+    cancelToolCalls();
     if (clientRef.current && uid) {
       try {
         await clientRef.current.stopChat(assistantId, uid);
@@ -937,10 +1572,149 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     setShouldPoll(false);
     setIsLoading(false);
     setStatus('idle');
-  }, [assistantId]);
+  }, [assistantId, cancelToolCalls]);
+
+  // Fork the conversation at `position` (a user message) and send `message`
+  // as its new version. Earlier turns seed a new conversation.
+  const forkAndSend = useCallback(
+    async (
+      position: number,
+      kind: 'edit' | 'regenerate',
+      message: string,
+      files?: ChatMessage['content']['files']
+    ) => {
+      if (!clientRef.current) {
+        const err = new Error(
+          'API client not configured. Please provide an API key.'
+        );
+        setError(err);
+        onErrorRef.current?.(err);
+        return;
+      }
+
+      const current = messagesRef.current;
+      const seeded = current.slice(0, position);
+      logRef.current.log('[useDevicChat] Forking conversation at message', position);
+      branches.fork(current, chatUidRef.current, position, kind);
+
+      // Leave the current conversation without notifying the server
+      cancelToolCalls();
+      setShouldPoll(false);
+      setHandedOff(false);
+      setHandedOffSubThreadId(null);
+      pendingWidgetCallsRef.current = [];
+      setPendingWidgetCalls([]);
+      updatePendingConfirmations([]);
+      draftForkPrefixRef.current = seeded;
+      setChatUid(null);
+
+      const userMessage: ChatMessage = {
+        uid: `temp-${Date.now()}`,
+        role: 'user',
+        content: { message, ...(files?.length && { files }) },
+        timestamp: Date.now(),
+      };
+      setMessages([...seeded, userMessage]);
+      setIsLoading(true);
+      setError(null);
+      setLimitExceeded(null);
+      setStatus('processing');
+      onMessageSent?.(userMessage);
+
+      try {
+        await deliverMessage(
+          userMessage.uid,
+          message,
+          null,
+          {
+            // Files were uploaded with the original message
+            uploadedFiles: files?.map((f) => ({
+              name: f.name,
+              downloadUrl: f.url,
+              fileType: f.type as ChatFile['fileType'],
+            })),
+            previousConversation: toPreviousConversation(seeded),
+          },
+          {}
+        );
+      } catch (err) {
+        handleSendError(err, userMessage.uid);
+      }
+    },
+    [branches.fork, onMessageSent, deliverMessage, handleSendError, cancelToolCalls]
+  );
+
+  const editMessage = useCallback(
+    async (uid: string, message: string) => {
+      const position = messagesRef.current.findIndex(
+        (m) => m.uid === uid && m.role === 'user'
+      );
+      if (position < 0 || isLoading || !message.trim()) return;
+      await forkAndSend(position, 'edit', message, messagesRef.current[position].content?.files);
+    },
+    [forkAndSend, isLoading]
+  );
+
+  const regenerateMessage = useCallback(
+    async (uid: string) => {
+      const current = messagesRef.current;
+      const index = current.findIndex((m) => m.uid === uid && m.role === 'assistant');
+      if (index < 0 || isLoading) return;
+
+      let position = index - 1;
+      while (position >= 0 && current[position].role !== 'user') position--;
+      if (position < 0) return;
+
+      const prompt = current[position];
+      await forkAndSend(position, 'regenerate', prompt.content?.message ?? '', prompt.content?.files);
+    },
+    [forkAndSend, isLoading]
+  );
+
+  // Alternatives of the shown messages, keyed by the message carrying the
+  // navigator
+  const branchInfo = useMemo(() => {
+    const info: Record<string, MessageBranchInfo & { groupId: string }> = {};
+    branches.visibleGroups(messages).forEach((group) => {
+      const target = getBranchTargetMessage(group, messages);
+      if (target) {
+        info[target.uid] = {
+          index: group.active,
+          count: group.variants.length,
+          groupId: group.id,
+        };
+      }
+    });
+    return info;
+  }, [branches.groups, branches.visibleGroups, messages]);
+
+  const selectBranch = useCallback(
+    (uid: string, index: number) => {
+      const info = branchInfo[uid];
+      if (!info || isLoading) return;
+
+      const variant = branches.select(
+        messagesRef.current,
+        chatUidRef.current,
+        info.groupId,
+        index
+      );
+      if (!variant) return;
+
+      logRef.current.log('[useDevicChat] Switching to branch', index, variant.chatUid);
+      setShouldPoll(false);
+      setError(null);
+      setLimitExceeded(null);
+      setStatus('idle');
+      draftForkPrefixRef.current = null;
+      setChatUid(variant.chatUid);
+      setMessages(variant.messages);
+    },
+    [branchInfo, branches.select, isLoading]
+  );
 
   return {
-    messages,
+    messages: visibleMessages,
     chatUid,
     isLoading,
     status,
@@ -948,7 +1722,14 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     limitExceeded,
     handedOff,
     handedOffSubThreadId,
+    isOnline: outbox.isOnline,
+    pendingCount: pendingMessages.length,
+    discardPendingMessage,
     sendMessage,
+    editMessage,
+    regenerateMessage,
+    branches: branchInfo,
+    selectBranch,
     clearChat,
     loadChat,
     onHandoffCompleted,
@@ -956,5 +1737,8 @@ export function useDevicChat(options: UseDevicChatOptions): UseDevicChatResult {
     pendingWidgetCalls,
     submitWidgetResponse,
     cancelWidgetCall,
+    pendingConfirmations,
+    approveToolCall,
+    denyToolCall,
   };
 }
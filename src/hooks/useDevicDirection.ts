@@ -0,0 +1,20 @@
+import { useOptionalDevicContext } from '../provider';
+import { resolveDirection } from '../i18n';
+import type { DevicDirection, DevicDirectionOption } from '../i18n';
+
+/**
+ * Writing direction for a component. An explicit `'ltr'`/`'rtl'` wins;
+ * otherwise the nearest DevicProvider's direction is used and, outside a
+ * provider, the document `dir`.
+ *
+ * @example
+ * ```tsx
+ * const direction = useDevicDirection(options.direction);
+ * return <div dir={direction}>...</div>;
+ * ```
+ */
+export function useDevicDirection(direction?: DevicDirectionOption): DevicDirection {
+  const context = useOptionalDevicContext();
+  if (direction && direction !== 'auto') return direction;
+  return context?.direction ?? resolveDirection('auto');
+}
@@ -0,0 +1,17 @@
+import { useOptionalDevicContext } from '../provider';
+import { defaultI18n } from '../i18n';
+import type { DevicI18n } from '../i18n';
+
+/**
+ * Translator and formatters of the nearest DevicProvider (its `locale` and
+ * `messages`). Falls back to English outside a provider.
+ *
+ * @example
+ * ```tsx
+ * const { t, formatDate } = useDevicI18n();
+ * return <span title={formatDate(createdAt)}>{t('chat.pending')}</span>;
+ * ```
+ */
+export function useDevicI18n(): DevicI18n {
+  return useOptionalDevicContext()?.i18n ?? defaultI18n;
+}
@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { useOptionalDevicContext } from '../provider';
+import { resolveShadowDom, useShadowRootContext } from '../shadow';
+import type { DevicShadowDomOption, DevicShadowDomOptions } from '../shadow';
+
+/**
+ * Shadow DOM settings for a component: the nearest DevicProvider's
+ * `shadowDom` with the component's own option applied on top. Returns null
+ * when the component should render in the light DOM, including when it is
+ * already inside an isolated component's shadow root.
+ *
+ * @example
+ * ```tsx
+ * const shadowDom = useDevicShadowDom(options.shadowDom);
+ * return shadowDom ? <DevicShadowRoot options={shadowDom}>{content}</DevicShadowRoot> : content;
+ * ```
+ */
+export function useDevicShadowDom(shadowDom?: DevicShadowDomOption): DevicShadowDomOptions | null {
+  const context = useOptionalDevicContext();
+  const shadowRoot = useShadowRootContext();
+  const parent = context?.shadowDom ?? null;
+  // Compare by value so inline settings do not re-create the root's styles
+  const optionKey = shadowDom === undefined ? '' : JSON.stringify(shadowDom);
+
+  return useMemo(
+    () => (shadowRoot ? null : resolveShadowDom(shadowDom, parent)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [optionKey, parent, shadowRoot]
+  );
+}
@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { useOptionalDevicContext } from '../provider';
+import { resolveTheme, themeFollowsSystem } from '../theme';
+import type { DevicTheme, DevicThemeOption } from '../theme';
+import { useSystemTheme } from './useSystemTheme';
+
+/**
+ * Theme for a component: the nearest DevicProvider's theme with the
+ * component's own `theme` option applied on top. Returns null when neither
+ * sets one, so the components keep their stylesheet defaults.
+ *
+ * @example
+ * ```tsx
+ * const theme = useDevicTheme(options.theme);
+ * const background = theme?.colors.background;
+ * ```
+ */
+export function useDevicTheme(theme?: DevicThemeOption): DevicTheme | null {
+  const context = useOptionalDevicContext();
+  const parent = context?.theme ?? null;
+  const systemTheme = useSystemTheme(themeFollowsSystem(theme));
+  // Compare by value so an inline theme object does not re-theme every render
+  const themeKey = theme ? JSON.stringify(theme) : '';
+
+  return useMemo(
+    () => (theme ? resolveTheme(theme, systemTheme, parent) : parent),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [themeKey, systemTheme, parent]
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+import { getFocusableElements, trapTabKey } from '../utils/a11y';
+import { getActiveElement, getEventTarget } from '../shadow';
+
+const TRAP_ATTRIBUTE = 'data-devic-focus-trap';
+
+/**
+ * Options for useFocusTrap
+ */
+export interface UseFocusTrapOptions {
+  /**
+   * Element (or selector inside the container) to focus when the trap
+   * activates. Defaults to the first focusable element, or the container.
+   */
+  initialFocus?: React.RefObject<HTMLElement> | string;
+
+  /**
+   * Return focus to the previously focused element on deactivation
+   * @default true
+   */
+  restoreFocus?: boolean;
+
+  /**
+   * Called when Escape is pressed inside the container
+   */
+  onEscape?: () => void;
+}
+
+/**
+ * Trap keyboard focus inside a container while `active` (dialogs, drawers).
+ * Moves focus in on activation, cycles Tab / Shift+Tab, and restores focus
+ * to the element that had it before once deactivated.
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLDivElement>(null);
+ * useFocusTrap(ref, isOpen, { onEscape: close });
+ * return <div ref={ref} role="dialog" aria-modal="true" tabIndex={-1}>...</div>;
+ * ```
+ */
+export function useFocusTrap(
+  containerRef: React.RefObject<HTMLElement>,
+  active: boolean,
+  options: UseFocusTrapOptions = {}
+): void {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+
+    const previouslyFocused = getActiveElement(container) as HTMLElement | null;
+
+    // Wait a frame so the container is visible (drawer transitions, portals)
+    const frame = requestAnimationFrame(() => {
+      if (container.contains(getActiveElement(container))) return;
+      const { initialFocus } = optionsRef.current;
+      const initial =
+        typeof initialFocus === 'string'
+          ? container.querySelector<HTMLElement>(initialFocus)
+          : initialFocus?.current;
+      (initial ?? getFocusableElements(container)[0] ?? container).focus();
+    });
+
+    // Listen on the document so React handlers inside the container run
+    // first (and can preventDefault); only the innermost trap reacts. The
+    // composed path finds the real target inside shadow roots.
+    container.setAttribute(TRAP_ATTRIBUTE, '');
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = getEventTarget(e);
+      if (target?.closest(`[${TRAP_ATTRIBUTE}]`) !== container) return;
+      if (e.key === 'Escape' && optionsRef.current.onEscape && !e.defaultPrevented) {
+        e.preventDefault();
+        optionsRef.current.onEscape();
+        return;
+      }
+      trapTabKey(e, container);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeAttribute(TRAP_ATTRIBUTE);
+      document.removeEventListener('keydown', handleKeyDown);
+      if (optionsRef.current.restoreFocus !== false && previouslyFocused?.isConnected) {
+        previouslyFocused.focus();
+      }
+    };
+  }, [active, containerRef]);
+}
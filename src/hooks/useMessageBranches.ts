@@ -0,0 +1,215 @@
+import { useState, useCallback, useRef, useMemo } from 'react';
+import type { ChatMessage } from '../api/types';
+
+/**
+ * One alternative continuation of a conversation from a fork point
+ */
+export interface MessageBranchVariant {
+  /**
+   * Conversation holding this variant (`null` until the server assigns one)
+   */
+  chatUid: string | null;
+
+  /**
+   * Full message list of the variant, captured when switching away from it
+   */
+  messages: ChatMessage[];
+}
+
+/**
+ * Alternatives created by editing or regenerating from the same point
+ */
+export interface MessageBranchGroup {
+  id: string;
+
+  /**
+   * Index of the first message that differs between variants (the user
+   * message that was edited or resent)
+   */
+  position: number;
+
+  /**
+   * Uid of the last message shared by all variants (`null` when forking
+   * from the first message)
+   */
+  anchorUid: string | null;
+
+  /**
+   * `'edit'` when any variant changed the user message, so the navigator
+   * belongs on the user bubble; `'regenerate'` when only the reply differs
+   */
+  kind: 'edit' | 'regenerate';
+
+  variants: MessageBranchVariant[];
+
+  /**
+   * Index of the variant currently shown
+   */
+  active: number;
+}
+
+/**
+ * Position of a message among its alternatives
+ */
+export interface MessageBranchInfo {
+  /**
+   * Zero-based index of the variant shown
+   */
+  index: number;
+
+  /**
+   * Number of variants
+   */
+  count: number;
+}
+
+export interface UseMessageBranchesResult {
+  /**
+   * Known fork points, oldest first
+   */
+  groups: MessageBranchGroup[];
+
+  /**
+   * Record a fork at `position` of the current conversation. The current
+   * state becomes the active variant's snapshot and a new, empty variant is
+   * made active.
+   */
+  fork: (
+    messages: ChatMessage[],
+    chatUid: string | null,
+    position: number,
+    kind: MessageBranchGroup['kind']
+  ) => void;
+
+  /**
+   * Switch a group to another variant. Snapshots the current state into the
+   * active variant and returns the variant to show, or `null` if nothing
+   * changes.
+   */
+  select: (
+    messages: ChatMessage[],
+    chatUid: string | null,
+    groupId: string,
+    index: number
+  ) => MessageBranchVariant | null;
+
+  /**
+   * Groups whose fork point is part of the given message list
+   */
+  visibleGroups: (messages: ChatMessage[]) => MessageBranchGroup[];
+
+  /**
+   * Forget all fork points (e.g. another conversation was opened)
+   */
+  reset: () => void;
+}
+
+function anchorMatches(group: MessageBranchGroup, messages: ChatMessage[]): boolean {
+  if (messages.length <= group.position) return false;
+  return group.position === 0
+    ? group.anchorUid === null
+    : messages[group.position - 1]?.uid === group.anchorUid;
+}
+
+/**
+ * Message a group's navigator is shown on: the forked user message for
+ * edits, otherwise the first assistant reply after it
+ */
+export function getBranchTargetMessage(
+  group: MessageBranchGroup,
+  messages: ChatMessage[]
+): ChatMessage | undefined {
+  if (group.kind === 'edit') return messages[group.position];
+  return messages
+    .slice(group.position + 1)
+    .find((m) => m.role === 'assistant' && !!m.content?.message);
+}
+
+/**
+ * Client-side tree of conversation forks created by editing a user message
+ * or regenerating a reply. Each variant lives in its own server conversation;
+ * this only tracks which variants exist and which one is shown.
+ */
+export function useMessageBranches(): UseMessageBranchesResult {
+  const [groups, setGroups] = useState<MessageBranchGroup[]>([]);
+  const groupsRef = useRef(groups);
+  groupsRef.current = groups;
+
+  const commit = useCallback((next: MessageBranchGroup[]) => {
+    groupsRef.current = next;
+    setGroups(next);
+  }, []);
+
+  const fork = useCallback(
+    (
+      messages: ChatMessage[],
+      chatUid: string | null,
+      position: number,
+      kind: MessageBranchGroup['kind']
+    ) => {
+      const anchorUid = position > 0 ? messages[position - 1].uid : null;
+      const snapshot: MessageBranchVariant = { chatUid, messages };
+      const existing = groupsRef.current.find(
+        (g) => g.position === position && g.anchorUid === anchorUid
+      );
+
+      if (existing) {
+        commit(
+          groupsRef.current.map((g) => {
+            if (g !== existing) return g;
+            const variants = g.variants.map((v, i) => (i === g.active ? snapshot : v));
+            variants.push({ chatUid: null, messages: [] });
+            return {
+              ...g,
+              kind: kind === 'edit' ? 'edit' : g.kind,
+              variants,
+              active: variants.length - 1,
+            };
+          })
+        );
+        return;
+      }
+
+      commit([
+        ...groupsRef.current,
+        {
+          id: `branch-${Date.now()}-${groupsRef.current.length}`,
+          position,
+          anchorUid,
+          kind,
+          variants: [snapshot, { chatUid: null, messages: [] }],
+          active: 1,
+        },
+      ]);
+    },
+    [commit]
+  );
+
+  const select = useCallback(
+    (messages: ChatMessage[], chatUid: string | null, groupId: string, index: number) => {
+      const group = groupsRef.current.find((g) => g.id === groupId);
+      if (!group || index === group.active || !group.variants[index]) return null;
+
+      const variants = group.variants.map((v, i) =>
+        i === group.active ? { chatUid, messages } : v
+      );
+      commit(
+        groupsRef.current.map((g) => (g === group ? { ...g, variants, active: index } : g))
+      );
+      return variants[index];
+    },
+    [commit]
+  );
+
+  const visibleGroups = useCallback(
+    (messages: ChatMessage[]) => groupsRef.current.filter((g) => anchorMatches(g, messages)),
+    []
+  );
+
+  const reset = useCallback(() => commit([]), [commit]);
+
+  return useMemo(
+    () => ({ groups, fork, select, visibleGroups, reset }),
+    [groups, fork, select, visibleGroups, reset]
+  );
+}
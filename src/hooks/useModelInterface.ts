@@ -1,4 +1,4 @@
-import { useCallback, useMemo } from 'react';
+import { useCallback, useMemo, useRef } from 'react';
 import type {
   ModelInterfaceTool,
   ModelInterfaceToolSchema,
@@ -6,7 +6,44 @@ import type {
   ToolCallResponse,
   ChatMessage,
   ResponseWidgetConfig,
+  ToolCallContext,
 } from '../api/types';
+import { parseToolArguments, ToolArgumentsError } from '../utils/toolSchema';
+
+/**
+ * Error a tool call fails with when it times out or is cancelled by
+ * stopChat / clearChat
+ */
+export class ToolCallAbortedError extends Error {
+  public toolName: string;
+  public reason: 'timeout' | 'cancelled';
+
+  constructor(toolName: string, reason: 'timeout' | 'cancelled', timeoutMs?: number) {
+    super(
+      reason === 'timeout'
+        ? `Tool "${toolName}" timed out after ${timeoutMs} ms`
+        : `Tool "${toolName}" was cancelled`
+    );
+    this.name = 'ToolCallAbortedError';
+    this.toolName = toolName;
+    this.reason = reason;
+  }
+}
+
+// Run jobs with at most `limit` in flight, keeping results in job order
+async function runConcurrently<T>(jobs: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(jobs.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const i = next++;
+      results[i] = await jobs[i]();
+    }
+  };
+  const workers = Math.min(Math.max(1, limit), jobs.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
 
 export interface PendingWidgetCall {
   toolCall: ToolCall;
@@ -15,11 +52,25 @@ export interface PendingWidgetCall {
   toolName: string;
 }
 
+/**
+ * A tool call waiting for the user to approve or deny it
+ * (see `ModelInterfaceTool.requiresConfirmation`)
+ */
+export interface PendingConfirmationCall {
+  toolCall: ToolCall;
+  params: any;
+  toolName: string;
+  /** The tool's schema description */
+  description?: string;
+}
+
 export interface HandleToolCallsResult {
   /** Responses ready to send back to the API (from callback-based tools) */
   responses: ToolCallResponse[];
   /** Tool calls that require user interaction via a response widget */
   widgetCalls: PendingWidgetCall[];
+  /** Tool calls whose callback waits for the user's approval */
+  confirmationCalls: PendingConfirmationCall[];
 }
 
 export interface UseModelInterfaceOptions {
@@ -28,6 +79,20 @@ export interface UseModelInterfaceOptions {
    */
   tools: ModelInterfaceTool[];
 
+  /**
+   * How many tool callbacks of one turn may run at the same time.
+   * `1` runs them one after another, in the order the model called them.
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Milliseconds a tool callback may run before it is aborted and answered
+   * with a timeout error (a tool's own `timeoutMs` takes precedence).
+   * No timeout when omitted.
+   */
+  toolTimeoutMs?: number;
+
   /**
    * Callback when a tool is being executed
    */
@@ -39,7 +104,9 @@ export interface UseModelInterfaceOptions {
   onToolComplete?: (toolName: string, result: any) => void;
 
   /**
-   * Callback when a tool execution fails
+   * Callback when a tool execution fails (a ToolArgumentsError when the
+   * model's arguments do not match the tool's schema, a ToolCallAbortedError
+   * on timeout or cancellation)
    */
   onToolError?: (toolName: string, error: Error) => void;
 }
@@ -67,11 +134,29 @@ export interface UseModelInterfaceResult {
 
   /**
    * Handle tool calls from the model.
+   * Arguments are validated against each tool's schema first; invalid calls
+   * are answered with the validation issues.
    * Callback-based tools are executed immediately and their responses returned.
    * Widget-based tools are returned as pending widget calls for user interaction.
    */
   handleToolCalls: (toolCalls: ToolCall[]) => Promise<HandleToolCallsResult>;
 
+  /**
+   * Run the callback of an approved confirmation call and build its response
+   */
+  executeConfirmedCall: (call: PendingConfirmationCall) => Promise<ToolCallResponse>;
+
+  /**
+   * Stop asking for confirmation of a tool while this hook is mounted
+   */
+  allowToolForSession: (toolName: string) => void;
+
+  /**
+   * Abort every running tool callback. Their calls are answered with a
+   * cancellation error.
+   */
+  abortToolCalls: () => void;
+
   /**
    * Process messages and extract pending tool calls that need client handling
    */
@@ -111,7 +196,14 @@ export interface UseModelInterfaceResult {
 export function useModelInterface(
   options: UseModelInterfaceOptions
 ): UseModelInterfaceResult {
-  const { tools, onToolExecute, onToolComplete, onToolError } = options;
+  const {
+    tools,
+    concurrency = 1,
+    toolTimeoutMs,
+    onToolExecute,
+    onToolComplete,
+    onToolError,
+  } = options;
 
   // Extract tool schemas for API
   const toolSchemas = useMemo(() => {
@@ -141,11 +233,113 @@ export function useModelInterface(
     [toolMap]
   );
 
+  // Tools the user chose to "always allow" for this session
+  const sessionAllowedRef = useRef(new Set<string>());
+
+  const allowToolForSession = useCallback((toolName: string) => {
+    sessionAllowedRef.current.add(toolName);
+  }, []);
+
+  const needsConfirmation = useCallback((tool: ModelInterfaceTool, params: any): boolean => {
+    const policy = tool.requiresConfirmation ?? 'never';
+    if (policy === 'never' || sessionAllowedRef.current.has(tool.toolName)) return false;
+    if (policy === 'always') return true;
+    try {
+      return policy(params);
+    } catch {
+      // Ask when the predicate itself fails
+      return true;
+    }
+  }, []);
+
+  // Abort functions of the running callbacks
+  const runningRef = useRef(new Set<(reason: 'timeout' | 'cancelled') => void>());
+
+  const abortToolCalls = useCallback(() => {
+    for (const abort of Array.from(runningRef.current)) abort('cancelled');
+  }, []);
+
+  // Run a tool's callback with its abort signal and timeout; failures,
+  // timeouts and cancellations become error responses
+  const runCallback = useCallback(
+    async (
+      tool: ModelInterfaceTool,
+      toolCall: ToolCall,
+      params: any
+    ): Promise<ToolCallResponse> => {
+      const controller = new AbortController();
+      const timeoutMs = tool.timeoutMs ?? toolTimeoutMs;
+      let abortError: ToolCallAbortedError | null = null;
+      let rejectStopped: (error: ToolCallAbortedError) => void = () => {};
+      // Settles when aborted, so a callback ignoring its signal cannot hang the turn
+      const stopped = new Promise<never>((_, reject) => {
+        rejectStopped = reject;
+      });
+      const abort = (reason: 'timeout' | 'cancelled') => {
+        if (abortError) return;
+        abortError = new ToolCallAbortedError(tool.toolName, reason, timeoutMs);
+        controller.abort();
+        rejectStopped(abortError);
+      };
+      runningRef.current.add(abort);
+      const timer = timeoutMs ? setTimeout(() => abort('timeout'), timeoutMs) : undefined;
+
+      try {
+        const context: ToolCallContext = { toolCall, signal: controller.signal };
+        const result = await Promise.race([
+          Promise.resolve().then(() => tool.callback!(params, context)),
+          stopped,
+        ]);
+        onToolComplete?.(tool.toolName, result);
+        return {
+          tool_call_id: toolCall.id,
+          content: result,
+          role: 'tool',
+        };
+      } catch (err) {
+        // A callback rejecting with its own AbortError reports the abort cause
+        const error = abortError ?? (err instanceof Error ? err : new Error(String(err)));
+        onToolError?.(tool.toolName, error);
+        return {
+          tool_call_id: toolCall.id,
+          content:
+            error instanceof ToolCallAbortedError
+              ? { error: error.message, reason: error.reason }
+              : { error: error.message },
+          role: 'tool',
+        };
+      } finally {
+        clearTimeout(timer);
+        runningRef.current.delete(abort);
+      }
+    },
+    [toolTimeoutMs, onToolComplete, onToolError]
+  );
+
+  const executeConfirmedCall = useCallback(
+    async (call: PendingConfirmationCall): Promise<ToolCallResponse> => {
+      const tool = toolMap.get(call.toolName);
+      if (!tool?.callback) {
+        return {
+          tool_call_id: call.toolCall.id,
+          content: { error: `Tool "${call.toolName}" is no longer available` },
+          role: 'tool',
+        };
+      }
+      onToolExecute?.(call.toolName, call.params);
+      return runCallback(tool, call.toolCall, call.params);
+    },
+    [toolMap, onToolExecute, runCallback]
+  );
+
   // Handle tool calls: execute callback tools, queue widget tools for user input
+  // and tools requiring confirmation for the user's approval
   const handleToolCalls = useCallback(
     async (toolCalls: ToolCall[]): Promise<HandleToolCallsResult> => {
       const responses: ToolCallResponse[] = [];
       const widgetCalls: PendingWidgetCall[] = [];
+      const confirmationCalls: PendingConfirmationCall[] = [];
+      const callbackJobs: Array<() => Promise<ToolCallResponse>> = [];
 
       for (const toolCall of toolCalls) {
         const toolName = toolCall.function.name;
@@ -153,11 +347,29 @@ export function useModelInterface(
 
         if (!tool) continue;
 
-        let params: any = {};
+        let params: any;
         try {
-          params = JSON.parse(toolCall.function.arguments || '{}');
-        } catch {
-          // Keep empty params if parsing fails
+          params = parseToolArguments(tool, toolCall.function.arguments);
+        } catch (err) {
+          // Answer with the issues so the model can correct the call
+          const error = err as ToolArgumentsError;
+          onToolError?.(toolName, error);
+          responses.push({
+            tool_call_id: toolCall.id,
+            content: error.toToolResponse(),
+            role: 'tool',
+          });
+          continue;
+        }
+
+        if (tool.callback && !tool.responseWidget && needsConfirmation(tool, params)) {
+          confirmationCalls.push({
+            toolCall,
+            params,
+            toolName,
+            description: tool.schema.function.description,
+          });
+          continue;
         }
 
         onToolExecute?.(toolName, params);
@@ -182,28 +394,14 @@ export function useModelInterface(
           continue;
         }
 
-        try {
-          const result = await tool.callback(params);
-          onToolComplete?.(toolName, result);
-          responses.push({
-            tool_call_id: toolCall.id,
-            content: result,
-            role: 'tool',
-          });
-        } catch (err) {
-          const error = err instanceof Error ? err : new Error(String(err));
-          onToolError?.(toolName, error);
-          responses.push({
-            tool_call_id: toolCall.id,
-            content: { error: error.message },
-            role: 'tool',
-          });
-        }
+        callbackJobs.push(() => runCallback(tool, toolCall, params));
       }
 
-      return { responses, widgetCalls };
+      responses.push(...(await runConcurrently(callbackJobs, concurrency)));
+
+      return { responses, widgetCalls, confirmationCalls };
     },
-    [toolMap, onToolExecute, onToolComplete, onToolError]
+    [toolMap, concurrency, onToolExecute, onToolError, needsConfirmation, runCallback]
   );
 
   // Extract pending tool calls from messages that need client handling
@@ -252,6 +450,9 @@ export function useModelInterface(
     hasResponseWidget,
     getTool,
     handleToolCalls,
+    executeConfirmedCall,
+    allowToolForSession,
+    abortToolCalls,
     extractPendingToolCalls,
   };
 }
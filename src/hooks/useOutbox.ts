@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { storage } from '../utils';
+import type { ChatFile } from '../api/types';
+
+/**
+ * A user message that could not be delivered and is waiting to be sent
+ */
+export interface OutboxEntry {
+  /**
+   * Uid of the optimistic message (`temp-…`), kept when the entry is
+   * flushed so the rendered bubble does not remount
+   */
+  uid: string;
+
+  /**
+   * Conversation the message belongs to (`null` for a new conversation)
+   */
+  chatUid: string | null;
+
+  /**
+   * Message text
+   */
+  message: string;
+
+  /**
+   * Files already uploaded before delivery failed
+   */
+  uploadedFiles?: ChatFile[];
+
+  /**
+   * Files not uploaded yet. The File objects themselves only live in memory,
+   * so these are lost if the page is reloaded before the entry is flushed.
+   */
+  pendingFiles?: { name: string; type: string }[];
+
+  /**
+   * Per-message metadata passed to sendMessage
+   */
+  metadata?: Record<string, any>;
+
+  /**
+   * Speech-to-text transcript that seeded the message
+   */
+  transcriptId?: string;
+
+  /**
+   * Per-message tags passed to sendMessage
+   */
+  tags?: string[];
+
+  /**
+   * When the user sent the message (epoch ms)
+   */
+  createdAt: number;
+}
+
+export interface UseOutboxOptions {
+  /**
+   * Whether the outbox is enabled. When disabled nothing is read from or
+   * written to storage.
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+export interface UseOutboxResult {
+  /**
+   * Queued entries, oldest first
+   */
+  entries: OutboxEntry[];
+
+  /**
+   * Whether the browser reports being online
+   */
+  isOnline: boolean;
+
+  /**
+   * Append an entry. Raw files are kept in memory until the entry is flushed.
+   */
+  enqueue: (entry: OutboxEntry, files?: File[]) => void;
+
+  /**
+   * Update queued entries in place
+   */
+  update: (fn: (entry: OutboxEntry) => OutboxEntry) => void;
+
+  /**
+   * Remove an entry by message uid
+   */
+  remove: (uid: string) => void;
+
+  /**
+   * In-memory raw files for an entry, if still available
+   */
+  getFiles: (uid: string) => File[] | undefined;
+}
+
+function readOnlineStatus(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Durable queue of undelivered chat messages, persisted to localStorage.
+ * Also tracks the browser's online status so the owner knows when to flush.
+ *
+ * @param storageKey - localStorage key for the queue
+ * @param options - Outbox options
+ */
+export function useOutbox(
+  storageKey: string,
+  options: UseOutboxOptions = {}
+): UseOutboxResult {
+  const { enabled = true } = options;
+
+  const [entries, setEntries] = useState<OutboxEntry[]>(() =>
+    enabled ? storage.get<OutboxEntry[]>(storageKey, []) ?? [] : []
+  );
+  const [isOnline, setIsOnline] = useState(readOnlineStatus);
+  const filesRef = useRef<Map<string, File[]>>(new Map());
+
+  // Reload when the key changes (e.g. a different assistant)
+  const loadedKeyRef = useRef(storageKey);
+  useEffect(() => {
+    if (loadedKeyRef.current === storageKey) return;
+    loadedKeyRef.current = storageKey;
+    filesRef.current.clear();
+    setEntries(enabled ? storage.get<OutboxEntry[]>(storageKey, []) ?? [] : []);
+  }, [storageKey, enabled]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const persist = useCallback(
+    (fn: (prev: OutboxEntry[]) => OutboxEntry[]) => {
+      setEntries((prev) => {
+        const next = fn(prev);
+        if (enabled) {
+          if (next.length > 0) {
+            storage.set(storageKey, next);
+          } else {
+            storage.remove(storageKey);
+          }
+        }
+        return next;
+      });
+    },
+    [storageKey, enabled]
+  );
+
+  const enqueue = useCallback(
+    (entry: OutboxEntry, files?: File[]) => {
+      if (files?.length) filesRef.current.set(entry.uid, files);
+      persist((prev) => [...prev.filter((e) => e.uid !== entry.uid), entry]);
+    },
+    [persist]
+  );
+
+  const update = useCallback(
+    (fn: (entry: OutboxEntry) => OutboxEntry) => {
+      persist((prev) => prev.map(fn));
+    },
+    [persist]
+  );
+
+  const remove = useCallback(
+    (uid: string) => {
+      filesRef.current.delete(uid);
+      persist((prev) => prev.filter((e) => e.uid !== uid));
+    },
+    [persist]
+  );
+
+  const getFiles = useCallback((uid: string) => filesRef.current.get(uid), []);
+
+  return {
+    entries,
+    isOnline,
+    enqueue,
+    update,
+    remove,
+    getFiles,
+  };
+}
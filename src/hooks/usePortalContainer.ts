@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { acquireShadowLayer, useShadowRootContext } from '../shadow';
+import type { DevicShadowDomOption } from '../shadow';
+import { useDevicShadowDom } from './useDevicShadowDom';
+
+/**
+ * Element a component's portals (tooltips, dropdowns, modals) render into:
+ * the enclosing shadow root when the component is inside one, a shared
+ * isolated layer when shadow DOM isolation is enabled for a light-DOM
+ * component, otherwise `document.body`. Null until the layer is ready and
+ * during SSR.
+ */
+export function usePortalContainer(shadowDom?: DevicShadowDomOption): HTMLElement | null {
+  const shadowRoot = useShadowRootContext();
+  const isolation = useDevicShadowDom(shadowDom);
+  const [layer, setLayer] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!isolation) return;
+    const { container, release } = acquireShadowLayer(isolation);
+    setLayer(container);
+    return () => {
+      release();
+      setLayer(null);
+    };
+  }, [isolation]);
+
+  if (shadowRoot) return shadowRoot.container;
+  if (isolation) return layer;
+  return typeof document !== 'undefined' ? document.body : null;
+}
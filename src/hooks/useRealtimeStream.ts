@@ -0,0 +1,238 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type {
+  RealtimeChatHistory,
+  RealtimeStatus,
+  RealtimeStreamEvent,
+} from '../api/types';
+import { createLogger } from '../utils/logger';
+
+export interface UseRealtimeStreamOptions {
+  /**
+   * Whether streaming is enabled
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Statuses that should close the stream
+   * @default ['completed', 'error']
+   */
+  stopStatuses?: RealtimeStatus[];
+
+  /**
+   * Callback when the stream stops on a stop status
+   */
+  onStop?: (data: RealtimeChatHistory | null) => void;
+
+  /**
+   * Callback on each stream update, with the accumulated realtime history
+   */
+  onUpdate?: (data: RealtimeChatHistory) => void;
+
+  /**
+   * Callback when the stream fails or ends before reaching a stop status
+   */
+  onError?: (error: Error) => void;
+
+  /**
+   * Enable debug logging
+   * @default false
+   */
+  debug?: boolean;
+}
+
+export interface UseRealtimeStreamResult {
+  /**
+   * Accumulated realtime history
+   */
+  data: RealtimeChatHistory | null;
+
+  /**
+   * Whether the stream is currently open
+   */
+  isStreaming: boolean;
+
+  /**
+   * Last error that occurred
+   */
+  error: Error | null;
+
+  /**
+   * Close the stream
+   */
+  stop: () => void;
+}
+
+/**
+ * Apply a stream event to the accumulated realtime history
+ */
+function applyRealtimeStreamEvent(
+  current: RealtimeChatHistory | null,
+  event: RealtimeStreamEvent,
+  chatUid: string
+): RealtimeChatHistory {
+  if (event.type === 'snapshot') {
+    return event.data;
+  }
+
+  const base: RealtimeChatHistory = current ?? {
+    chatUID: chatUid,
+    clientUID: '',
+    chatHistory: [],
+    status: 'processing',
+    lastUpdatedAt: Date.now(),
+  };
+
+  switch (event.type) {
+    case 'message': {
+      const exists = base.chatHistory.some((m) => m.uid === event.data.uid);
+      return {
+        ...base,
+        chatHistory: exists
+          ? base.chatHistory.map((m) => (m.uid === event.data.uid ? event.data : m))
+          : [...base.chatHistory, event.data],
+        lastUpdatedAt: Date.now(),
+      };
+    }
+    case 'token': {
+      const { uid, delta } = event.data;
+      const exists = base.chatHistory.some((m) => m.uid === uid);
+      const chatHistory = exists
+        ? base.chatHistory.map((m) =>
+            m.uid === uid
+              ? { ...m, content: { ...m.content, message: (m.content?.message ?? '') + delta } }
+              : m
+          )
+        : [
+            ...base.chatHistory,
+            {
+              uid,
+              role: 'assistant' as const,
+              content: { message: delta },
+              timestamp: Date.now(),
+            },
+          ];
+      return { ...base, chatHistory, lastUpdatedAt: Date.now() };
+    }
+    case 'status':
+      return { ...base, ...event.data, lastUpdatedAt: event.data.lastUpdatedAt ?? Date.now() };
+    default:
+      return base;
+  }
+}
+
+/**
+ * Hook for following real-time chat history over a server-sent-events stream.
+ * Mirrors usePolling's callbacks so both transports can share the same handlers.
+ *
+ * @param chatUid - The chat UID to stream
+ * @param streamFn - Function that opens the stream and forwards each event
+ * @param options - Stream options
+ */
+export function useRealtimeStream(
+  chatUid: string | null,
+  streamFn: (
+    onEvent: (event: RealtimeStreamEvent) => void,
+    signal: AbortSignal
+  ) => Promise<void>,
+  options: UseRealtimeStreamOptions = {}
+): UseRealtimeStreamResult {
+  const {
+    enabled = true,
+    stopStatuses = ['completed', 'error'],
+    onStop,
+    onUpdate,
+    onError,
+    debug = false,
+  } = options;
+
+  const log = useMemo(() => createLogger(debug), [debug]);
+  const logRef = useRef(log);
+  logRef.current = log;
+
+  const [data, setData] = useState<RealtimeChatHistory | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Refs for callbacks and options to avoid stale closures and unnecessary re-renders
+  const onStopRef = useRef(onStop);
+  const onUpdateRef = useRef(onUpdate);
+  const onErrorRef = useRef(onError);
+  const streamFnRef = useRef(streamFn);
+  const stopStatusesRef = useRef(stopStatuses);
+
+  useEffect(() => {
+    onStopRef.current = onStop;
+    onUpdateRef.current = onUpdate;
+    onErrorRef.current = onError;
+    streamFnRef.current = streamFn;
+    stopStatusesRef.current = stopStatuses;
+  });
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsStreaming(false);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !chatUid) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    let snapshot: RealtimeChatHistory | null = null;
+    let stopped = false;
+
+    setIsStreaming(true);
+    setError(null);
+    logRef.current.log('[useRealtimeStream] Opening stream for', chatUid);
+
+    const handleEvent = (event: RealtimeStreamEvent) => {
+      if (controller.signal.aborted || stopped) return;
+
+      snapshot = applyRealtimeStreamEvent(snapshot, event, chatUid);
+      setData(snapshot);
+      onUpdateRef.current?.(snapshot);
+
+      if (stopStatusesRef.current.includes(snapshot.status)) {
+        logRef.current.log('[useRealtimeStream] Closing stream due to status:', snapshot.status);
+        stopped = true;
+        controller.abort();
+        setIsStreaming(false);
+        onStopRef.current?.(snapshot);
+      }
+    };
+
+    streamFnRef.current(handleEvent, controller.signal)
+      .then(() => {
+        if (stopped || controller.signal.aborted) return;
+        // The server closed the stream before the chat settled
+        throw new Error('Realtime stream closed before completion');
+      })
+      .catch((err) => {
+        if (stopped || controller.signal.aborted) return;
+        logRef.current.warn('[useRealtimeStream] Stream error:', err);
+        const error = err instanceof Error ? err : new Error(String(err));
+        setError(error);
+        setIsStreaming(false);
+        onErrorRef.current?.(error);
+      });
+
+    return () => {
+      controller.abort();
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      setIsStreaming(false);
+    };
+  }, [enabled, chatUid]);
+
+  return {
+    data,
+    isStreaming,
+    error,
+    stop,
+  };
+}
@@ -0,0 +1,128 @@
+import { createElement, useEffect, useMemo, useRef } from 'react';
+import { useOptionalDevicContext } from '../provider';
+import type { ModelInterfaceTool, ResponseWidgetProps } from '../api/types';
+
+/**
+ * Options for useRegisterTool
+ */
+export interface UseRegisterToolOptions {
+  /**
+   * State sent as `applicationState` with the next message while the tool is
+   * registered (e.g. the record the component is showing)
+   */
+  applicationState?: Record<string, any>;
+
+  /**
+   * Register the tool; set to false to withdraw it without unmounting
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Contribute a client-side tool to every chat under the DevicProvider while
+ * the calling component is mounted. The active set is sent as `tools` with
+ * the next message, so the assistant only sees tools for what is on screen.
+ *
+ * The latest `callback`, `requiresConfirmation` predicate and widget
+ * component are always used, so inline definitions are fine; the tool is
+ * re-registered only when its name, schema or settings change. Without a
+ * provider it does nothing.
+ *
+ * @example
+ * ```tsx
+ * function InvoiceView({ invoice }: { invoice: Invoice }) {
+ *   useRegisterTool(
+ *     {
+ *       toolName: 'mark_invoice_paid',
+ *       schema: {
+ *         type: 'function',
+ *         function: {
+ *           name: 'mark_invoice_paid',
+ *           description: 'Mark the invoice on screen as paid',
+ *           parameters: { type: 'object', properties: {} },
+ *         },
+ *       },
+ *       requiresConfirmation: 'always',
+ *       callback: () => markPaid(invoice.id),
+ *     },
+ *     { applicationState: { invoiceId: invoice.id, status: invoice.status } }
+ *   );
+ *   // ...
+ * }
+ * ```
+ */
+export function useRegisterTool<TParams = any>(
+  tool: ModelInterfaceTool<TParams>,
+  options: UseRegisterToolOptions = {}
+): void {
+  const { applicationState, enabled = true } = options;
+  const registerTool = useOptionalDevicContext()?.registerTool;
+
+  const toolRef = useRef(tool);
+  toolRef.current = tool;
+
+  // Compare by value so inline objects do not re-register every render
+  const schemaKey = JSON.stringify(tool.schema);
+  const stateKey = applicationState ? JSON.stringify(applicationState) : '';
+  const hasCallback = !!tool.callback;
+  const widgetRender = tool.responseWidget?.render;
+  const confirmation =
+    typeof tool.requiresConfirmation === 'function' ? 'predicate' : tool.requiresConfirmation;
+
+  useEffect(() => {
+    if (!registerTool || !enabled) return;
+    const current = toolRef.current;
+    const registered: ModelInterfaceTool<TParams> = {
+      ...current,
+      callback: current.callback
+        ? (params, context) => toolRef.current.callback!(params, context)
+        : undefined,
+      requiresConfirmation:
+        typeof current.requiresConfirmation === 'function'
+          ? (params) => {
+              const policy = toolRef.current.requiresConfirmation;
+              return typeof policy === 'function' ? policy(params) : policy === 'always';
+            }
+          : current.requiresConfirmation,
+      responseWidget: current.responseWidget && {
+        render: current.responseWidget.render,
+        component: (props: ResponseWidgetProps<TParams>) => {
+          const widget = toolRef.current.responseWidget;
+          return widget ? createElement(widget.component, props) : null;
+        },
+      },
+    };
+    return registerTool({
+      tool: registered,
+      applicationState: stateKey ? JSON.parse(stateKey) : undefined,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    registerTool,
+    enabled,
+    tool.toolName,
+    schemaKey,
+    stateKey,
+    hasCallback,
+    widgetRender,
+    confirmation,
+    tool.validateArguments,
+    tool.timeoutMs,
+  ]);
+}
+
+/**
+ * `tools` plus every tool registered under the DevicProvider with
+ * useRegisterTool. A tool in `tools` wins over a registered tool of the same
+ * name. Used by the chat hooks to build the `tools` of each message.
+ */
+export function useRegisteredTools(tools: ModelInterfaceTool[]): ModelInterfaceTool[] {
+  const registeredTools = useOptionalDevicContext()?.registeredTools;
+
+  return useMemo(() => {
+    if (!registeredTools || registeredTools.length === 0) return tools;
+    const own = new Set(tools.map((t) => t.toolName));
+    return [...tools, ...registeredTools.filter((t) => !own.has(t.toolName))];
+  }, [tools, registeredTools]);
+}
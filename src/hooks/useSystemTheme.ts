@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { detectSystemTheme, subscribeSystemTheme } from '../theme';
+import type { DevicThemePreset } from '../theme';
+
+/**
+ * Theme preset matching the system `prefers-color-scheme` /
+ * `prefers-contrast` settings, kept up to date while `enabled`
+ */
+export function useSystemTheme(enabled = true): DevicThemePreset {
+  const [preset, setPreset] = useState<DevicThemePreset>(detectSystemTheme);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setPreset(detectSystemTheme());
+    return subscribeSystemTheme(setPreset);
+  }, [enabled]);
+
+  return preset;
+}
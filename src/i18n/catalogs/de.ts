@@ -0,0 +1,239 @@
+import type { DevicMessageOverrides } from '../types';
+
+/**
+ * German catalog
+ */
+export const de: DevicMessageOverrides = {
+  // Common
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.send': 'Senden',
+  'common.stop': 'Stoppen',
+  'common.pause': 'Pausieren',
+  'common.resume': 'Fortsetzen',
+  'common.processing': 'Wird verarbeitet...',
+  'common.completed': 'Abgeschlossen',
+  'common.unknown': 'Unbekannt',
+
+  // ChatDrawer
+  'chat.title': 'Chat',
+  'chat.inputPlaceholder': 'Nachricht eingeben...',
+  'chat.newChat': 'Neuer Chat',
+  'chat.open': 'Chat öffnen',
+  'chat.close': 'Chat schließen',
+  'chat.replayBadge': 'Wiedergabe',
+  'chat.waitingForSubagent': 'Warten, bis der Subagent fertig ist',
+  'chat.waitingForTool': 'Warten auf die Antwort des Tools',
+  'chat.waitingForConfirmation': 'Warten auf deine Freigabe',
+  'chat.attachFile': 'Datei anhängen',
+  'chat.removeFile': 'Datei entfernen',
+  'chat.sendMessage': 'Nachricht senden',
+  'chat.removeReference': 'Verweis entfernen',
+  'chat.editMessage': 'Nachricht bearbeiten',
+  'chat.pending': 'Ausstehend',
+  'chat.pendingHint': 'Wird gesendet, sobald du wieder online bist',
+  'chat.messageVersions': 'Nachrichtenversionen',
+  'chat.previousVersion': 'Vorherige Version',
+  'chat.nextVersion': 'Nächste Version',
+  'chat.toolActions': { one: '{count} Aktion', other: '{count} Aktionen' },
+  'chat.subagent': 'Subagent',
+  'chat.export': 'Unterhaltung exportieren',
+  'chat.exportMarkdown': 'Markdown (.md)',
+  'chat.exportJson': 'JSON (.json)',
+  'chat.exportHtml': 'Druckbares HTML (.html)',
+  'chat.assistantPicker': 'Assistent wechseln',
+  'chat.routingAssistant': 'Assistent wird ausgewählt…',
+
+  // Replay
+  'replay.controls': 'Wiedergabesteuerung',
+  'replay.restart': 'Wiedergabe neu starten',
+  'replay.previous': 'Vorherige Nachricht',
+  'replay.next': 'Nächste Nachricht',
+  'replay.play': 'Wiedergabe starten',
+  'replay.pause': 'Wiedergabe pausieren',
+
+  // Tool confirmation
+  'confirm.title': '{tool} erlauben?',
+  'confirm.label': 'Freigabe erforderlich',
+  'confirm.noArguments': 'Keine Argumente',
+  'confirm.approve': 'Erlauben',
+  'confirm.deny': 'Ablehnen',
+  'confirm.alwaysAllow': 'Für diese Sitzung immer erlauben',
+  'confirm.reason': 'Grund (optional)',
+  'confirm.reasonPlaceholder': 'Sag dem Assistenten, warum',
+  'confirm.sendDenial': 'Ablehnung senden',
+
+  // Speech
+  'speech.record': 'Sprachnachricht aufnehmen',
+  'speech.tapOrHold': 'Tippen zum Diktieren · gedrückt halten für Freisprechen',
+  'speech.cancelRecording': 'Aufnahme abbrechen',
+  'speech.confirm': 'Bestätigen',
+  'speech.autoSending': 'Wird automatisch gesendet… weitersprechen zum Abbrechen',
+  'speech.transcribing': 'Wird transkribiert…',
+  'speech.pendingSend': 'Wird gesendet… zum Abbrechen interagieren',
+  'speech.handsFreeOn': 'Freisprechen an',
+  'speech.handsFreeWaiting': 'Freisprechen · warte auf Antwort',
+  'speech.stopHandsFree': 'Freisprechen beenden',
+  'speech.transcriptionFailed': 'Audio konnte nicht transkribiert werden: {error}',
+  'speech.startFailed': 'Aufnahme konnte nicht gestartet werden: {error}',
+  'speech.unknownError': 'unbekannter Fehler',
+  'speech.notSupported': 'Audioaufnahme wird von diesem Browser nicht unterstützt',
+  'speech.permissionDenied': 'Mikrofonzugriff verweigert',
+  'speech.dictated': 'Per Sprache diktiert',
+  'speech.voiceMessage': 'Sprachnachricht',
+  'speech.playRecording': 'Aufnahme abspielen',
+  'speech.pauseRecording': 'Aufnahme pausieren',
+  'speech.audioUnavailable': 'Audio nicht verfügbar',
+  'speech.playbackFailed': 'Wiedergabe fehlgeschlagen',
+
+  // ConversationSelector
+  'conversations.title': 'Unterhaltungen',
+  'conversations.search': 'Unterhaltungen durchsuchen...',
+  'conversations.active': 'Aktiv',
+  'conversations.archived': 'Archiviert',
+  'conversations.loading': 'Wird geladen...',
+  'conversations.loadingMore': 'Weitere werden geladen...',
+  'conversations.loadMore': 'Mehr laden',
+  'conversations.searching': 'Suche läuft...',
+  'conversations.inMessages': 'In Nachrichten',
+  'conversations.empty': 'Keine Unterhaltungen',
+  'conversations.emptyArchived': 'Keine archivierten Unterhaltungen',
+  'conversations.startNew': '+ Neuen Chat starten',
+  'conversations.name': 'Name der Unterhaltung',
+  'conversations.deleteConfirm': 'Diese Unterhaltung löschen?',
+  'conversations.delete': 'Löschen',
+  'conversations.deleteLabel': 'Unterhaltung löschen',
+  'conversations.pinned': 'Angeheftet',
+  'conversations.pin': 'Anheften',
+  'conversations.pinLabel': 'Unterhaltung anheften',
+  'conversations.unpin': 'Lösen',
+  'conversations.unpinLabel': 'Unterhaltung lösen',
+  'conversations.rename': 'Umbenennen',
+  'conversations.renameLabel': 'Unterhaltung umbenennen',
+  'conversations.archive': 'Archivieren',
+  'conversations.archiveLabel': 'Unterhaltung archivieren',
+  'conversations.unarchive': 'Wiederherstellen',
+  'conversations.unarchiveLabel': 'Unterhaltung aus dem Archiv holen',
+  'conversations.updateFailed': 'Die Unterhaltung konnte nicht aktualisiert werden',
+
+  // Feedback
+  'feedback.positiveTitle': 'Was hat dir gefallen?',
+  'feedback.negativeTitle': 'Was könnte besser sein?',
+  'feedback.placeholder': 'Kommentar hinzufügen (optional)...',
+  'feedback.submit': 'Absenden',
+  'feedback.sending': 'Wird gesendet...',
+  'feedback.copy': 'In die Zwischenablage kopieren',
+  'feedback.regenerate': 'Antwort neu generieren',
+  'feedback.good': 'Gute Antwort',
+  'feedback.bad': 'Schlechte Antwort',
+
+  // Usage
+  'usage.label': 'Nutzung',
+  'usage.yours': 'Deine Nutzung',
+  'usage.show': 'Nutzung anzeigen',
+  'usage.hide': 'Nutzung ausblenden',
+  'usage.none': 'Keine Nutzungslimits',
+  'usage.tier': 'Tarif: {tier}',
+  'usage.cost': 'Kosten',
+  'usage.tokens': 'Tokens',
+  'usage.unit.cost': 'Kosten',
+  'usage.unit.tokens': 'Tokens',
+  'usage.resets': 'wird {time} zurückgesetzt',
+  'usage.window.hour': { one: 'pro Stunde', other: 'alle {count} Stunden' },
+  'usage.window.day': { one: 'pro Tag', other: 'alle {count} Tage' },
+  'usage.window.week': { one: 'pro Woche', other: 'alle {count} Wochen' },
+  'usage.window.month': { one: 'pro Monat', other: 'alle {count} Monate' },
+  'limit.reached': 'Nutzungslimit erreicht.',
+  'limit.resets': 'Wird {time} zurückgesetzt.',
+  'limit.tryAgain': 'Du kannst es jetzt erneut versuchen.',
+
+  // ThreadStateTag
+  'thread.state.queued': 'In Warteschlange',
+  'thread.state.processing': 'In Bearbeitung',
+  'thread.state.completed': 'Abgeschlossen',
+  'thread.state.failed': 'Fehlgeschlagen',
+  'thread.state.terminated': 'Beendet',
+  'thread.state.guardrail': 'Schutzregel ausgelöst',
+  'thread.state.paused': 'Pausiert',
+  'thread.state.pausedForApproval': 'Wartet auf Freigabe',
+  'thread.state.approvalRejected': 'Freigabe abgelehnt',
+  'thread.state.waitingForResponse': 'Wartet auf Antwort',
+  'thread.state.pausedForResume': 'Fortsetzung geplant',
+  'thread.state.handedOff': 'Übergeben',
+  'thread.state.handedOffCount': 'Übergeben ({count})',
+  'thread.tooltip.approval': 'Der Agent wartet auf eine Freigabe, um fortzufahren',
+  'thread.tooltip.resumeAt': 'Agent pausiert, wird am {date} fortgesetzt ({time})',
+  'thread.tooltip.resumeScheduled': 'Agent pausiert, wird zu einem geplanten Zeitpunkt fortgesetzt',
+  'thread.tooltip.waiting': 'Der Agent wartet auf eine Antwort',
+  'thread.tooltip.finished': 'Thread manuell beendet',
+  'thread.tooltip.rejected': 'Die Freigabe wurde abgelehnt',
+  'thread.tooltip.guardrail': 'Ausführung des Agenten wegen einer Schutzregel pausiert',
+  'thread.action.complete': 'Manuell abschließen',
+  'thread.action.pause': 'Pausieren',
+  'thread.action.resume': 'Fortsetzen',
+  'thread.action.review': 'Prüfen',
+  'thread.action.explain': 'Thread erklären...',
+  'thread.explain.title': 'Beschreibung der Ausführung von „{agent}“',
+  'thread.explain.noApiKey': 'API-Schlüssel nicht konfiguriert.',
+  'thread.explain.failed': 'Die Erklärung des Threads konnte nicht abgerufen werden.',
+  'thread.review.title': 'Anfrage des Agenten prüfen',
+  'thread.review.request': 'Anfrage des Agenten:',
+  'thread.review.defaultRequest': 'Der Agent wartet auf eine Freigabe, um fortzufahren.',
+  'thread.review.feedback': 'Dein Feedback:',
+  'thread.review.placeholder': 'Optionales Feedback für den Agenten...',
+  'thread.review.reject': 'Ablehnen und beenden',
+  'thread.review.continue': 'Mit Feedback fortfahren',
+  'thread.review.approve': 'Freigeben',
+  'thread.complete.title': 'Ausführung manuell abschließen',
+  'thread.complete.confirm': 'Abschließen',
+  'thread.complete.heading': 'Manuellen Abschluss bestätigen',
+  'thread.complete.description': 'Du schließt die Ausführung dieses Agenten gleich manuell ab.',
+  'thread.complete.as': 'Abschließen als:',
+  'thread.complete.terminated': 'Beendet - Thread als manuell beendet abschließen',
+  'thread.complete.completed': 'Abgeschlossen - Thread als erfolgreich abgeschlossen markieren',
+  'thread.complete.failed': 'Fehlgeschlagen - Thread als fehlgeschlagen abschließen',
+  'thread.complete.warning':
+    'Diese Aktion beendet sofort alle laufenden Prozesse. Die Ausführung kann danach nicht fortgesetzt werden.',
+  'thread.pause.title': 'Thread pausieren',
+  'thread.pause.message': 'Du pausierst diesen Thread in der Warteschlange. Er kann später fortgesetzt werden.',
+  'thread.resume.title': 'Thread fortsetzen',
+  'thread.resume.message':
+    'Du setzt diesen Thread fort. Er kommt zurück in die Warteschlange und wird so bald wie möglich bearbeitet.',
+
+  // AICommandBar
+  'commandBar.placeholder': 'KI fragen...',
+  'commandBar.commands': 'Befehle',
+  'commandBar.navigateHint': 'zum Navigieren,',
+  'commandBar.selectHint': 'zum Auswählen',
+  'commandBar.history': 'Befehlsverlauf',
+  'commandBar.historyCommand': 'Befehlsverlauf anzeigen',
+  'commandBar.clearHistory': 'Leeren',
+  'commandBar.noHistory': 'Noch kein Verlauf',
+  'commandBar.toolCalls': 'Tool-Aufrufe',
+  'commandBar.noResponse': 'Keine Antwort',
+
+  // AIGenerationButton
+  'generation.label': 'Mit KI generieren',
+  'generation.placeholder': 'Beschreibe, was generiert werden soll...',
+  'generation.confirm': 'Generieren',
+  'generation.loading': 'Wird generiert...',
+
+  // AIElementWrapper
+  'elementWrapper.trigger': 'KI fragen',
+  'elementWrapper.tellMeMore': 'Erzähl mir mehr über: {subject}',
+  'elementWrapper.thinking': 'Denkt nach…',
+
+  // Accessibility
+  'a11y.messages': 'Nachrichten der Unterhaltung',
+  'a11y.userMessage': 'Du, {time}',
+  'a11y.assistantMessage': 'Assistent, {time}',
+  'a11y.newAssistantMessage': 'Assistent: {message}',
+  'a11y.responding': 'Der Assistent antwortet',
+  'a11y.toolRunning': 'Wird ausgeführt: {tool}',
+  'a11y.toolStatus.pending': 'Ausstehend',
+  'a11y.toolStatus.executing': 'Läuft',
+  'a11y.toolStatus.completed': 'Abgeschlossen',
+  'a11y.toolStatus.error': 'Fehlgeschlagen',
+  'a11y.toolCalls': 'Tool-Aufrufe',
+  'a11y.messageActions': 'Nachrichtenaktionen',
+};
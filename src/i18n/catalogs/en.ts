@@ -0,0 +1,238 @@
+/**
+ * English catalog. Defines every key; other catalogs may be partial and
+ * fall back to these strings.
+ */
+export const en = {
+  // Common
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.send': 'Send',
+  'common.stop': 'Stop',
+  'common.pause': 'Pause',
+  'common.resume': 'Resume',
+  'common.processing': 'Processing...',
+  'common.completed': 'Completed',
+  'common.unknown': 'Unknown',
+
+  // ChatDrawer
+  'chat.title': 'Chat',
+  'chat.inputPlaceholder': 'Type a message...',
+  'chat.newChat': 'New chat',
+  'chat.open': 'Open chat',
+  'chat.close': 'Close chat',
+  'chat.replayBadge': 'Replay',
+  'chat.waitingForSubagent': 'Waiting for subagent to complete',
+  'chat.waitingForTool': 'Waiting for tool response',
+  'chat.waitingForConfirmation': 'Waiting for your approval',
+  'chat.attachFile': 'Attach file',
+  'chat.removeFile': 'Remove file',
+  'chat.sendMessage': 'Send message',
+  'chat.removeReference': 'Remove reference',
+  'chat.editMessage': 'Edit message',
+  'chat.pending': 'Pending',
+  'chat.pendingHint': 'Will be sent when back online',
+  'chat.messageVersions': 'Message versions',
+  'chat.previousVersion': 'Previous version',
+  'chat.nextVersion': 'Next version',
+  'chat.toolActions': { one: '{count} action', other: '{count} actions' },
+  'chat.subagent': 'Subagent',
+  'chat.export': 'Export conversation',
+  'chat.exportMarkdown': 'Markdown (.md)',
+  'chat.exportJson': 'JSON (.json)',
+  'chat.exportHtml': 'Printable HTML (.html)',
+  'chat.assistantPicker': 'Switch assistant',
+  'chat.routingAssistant': 'Choosing an assistant…',
+
+  // Replay
+  'replay.controls': 'Replay controls',
+  'replay.restart': 'Restart replay',
+  'replay.previous': 'Previous message',
+  'replay.next': 'Next message',
+  'replay.play': 'Play replay',
+  'replay.pause': 'Pause replay',
+
+  // Tool confirmation
+  'confirm.title': 'Allow {tool}?',
+  'confirm.label': 'Approval required',
+  'confirm.noArguments': 'No arguments',
+  'confirm.approve': 'Approve',
+  'confirm.deny': 'Deny',
+  'confirm.alwaysAllow': 'Always allow for this session',
+  'confirm.reason': 'Reason (optional)',
+  'confirm.reasonPlaceholder': 'Tell the assistant why',
+  'confirm.sendDenial': 'Send denial',
+
+  // Speech
+  'speech.record': 'Record voice message',
+  'speech.tapOrHold': 'Tap to dictate · hold to start hands-free',
+  'speech.cancelRecording': 'Cancel recording',
+  'speech.confirm': 'Confirm',
+  'speech.autoSending': 'Auto-sending… keep talking to cancel',
+  'speech.transcribing': 'Transcribing…',
+  'speech.pendingSend': 'Sending… interact to cancel',
+  'speech.handsFreeOn': 'Hands-free on',
+  'speech.handsFreeWaiting': 'Hands-free · waiting for reply',
+  'speech.stopHandsFree': 'Stop hands-free',
+  'speech.transcriptionFailed': 'Could not transcribe the audio: {error}',
+  'speech.startFailed': 'Could not start recording: {error}',
+  'speech.unknownError': 'unknown error',
+  'speech.notSupported': 'Audio recording is not supported in this browser',
+  'speech.permissionDenied': 'Microphone permission denied',
+  'speech.dictated': 'Dictated by voice',
+  'speech.voiceMessage': 'Voice message',
+  'speech.playRecording': 'Play recording',
+  'speech.pauseRecording': 'Pause recording',
+  'speech.audioUnavailable': 'Audio unavailable',
+  'speech.playbackFailed': 'Playback failed',
+
+  // ConversationSelector
+  'conversations.title': 'Conversations',
+  'conversations.search': 'Search conversations...',
+  'conversations.active': 'Active',
+  'conversations.archived': 'Archived',
+  'conversations.loading': 'Loading...',
+  'conversations.loadingMore': 'Loading more...',
+  'conversations.loadMore': 'Load more',
+  'conversations.searching': 'Searching...',
+  'conversations.inMessages': 'In messages',
+  'conversations.empty': 'No conversations',
+  'conversations.emptyArchived': 'No archived conversations',
+  'conversations.startNew': '+ Start a new chat',
+  'conversations.name': 'Conversation name',
+  'conversations.deleteConfirm': 'Delete this conversation?',
+  'conversations.delete': 'Delete',
+  'conversations.deleteLabel': 'Delete conversation',
+  'conversations.pinned': 'Pinned',
+  'conversations.pin': 'Pin',
+  'conversations.pinLabel': 'Pin conversation',
+  'conversations.unpin': 'Unpin',
+  'conversations.unpinLabel': 'Unpin conversation',
+  'conversations.rename': 'Rename',
+  'conversations.renameLabel': 'Rename conversation',
+  'conversations.archive': 'Archive',
+  'conversations.archiveLabel': 'Archive conversation',
+  'conversations.unarchive': 'Unarchive',
+  'conversations.unarchiveLabel': 'Unarchive conversation',
+  'conversations.updateFailed': 'Could not update the conversation',
+
+  // Feedback
+  'feedback.positiveTitle': 'What did you like?',
+  'feedback.negativeTitle': 'What could be improved?',
+  'feedback.placeholder': 'Add a comment (optional)...',
+  'feedback.submit': 'Submit',
+  'feedback.sending': 'Sending...',
+  'feedback.copy': 'Copy to clipboard',
+  'feedback.regenerate': 'Regenerate response',
+  'feedback.good': 'Good response',
+  'feedback.bad': 'Bad response',
+
+  // Usage
+  'usage.label': 'Usage',
+  'usage.yours': 'Your usage',
+  'usage.show': 'Show usage',
+  'usage.hide': 'Hide usage',
+  'usage.none': 'No usage limits',
+  'usage.tier': 'Tier: {tier}',
+  'usage.cost': 'Cost',
+  'usage.tokens': 'Tokens',
+  'usage.unit.cost': 'cost',
+  'usage.unit.tokens': 'tokens',
+  'usage.resets': 'resets {time}',
+  'usage.window.hour': { one: 'per hour', other: 'every {count} hours' },
+  'usage.window.day': { one: 'per day', other: 'every {count} days' },
+  'usage.window.week': { one: 'per week', other: 'every {count} weeks' },
+  'usage.window.month': { one: 'per month', other: 'every {count} months' },
+  'limit.reached': 'Usage limit reached.',
+  'limit.resets': 'Resets {time}.',
+  'limit.tryAgain': 'You can try again now.',
+
+  // ThreadStateTag
+  'thread.state.queued': 'Queued',
+  'thread.state.processing': 'Processing',
+  'thread.state.completed': 'Completed',
+  'thread.state.failed': 'Failed',
+  'thread.state.terminated': 'Terminated',
+  'thread.state.guardrail': 'Guardrail Triggered',
+  'thread.state.paused': 'Paused',
+  'thread.state.pausedForApproval': 'Waiting for approval',
+  'thread.state.approvalRejected': 'Approval rejected',
+  'thread.state.waitingForResponse': 'Waiting for response',
+  'thread.state.pausedForResume': 'Resume scheduled',
+  'thread.state.handedOff': 'Handed off',
+  'thread.state.handedOffCount': 'Handed off ({count})',
+  'thread.tooltip.approval': 'Agent is waiting for approval to resume execution',
+  'thread.tooltip.resumeAt': 'Agent paused, will resume at {date} ({time})',
+  'thread.tooltip.resumeScheduled': 'Agent paused, will resume at a scheduled time',
+  'thread.tooltip.waiting': 'Agent is waiting for response',
+  'thread.tooltip.finished': 'Manually finished thread',
+  'thread.tooltip.rejected': 'Approval was rejected',
+  'thread.tooltip.guardrail': 'Agent execution paused due to guardrail trigger',
+  'thread.action.complete': 'Complete manually',
+  'thread.action.pause': 'Pause',
+  'thread.action.resume': 'Resume',
+  'thread.action.review': 'Review',
+  'thread.action.explain': 'Explain thread...',
+  'thread.explain.title': 'Thread execution description of "{agent}"',
+  'thread.explain.noApiKey': 'API key not configured.',
+  'thread.explain.failed': 'Could not obtain the thread explanation.',
+  'thread.review.title': 'Review Agent Request',
+  'thread.review.request': "Agent's request:",
+  'thread.review.defaultRequest': 'Agent is waiting for approval to resume execution.',
+  'thread.review.feedback': 'Your feedback:',
+  'thread.review.placeholder': 'Optional feedback for the agent...',
+  'thread.review.reject': 'Reject and finish',
+  'thread.review.continue': 'Continue with feedback',
+  'thread.review.approve': 'Approve',
+  'thread.complete.title': 'Complete Execution Manually',
+  'thread.complete.confirm': 'Complete',
+  'thread.complete.heading': 'Confirm Manual Completion',
+  'thread.complete.description': "You are about to manually complete this agent's execution.",
+  'thread.complete.as': 'Complete as:',
+  'thread.complete.terminated': 'Terminated - Finish thread as manually terminated',
+  'thread.complete.completed': 'Completed - Finish thread as successfully completed',
+  'thread.complete.failed': 'Failed - Finish thread as failed or with errors',
+  'thread.complete.warning':
+    'This action will immediately terminate all ongoing processes. The execution cannot be resumed after completion.',
+  'thread.pause.title': 'Pause Thread',
+  'thread.pause.message': 'You are about to pause this queued thread. It can be resumed later.',
+  'thread.resume.title': 'Resume Thread',
+  'thread.resume.message':
+    'You are about to resume this thread. It will go back to the queue and be processed when possible.',
+
+  // AICommandBar
+  'commandBar.placeholder': 'Ask AI...',
+  'commandBar.commands': 'Commands',
+  'commandBar.navigateHint': 'to navigate,',
+  'commandBar.selectHint': 'to select',
+  'commandBar.history': 'Command History',
+  'commandBar.historyCommand': 'Show command history',
+  'commandBar.clearHistory': 'Clear',
+  'commandBar.noHistory': 'No history yet',
+  'commandBar.toolCalls': 'Tool calls',
+  'commandBar.noResponse': 'No response',
+
+  // AIGenerationButton
+  'generation.label': 'Generate with AI',
+  'generation.placeholder': 'Describe what you want to generate...',
+  'generation.confirm': 'Generate',
+  'generation.loading': 'Generating...',
+
+  // AIElementWrapper
+  'elementWrapper.trigger': 'Ask AI',
+  'elementWrapper.tellMeMore': 'Tell me more about: {subject}',
+  'elementWrapper.thinking': 'Thinking…',
+
+  // Accessibility
+  'a11y.messages': 'Conversation messages',
+  'a11y.userMessage': 'You, {time}',
+  'a11y.assistantMessage': 'Assistant, {time}',
+  'a11y.newAssistantMessage': 'Assistant: {message}',
+  'a11y.responding': 'Assistant is responding',
+  'a11y.toolRunning': 'Running: {tool}',
+  'a11y.toolStatus.pending': 'Pending',
+  'a11y.toolStatus.executing': 'Running',
+  'a11y.toolStatus.completed': 'Completed',
+  'a11y.toolStatus.error': 'Failed',
+  'a11y.toolCalls': 'Tool calls',
+  'a11y.messageActions': 'Message actions',
+} satisfies Record<string, string | { other: string; [form: string]: string }>;
@@ -0,0 +1,239 @@
+import type { DevicMessageOverrides } from '../types';
+
+/**
+ * Spanish catalog
+ */
+export const es: DevicMessageOverrides = {
+  // Common
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.send': 'Enviar',
+  'common.stop': 'Detener',
+  'common.pause': 'Pausar',
+  'common.resume': 'Reanudar',
+  'common.processing': 'Procesando...',
+  'common.completed': 'Completado',
+  'common.unknown': 'Desconocido',
+
+  // ChatDrawer
+  'chat.title': 'Chat',
+  'chat.inputPlaceholder': 'Escribe un mensaje...',
+  'chat.newChat': 'Nuevo chat',
+  'chat.open': 'Abrir chat',
+  'chat.close': 'Cerrar chat',
+  'chat.replayBadge': 'Reproducción',
+  'chat.waitingForSubagent': 'Esperando a que el subagente termine',
+  'chat.waitingForTool': 'Esperando la respuesta de la herramienta',
+  'chat.waitingForConfirmation': 'Esperando tu aprobación',
+  'chat.attachFile': 'Adjuntar archivo',
+  'chat.removeFile': 'Quitar archivo',
+  'chat.sendMessage': 'Enviar mensaje',
+  'chat.removeReference': 'Quitar referencia',
+  'chat.editMessage': 'Editar mensaje',
+  'chat.pending': 'Pendiente',
+  'chat.pendingHint': 'Se enviará cuando vuelvas a tener conexión',
+  'chat.messageVersions': 'Versiones del mensaje',
+  'chat.previousVersion': 'Versión anterior',
+  'chat.nextVersion': 'Versión siguiente',
+  'chat.toolActions': { one: '{count} acción', other: '{count} acciones' },
+  'chat.subagent': 'Subagente',
+  'chat.export': 'Exportar conversación',
+  'chat.exportMarkdown': 'Markdown (.md)',
+  'chat.exportJson': 'JSON (.json)',
+  'chat.exportHtml': 'HTML imprimible (.html)',
+  'chat.assistantPicker': 'Cambiar de asistente',
+  'chat.routingAssistant': 'Eligiendo asistente…',
+
+  // Replay
+  'replay.controls': 'Controles de reproducción',
+  'replay.restart': 'Reiniciar reproducción',
+  'replay.previous': 'Mensaje anterior',
+  'replay.next': 'Mensaje siguiente',
+  'replay.play': 'Reproducir',
+  'replay.pause': 'Pausar reproducción',
+
+  // Tool confirmation
+  'confirm.title': '¿Permitir {tool}?',
+  'confirm.label': 'Se requiere aprobación',
+  'confirm.noArguments': 'Sin argumentos',
+  'confirm.approve': 'Aprobar',
+  'confirm.deny': 'Rechazar',
+  'confirm.alwaysAllow': 'Permitir siempre en esta sesión',
+  'confirm.reason': 'Motivo (opcional)',
+  'confirm.reasonPlaceholder': 'Explica al asistente por qué',
+  'confirm.sendDenial': 'Enviar rechazo',
+
+  // Speech
+  'speech.record': 'Grabar mensaje de voz',
+  'speech.tapOrHold': 'Toca para dictar · mantén pulsado para el modo manos libres',
+  'speech.cancelRecording': 'Cancelar grabación',
+  'speech.confirm': 'Confirmar',
+  'speech.autoSending': 'Enviando automáticamente… sigue hablando para cancelar',
+  'speech.transcribing': 'Transcribiendo…',
+  'speech.pendingSend': 'Enviando… interactúa para cancelar',
+  'speech.handsFreeOn': 'Manos libres activado',
+  'speech.handsFreeWaiting': 'Manos libres · esperando respuesta',
+  'speech.stopHandsFree': 'Desactivar manos libres',
+  'speech.transcriptionFailed': 'No se pudo transcribir el audio: {error}',
+  'speech.startFailed': 'No se pudo iniciar la grabación: {error}',
+  'speech.unknownError': 'error desconocido',
+  'speech.notSupported': 'Este navegador no admite la grabación de audio',
+  'speech.permissionDenied': 'Permiso de micrófono denegado',
+  'speech.dictated': 'Dictado por voz',
+  'speech.voiceMessage': 'Mensaje de voz',
+  'speech.playRecording': 'Reproducir grabación',
+  'speech.pauseRecording': 'Pausar grabación',
+  'speech.audioUnavailable': 'Audio no disponible',
+  'speech.playbackFailed': 'Error de reproducción',
+
+  // ConversationSelector
+  'conversations.title': 'Conversaciones',
+  'conversations.search': 'Buscar conversaciones...',
+  'conversations.active': 'Activas',
+  'conversations.archived': 'Archivadas',
+  'conversations.loading': 'Cargando...',
+  'conversations.loadingMore': 'Cargando más...',
+  'conversations.loadMore': 'Cargar más',
+  'conversations.searching': 'Buscando...',
+  'conversations.inMessages': 'En mensajes',
+  'conversations.empty': 'No hay conversaciones',
+  'conversations.emptyArchived': 'No hay conversaciones archivadas',
+  'conversations.startNew': '+ Iniciar un nuevo chat',
+  'conversations.name': 'Nombre de la conversación',
+  'conversations.deleteConfirm': '¿Eliminar esta conversación?',
+  'conversations.delete': 'Eliminar',
+  'conversations.deleteLabel': 'Eliminar conversación',
+  'conversations.pinned': 'Fijada',
+  'conversations.pin': 'Fijar',
+  'conversations.pinLabel': 'Fijar conversación',
+  'conversations.unpin': 'Desfijar',
+  'conversations.unpinLabel': 'Desfijar conversación',
+  'conversations.rename': 'Renombrar',
+  'conversations.renameLabel': 'Renombrar conversación',
+  'conversations.archive': 'Archivar',
+  'conversations.archiveLabel': 'Archivar conversación',
+  'conversations.unarchive': 'Desarchivar',
+  'conversations.unarchiveLabel': 'Desarchivar conversación',
+  'conversations.updateFailed': 'No se pudo actualizar la conversación',
+
+  // Feedback
+  'feedback.positiveTitle': '¿Qué te ha gustado?',
+  'feedback.negativeTitle': '¿Qué se podría mejorar?',
+  'feedback.placeholder': 'Añade un comentario (opcional)...',
+  'feedback.submit': 'Enviar',
+  'feedback.sending': 'Enviando...',
+  'feedback.copy': 'Copiar al portapapeles',
+  'feedback.regenerate': 'Regenerar respuesta',
+  'feedback.good': 'Buena respuesta',
+  'feedback.bad': 'Mala respuesta',
+
+  // Usage
+  'usage.label': 'Uso',
+  'usage.yours': 'Tu uso',
+  'usage.show': 'Mostrar uso',
+  'usage.hide': 'Ocultar uso',
+  'usage.none': 'Sin límites de uso',
+  'usage.tier': 'Plan: {tier}',
+  'usage.cost': 'Coste',
+  'usage.tokens': 'Tokens',
+  'usage.unit.cost': 'coste',
+  'usage.unit.tokens': 'tokens',
+  'usage.resets': 'se restablece {time}',
+  'usage.window.hour': { one: 'por hora', other: 'cada {count} horas' },
+  'usage.window.day': { one: 'por día', other: 'cada {count} días' },
+  'usage.window.week': { one: 'por semana', other: 'cada {count} semanas' },
+  'usage.window.month': { one: 'por mes', other: 'cada {count} meses' },
+  'limit.reached': 'Se ha alcanzado el límite de uso.',
+  'limit.resets': 'Se restablece {time}.',
+  'limit.tryAgain': 'Ya puedes volver a intentarlo.',
+
+  // ThreadStateTag
+  'thread.state.queued': 'En cola',
+  'thread.state.processing': 'Procesando',
+  'thread.state.completed': 'Completado',
+  'thread.state.failed': 'Fallido',
+  'thread.state.terminated': 'Terminado',
+  'thread.state.guardrail': 'Salvaguarda activada',
+  'thread.state.paused': 'En pausa',
+  'thread.state.pausedForApproval': 'Esperando aprobación',
+  'thread.state.approvalRejected': 'Aprobación rechazada',
+  'thread.state.waitingForResponse': 'Esperando respuesta',
+  'thread.state.pausedForResume': 'Reanudación programada',
+  'thread.state.handedOff': 'Delegado',
+  'thread.state.handedOffCount': 'Delegado ({count})',
+  'thread.tooltip.approval': 'El agente espera aprobación para reanudar la ejecución',
+  'thread.tooltip.resumeAt': 'Agente en pausa, se reanudará el {date} ({time})',
+  'thread.tooltip.resumeScheduled': 'Agente en pausa, se reanudará a la hora programada',
+  'thread.tooltip.waiting': 'El agente está esperando una respuesta',
+  'thread.tooltip.finished': 'Hilo finalizado manualmente',
+  'thread.tooltip.rejected': 'Se rechazó la aprobación',
+  'thread.tooltip.guardrail': 'Ejecución del agente en pausa por una salvaguarda',
+  'thread.action.complete': 'Completar manualmente',
+  'thread.action.pause': 'Pausar',
+  'thread.action.resume': 'Reanudar',
+  'thread.action.review': 'Revisar',
+  'thread.action.explain': 'Explicar hilo...',
+  'thread.explain.title': 'Descripción de la ejecución de "{agent}"',
+  'thread.explain.noApiKey': 'La clave de API no está configurada.',
+  'thread.explain.failed': 'No se pudo obtener la explicación del hilo.',
+  'thread.review.title': 'Revisar solicitud del agente',
+  'thread.review.request': 'Solicitud del agente:',
+  'thread.review.defaultRequest': 'El agente espera aprobación para reanudar la ejecución.',
+  'thread.review.feedback': 'Tus comentarios:',
+  'thread.review.placeholder': 'Comentarios opcionales para el agente...',
+  'thread.review.reject': 'Rechazar y finalizar',
+  'thread.review.continue': 'Continuar con comentarios',
+  'thread.review.approve': 'Aprobar',
+  'thread.complete.title': 'Completar ejecución manualmente',
+  'thread.complete.confirm': 'Completar',
+  'thread.complete.heading': 'Confirmar finalización manual',
+  'thread.complete.description': 'Vas a completar manualmente la ejecución de este agente.',
+  'thread.complete.as': 'Completar como:',
+  'thread.complete.terminated': 'Terminado - Finalizar el hilo como terminado manualmente',
+  'thread.complete.completed': 'Completado - Finalizar el hilo como completado con éxito',
+  'thread.complete.failed': 'Fallido - Finalizar el hilo como fallido o con errores',
+  'thread.complete.warning':
+    'Esta acción detendrá inmediatamente todos los procesos en curso. La ejecución no se podrá reanudar después.',
+  'thread.pause.title': 'Pausar hilo',
+  'thread.pause.message': 'Vas a pausar este hilo en cola. Podrás reanudarlo más tarde.',
+  'thread.resume.title': 'Reanudar hilo',
+  'thread.resume.message':
+    'Vas a reanudar este hilo. Volverá a la cola y se procesará en cuanto sea posible.',
+
+  // AICommandBar
+  'commandBar.placeholder': 'Pregunta a la IA...',
+  'commandBar.commands': 'Comandos',
+  'commandBar.navigateHint': 'para navegar,',
+  'commandBar.selectHint': 'para seleccionar',
+  'commandBar.history': 'Historial de comandos',
+  'commandBar.historyCommand': 'Mostrar el historial de comandos',
+  'commandBar.clearHistory': 'Borrar',
+  'commandBar.noHistory': 'Aún no hay historial',
+  'commandBar.toolCalls': 'Llamadas a herramientas',
+  'commandBar.noResponse': 'Sin respuesta',
+
+  // AIGenerationButton
+  'generation.label': 'Generar con IA',
+  'generation.placeholder': 'Describe lo que quieres generar...',
+  'generation.confirm': 'Generar',
+  'generation.loading': 'Generando...',
+
+  // AIElementWrapper
+  'elementWrapper.trigger': 'Preguntar a IA',
+  'elementWrapper.tellMeMore': 'Cuéntame más sobre: {subject}',
+  'elementWrapper.thinking': 'Pensando…',
+
+  // Accessibility
+  'a11y.messages': 'Mensajes de la conversación',
+  'a11y.userMessage': 'Tú, {time}',
+  'a11y.assistantMessage': 'Asistente, {time}',
+  'a11y.newAssistantMessage': 'Asistente: {message}',
+  'a11y.responding': 'El asistente está respondiendo',
+  'a11y.toolRunning': 'Ejecutando: {tool}',
+  'a11y.toolStatus.pending': 'Pendiente',
+  'a11y.toolStatus.executing': 'En ejecución',
+  'a11y.toolStatus.completed': 'Completado',
+  'a11y.toolStatus.error': 'Fallido',
+  'a11y.toolCalls': 'Llamadas a herramientas',
+  'a11y.messageActions': 'Acciones del mensaje',
+};
@@ -0,0 +1,238 @@
+import type { DevicMessageOverrides } from '../types';
+
+/**
+ * Japanese catalog
+ */
+export const ja: DevicMessageOverrides = {
+  // Common
+  'common.cancel': 'キャンセル',
+  'common.close': '閉じる',
+  'common.send': '送信',
+  'common.stop': '停止',
+  'common.pause': '一時停止',
+  'common.resume': '再開',
+  'common.processing': '処理中...',
+  'common.completed': '完了',
+  'common.unknown': '不明',
+
+  // ChatDrawer
+  'chat.title': 'チャット',
+  'chat.inputPlaceholder': 'メッセージを入力...',
+  'chat.newChat': '新しいチャット',
+  'chat.open': 'チャットを開く',
+  'chat.close': 'チャットを閉じる',
+  'chat.replayBadge': '再生',
+  'chat.waitingForSubagent': 'サブエージェントの完了を待っています',
+  'chat.waitingForTool': 'ツールの応答を待っています',
+  'chat.waitingForConfirmation': '承認を待っています',
+  'chat.attachFile': 'ファイルを添付',
+  'chat.removeFile': 'ファイルを削除',
+  'chat.sendMessage': 'メッセージを送信',
+  'chat.removeReference': '参照を削除',
+  'chat.editMessage': 'メッセージを編集',
+  'chat.pending': '送信待ち',
+  'chat.pendingHint': 'オンラインに戻ると送信されます',
+  'chat.messageVersions': 'メッセージのバージョン',
+  'chat.previousVersion': '前のバージョン',
+  'chat.nextVersion': '次のバージョン',
+  'chat.toolActions': { other: '{count} 件のアクション' },
+  'chat.subagent': 'サブエージェント',
+  'chat.export': '会話をエクスポート',
+  'chat.exportMarkdown': 'Markdown (.md)',
+  'chat.exportJson': 'JSON (.json)',
+  'chat.exportHtml': '印刷用 HTML (.html)',
+  'chat.assistantPicker': 'アシスタントを切り替え',
+  'chat.routingAssistant': 'アシスタントを選択中…',
+
+  // Replay
+  'replay.controls': '再生コントロール',
+  'replay.restart': '最初から再生',
+  'replay.previous': '前のメッセージ',
+  'replay.next': '次のメッセージ',
+  'replay.play': '再生',
+  'replay.pause': '再生を一時停止',
+
+  // Tool confirmation
+  'confirm.title': '{tool} を許可しますか？',
+  'confirm.label': '承認が必要です',
+  'confirm.noArguments': '引数なし',
+  'confirm.approve': '承認',
+  'confirm.deny': '拒否',
+  'confirm.alwaysAllow': 'このセッションでは常に許可',
+  'confirm.reason': '理由（任意）',
+  'confirm.reasonPlaceholder': 'アシスタントに理由を伝えてください',
+  'confirm.sendDenial': '拒否を送信',
+
+  // Speech
+  'speech.record': '音声メッセージを録音',
+  'speech.tapOrHold': 'タップで音声入力 · 長押しでハンズフリー開始',
+  'speech.cancelRecording': '録音をキャンセル',
+  'speech.confirm': '確定',
+  'speech.autoSending': '自動送信中… 話し続けるとキャンセルします',
+  'speech.transcribing': '文字起こし中…',
+  'speech.pendingSend': '送信中… 操作するとキャンセルします',
+  'speech.handsFreeOn': 'ハンズフリー オン',
+  'speech.handsFreeWaiting': 'ハンズフリー · 返信を待っています',
+  'speech.stopHandsFree': 'ハンズフリーを終了',
+  'speech.transcriptionFailed': '音声を文字起こしできませんでした: {error}',
+  'speech.startFailed': '録音を開始できませんでした: {error}',
+  'speech.unknownError': '不明なエラー',
+  'speech.notSupported': 'このブラウザは音声録音に対応していません',
+  'speech.permissionDenied': 'マイクの使用が許可されていません',
+  'speech.dictated': '音声入力',
+  'speech.voiceMessage': '音声メッセージ',
+  'speech.playRecording': '録音を再生',
+  'speech.pauseRecording': '録音を一時停止',
+  'speech.audioUnavailable': '音声を利用できません',
+  'speech.playbackFailed': '再生に失敗しました',
+
+  // ConversationSelector
+  'conversations.title': '会話',
+  'conversations.search': '会話を検索...',
+  'conversations.active': 'アクティブ',
+  'conversations.archived': 'アーカイブ済み',
+  'conversations.loading': '読み込み中...',
+  'conversations.loadingMore': 'さらに読み込み中...',
+  'conversations.loadMore': 'さらに読み込む',
+  'conversations.searching': '検索中...',
+  'conversations.inMessages': 'メッセージ内',
+  'conversations.empty': '会話はありません',
+  'conversations.emptyArchived': 'アーカイブ済みの会話はありません',
+  'conversations.startNew': '+ 新しいチャットを開始',
+  'conversations.name': '会話の名前',
+  'conversations.deleteConfirm': 'この会話を削除しますか?',
+  'conversations.delete': '削除',
+  'conversations.deleteLabel': '会話を削除',
+  'conversations.pinned': 'ピン留め済み',
+  'conversations.pin': 'ピン留め',
+  'conversations.pinLabel': '会話をピン留め',
+  'conversations.unpin': 'ピン留めを解除',
+  'conversations.unpinLabel': '会話のピン留めを解除',
+  'conversations.rename': '名前を変更',
+  'conversations.renameLabel': '会話の名前を変更',
+  'conversations.archive': 'アーカイブ',
+  'conversations.archiveLabel': '会話をアーカイブ',
+  'conversations.unarchive': 'アーカイブ解除',
+  'conversations.unarchiveLabel': '会話のアーカイブを解除',
+  'conversations.updateFailed': '会話を更新できませんでした',
+
+  // Feedback
+  'feedback.positiveTitle': '良かった点を教えてください',
+  'feedback.negativeTitle': '改善できる点を教えてください',
+  'feedback.placeholder': 'コメントを追加 (任意)...',
+  'feedback.submit': '送信',
+  'feedback.sending': '送信中...',
+  'feedback.copy': 'クリップボードにコピー',
+  'feedback.regenerate': '回答を再生成',
+  'feedback.good': '良い回答',
+  'feedback.bad': '悪い回答',
+
+  // Usage
+  'usage.label': '使用量',
+  'usage.yours': 'あなたの使用量',
+  'usage.show': '使用量を表示',
+  'usage.hide': '使用量を非表示',
+  'usage.none': '使用量の上限はありません',
+  'usage.tier': 'プラン: {tier}',
+  'usage.cost': 'コスト',
+  'usage.tokens': 'トークン',
+  'usage.unit.cost': 'コスト',
+  'usage.unit.tokens': 'トークン',
+  'usage.resets': '{time}にリセット',
+  'usage.window.hour': { one: '1 時間あたり', other: '{count} 時間ごと' },
+  'usage.window.day': { one: '1 日あたり', other: '{count} 日ごと' },
+  'usage.window.week': { one: '1 週間あたり', other: '{count} 週間ごと' },
+  'usage.window.month': { one: '1 か月あたり', other: '{count} か月ごと' },
+  'limit.reached': '使用量の上限に達しました。',
+  'limit.resets': '{time}にリセットされます。',
+  'limit.tryAgain': 'もう一度お試しいただけます。',
+
+  // ThreadStateTag
+  'thread.state.queued': '待機中',
+  'thread.state.processing': '処理中',
+  'thread.state.completed': '完了',
+  'thread.state.failed': '失敗',
+  'thread.state.terminated': '終了',
+  'thread.state.guardrail': 'ガードレール作動',
+  'thread.state.paused': '一時停止中',
+  'thread.state.pausedForApproval': '承認待ち',
+  'thread.state.approvalRejected': '承認却下',
+  'thread.state.waitingForResponse': '応答待ち',
+  'thread.state.pausedForResume': '再開予定',
+  'thread.state.handedOff': '引き継ぎ済み',
+  'thread.state.handedOffCount': '引き継ぎ済み ({count})',
+  'thread.tooltip.approval': 'エージェントは実行再開の承認を待っています',
+  'thread.tooltip.resumeAt': 'エージェントは一時停止中です。{date} に再開します ({time})',
+  'thread.tooltip.resumeScheduled': 'エージェントは一時停止中です。予定時刻に再開します',
+  'thread.tooltip.waiting': 'エージェントは応答を待っています',
+  'thread.tooltip.finished': '手動で終了したスレッド',
+  'thread.tooltip.rejected': '承認は却下されました',
+  'thread.tooltip.guardrail': 'ガードレールの作動によりエージェントの実行が一時停止しました',
+  'thread.action.complete': '手動で完了',
+  'thread.action.pause': '一時停止',
+  'thread.action.resume': '再開',
+  'thread.action.review': '確認',
+  'thread.action.explain': 'スレッドを説明...',
+  'thread.explain.title': '「{agent}」の実行内容',
+  'thread.explain.noApiKey': 'API キーが設定されていません。',
+  'thread.explain.failed': 'スレッドの説明を取得できませんでした。',
+  'thread.review.title': 'エージェントのリクエストを確認',
+  'thread.review.request': 'エージェントのリクエスト:',
+  'thread.review.defaultRequest': 'エージェントは実行再開の承認を待っています。',
+  'thread.review.feedback': 'フィードバック:',
+  'thread.review.placeholder': 'エージェントへのフィードバック (任意)...',
+  'thread.review.reject': '却下して終了',
+  'thread.review.continue': 'フィードバックを付けて続行',
+  'thread.review.approve': '承認',
+  'thread.complete.title': '実行を手動で完了',
+  'thread.complete.confirm': '完了',
+  'thread.complete.heading': '手動完了の確認',
+  'thread.complete.description': 'このエージェントの実行を手動で完了しようとしています。',
+  'thread.complete.as': '完了時の状態:',
+  'thread.complete.terminated': '終了 - 手動終了としてスレッドを完了',
+  'thread.complete.completed': '完了 - 正常完了としてスレッドを完了',
+  'thread.complete.failed': '失敗 - 失敗またはエラーとしてスレッドを完了',
+  'thread.complete.warning':
+    'この操作を行うと、進行中のすべての処理が直ちに停止します。完了後に実行を再開することはできません。',
+  'thread.pause.title': 'スレッドを一時停止',
+  'thread.pause.message': '待機中のこのスレッドを一時停止します。後で再開できます。',
+  'thread.resume.title': 'スレッドを再開',
+  'thread.resume.message': 'このスレッドを再開します。キューに戻り、可能になり次第処理されます。',
+
+  // AICommandBar
+  'commandBar.placeholder': 'AI に質問...',
+  'commandBar.commands': 'コマンド',
+  'commandBar.navigateHint': 'で移動、',
+  'commandBar.selectHint': 'で選択',
+  'commandBar.history': 'コマンド履歴',
+  'commandBar.historyCommand': 'コマンド履歴を表示',
+  'commandBar.clearHistory': 'クリア',
+  'commandBar.noHistory': '履歴はまだありません',
+  'commandBar.toolCalls': 'ツール呼び出し',
+  'commandBar.noResponse': '応答なし',
+
+  // AIGenerationButton
+  'generation.label': 'AI で生成',
+  'generation.placeholder': '生成したい内容を入力してください...',
+  'generation.confirm': '生成',
+  'generation.loading': '生成中...',
+
+  // AIElementWrapper
+  'elementWrapper.trigger': 'AI に質問',
+  'elementWrapper.tellMeMore': '次について詳しく教えてください: {subject}',
+  'elementWrapper.thinking': '考え中…',
+
+  // Accessibility
+  'a11y.messages': '会話のメッセージ',
+  'a11y.userMessage': 'あなた、{time}',
+  'a11y.assistantMessage': 'アシスタント、{time}',
+  'a11y.newAssistantMessage': 'アシスタント: {message}',
+  'a11y.responding': 'アシスタントが応答しています',
+  'a11y.toolRunning': '実行中: {tool}',
+  'a11y.toolStatus.pending': '待機中',
+  'a11y.toolStatus.executing': '実行中',
+  'a11y.toolStatus.completed': '完了',
+  'a11y.toolStatus.error': '失敗',
+  'a11y.toolCalls': 'ツール呼び出し',
+  'a11y.messageActions': 'メッセージの操作',
+};
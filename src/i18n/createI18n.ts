@@ -0,0 +1,120 @@
+import { en } from './catalogs/en';
+import { es } from './catalogs/es';
+import { de } from './catalogs/de';
+import { ja } from './catalogs/ja';
+import type {
+  DevicI18n,
+  DevicI18nOptions,
+  DevicMessage,
+  DevicMessageOverrides,
+  DevicMessageParams,
+  DevicMessages,
+} from './types';
+
+/**
+ * Catalogs shipped with the library, by language
+ */
+export const BUNDLED_CATALOGS: Record<string, DevicMessageOverrides> = { en, es, de, ja };
+
+const DEFAULT_LOCALE = 'en';
+
+function interpolate(message: string, params?: DevicMessageParams): string {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Resolve the catalog for a locale: English, then the bundled language
+ * catalog (e.g. 'es' for 'es-MX'), then an exact-locale catalog, then
+ * `overrides`.
+ */
+export function resolveMessages(
+  locale: string,
+  overrides?: DevicMessageOverrides
+): DevicMessages {
+  const language = locale.split('-')[0].toLowerCase();
+  return {
+    ...en,
+    ...BUNDLED_CATALOGS[language],
+    ...(locale !== language && BUNDLED_CATALOGS[locale]),
+    ...overrides,
+  } as DevicMessages;
+}
+
+/**
+ * Create a translator for a locale. DevicProvider builds one from its
+ * `locale` and `messages` props; components outside a provider use English.
+ */
+export function createI18n(options: DevicI18nOptions = {}): DevicI18n {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const messages = resolveMessages(locale, options.messages);
+
+  let pluralRules: Intl.PluralRules | null = null;
+  const selectPlural = (count: number): Intl.LDMLPluralRule => {
+    try {
+      pluralRules = pluralRules ?? new Intl.PluralRules(locale);
+      return pluralRules.select(count);
+    } catch {
+      return count === 1 ? 'one' : 'other';
+    }
+  };
+
+  const pick = (message: DevicMessage, params?: DevicMessageParams): string => {
+    if (typeof message === 'string') return message;
+    const count = Number(params?.count ?? 0);
+    return message[selectPlural(count)] ?? message.other;
+  };
+
+  const t: DevicI18n['t'] = (key, params) => {
+    const message = messages[key] ?? en[key] ?? key;
+    return interpolate(pick(message, params), params);
+  };
+
+  const formatDate: DevicI18n['formatDate'] = (value, formatOptions) => {
+    const date = new Date(value);
+    try {
+      return date.toLocaleString(locale, formatOptions);
+    } catch {
+      return date.toLocaleString(undefined, formatOptions);
+    }
+  };
+
+  const formatRelativeTime: DevicI18n['formatRelativeTime'] = (value, relOptions = {}) => {
+    const ms = new Date(value).getTime() - (relOptions.now ?? Date.now());
+    const minutes = Math.round(ms / 60000);
+    const hours = Math.round(minutes / 60);
+    const [amount, unit]: [number, Intl.RelativeTimeFormatUnit] =
+      minutes === 0
+        ? [0, 'second']
+        : Math.abs(minutes) < 60
+          ? [minutes, 'minute']
+          : Math.abs(hours) < 48
+            ? [hours, 'hour']
+            : [Math.round(hours / 24), 'day'];
+    try {
+      return new Intl.RelativeTimeFormat(locale, {
+        numeric: 'auto',
+        style: relOptions.style ?? 'long',
+      }).format(amount, unit);
+    } catch {
+      return `${amount} ${unit}${Math.abs(amount) === 1 ? '' : 's'}`;
+    }
+  };
+
+  const formatNumber: DevicI18n['formatNumber'] = (value, numberOptions) => {
+    try {
+      return new Intl.NumberFormat(locale, numberOptions).format(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  return { locale, t, formatDate, formatRelativeTime, formatNumber };
+}
+
+/**
+ * English translator used when no DevicProvider is present
+ */
+export const defaultI18n: DevicI18n = createI18n();
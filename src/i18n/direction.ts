@@ -0,0 +1,55 @@
+/**
+ * Resolved writing direction
+ */
+export type DevicDirection = 'ltr' | 'rtl';
+
+/**
+ * Writing direction option; `'auto'` detects it from the locale or document
+ */
+export type DevicDirectionOption = DevicDirection | 'auto';
+
+/**
+ * Languages written right-to-left
+ */
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'iw', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi']);
+
+/**
+ * Whether a locale (e.g. 'ar-EG', 'he') is written right-to-left
+ */
+export function isRtlLocale(locale: string): boolean {
+  return RTL_LANGUAGES.has(locale.split('-')[0].toLowerCase());
+}
+
+/**
+ * Read an explicit `dir` from `<html>` or `<body>`, if any
+ */
+export function detectDocumentDirection(): DevicDirection | null {
+  if (typeof document === 'undefined') return null;
+  for (const el of [document.documentElement, document.body]) {
+    const dir = el?.getAttribute('dir')?.toLowerCase();
+    if (dir === 'rtl' || dir === 'ltr') return dir;
+  }
+  return null;
+}
+
+/**
+ * Resolve a direction option. `'auto'` uses the explicitly configured
+ * locale first, then the document's `dir`, then falls back to 'ltr'.
+ */
+export function resolveDirection(direction: DevicDirectionOption = 'auto', locale?: string): DevicDirection {
+  if (direction !== 'auto') return direction;
+  if (locale) return isRtlLocale(locale) ? 'rtl' : 'ltr';
+  return detectDocumentDirection() ?? 'ltr';
+}
+
+/**
+ * Map a logical side ('start' | 'end') to a physical one for a direction.
+ * Physical sides are returned unchanged.
+ */
+export function resolveInlineSide(
+  side: 'left' | 'right' | 'start' | 'end',
+  direction: DevicDirection
+): 'left' | 'right' {
+  if (side === 'left' || side === 'right') return side;
+  return (side === 'start') === (direction === 'ltr') ? 'left' : 'right';
+}
@@ -0,0 +1,13 @@
+export { createI18n, defaultI18n, resolveMessages, BUNDLED_CATALOGS } from './createI18n';
+export { isRtlLocale, detectDocumentDirection, resolveDirection, resolveInlineSide } from './direction';
+export type { DevicDirection, DevicDirectionOption } from './direction';
+export type {
+  DevicI18n,
+  DevicI18nOptions,
+  DevicMessage,
+  DevicPluralMessage,
+  DevicMessageKey,
+  DevicMessages,
+  DevicMessageOverrides,
+  DevicMessageParams,
+} from './types';
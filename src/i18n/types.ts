@@ -0,0 +1,83 @@
+import type { en } from './catalogs/en';
+
+/**
+ * Plural forms of a message, selected with `Intl.PluralRules` from the
+ * `count` parameter. `other` is required; the remaining CLDR categories are
+ * used by the locales that have them.
+ */
+export type DevicPluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/**
+ * A catalog entry: plain text or plural forms. `{name}` placeholders are
+ * replaced by the matching parameter.
+ */
+export type DevicMessage = string | DevicPluralMessage;
+
+/**
+ * Keys of the built-in UI strings
+ */
+export type DevicMessageKey = keyof typeof en;
+
+/**
+ * A complete message catalog
+ */
+export type DevicMessages = Record<DevicMessageKey, DevicMessage>;
+
+/**
+ * Partial catalog: a bundled locale or integrator overrides. Missing keys
+ * fall back to English.
+ */
+export type DevicMessageOverrides = Partial<DevicMessages>;
+
+export type DevicMessageParams = Record<string, string | number>;
+
+export interface DevicI18nOptions {
+  /**
+   * BCP 47 locale (e.g. 'es', 'de-AT', 'ja-JP'). Bundled catalogs are
+   * matched by language; dates and numbers use the full locale.
+   * @default 'en'
+   */
+  locale?: string;
+
+  /**
+   * Messages overriding the catalog of the locale, e.g. to reword a label
+   * or to supply a language without a bundled catalog
+   */
+  messages?: DevicMessageOverrides;
+}
+
+/**
+ * Localised strings and formatters for the built-in UI
+ */
+export interface DevicI18n {
+  /**
+   * Resolved locale
+   */
+  locale: string;
+
+  /**
+   * Translate a message. Plural messages pick their form from `params.count`.
+   */
+  t: (key: DevicMessageKey, params?: DevicMessageParams) => string;
+
+  /**
+   * Format a date/time for the locale
+   */
+  formatDate: (value: number | Date, options?: Intl.DateTimeFormatOptions) => string;
+
+  /**
+   * Format the distance to a point in time, e.g. "in 5 minutes" / "dentro de
+   * 5 minutos"; under a minute reads "now".
+   */
+  formatRelativeTime: (
+    value: number | Date,
+    options?: { style?: Intl.RelativeTimeFormatStyle; now?: number }
+  ) => string;
+
+  /**
+   * Format a number for the locale
+   */
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
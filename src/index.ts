@@ -8,10 +8,12 @@ export type {
   SubtenantMetadata,
   AIReference,
   DrawerRegistration,
+  ToolRegistration,
+  ApplicationStateProvider,
 } from './provider';
 
 // Components
-export { ChatDrawer, ChatMessages, ChatInput, ToolTimeline, ConversationSelector, HandoffSubagentWidget, ReferenceChip, UsageBar, LimitBanner } from './components/ChatDrawer';
+export { ChatDrawer, ChatMessages, ChatInput, ToolTimeline, ConversationSelector, HandoffSubagentWidget, ReferenceChip, UsageBar, LimitBanner, ExportMenu, ReplayControls, AssistantPicker, ToolConfirmationCard } from './components/ChatDrawer';
 export type {
   ChatDrawerProps,
   ChatDrawerOptions,
@@ -19,6 +21,12 @@ export type {
   ChatMessagesProps,
   ChatInputProps,
   CustomPromptBoxProps,
+  ChatDrawerComponents,
+  ChatHeaderSlotProps,
+  MessageBubbleSlotProps,
+  ToolTimelineItemSlotProps,
+  EmptyStateSlotProps,
+  ChatTriggerSlotProps,
   MessageBubbleRenderer,
   MessageBubbleRendererProps,
   ToolTimelineProps,
@@ -32,6 +40,10 @@ export type {
   UsageBarDisplay,
   UsageBarData,
   LimitBannerProps,
+  ExportMenuProps,
+  AssistantPickerProps,
+  ToolConfirmationCardProps,
+  ReplayControlsProps,
 } from './components/ChatDrawer';
 
 // ThreadStateTag
@@ -81,24 +93,117 @@ export type {
 // } from './components/AutocompleteInput';
 
 // Hooks
-export { useDevicChat, usePolling, useModelInterface, useSpeechRecording } from './hooks';
+export {
+  useDevicChat,
+  usePolling,
+  useRealtimeStream,
+  useOutbox,
+  useMessageBranches,
+  useModelInterface,
+  ToolCallAbortedError,
+  useRegisterTool,
+  useRegisteredTools,
+  useApplicationState,
+  useSpeechRecording,
+  useDevicI18n,
+  useDevicDirection,
+  useFocusTrap,
+  useDevicTheme,
+  useDevicShadowDom,
+  usePortalContainer,
+} from './hooks';
 export type {
   UseDevicChatOptions,
   UseDevicChatResult,
   UsePollingOptions,
   UsePollingResult,
+  UseRealtimeStreamOptions,
+  UseRealtimeStreamResult,
+  UseOutboxOptions,
+  UseOutboxResult,
+  OutboxEntry,
+  UseMessageBranchesResult,
+  MessageBranchGroup,
+  MessageBranchVariant,
+  MessageBranchInfo,
   UseModelInterfaceOptions,
   UseModelInterfaceResult,
   PendingWidgetCall,
+  PendingConfirmationCall,
   HandleToolCallsResult,
+  UseRegisterToolOptions,
+  UseApplicationStateOptions,
   UseSpeechRecordingOptions,
   UseSpeechRecordingResult,
   SpeechRecordingStatus,
+  UseFocusTrapOptions,
 } from './hooks';
 
+// i18n
+export {
+  createI18n,
+  defaultI18n,
+  resolveMessages,
+  BUNDLED_CATALOGS,
+  isRtlLocale,
+  resolveDirection,
+} from './i18n';
+export type {
+  DevicDirection,
+  DevicDirectionOption,
+  DevicI18n,
+  DevicI18nOptions,
+  DevicMessage,
+  DevicPluralMessage,
+  DevicMessageKey,
+  DevicMessages,
+  DevicMessageOverrides,
+  DevicMessageParams,
+} from './i18n';
+
+// Theme
+export {
+  lightTheme,
+  darkTheme,
+  highContrastTheme,
+  THEME_PRESETS,
+  createTheme,
+  resolveTheme,
+  themeToCssVars,
+  detectSystemTheme,
+} from './theme';
+export type {
+  DevicTheme,
+  DevicThemeColors,
+  DevicThemeSpacing,
+  DevicThemeRadius,
+  DevicThemeTypography,
+  DevicThemeShadows,
+  DevicThemeOverrides,
+  DevicThemePreset,
+  DevicThemeMode,
+  DevicThemeInput,
+  DevicThemeOption,
+} from './theme';
+
+// Shadow DOM isolation
+export { DevicShadowRoot, collectDocumentStyles, isEventInside, getActiveElement } from './shadow';
+export type { DevicShadowRootProps, DevicShadowDomOptions, DevicShadowDomOption } from './shadow';
+
 // API Client
 export { DevicApiClient, DevicApiError } from './api/client';
-export type { DevicApiClientConfig } from './api/client';
+export type {
+  DevicApiClientConfig,
+  DevicApiClientOptions,
+  DevicApiMiddleware,
+  DevicApiRequest,
+  RetryPolicy,
+} from './api/client';
+export type {
+  DevicAuthToken,
+  DevicTokenProvider,
+  DevicAuthState,
+} from './api/auth';
 
 // API Types
 export {
@@ -116,15 +221,26 @@ export type {
   AsyncResponse,
   RealtimeChatHistory,
   RealtimeStatus,
+  RealtimeTransport,
+  RealtimeStreamEvent,
   ChatHistory,
   AssistantSpecialization,
   ModelInterfaceTool,
   ModelInterfaceToolSchema,
+  JsonSchema,
+  JsonSchemaType,
+  InferJsonSchema,
+  InferToolParams,
   ResponseWidgetProps,
   ResponseWidgetConfig,
+  ToolConfirmationPolicy,
+  ToolCallContext,
   PreviousMessage,
   ApiError,
   ConversationSummary,
+  ConversationSearchMatch,
+  SearchConversationsResponse,
+  UpdateConversationDto,
   FeedbackSubmission,
   FeedbackEntry,
   AgentThreadDto,
@@ -148,3 +264,34 @@ export type { MessageActionsProps, FeedbackModalProps, FeedbackState, FeedbackTh
 // Utilities
 export { generateId, deepMerge, debounce, throttle, formatFileSize, storage, segmentToolCalls } from './utils';
 export type { ToolGroupSegment } from './utils';
+export {
+  CHAT_EXPORT_VERSION,
+  toChatExport,
+  exportChatAsJSON,
+  exportChatAsMarkdown,
+  exportChatAsHTML,
+  downloadChatExport,
+  ChatImportError,
+  parseChatExport,
+  chatExportToPreviousConversation,
+  chatExportToMessages,
+  ToolArgumentsError,
+  validateJsonSchema,
+  parseToolArguments,
+  defineModelInterfaceTool,
+  REDACTED_VALUE,
+  snapshotApplicationState,
+} from './utils';
+export type {
+  ToolArgumentIssue,
+  ApplicationStateOptions,
+  ApplicationStateSource,
+  ChatExport,
+  ChatExportFormat,
+  ChatExportMessage,
+  ChatExportToolCall,
+  ChatExportOptions,
+} from './utils';
+
+// Testing helpers are published separately as `@devicai/ui/testing` so the
+// mock backend stays out of production bundles
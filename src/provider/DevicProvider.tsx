@@ -1,13 +1,25 @@
-import React, { useMemo, useState, useRef, useCallback } from 'react';
+import React, { useMemo, useState, useRef, useCallback, useEffect } from 'react';
 import { DevicContext } from './DevicContext';
 import { DevicApiClient } from '../api/client';
-import { generateId } from '../utils';
+import type { DevicApiClientOptions, DevicApiMiddleware } from '../api/client';
+import { TokenManager } from '../api/auth';
+import type { DevicAuthState } from '../api/auth';
+import { generateId, createLogger } from '../utils';
+import { createI18n, resolveDirection } from '../i18n';
+import { resolveTheme, themeFollowsSystem } from '../theme';
+import { resolveShadowDom } from '../shadow';
+import { useSystemTheme } from '../hooks/useSystemTheme';
 import type {
   DevicProviderProps,
   DevicContextValue,
   AIReference,
   DrawerRegistration,
+  ToolRegistration,
+  ApplicationStateProvider,
 } from './types';
+import type { ModelInterfaceTool } from '../api/types';
+import { snapshotApplicationState } from '../utils/applicationState';
+import type { ApplicationStateSource } from '../utils/applicationState';
 
 const DEFAULT_BASE_URL = 'https://api.devic.ai';
 
@@ -25,9 +37,66 @@ const DEFAULT_BASE_URL = 'https://api.devic.ai';
  *   <App />
  * </DevicProvider>
  * ```
+ *
+ * @example Scenario mode (no backend)
+ * ```tsx
+ * import { createScenarioServer } from '@devicai/ui/testing';
+ *
+ * const scenario = createScenarioServer({
+ *   turns: [{ steps: [{ type: 'tool_call', name: 'search_docs', result: [], delayMs: 800 }] }],
+ * });
+ *
+ * <DevicProvider scenario={scenario}>
+ *   <ChatDrawer assistantId="mock-assistant" />
+ * </DevicProvider>
+ * ```
+ *
+ * @example Localised UI
+ * ```tsx
+ * <DevicProvider apiKey="devic-xxx" locale="es" messages={{ 'chat.title': 'Asistente' }}>
+ *   <App />
+ * </DevicProvider>
+ * ```
+ *
+ * @example Right-to-left UI (also detected from `<html dir="rtl">`)
+ * ```tsx
+ * <DevicProvider apiKey="devic-xxx" locale="ar" messages={arabicMessages}>
+ *   <App />
+ * </DevicProvider>
+ * ```
+ *
+ * @example Themed UI following the system light/dark setting
+ * ```tsx
+ * <DevicProvider apiKey="devic-xxx" theme={{ base: 'auto', colors: { primary: '#7c3aed' } }}>
+ *   <App />
+ * </DevicProvider>
+ * ```
+ *
+ * @example Isolated from the host page's CSS
+ * ```tsx
+ * import devicCss from '@devicai/ui/styles.css?inline';
+ *
+ * <DevicProvider apiKey="devic-xxx" shadowDom={{ css: devicCss }}>
+ *   <App />
+ * </DevicProvider>
+ * ```
+ *
+ * @example Short-lived tokens instead of an API key
+ * ```tsx
+ * <DevicProvider
+ *   getToken={async () => {
+ *     const res = await fetch('/api/devic-token');
+ *     return res.json(); // { token, expiresAt }
+ *   }}
+ * >
+ *   <App />
+ * </DevicProvider>
+ * ```
  */
 export function DevicProvider({
-  apiKey,
+  apiKey: propsApiKey,
+  getToken,
+  tokenRefreshMargin,
   baseUrl = DEFAULT_BASE_URL,
   tenantId,
   tenantMetadata,
@@ -35,6 +104,16 @@ export function DevicProvider({
   subtenantMetadata,
   tags,
   debug,
+  middleware,
+  fetch: propsFetch,
+  pollingInterval,
+  scenario,
+  locale,
+  messages,
+  direction: directionOption,
+  theme: themeOption,
+  shadowDom: shadowDomOption,
+  applicationState: applicationStateOption,
   children,
 }: DevicProviderProps): JSX.Element {
   const [references, setReferences] = useState<AIReference[]>([]);
@@ -67,15 +146,206 @@ export function DevicProvider({
     drawerRef.current?.open();
   }, []);
 
+  // Tools contributed by mounted components (useRegisterTool)
+  const [toolRegistrations, setToolRegistrations] = useState<ToolRegistration[]>([]);
+
+  const registerTool = useCallback((registration: ToolRegistration) => {
+    setToolRegistrations((prev) => [...prev, registration]);
+    return () => {
+      setToolRegistrations((prev) => prev.filter((r) => r !== registration));
+    };
+  }, []);
+
+  const registeredTools = useMemo(() => {
+    const byName = new Map<string, ModelInterfaceTool>();
+    for (const { tool } of toolRegistrations) {
+      byName.delete(tool.toolName);
+      byName.set(tool.toolName, tool);
+    }
+    return Array.from(byName.values());
+  }, [toolRegistrations]);
+
+  const registeredApplicationState = useMemo(() => {
+    const states = toolRegistrations.filter((r) => r.applicationState);
+    if (states.length === 0) return undefined;
+    return Object.assign({}, ...states.map((r) => r.applicationState)) as Record<string, any>;
+  }, [toolRegistrations]);
+
+  // State providers are only read at send time, so they live in a ref and
+  // registering one does not re-render the tree
+  const stateProvidersRef = useRef<ApplicationStateProvider[]>([]);
+
+  const registerStateProvider = useCallback((provider: ApplicationStateProvider) => {
+    stateProvidersRef.current = [...stateProvidersRef.current, provider];
+    return () => {
+      stateProvidersRef.current = stateProvidersRef.current.filter((p) => p !== provider);
+    };
+  }, []);
+
+  const registeredApplicationStateRef = useRef(registeredApplicationState);
+  registeredApplicationStateRef.current = registeredApplicationState;
+  const applicationStateOptionRef = useRef(applicationStateOption);
+  applicationStateOptionRef.current = applicationStateOption;
+
+  const log = useMemo(() => createLogger(!!debug), [debug]);
+
+  const collectApplicationState = useCallback(() => {
+    const options = applicationStateOptionRef.current;
+    if (options === false) return undefined;
+
+    const sources = new Map<string, ApplicationStateSource>();
+    for (const [key, value] of Object.entries(registeredApplicationStateRef.current ?? {})) {
+      sources.set(key, { key, value });
+    }
+    for (const provider of stateProvidersRef.current) {
+      try {
+        const value = provider.getState();
+        sources.delete(provider.key);
+        sources.set(provider.key, { key: provider.key, value, redactKeys: provider.redactKeys });
+      } catch (err) {
+        // A failing provider must not block the message
+        log.warn(`[DevicProvider] Application state provider "${provider.key}" failed:`, err);
+      }
+    }
+    return snapshotApplicationState(Array.from(sources.values()), options);
+  }, [log]);
+
+  // Token auth: one manager per provider, shared by every client through
+  // clientOptions. The provider prop is read through a ref so an inline
+  // function does not reset the cached token.
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+  const useTokenAuth = !!getToken;
+
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenState, setTokenState] = useState<DevicAuthState | null>(null);
+
+  // Created by the effect so each mount owns a live manager (StrictMode
+  // runs the cleanup and the effect again on the same component)
+  const [tokenManager, setTokenManager] = useState<TokenManager | null>(null);
+
+  useEffect(() => {
+    if (!useTokenAuth) return;
+    const manager = new TokenManager(() => getTokenRef.current!(), {
+      refreshMargin: tokenRefreshMargin,
+      onChange: (state, current) => {
+        setTokenState(state);
+        setToken(current);
+      },
+    });
+    setTokenManager(manager);
+    // Failures are reflected in auth state
+    manager.getToken().catch(() => {});
+    return () => {
+      manager.dispose();
+      setTokenManager(null);
+      setToken(null);
+      setTokenState(null);
+    };
+  }, [useTokenAuth, tokenRefreshMargin]);
+
+  const refreshToken = useCallback(async () => {
+    await tokenManager?.getToken({ forceRefresh: true });
+  }, [tokenManager]);
+
+  // Scenario mode: requests are answered by the injected in-memory backend
+  const scenarioServer = scenario ?? null;
+  const fetchImpl = scenarioServer?.fetch ?? propsFetch;
+  const resolvedPollingInterval = pollingInterval ?? scenario?.pollingInterval;
+
+  const apiKey = useTokenAuth
+    ? token ?? ''
+    : propsApiKey ?? (scenarioServer ? 'scenario' : '');
+
+  const auth = useMemo<DevicAuthState>(() => {
+    if (useTokenAuth) {
+      return (
+        tokenState ??
+        tokenManager?.getState() ?? { mode: 'token', status: 'idle', expiresAt: null, error: null }
+      );
+    }
+    return {
+      mode: propsApiKey ? 'apiKey' : 'none',
+      status: propsApiKey ? 'ready' : 'idle',
+      expiresAt: null,
+      error: null,
+    };
+  }, [useTokenAuth, tokenManager, tokenState, propsApiKey]);
+
+  // Clients get a single stable middleware that forwards to the latest prop
+  // value, so changing the middleware array never recreates them.
+  const middlewareRef = useRef(middleware);
+  middlewareRef.current = middleware;
+
+  const clientOptions = useMemo<DevicApiClientOptions>(() => {
+    const forward: DevicApiMiddleware = {
+      onRequest: async (request) => {
+        let current = request;
+        for (const m of middlewareRef.current ?? []) {
+          if (m.onRequest) current = (await m.onRequest(current)) ?? current;
+        }
+        return current;
+      },
+      onResponse: async (response, request) => {
+        const chain = middlewareRef.current ?? [];
+        let current = response;
+        for (let i = chain.length - 1; i >= 0; i--) {
+          const m = chain[i];
+          if (m.onResponse) current = (await m.onResponse(current, request)) ?? current;
+        }
+        return current;
+      },
+      onError: async (error, request) => {
+        const chain = middlewareRef.current ?? [];
+        for (let i = chain.length - 1; i >= 0; i--) {
+          try {
+            await chain[i].onError?.(error, request);
+          } catch {
+            // ignore
+          }
+        }
+      },
+    };
+    return {
+      middleware: [forward],
+      getToken: tokenManager
+        ? (options) => tokenManager.getToken(options)
+        : undefined,
+      fetch: fetchImpl,
+    };
+  }, [tokenManager, fetchImpl]);
+
   const client = useMemo(
-    () => new DevicApiClient({ apiKey, baseUrl }),
-    [apiKey, baseUrl]
+    () => new DevicApiClient({ ...clientOptions, apiKey, baseUrl }),
+    [clientOptions, apiKey, baseUrl]
+  );
+
+  const i18n = useMemo(() => createI18n({ locale, messages }), [locale, messages]);
+  const direction = resolveDirection(directionOption, locale);
+
+  const systemTheme = useSystemTheme(themeFollowsSystem(themeOption));
+  const themeKey = themeOption ? JSON.stringify(themeOption) : '';
+  const theme = useMemo(
+    () => (themeOption ? resolveTheme(themeOption, systemTheme) : null),
+    // Compare by value so an inline theme object keeps the same theme
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [themeKey, systemTheme]
+  );
+
+  const shadowDomKey = shadowDomOption === undefined ? '' : JSON.stringify(shadowDomOption);
+  const shadowDom = useMemo(
+    () => resolveShadowDom(shadowDomOption, null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [shadowDomKey]
   );
 
   const contextValue = useMemo<DevicContextValue>(
     () => ({
       client,
+      clientOptions,
       apiKey,
+      auth,
+      refreshToken,
       baseUrl,
       tenantId,
       tenantMetadata,
@@ -84,16 +354,30 @@ export function DevicProvider({
       tags,
       isConfigured: !!apiKey,
       debug,
+      pollingInterval: resolvedPollingInterval,
+      scenarioServer,
+      i18n,
+      direction,
+      theme,
+      shadowDom,
       references,
       addReference,
       removeReference,
       clearReferences,
       registerDrawer,
       openDrawer,
+      registeredTools,
+      registeredApplicationState,
+      registerTool,
+      registerStateProvider,
+      collectApplicationState,
     }),
     [
       client,
+      clientOptions,
       apiKey,
+      auth,
+      refreshToken,
       baseUrl,
       tenantId,
       tenantMetadata,
@@ -101,12 +385,23 @@ export function DevicProvider({
       subtenantMetadata,
       tags,
       debug,
+      resolvedPollingInterval,
+      scenarioServer,
+      i18n,
+      direction,
+      theme,
+      shadowDom,
       references,
       addReference,
       removeReference,
       clearReferences,
       registerDrawer,
       openDrawer,
+      registeredTools,
+      registeredApplicationState,
+      registerTool,
+      registerStateProvider,
+      collectApplicationState,
     ]
   );
 
@@ -8,4 +8,6 @@ export type {
   SubtenantMetadata,
   AIReference,
   DrawerRegistration,
+  ToolRegistration,
+  ApplicationStateProvider,
 } from './types';
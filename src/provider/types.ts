@@ -1,4 +1,20 @@
-import type { DevicApiClient } from '../api/client';
+import type {
+  DevicApiClient,
+  DevicApiClientOptions,
+  DevicApiMiddleware,
+} from '../api/client';
+import type { DevicAuthState, DevicTokenProvider } from '../api/auth';
+import type { MockDevicServer } from '../testing';
+import type {
+  DevicDirection,
+  DevicDirectionOption,
+  DevicI18n,
+  DevicMessageOverrides,
+} from '../i18n';
+import type { DevicTheme, DevicThemeOption } from '../theme';
+import type { DevicShadowDomOption, DevicShadowDomOptions } from '../shadow';
+import type { ModelInterfaceTool } from '../api/types';
+import type { ApplicationStateOptions } from '../utils/applicationState';
 
 /**
  * Tenant-level identity metadata sent to the Devic API. Used for per-tenant
@@ -45,9 +61,23 @@ export interface SubtenantMetadata {
  */
 export interface DevicProviderConfig {
   /**
-   * API key for authentication
+   * API key for authentication. Prefer `getToken` in browsers so no
+   * long-lived key is shipped to the client.
    */
-  apiKey: string;
+  apiKey?: string;
+
+  /**
+   * Async provider of short-lived, scoped bearer tokens. When set it takes
+   * precedence over `apiKey`: the token is cached, refreshed before it
+   * expires and refreshed again if a request is rejected with 401.
+   */
+  getToken?: DevicTokenProvider;
+
+  /**
+   * Refresh the token this many ms before it expires
+   * @default 60000
+   */
+  tokenRefreshMargin?: number;
 
   /**
    * Base URL for the Devic API
@@ -89,6 +119,81 @@ export interface DevicProviderConfig {
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * Request/response interceptors applied to every API client created under
+   * this provider (chat, uploads, transcription, feedback, usage...).
+   * Useful to add headers, trace IDs or logging. The latest value is always
+   * used, so an inline array does not recreate the clients.
+   */
+  middleware?: DevicApiMiddleware[];
+
+  /**
+   * `fetch` implementation for every API client created under this provider.
+   * Defaults to the global `fetch`; pass a mock server's `fetch` in tests.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Default polling interval (ms) for realtime updates in every component
+   * and hook under this provider. Component options take precedence.
+   * @default 1000
+   */
+  pollingInterval?: number;
+
+  /**
+   * Scenario mode: serve every request from this in-memory backend instead
+   * of the Devic API (previews, demos, visual tests). Build it with
+   * `createScenarioServer` from `@devicai/ui/testing`, once, outside the
+   * component. `apiKey` is not needed.
+   */
+  scenario?: MockDevicServer;
+
+  /**
+   * Locale of the built-in UI strings, dates and numbers. Spanish, German
+   * and Japanese are bundled; other locales fall back to English text
+   * unless `messages` supplies it.
+   * @default 'en'
+   */
+  locale?: string;
+
+  /**
+   * Messages overriding the catalog of `locale`, by key
+   */
+  messages?: DevicMessageOverrides;
+
+  /**
+   * Writing direction of the UI. `'auto'` uses `locale` when it is set
+   * (Arabic, Hebrew, Persian, Urdu... are right-to-left), otherwise the
+   * `dir` of the document. Components may override it.
+   * @default 'auto'
+   */
+  direction?: DevicDirectionOption;
+
+  /**
+   * Design-token theme of every component under this provider: a preset
+   * ('light', 'dark', 'high-contrast'), `'auto'` to follow the system
+   * `prefers-color-scheme` / `prefers-contrast`, or token overrides on a
+   * `base` preset. Without it the components keep their stylesheet
+   * defaults. Component `theme` options and colour options override it.
+   */
+  theme?: DevicThemeOption;
+
+  /**
+   * Render ChatDrawer and AICommandBar inside shadow roots, and the portals
+   * of other components in an isolated layer, so page CSS cannot break
+   * them and the library stylesheet does not leak into the page. Components
+   * may override it with their own `shadowDom` option.
+   * @default false
+   */
+  shadowDom?: DevicShadowDomOption;
+
+  /**
+   * Size limits and redaction of the `applicationState` collected from
+   * registered state providers and sent with every message. `false` stops
+   * sending application state.
+   */
+  applicationState?: ApplicationStateOptions | false;
 }
 
 /**
@@ -117,6 +222,30 @@ export interface DrawerRegistration {
   sendMessage?: (message: string) => void;
 }
 
+/**
+ * Client-side tool contributed by a mounted component (see useRegisterTool).
+ * Chats under the provider send it with their next message while it is
+ * registered.
+ */
+export interface ToolRegistration {
+  tool: ModelInterfaceTool;
+  /** State merged into the `applicationState` of the next message */
+  applicationState?: Record<string, any>;
+}
+
+/**
+ * Source of application state (current route, selected record, form
+ * values...) read each time a message is sent (see useApplicationState)
+ */
+export interface ApplicationStateProvider {
+  /** Key of the state in `applicationState` (e.g. `'route'`); a later provider with the same key wins */
+  key: string;
+  /** Current state; called at send time */
+  getState: () => unknown;
+  /** Extra property names redacted from this provider's state */
+  redactKeys?: (string | RegExp)[];
+}
+
 /**
  * Context value provided by DevicProvider
  */
@@ -127,10 +256,27 @@ export interface DevicContextValue {
   client: DevicApiClient;
 
   /**
-   * Current API key
+   * Options shared by every API client created under the provider
+   * (spread into `new DevicApiClient({ ...clientOptions, apiKey, baseUrl })`)
+   */
+  clientOptions: DevicApiClientOptions;
+
+  /**
+   * Current API key, or the current short-lived token when the provider
+   * uses `getToken` (empty until the first token resolves)
    */
   apiKey: string;
 
+  /**
+   * Authentication mode and token lifecycle state
+   */
+  auth: DevicAuthState;
+
+  /**
+   * Force a token refresh (no-op in apiKey mode)
+   */
+  refreshToken: () => Promise<void>;
+
   /**
    * Base URL for the API
    */
@@ -171,6 +317,38 @@ export interface DevicContextValue {
    */
   debug?: boolean;
 
+  /**
+   * Default polling interval (ms) for realtime updates
+   */
+  pollingInterval?: number;
+
+  /**
+   * Mock backend playing the provider's `scenario` (null outside scenario
+   * mode). Use it to inspect requests or drive the scenario, e.g.
+   * `completeHandoff`.
+   */
+  scenarioServer: MockDevicServer | null;
+
+  /**
+   * Translator and formatters for the provider's `locale`
+   */
+  i18n: DevicI18n;
+
+  /**
+   * Resolved writing direction of the provider's UI
+   */
+  direction: DevicDirection;
+
+  /**
+   * Resolved theme of the provider (null when no `theme` is configured)
+   */
+  theme: DevicTheme | null;
+
+  /**
+   * Resolved shadow DOM settings of the provider (null without isolation)
+   */
+  shadowDom: DevicShadowDomOptions | null;
+
   /**
    * Active references created by AIElementWrapper components.
    * The ChatDrawer reads them to display chips and prefix outgoing messages.
@@ -202,6 +380,37 @@ export interface DevicContextValue {
    * Open the registered drawer (no-op if none is registered).
    */
   openDrawer: () => void;
+
+  /**
+   * Tools registered by mounted components. When two registrations use the
+   * same tool name, the latest one wins.
+   */
+  registeredTools: ModelInterfaceTool[];
+
+  /**
+   * Application state of the current registrations merged in registration
+   * order (undefined when none contributes any)
+   */
+  registeredApplicationState?: Record<string, any>;
+
+  /**
+   * Register a tool for every chat under the provider.
+   * Returns an unregister function for cleanup.
+   */
+  registerTool: (registration: ToolRegistration) => () => void;
+
+  /**
+   * Register a source of application state for every message sent under the
+   * provider. Returns an unregister function for cleanup.
+   */
+  registerStateProvider: (provider: ApplicationStateProvider) => () => void;
+
+  /**
+   * Snapshot of the registered application state, redacted and size-limited
+   * with the provider's `applicationState` options (undefined when empty or
+   * disabled). Chats call it when they send a message.
+   */
+  collectApplicationState: () => Record<string, any> | undefined;
 }
 
 /**
@@ -0,0 +1,71 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { attachDevicShadow } from './attachShadow';
+import { ShadowRootContext } from './context';
+import { createShadowStyleNodes } from './styles';
+import type { DevicShadowDomOptions } from './types';
+
+/**
+ * Props for DevicShadowRoot
+ */
+export interface DevicShadowRootProps {
+  /**
+   * Stylesheets and mode of the shadow root
+   */
+  options?: DevicShadowDomOptions;
+
+  children?: React.ReactNode;
+}
+
+/**
+ * Render children inside a shadow root, with the library stylesheet
+ * injected there, so page CSS cannot reach them and theirs cannot leak out.
+ * Portals of descendant components (tooltips, dropdowns) target the same
+ * root. The host element renders no box of its own.
+ *
+ * @example
+ * ```tsx
+ * import devicCss from '@devicai/ui/styles.css?inline';
+ *
+ * <DevicShadowRoot options={{ css: devicCss }}>
+ *   <ThreadStateTag threadId={threadId} />
+ * </DevicShadowRoot>
+ * ```
+ */
+export function DevicShadowRoot({ options = {}, children }: DevicShadowRootProps): JSX.Element {
+  const hostRef = useRef<HTMLElement>(null);
+  // Children render into the container from the first commit, so their
+  // refs are set when their effects run; it moves into the root on attach.
+  const [container] = useState(() =>
+    typeof document !== 'undefined' ? document.createElement('div') : null
+  );
+  // A host accepts a single shadow root; keep it across effect re-runs
+  const rootRef = useRef<ShadowRoot | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const optionsKey = JSON.stringify(options);
+
+  useLayoutEffect(() => {
+    const host = hostRef.current;
+    if (!host || !container) return;
+    if (!rootRef.current) {
+      rootRef.current = attachDevicShadow(host, optionsRef.current.mode, container).root;
+    }
+    const root = rootRef.current;
+    const nodes = createShadowStyleNodes(optionsRef.current, host.ownerDocument);
+    root.prepend(...nodes);
+    return () => nodes.forEach((node) => node.remove());
+  }, [container, optionsKey]);
+
+  const contextValue = useMemo(() => (container ? { container } : null), [container]);
+
+  return React.createElement(
+    'devic-shadow-host',
+    { ref: hostRef },
+    container &&
+      createPortal(
+        <ShadowRootContext.Provider value={contextValue}>{children}</ShadowRootContext.Provider>,
+        container
+      )
+  );
+}
@@ -0,0 +1,65 @@
+import { trackShadowEvents } from './dom';
+import { createShadowStyleNodes } from './styles';
+import type { DevicShadowDomOptions } from './types';
+
+/**
+ * Attach a shadow root to `host` and move `container`, the element content
+ * renders into, inside it. Styles are added separately so they can follow
+ * option changes.
+ */
+export function attachDevicShadow(
+  host: HTMLElement,
+  mode: DevicShadowDomOptions['mode'] = 'open',
+  container: HTMLElement = host.ownerDocument.createElement('div')
+): { root: ShadowRoot; container: HTMLElement } {
+  const root = host.attachShadow({ mode });
+  trackShadowEvents(root);
+  container.className = 'devic-shadow-mount';
+  root.appendChild(container);
+  return { root, container };
+}
+
+interface ShadowLayer {
+  host: HTMLElement;
+  container: HTMLElement;
+  users: number;
+}
+
+// Shared layers for portals of light-DOM components, by settings
+const layers = new Map<string, ShadowLayer>();
+
+/**
+ * Isolated layer at the end of `document.body` for the portals (tooltips,
+ * popovers) of components that live in the light DOM. Layers are shared by
+ * settings; the returned `release` removes the layer once unused.
+ */
+export function acquireShadowLayer(options: DevicShadowDomOptions): {
+  container: HTMLElement;
+  release: () => void;
+} {
+  const key = JSON.stringify(options);
+  let layer = layers.get(key);
+  if (!layer) {
+    const host = document.createElement('devic-shadow-layer');
+    const { root, container } = attachDevicShadow(host, options.mode);
+    root.prepend(...createShadowStyleNodes(options));
+    document.body.appendChild(host);
+    layer = { host, container, users: 0 };
+    layers.set(key, layer);
+  }
+  const acquired = layer;
+  acquired.users += 1;
+  let released = false;
+  return {
+    container: acquired.container,
+    release: () => {
+      if (released) return;
+      released = true;
+      acquired.users -= 1;
+      if (acquired.users === 0) {
+        acquired.host.remove();
+        layers.delete(key);
+      }
+    },
+  };
+}
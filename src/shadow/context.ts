@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Shadow root a component renders in
+ */
+export interface DevicShadowRootContextValue {
+  /** Element inside the shadow root that content and portals render into */
+  container: HTMLElement;
+}
+
+export const ShadowRootContext = createContext<DevicShadowRootContextValue | null>(null);
+
+/**
+ * The enclosing DevicShadowRoot, or null in the light DOM
+ */
+export function useShadowRootContext(): DevicShadowRootContextValue | null {
+  return useContext(ShadowRootContext);
+}
@@ -0,0 +1,73 @@
+// Composed paths recorded inside closed shadow roots, whose nodes are
+// missing from the path seen by document listeners
+const closedRootPaths = new WeakMap<Event, EventTarget[]>();
+
+const TRACKED_EVENTS = ['mousedown', 'pointerdown', 'touchstart', 'click', 'keydown'];
+
+/**
+ * Record the full composed path of events inside `root` so document
+ * listeners can still locate their target when the root is closed.
+ * Returns a function removing the listeners.
+ */
+export function trackShadowEvents(root: ShadowRoot): () => void {
+  if (root.mode === 'open') return () => {};
+  const record = (event: Event) => {
+    if (!closedRootPaths.has(event)) closedRootPaths.set(event, event.composedPath());
+  };
+  for (const type of TRACKED_EVENTS) root.addEventListener(type, record, true);
+  return () => {
+    for (const type of TRACKED_EVENTS) root.removeEventListener(type, record, true);
+  };
+}
+
+function eventPath(event: Event): EventTarget[] | null {
+  return closedRootPaths.get(event) ?? (typeof event.composedPath === 'function' ? event.composedPath() : null);
+}
+
+/**
+ * Element an event originated from. Events leaving a shadow root are
+ * retargeted to its host, so `event.target` seen by document listeners is
+ * the host; the composed path still starts at the real target.
+ */
+export function getEventTarget(event: Event): Element | null {
+  const origin = eventPath(event)?.[0] ?? event.target;
+  return origin instanceof Element ? origin : null;
+}
+
+/**
+ * Whether an event originated inside `element`, across shadow boundaries
+ * (outside-click detection)
+ */
+export function isEventInside(event: Event, element: Element | null | undefined): boolean {
+  if (!element) return false;
+  const path = eventPath(event);
+  if (path) return path.includes(element);
+  return event.target instanceof Node && element.contains(event.target);
+}
+
+/**
+ * Focused element, looking inside shadow roots (`document.activeElement`
+ * stops at the host). Pass a node inside the component so a closed root,
+ * which the document cannot see into, is searched too.
+ */
+export function getActiveElement(context?: Node | null): Element | null {
+  const root = context?.getRootNode();
+  if (root instanceof ShadowRoot && root.activeElement) return root.activeElement;
+  let active = document.activeElement;
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active;
+}
+
+/**
+ * Text selection covering `node`. Chromium only exposes selections inside
+ * a shadow root through the root itself.
+ */
+export function getSelectionFor(node: Node | null): Selection | null {
+  const root = node?.getRootNode() as (ShadowRoot & { getSelection?: () => Selection | null }) | undefined;
+  if (root && root instanceof ShadowRoot && typeof root.getSelection === 'function') {
+    return root.getSelection();
+  }
+  return typeof window !== 'undefined' ? window.getSelection() : null;
+}
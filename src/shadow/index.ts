@@ -0,0 +1,9 @@
+export type { DevicShadowDomOptions, DevicShadowDomOption } from './types';
+export { DevicShadowRoot } from './DevicShadowRoot';
+export type { DevicShadowRootProps } from './DevicShadowRoot';
+export { ShadowRootContext, useShadowRootContext } from './context';
+export type { DevicShadowRootContextValue } from './context';
+export { resolveShadowDom } from './resolveShadowDom';
+export { attachDevicShadow, acquireShadowLayer } from './attachShadow';
+export { collectDocumentStyles, createShadowStyleNodes } from './styles';
+export { trackShadowEvents, getEventTarget, isEventInside, getActiveElement, getSelectionFor } from './dom';
@@ -0,0 +1,16 @@
+import type { DevicShadowDomOption, DevicShadowDomOptions } from './types';
+
+/**
+ * Resolve a component's `shadowDom` option against the provider's
+ * settings: undefined inherits them, `true` enables isolation with them (or
+ * the defaults), objects are merged over them. Null means no isolation.
+ */
+export function resolveShadowDom(
+  option: DevicShadowDomOption | undefined,
+  parent: DevicShadowDomOptions | null
+): DevicShadowDomOptions | null {
+  if (option === undefined) return parent;
+  if (option === false) return null;
+  if (option === true) return parent ?? {};
+  return { ...parent, ...option };
+}
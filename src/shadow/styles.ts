@@ -0,0 +1,54 @@
+import type { DevicShadowDomOptions } from './types';
+
+/**
+ * Base rules of every shadow root: the host renders no box of its own and
+ * stops inheriting the page's text styles (custom properties still inherit,
+ * so `--devic-*` variables set on the page keep working).
+ */
+const HOST_CSS = ':host { all: initial; display: contents; } .devic-shadow-mount { display: contents; }';
+
+/**
+ * Library rules of the document's stylesheets: every rule mentioning a
+ * `devic-` class or keyframes name. Stylesheets from another origin cannot
+ * be read and are skipped.
+ */
+export function collectDocumentStyles(doc: Document = document): string {
+  const chunks: string[] = [];
+  for (const sheet of Array.from(doc.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      continue;
+    }
+    for (const rule of Array.from(rules)) {
+      if (rule.cssText.includes('devic-')) chunks.push(rule.cssText);
+    }
+  }
+  return chunks.join('\n');
+}
+
+/**
+ * Style and link elements to insert at the top of a shadow root
+ */
+export function createShadowStyleNodes(options: DevicShadowDomOptions, doc: Document = document): HTMLElement[] {
+  const css = options.css === undefined ? [] : ([] as string[]).concat(options.css);
+  const stylesheets = options.stylesheets ?? [];
+  const adopt = options.adoptDocumentStyles ?? (css.length === 0 && stylesheets.length === 0);
+
+  const style = (text: string) => {
+    const el = doc.createElement('style');
+    el.textContent = text;
+    return el;
+  };
+  const nodes: HTMLElement[] = [style(HOST_CSS)];
+  if (adopt) nodes.push(style(collectDocumentStyles(doc)));
+  for (const href of stylesheets) {
+    const link = doc.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = href;
+    nodes.push(link);
+  }
+  for (const text of css) nodes.push(style(text));
+  return nodes;
+}
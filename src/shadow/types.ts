@@ -0,0 +1,35 @@
+/**
+ * Shadow DOM isolation settings
+ */
+export interface DevicShadowDomOptions {
+  /**
+   * CSS injected into the shadow root, usually the library stylesheet
+   * imported as text (`import css from '@devicai/ui/styles.css?inline'`)
+   */
+  css?: string | string[];
+
+  /**
+   * Stylesheet URLs loaded inside the shadow root with `<link>`
+   */
+  stylesheets?: string[];
+
+  /**
+   * Copy the library rules (`.devic-*` selectors and keyframes) from the
+   * document's stylesheets. Cross-origin stylesheets cannot be read; load
+   * them with `stylesheets` instead.
+   * @default true when neither `css` nor `stylesheets` is set
+   */
+  adoptDocumentStyles?: boolean;
+
+  /**
+   * Shadow root mode. Read once, when the root is attached.
+   * @default 'open'
+   */
+  mode?: 'open' | 'closed';
+}
+
+/**
+ * `true` to isolate with the default settings (or the provider's), `false`
+ * to render in the light DOM, or explicit settings
+ */
+export type DevicShadowDomOption = boolean | DevicShadowDomOptions;
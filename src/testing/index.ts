@@ -0,0 +1,16 @@
+export { createMockDevicServer } from './mockServer';
+export { createScenarioServer } from './scenario';
+export type {
+  MockDevicServer,
+  MockDevicServerOptions,
+  MockTurn,
+  MockTurnStep,
+  MockTurnContext,
+  MockResponder,
+  MockRequest,
+} from './mockServer';
+export type {
+  DevicScenario,
+  DevicScenarioConversation,
+  DevicScenarioMessage,
+} from './scenario';
@@ -0,0 +1,968 @@
+import { AgentThreadState } from '../api/types';
+import type {
+  AgentDto,
+  AgentThreadDto,
+  AssistantSpecialization,
+  ChatHistory,
+  ChatMessage,
+  ConversationSummary,
+  FeedbackEntry,
+  ProcessMessageDto,
+  RealtimeChatHistory,
+  RealtimeStatus,
+  TenantLimitExceeded,
+  TenantUsage,
+  TenantUsageHistoryRow,
+  ToolCall,
+  WhisperTranscriptionResponse,
+} from '../api/types';
+
+/**
+ * One step of a scripted assistant turn
+ */
+export type MockTurnStep = (
+  /** An assistant text message */
+  | { type: 'message'; content: string }
+  /**
+   * A tool call. With `result` the tool runs server-side and its output is
+   * recorded immediately; without it the turn stops in
+   * `waiting_for_tool_response` until the client calls `sendToolResponses`.
+   * Consecutive client-side calls are batched into one assistant message.
+   */
+  | { type: 'tool_call'; name: string; arguments?: any; id?: string; result?: any; summary?: string }
+  /**
+   * Hand off to a subagent. The turn stops in `handed_off` until
+   * `completeHandoff` is called, the subthread has been fetched
+   * `completeAfterPolls` times, or `completeAfterMs` have elapsed.
+   */
+  | {
+      type: 'handoff';
+      subThreadId?: string;
+      agentId?: string;
+      agentName?: string;
+      /** Messages shown in the subthread */
+      messages?: string[];
+      /** Final response of the subagent */
+      response?: string;
+      completeAfterPolls?: number;
+      completeAfterMs?: number;
+    }
+  /** Block the message with a usage limit (status `limit_exceeded`) */
+  | { type: 'limit_exceeded'; details?: TenantLimitExceeded }
+  /** Fail the turn (status `error`) */
+  | { type: 'error'; message?: string }
+  /** Keep the turn `processing` indefinitely (e.g. to preview a loading state) */
+  | { type: 'hold' }
+) & {
+  /**
+   * Minimum time (ms) between the previous step (or the start of the turn)
+   * and this step being revealed
+   */
+  delayMs?: number;
+};
+
+/**
+ * A scripted assistant turn
+ */
+export interface MockTurn {
+  steps: MockTurnStep[];
+
+  /**
+   * Realtime polls answered with `processing` before each step is revealed
+   * @default the server's `processingPolls`
+   */
+  processingPolls?: number;
+}
+
+/**
+ * What the mock assistant answers to a user message: plain reply text, a
+ * scripted turn, or a function computing either from the request
+ */
+export type MockResponder =
+  | string
+  | MockTurn
+  | ((context: MockTurnContext) => string | MockTurn);
+
+export interface MockTurnContext {
+  assistantId: string;
+  chatUid: string;
+  message: string;
+  dto: ProcessMessageDto;
+  /** Conversation so far, including the new user message */
+  history: ChatMessage[];
+}
+
+/**
+ * A request received by the mock server
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  headers: Record<string, string>;
+}
+
+export interface MockDevicServerOptions {
+  /**
+   * Assistants returned by `getAssistants` / `getAssistant`
+   * @default one assistant with identifier 'mock-assistant'
+   */
+  assistants?: AssistantSpecialization[];
+
+  /**
+   * Answer to messages when no turn is queued
+   * @default echoes the user message
+   */
+  defaultResponder?: MockResponder;
+
+  /**
+   * Realtime polls answered with `processing` before each step of a turn
+   * @default 1
+   */
+  processingPolls?: number;
+
+  /**
+   * Delay before each response, in milliseconds. `0` answers on the next
+   * microtask, which keeps fake timers simple.
+   * @default 0
+   */
+  latencyMs?: number;
+
+  /**
+   * Text returned by the whisper endpoint
+   * @default 'Mock transcription'
+   */
+  transcription?: string;
+
+  /**
+   * Usage returned by the tenant-usage endpoint, by tenant id
+   */
+  usage?: Record<string, TenantUsage>;
+
+  /**
+   * Clock used for timestamps and step delays
+   * @default Date.now
+   */
+  now?: () => number;
+}
+
+export interface MockDevicServer {
+  /**
+   * `fetch` implementation answering Devic API requests. Pass it as the
+   * `fetch` option of DevicProvider / DevicApiClient, or use `install()`.
+   */
+  fetch: typeof fetch;
+
+  /**
+   * Queue answers for the next user messages, in order
+   */
+  enqueue: (...turns: MockResponder[]) => void;
+
+  /**
+   * Answer used once the queue is empty
+   */
+  setDefaultResponder: (responder: MockResponder) => void;
+
+  /**
+   * Finish a pending handoff and resume the parent turn
+   */
+  completeHandoff: (subThreadId: string, response?: string) => void;
+
+  /**
+   * Set the usage returned for a tenant (and optionally subtenant)
+   */
+  setUsage: (usage: TenantUsage) => void;
+
+  /**
+   * Set the text returned by the whisper endpoint
+   */
+  setTranscription: (text: string) => void;
+
+  /**
+   * Add an existing conversation. With `turn`, the conversation starts with
+   * that turn in progress.
+   */
+  seedConversation: (
+    assistantId: string,
+    conversation: Partial<ChatHistory> & { chatContent: ChatMessage[] },
+    turn?: MockTurn
+  ) => string;
+
+  /**
+   * Conversation state by chatUid
+   */
+  getConversation: (chatUid: string) => ChatHistory | undefined;
+
+  /**
+   * Realtime status of a conversation
+   */
+  getStatus: (chatUid: string) => RealtimeStatus | undefined;
+
+  /**
+   * Requests received so far, oldest first
+   */
+  requests: MockRequest[];
+
+  /**
+   * Replace the global `fetch` with the mock. Returns a function restoring it.
+   */
+  install: () => () => void;
+
+  /**
+   * Drop all conversations, threads, queued turns and recorded requests
+   */
+  reset: () => void;
+
+  /**
+   * Polling interval (ms) requested by the scenario; DevicProvider uses it
+   * as its default in scenario mode
+   */
+  pollingInterval?: number;
+}
+
+interface MockChat {
+  history: ChatHistory;
+  status: RealtimeStatus;
+  lastUpdatedAt: number;
+  pendingToolCalls?: ToolCall[];
+  handedOffSubThreadId?: string;
+  limitExceeded?: TenantLimitExceeded;
+  feedback: FeedbackEntry[];
+  pinned?: boolean;
+  archived?: boolean;
+  /** Remaining steps of the turn in progress */
+  steps: MockTurnStep[];
+  processingPolls: number;
+  pollsLeft: number;
+}
+
+interface MockThread {
+  thread: AgentThreadDto;
+  chatUid: string;
+  toolCallId: string;
+  response: string;
+  pollsLeft: number | null;
+  completeAt: number | null;
+}
+
+const DEFAULT_ASSISTANT: AssistantSpecialization = {
+  identifier: 'mock-assistant',
+  name: 'Mock Assistant',
+  description: 'In-memory assistant for tests',
+  state: 'active',
+};
+
+class MockHttpError extends Error {
+  constructor(public status: number, message: string, public error?: string) {
+    super(message);
+  }
+}
+
+function jsonResponse(status: number, payload: unknown, headers: Record<string, string> = {}): Response {
+  const body = payload === undefined ? '' : JSON.stringify(payload);
+  const allHeaders: Record<string, string> = {
+    ...(body && { 'content-type': 'application/json' }),
+    ...headers,
+  };
+  if (typeof Response !== 'undefined') {
+    return new Response(status === 204 ? null : body, { status, headers: allHeaders });
+  }
+  // Minimal stand-in for environments without the Fetch API (older jsdom)
+  const lower = Object.fromEntries(
+    Object.entries(allHeaders).map(([k, v]) => [k.toLowerCase(), v])
+  );
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: { get: (name: string) => lower[name.toLowerCase()] ?? null },
+    body: null,
+    text: async () => body,
+    json: async () => JSON.parse(body),
+  } as unknown as Response;
+}
+
+function readHeaders(init?: RequestInit): Record<string, string> {
+  const result: Record<string, string> = {};
+  const headers = init?.headers;
+  if (!headers) return result;
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, key) => {
+      result[key.toLowerCase()] = value;
+    });
+  } else if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => {
+      result[key.toLowerCase()] = value;
+    });
+  } else {
+    Object.entries(headers).forEach(([key, value]) => {
+      result[key.toLowerCase()] = String(value);
+    });
+  }
+  return result;
+}
+
+function readBody(init?: RequestInit): any {
+  const body = init?.body;
+  if (body == null) return undefined;
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    const result: Record<string, any> = {};
+    body.forEach((value, key) => {
+      result[key] = value;
+    });
+    return result;
+  }
+  return body;
+}
+
+function toTurn(responder: string | MockTurn): MockTurn {
+  return typeof responder === 'string'
+    ? { steps: [{ type: 'message', content: responder }] }
+    : responder;
+}
+
+function toToolMessage(toolCallId: string, output: any, timestamp: number, uid: string): ChatMessage {
+  return {
+    uid,
+    role: 'tool',
+    tool_call_id: toolCallId,
+    timestamp,
+    content: {
+      message: typeof output === 'string' ? output : JSON.stringify(output),
+      data: output,
+    },
+  };
+}
+
+/**
+ * In-memory Devic backend for tests. Implements the endpoints used by
+ * DevicApiClient (messages, realtime history, tool responses, conversations,
+ * feedback, agent threads, tenant usage, files and whisper) and answers user
+ * messages with scripted turns: replies, server- and client-side tool calls,
+ * handoffs, usage limits and errors. The SSE stream endpoint answers 404 so
+ * the realtime transport falls back to polling.
+ *
+ * @example
+ * ```tsx
+ * const server = createMockDevicServer();
+ * server.enqueue(
+ *   'Hello!',
+ *   { steps: [{ type: 'tool_call', name: 'get_user_location' }, { type: 'message', content: 'Found you.' }] }
+ * );
+ *
+ * render(
+ *   <DevicProvider apiKey="test" fetch={server.fetch}>
+ *     <ChatDrawer assistantId="mock-assistant" mode="inline" />
+ *   </DevicProvider>
+ * );
+ * ```
+ */
+export function createMockDevicServer(options: MockDevicServerOptions = {}): MockDevicServer {
+  const {
+    assistants = [DEFAULT_ASSISTANT],
+    processingPolls: defaultProcessingPolls = 1,
+    latencyMs = 0,
+    now = Date.now,
+  } = options;
+
+  let defaultResponder: MockResponder =
+    options.defaultResponder ?? ((ctx) => `You said: ${ctx.message}`);
+  let transcription = options.transcription ?? 'Mock transcription';
+  let usage: Record<string, TenantUsage> = { ...options.usage };
+  let queue: MockResponder[] = [];
+  let chats = new Map<string, MockChat>();
+  let threads = new Map<string, MockThread>();
+  let transcripts = new Map<string, WhisperTranscriptionResponse>();
+  let sequence = 0;
+  const requests: MockRequest[] = [];
+
+  const nextId = (prefix: string) => `${prefix}-${++sequence}`;
+
+  const getChat = (chatUid: string): MockChat => {
+    const chat = chats.get(chatUid);
+    if (!chat) throw new MockHttpError(404, `Chat ${chatUid} not found`, 'NOT_FOUND');
+    return chat;
+  };
+
+  const touch = (chat: MockChat) => {
+    chat.lastUpdatedAt = now();
+    chat.history.lastEditTimestampMs = chat.lastUpdatedAt;
+  };
+
+  const push = (chat: MockChat, message: Omit<ChatMessage, 'uid' | 'timestamp' | 'chatUid'>) => {
+    chat.history.chatContent.push({
+      uid: nextId('msg'),
+      timestamp: now(),
+      chatUid: chat.history.chatUID,
+      ...message,
+    });
+    touch(chat);
+  };
+
+  const startTurn = (chat: MockChat, turn: MockTurn) => {
+    chat.steps = [...turn.steps];
+    chat.processingPolls = turn.processingPolls ?? defaultProcessingPolls;
+    chat.pollsLeft = chat.processingPolls;
+    chat.status = 'processing';
+    chat.pendingToolCalls = undefined;
+    chat.handedOffSubThreadId = undefined;
+    chat.limitExceeded = undefined;
+    touch(chat);
+  };
+
+  // Reveal the next step(s) of the turn. Client tool calls, handoffs, limits
+  // and errors stop the turn until the client (or test) resumes it.
+  const advance = (chat: MockChat) => {
+    if (chat.status !== 'processing') return;
+    const next = chat.steps[0];
+    if (next?.type === 'hold') return;
+    if (next?.delayMs && now() - chat.lastUpdatedAt < next.delayMs) return;
+    if (chat.pollsLeft > 0) {
+      chat.pollsLeft--;
+      return;
+    }
+    chat.pollsLeft = chat.processingPolls;
+
+    const step = chat.steps.shift();
+    if (!step) {
+      chat.status = 'completed';
+      touch(chat);
+      return;
+    }
+
+    switch (step.type) {
+      case 'message':
+        push(chat, { role: 'assistant', content: { message: step.content } });
+        break;
+
+      case 'tool_call': {
+        if (step.result !== undefined) {
+          const call: ToolCall = {
+            id: step.id ?? nextId('call'),
+            type: 'function',
+            function: { name: step.name, arguments: JSON.stringify(step.arguments ?? {}) },
+          };
+          push(chat, {
+            role: 'assistant',
+            content: { message: '' },
+            tool_calls: [call],
+            ...(step.summary && { summary: step.summary }),
+          });
+          chat.history.chatContent.push(
+            toToolMessage(call.id, step.result, now(), nextId('msg'))
+          );
+          break;
+        }
+
+        // Batch consecutive client-side calls
+        const batch = [step];
+        while (chat.steps[0]?.type === 'tool_call' && chat.steps[0].result === undefined) {
+          batch.push(chat.steps.shift() as typeof step);
+        }
+        const calls: ToolCall[] = batch.map((s) => ({
+          id: s.id ?? nextId('call'),
+          type: 'function',
+          function: { name: s.name, arguments: JSON.stringify(s.arguments ?? {}) },
+        }));
+        push(chat, { role: 'assistant', content: { message: '' }, tool_calls: calls });
+        chat.pendingToolCalls = calls;
+        chat.status = 'waiting_for_tool_response';
+        break;
+      }
+
+      case 'handoff': {
+        const subThreadId = step.subThreadId ?? nextId('thread');
+        const agentId = step.agentId ?? 'mock-agent';
+        const call: ToolCall = {
+          id: nextId('call'),
+          type: 'function',
+          function: {
+            name: 'hand_off_subagent',
+            arguments: JSON.stringify({ agentId }),
+          },
+        };
+        push(chat, { role: 'assistant', content: { message: '' }, tool_calls: [call] });
+        threads.set(subThreadId, {
+          chatUid: chat.history.chatUID,
+          toolCallId: call.id,
+          response: step.response ?? 'Subagent finished.',
+          pollsLeft: step.completeAfterPolls ?? null,
+          completeAt: step.completeAfterMs !== undefined ? now() + step.completeAfterMs : null,
+          thread: {
+            _id: subThreadId,
+            agentId,
+            name: step.agentName ?? 'Mock Agent',
+            state: AgentThreadState.PROCESSING,
+            threadContent: (step.messages ?? []).map((content) => ({
+              uid: nextId('msg'),
+              role: 'assistant',
+              timestamp: now(),
+              content: { message: content },
+            })),
+            isSubthread: true,
+            creationTimestampMs: now(),
+          },
+        });
+        chat.handedOffSubThreadId = subThreadId;
+        chat.status = 'handed_off';
+        break;
+      }
+
+      case 'limit_exceeded':
+        chat.limitExceeded = step.details ?? { message: 'Usage limit reached.' };
+        chat.status = 'limit_exceeded';
+        chat.steps = [];
+        break;
+
+      case 'error':
+        if (step.message) {
+          push(chat, { role: 'assistant', content: { message: step.message } });
+        }
+        chat.status = 'error';
+        chat.steps = [];
+        break;
+    }
+    if (chat.status === 'processing' && chat.steps.length === 0) {
+      chat.status = 'completed';
+    }
+    touch(chat);
+  };
+
+  const finishHandoff = (subThreadId: string, response?: string) => {
+    const entry = threads.get(subThreadId);
+    if (!entry || entry.thread.state === AgentThreadState.COMPLETED) return;
+    entry.thread.state = AgentThreadState.COMPLETED;
+    entry.thread.finishReason = 'completed';
+    entry.thread.lastEditTimestampMs = now();
+
+    const chat = chats.get(entry.chatUid);
+    if (!chat) return;
+    chat.history.chatContent.push(
+      toToolMessage(
+        entry.toolCallId,
+        { response: response ?? entry.response, subthreadId: subThreadId },
+        now(),
+        nextId('msg')
+      )
+    );
+    chat.handedOffSubThreadId = undefined;
+    chat.status = 'processing';
+    chat.pollsLeft = chat.processingPolls;
+    touch(chat);
+  };
+
+  const checkHandoffTimer = (subThreadId: string) => {
+    const entry = threads.get(subThreadId);
+    if (entry?.completeAt != null && now() >= entry.completeAt) {
+      finishHandoff(subThreadId);
+    }
+  };
+
+  const resolveTurn = (context: MockTurnContext): MockTurn => {
+    const responder = queue.length > 0 ? queue.shift()! : defaultResponder;
+    return toTurn(typeof responder === 'function' ? responder(context) : responder);
+  };
+
+  const toSummary = (chat: MockChat): ConversationSummary => ({
+    chatUID: chat.history.chatUID,
+    name: chat.history.name,
+    creationTimestampMs: chat.history.creationTimestampMs,
+    lastEditTimestampMs: chat.history.lastEditTimestampMs,
+    pinned: chat.pinned,
+    archived: chat.archived,
+  });
+
+  const toRealtime = (chat: MockChat): RealtimeChatHistory => ({
+    chatUID: chat.history.chatUID,
+    clientUID: chat.history.clientUID,
+    chatHistory: chat.history.chatContent,
+    status: chat.status,
+    lastUpdatedAt: chat.lastUpdatedAt,
+    ...(chat.pendingToolCalls && { pendingToolCalls: chat.pendingToolCalls }),
+    ...(chat.handedOffSubThreadId && { handedOffSubThreadId: chat.handedOffSubThreadId }),
+    ...(chat.limitExceeded && { limitExceeded: chat.limitExceeded }),
+  });
+
+  const createChat = (assistantId: string, base: Partial<ChatHistory> = {}): MockChat => {
+    const chatUid = base.chatUID ?? nextId('chat');
+    const createdAt = now();
+    const chat: MockChat = {
+      history: {
+        chatUID: chatUid,
+        clientUID: 'mock-client',
+        userUID: 'mock-user',
+        chatContent: [],
+        assistantSpecializationIdentifier: assistantId,
+        creationTimestampMs: createdAt,
+        lastEditTimestampMs: createdAt,
+        ...base,
+      },
+      status: 'completed',
+      lastUpdatedAt: createdAt,
+      feedback: [],
+      steps: [],
+      processingPolls: defaultProcessingPolls,
+      pollsLeft: 0,
+    };
+    chats.set(chatUid, chat);
+    return chat;
+  };
+
+  // Receive a user message: create the chat if needed and start a turn
+  const receiveMessage = (assistantId: string, dto: ProcessMessageDto): MockChat => {
+    const chat =
+      (dto.chatUid && chats.get(dto.chatUid)) ||
+      createChat(assistantId, {
+        ...(dto.chatUid && { chatUID: dto.chatUid }),
+        ...(dto.tenantId && { tenantId: dto.tenantId }),
+        ...(dto.metadata && { metadata: dto.metadata }),
+      });
+
+    if (chat.history.chatContent.length === 0) {
+      dto.previousConversation?.forEach((m) =>
+        push(chat, { role: m.role, content: { message: m.message } })
+      );
+      chat.history.name = dto.message.slice(0, 40);
+    }
+    push(chat, {
+      role: 'user',
+      content: {
+        message: dto.message,
+        ...(dto.files?.length && {
+          files: dto.files.map((f) => ({
+            name: f.name,
+            url: f.downloadUrl || '',
+            type: f.fileType || 'other',
+          })),
+        }),
+      },
+      ...(dto.transcriptId && { transcriptId: dto.transcriptId }),
+    });
+
+    startTurn(
+      chat,
+      resolveTurn({
+        assistantId,
+        chatUid: chat.history.chatUID,
+        message: dto.message,
+        dto,
+        history: chat.history.chatContent,
+      })
+    );
+    return chat;
+  };
+
+  type Route = [string, RegExp, (match: string[], req: MockRequest) => unknown];
+
+  const routes: Route[] = [
+    ['GET', /^\/api\/v1\/assistants$/, () => assistants],
+    ['GET', /^\/api\/v1\/assistants\/tags$/, () =>
+      Array.from(new Set(Array.from(chats.values()).flatMap((c) => c.history.metadata?.tags ?? [])))],
+    ['POST', /^\/api\/v1\/assistants\/([^/]+)\/messages$/, ([, assistantId], req) => {
+      const chat = receiveMessage(assistantId, req.body);
+      if (req.query.async === 'true') {
+        return { chatUid: chat.history.chatUID };
+      }
+      // Sync mode: run the turn as far as it goes without waiting (client
+      // tools stay pending; delayed and held steps are left for polling)
+      const start = chat.history.chatContent.length;
+      chat.pollsLeft = 0;
+      chat.processingPolls = 0;
+      for (let i = chat.steps.length + 1; i > 0 && chat.status === 'processing'; i--) {
+        advance(chat);
+      }
+      return chat.history.chatContent.slice(start);
+    }],
+    ['GET', /^\/api\/v1\/assistants\/([^/]+)\/chats\/search$/, ([, assistantId], req) => {
+      const q = (req.query.q ?? '').toLowerCase();
+      const offset = Number(req.query.offset ?? 0);
+      const limit = Number(req.query.limit ?? 20);
+      const results = Array.from(chats.values())
+        .filter((c) => c.history.assistantSpecializationIdentifier === assistantId)
+        .flatMap((c) =>
+          c.history.chatContent
+            .filter((m) => (m.role === 'user' || m.role === 'assistant') && q &&
+              (m.content?.message ?? '').toLowerCase().includes(q))
+            .map((m) => {
+              const text = m.content!.message!;
+              const start = text.toLowerCase().indexOf(q);
+              return {
+                chatUID: c.history.chatUID,
+                name: c.history.name,
+                messageUid: m.uid,
+                role: m.role,
+                snippet: text,
+                highlights: [{ start, end: start + q.length }],
+                timestamp: m.timestamp,
+              };
+            })
+        );
+      return { results: results.slice(offset, offset + limit), total: results.length, offset, limit };
+    }],
+    ['GET', /^\/api\/v1\/assistants\/([^/]+)\/chats$/, ([, assistantId], req) => {
+      const offset = Number(req.query.offset ?? 0);
+      const limit = Number(req.query.limit ?? 20);
+      const archived = req.query.archived === 'true';
+      const histories = Array.from(chats.values())
+        .filter((c) => c.history.assistantSpecializationIdentifier === assistantId)
+        .filter((c) => !!c.archived === archived)
+        .filter((c) => !req.query.tenantId || c.history.tenantId === req.query.tenantId)
+        .sort((a, b) =>
+          Number(!!b.pinned) - Number(!!a.pinned) ||
+          (b.history.lastEditTimestampMs ?? 0) - (a.history.lastEditTimestampMs ?? 0))
+        .map(toSummary);
+      return { histories: histories.slice(offset, offset + limit), total: histories.length, offset, limit };
+    }],
+    ['GET', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)\/realtime$/, ([, chatUid]) => {
+      const chat = getChat(chatUid);
+      if (chat.handedOffSubThreadId) checkHandoffTimer(chat.handedOffSubThreadId);
+      advance(chat);
+      return toRealtime(chat);
+    }],
+    ['GET', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)\/stream$/, () => {
+      throw new MockHttpError(404, 'Streaming is not supported by the mock server', 'NOT_FOUND');
+    }],
+    ['GET', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)\/content$/, ([, chatUid]) =>
+      getChat(chatUid).history.chatContent],
+    ['POST', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)\/tool-response$/, ([, chatUid], req) => {
+      const chat = getChat(chatUid);
+      const responses: Array<{ tool_call_id: string; content: any }> =
+        Array.isArray(req.body) ? req.body : req.body?.responses ?? req.body?.toolResponses ?? [];
+      responses.forEach((r) =>
+        chat.history.chatContent.push(
+          toToolMessage(r.tool_call_id, r.content, now(), nextId('msg'))
+        )
+      );
+      chat.pendingToolCalls = undefined;
+      chat.status = 'processing';
+      chat.pollsLeft = chat.processingPolls;
+      touch(chat);
+      return { chatUid };
+    }],
+    ['POST', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)\/stop$/, ([, chatUid]) => {
+      const chat = getChat(chatUid);
+      chat.steps = [];
+      chat.pendingToolCalls = undefined;
+      chat.status = 'completed';
+      touch(chat);
+      return { chatUid, message: 'Stopped' };
+    }],
+    ['POST', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)\/feedback$/, ([, chatUid], req) => {
+      const chat = getChat(chatUid);
+      const entry: FeedbackEntry = {
+        _id: nextId('feedback'),
+        requestId: req.body.messageId,
+        chatUID: chatUid,
+        feedback: req.body.feedback,
+        feedbackComment: req.body.feedbackComment,
+        feedbackData: req.body.feedbackData,
+        creationTimestamp: new Date().toISOString(),
+      };
+      chat.feedback = [...chat.feedback.filter((f) => f.requestId !== entry.requestId), entry];
+      return entry;
+    }],
+    ['GET', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)\/feedback$/, ([, chatUid]) =>
+      getChat(chatUid).feedback],
+    ['GET', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)$/, ([, chatUid]) => getChat(chatUid).history],
+    ['PATCH', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)$/, ([, chatUid], req) => {
+      const chat = getChat(chatUid);
+      if (req.body.name !== undefined) chat.history.name = req.body.name;
+      if (req.body.pinned !== undefined) chat.pinned = req.body.pinned;
+      if (req.body.archived !== undefined) chat.archived = req.body.archived;
+      touch(chat);
+      return toSummary(chat);
+    }],
+    ['DELETE', /^\/api\/v1\/assistants\/[^/]+\/chats\/([^/]+)$/, ([, chatUid]) => {
+      getChat(chatUid);
+      chats.delete(chatUid);
+      return undefined;
+    }],
+    ['GET', /^\/api\/v1\/assistants\/([^/]+)$/, ([, identifier]) => {
+      const assistant = assistants.find((a) => a.identifier === identifier);
+      if (!assistant) throw new MockHttpError(404, `Assistant ${identifier} not found`, 'NOT_FOUND');
+      return assistant;
+    }],
+    ['GET', /^\/api\/v1\/agents\/threads\/([^/]+)\/explain$/, ([, threadId]) => {
+      const entry = threads.get(threadId);
+      if (!entry) throw new MockHttpError(404, `Thread ${threadId} not found`, 'NOT_FOUND');
+      return `Mock explanation of thread ${threadId}`;
+    }],
+    ['POST', /^\/api\/v1\/agents\/threads\/([^/]+)\/(pause-resume|approval|complete)$/, ([, threadId, action], req) => {
+      const entry = threads.get(threadId);
+      if (!entry) throw new MockHttpError(404, `Thread ${threadId} not found`, 'NOT_FOUND');
+      if (action === 'complete') {
+        finishHandoff(threadId);
+      } else if (action === 'pause-resume') {
+        entry.thread.state =
+          req.body?.action === 'paused' ? AgentThreadState.PAUSED : AgentThreadState.PROCESSING;
+      } else if (req.body?.action === 'rejected') {
+        entry.thread.state = AgentThreadState.APPROVAL_REJECTED;
+      } else {
+        entry.thread.state = AgentThreadState.PROCESSING;
+      }
+      return undefined;
+    }],
+    ['GET', /^\/api\/v1\/agents\/threads\/([^/]+)$/, ([, threadId]) => {
+      const entry = threads.get(threadId);
+      if (!entry) throw new MockHttpError(404, `Thread ${threadId} not found`, 'NOT_FOUND');
+      if (entry.pollsLeft !== null && entry.thread.state === AgentThreadState.PROCESSING) {
+        if (entry.pollsLeft <= 0) {
+          finishHandoff(threadId);
+        } else {
+          entry.pollsLeft--;
+        }
+      }
+      checkHandoffTimer(threadId);
+      return entry.thread;
+    }],
+    ['GET', /^\/api\/v1\/agents\/([^/]+)$/, ([, agentId]): AgentDto => {
+      const entry = Array.from(threads.values()).find((t) => t.thread.agentId === agentId);
+      return { _id: agentId, agentId, name: entry?.thread.name ?? 'Mock Agent' };
+    }],
+    ['POST', /^\/api\/v1\/files\/upload$/, (_match, req) => {
+      const file = req.body?.file as File | undefined;
+      const name = file?.name ?? 'file';
+      const type = file?.type?.split('/')[0];
+      return {
+        name,
+        downloadUrl: `https://mock.devic.ai/files/${encodeURIComponent(name)}`,
+        fileType: type === 'image' || type === 'audio' || type === 'video' ? type : 'document',
+      };
+    }],
+    ['POST', /^\/api\/v1\/whisper$/, (_match, req) => {
+      const result: WhisperTranscriptionResponse = {
+        transcriptId: nextId('transcript'),
+        text: transcription,
+        ...(req.body?.language && { language: req.body.language }),
+        audioUrl:
+          typeof req.body?.audioUrl === 'string'
+            ? req.body.audioUrl
+            : 'https://mock.devic.ai/audio/recording.webm',
+        model: 'mock-whisper',
+      };
+      transcripts.set(result.transcriptId, result);
+      return result;
+    }],
+    ['GET', /^\/api\/v1\/whisper\/([^/]+)$/, ([, transcriptId]) => {
+      const result = transcripts.get(decodeURIComponent(transcriptId));
+      if (!result) throw new MockHttpError(404, `Transcript ${transcriptId} not found`, 'NOT_FOUND');
+      return result;
+    }],
+    ['GET', /^\/api\/v1\/tenant-usage\/([^/]+)\/history$/, ([, tenantId]): TenantUsageHistoryRow[] => {
+      const current = usage[decodeURIComponent(tenantId)];
+      return (current?.usage ?? []).map((rule) => ({
+        clientUID: 'mock-client',
+        tenantId: current.tenantId,
+        subtenantId: rule.subtenantId ?? '',
+        scope: rule.scope,
+        metric: rule.metric,
+        windowUnit: rule.windowUnit,
+        windowEvery: rule.windowEvery,
+        windowKey: 'current',
+        windowStart: now(),
+        windowEnd: rule.resetsAt ?? now(),
+        consumption: rule.current,
+        limit: rule.limit,
+        percent: rule.percent,
+        capturedAt: now(),
+      }));
+    }],
+    ['GET', /^\/api\/v1\/tenant-usage\/([^/]+)(?:\/subtenants\/([^/]+))?$/, ([, tenantId, subtenantId]) => {
+      const key = subtenantId
+        ? `${decodeURIComponent(tenantId)}/${decodeURIComponent(subtenantId)}`
+        : decodeURIComponent(tenantId);
+      return usage[key] ?? { tenantId: decodeURIComponent(tenantId), usage: [] };
+    }],
+  ];
+
+  const handle = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(
+      typeof input === 'string' ? input : input instanceof URL ? input.href : input.url,
+      'http://mock.devic.ai'
+    );
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const request: MockRequest = {
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      body: readBody(init),
+      headers: readHeaders(init),
+    };
+    requests.push(request);
+
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    }
+    if (init?.signal?.aborted) {
+      throw init.signal.reason ?? new Error('The operation was aborted');
+    }
+
+    try {
+      for (const [routeMethod, pattern, handler] of routes) {
+        if (routeMethod !== method) continue;
+        const match = pattern.exec(request.path);
+        if (!match) continue;
+        const result = handler(match, request);
+        return result === undefined ? jsonResponse(204, undefined) : jsonResponse(200, { data: result });
+      }
+      throw new MockHttpError(404, `No mock route for ${method} ${request.path}`, 'NOT_FOUND');
+    } catch (err) {
+      if (err instanceof MockHttpError) {
+        return jsonResponse(err.status, { statusCode: err.status, message: err.message, error: err.error });
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      return jsonResponse(500, { statusCode: 500, message, error: 'MOCK_SERVER_ERROR' });
+    }
+  };
+
+  return {
+    fetch: handle as typeof fetch,
+    enqueue: (...turns) => {
+      queue.push(...turns);
+    },
+    setDefaultResponder: (responder) => {
+      defaultResponder = responder;
+    },
+    completeHandoff: finishHandoff,
+    setUsage: (value) => {
+      const key = value.subtenantId ? `${value.tenantId}/${value.subtenantId}` : value.tenantId;
+      usage = { ...usage, [key]: value };
+    },
+    setTranscription: (text) => {
+      transcription = text;
+    },
+    seedConversation: (assistantId, conversation, turn) => {
+      const chat = createChat(assistantId, {
+        ...conversation,
+        chatContent: [...conversation.chatContent],
+      });
+      if (turn) startTurn(chat, turn);
+      return chat.history.chatUID;
+    },
+    getConversation: (chatUid) => chats.get(chatUid)?.history,
+    getStatus: (chatUid) => chats.get(chatUid)?.status,
+    requests,
+    install: () => {
+      const original = globalThis.fetch;
+      globalThis.fetch = handle as typeof fetch;
+      return () => {
+        globalThis.fetch = original;
+      };
+    },
+    reset: () => {
+      queue = [];
+      chats = new Map();
+      threads = new Map();
+      transcripts = new Map();
+      requests.length = 0;
+    },
+  };
+}
@@ -0,0 +1,202 @@
+import { createMockDevicServer } from './mockServer';
+import type { MockDevicServer, MockResponder, MockTurn } from './mockServer';
+import type {
+  AssistantSpecialization,
+  ChatMessage,
+  TenantUsage,
+} from '../api/types';
+
+/**
+ * A message of a conversation that exists when the scenario starts
+ */
+export interface DevicScenarioMessage {
+  role: ChatMessage['role'];
+  content: string;
+
+  /**
+   * Tool calls made by an assistant message. Calls with an `output` are
+   * followed by their tool result.
+   */
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    input?: any;
+    output?: any;
+  }>;
+}
+
+/**
+ * A conversation that exists when the scenario starts
+ */
+export interface DevicScenarioConversation {
+  chatUid: string;
+
+  /**
+   * @default the first assistant of the scenario
+   */
+  assistantId?: string;
+
+  name?: string;
+
+  messages?: DevicScenarioMessage[];
+
+  /**
+   * Turn in progress when the scenario starts, e.g. a tool call waiting for
+   * a widget, a running handoff or a held `processing` state. Open the
+   * conversation with `chatUid` to pick it up.
+   */
+  turn?: MockTurn;
+}
+
+/**
+ * Fixture describing a conversation timeline for previews and demos.
+ * Plain data (apart from function responders), so fixtures can live in JSON.
+ */
+export interface DevicScenario {
+  /** Label of the fixture (not displayed) */
+  name?: string;
+
+  /**
+   * Assistants returned by `getAssistants` / `getAssistant`
+   * @default one assistant with identifier 'mock-assistant'
+   */
+  assistants?: AssistantSpecialization[];
+
+  /**
+   * Answers to the user messages sent during the scenario, in order
+   */
+  turns?: MockResponder[];
+
+  /**
+   * Answer once `turns` is exhausted
+   * @default echoes the user message
+   */
+  defaultResponder?: MockResponder;
+
+  /**
+   * Conversations that exist when the scenario starts
+   */
+  conversations?: DevicScenarioConversation[];
+
+  /**
+   * Tenant usage returned to UsageBar and limit checks
+   */
+  usage?: TenantUsage[];
+
+  /**
+   * Text returned by speech-to-text
+   */
+  transcription?: string;
+
+  /**
+   * Polling interval (ms) used by every component under the provider
+   * @default 1000
+   */
+  pollingInterval?: number;
+
+  /**
+   * Realtime polls answered with `processing` before each step is revealed.
+   * Use step `delayMs` for time-based pacing instead.
+   * @default 1
+   */
+  processingPolls?: number;
+
+  /**
+   * Delay before each API response (ms)
+   * @default 0
+   */
+  latencyMs?: number;
+
+  /**
+   * Time of the last seeded message (ms since epoch); earlier messages are
+   * spaced one minute apart. Fix it to get identical timestamps on every run.
+   * @default Date.now()
+   */
+  startTime?: number;
+}
+
+function toChatMessages(
+  chatUid: string,
+  messages: DevicScenarioMessage[],
+  startTime: number
+): ChatMessage[] {
+  const result: ChatMessage[] = [];
+
+  messages.forEach((m, i) => {
+    const uid = `${chatUid}-${i}`;
+    const timestamp = startTime - (messages.length - 1 - i) * 60_000;
+    const toolCalls = m.toolCalls?.map((tc, j) => ({ ...tc, id: tc.id ?? `${uid}-call-${j}` }));
+
+    result.push({
+      uid,
+      role: m.role,
+      chatUid,
+      timestamp,
+      content: { message: m.content },
+      ...(toolCalls?.length && {
+        tool_calls: toolCalls.map((tc) => ({
+          id: tc.id,
+          type: 'function' as const,
+          function: { name: tc.name, arguments: JSON.stringify(tc.input ?? {}) },
+        })),
+      }),
+    });
+
+    toolCalls?.forEach((tc) => {
+      if (tc.output === undefined) return;
+      result.push({
+        uid: `${uid}-${tc.id}`,
+        role: 'tool',
+        chatUid,
+        timestamp,
+        tool_call_id: tc.id,
+        content: {
+          message: typeof tc.output === 'string' ? tc.output : JSON.stringify(tc.output),
+          data: tc.output,
+        },
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Build a mock backend playing a scenario. Pass it as DevicProvider's
+ * `scenario` prop, or drive it directly from tests.
+ */
+export function createScenarioServer(scenario: DevicScenario): MockDevicServer {
+  const server = createMockDevicServer({
+    assistants: scenario.assistants,
+    defaultResponder: scenario.defaultResponder,
+    processingPolls: scenario.processingPolls,
+    latencyMs: scenario.latencyMs,
+    transcription: scenario.transcription,
+  });
+
+  const startTime = scenario.startTime ?? Date.now();
+  const defaultAssistantId = scenario.assistants?.[0]?.identifier ?? 'mock-assistant';
+
+  scenario.usage?.forEach((usage) => server.setUsage(usage));
+
+  scenario.conversations?.forEach((conversation) => {
+    server.seedConversation(
+      conversation.assistantId ?? defaultAssistantId,
+      {
+        chatUID: conversation.chatUid,
+        name: conversation.name,
+        creationTimestampMs: startTime - (conversation.messages?.length ?? 0) * 60_000,
+        lastEditTimestampMs: startTime,
+        chatContent: toChatMessages(conversation.chatUid, conversation.messages ?? [], startTime),
+      },
+      conversation.turn
+    );
+  });
+
+  if (scenario.turns?.length) {
+    server.enqueue(...scenario.turns);
+  }
+
+  server.pollingInterval = scenario.pollingInterval;
+  return server;
+}
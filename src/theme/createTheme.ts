@@ -0,0 +1,156 @@
+import { THEME_PRESETS, lightTheme } from './presets';
+import type {
+  DevicTheme,
+  DevicThemeOption,
+  DevicThemeOverrides,
+  DevicThemePreset,
+} from './types';
+
+/**
+ * Build a theme by merging overrides onto a base theme, token group by
+ * token group
+ *
+ * @example
+ * ```ts
+ * const brand = createTheme({ colors: { primary: '#7c3aed', userBubble: '#7c3aed' } });
+ * const brandDark = createTheme({ colors: { primary: '#a78bfa' } }, darkTheme);
+ * ```
+ */
+export function createTheme(overrides: DevicThemeOverrides = {}, base: DevicTheme = lightTheme): DevicTheme {
+  return {
+    colorScheme: overrides.colorScheme ?? base.colorScheme,
+    colors: { ...base.colors, ...overrides.colors },
+    spacing: { ...base.spacing, ...overrides.spacing },
+    radius: { ...base.radius, ...overrides.radius },
+    typography: { ...base.typography, ...overrides.typography },
+    shadows: { ...base.shadows, ...overrides.shadows },
+  };
+}
+
+/**
+ * Resolve a theme option to a complete theme. `'auto'` picks the preset
+ * matching `systemPreset`; overrides without a `base` apply to `parent`
+ * (e.g. the provider's theme), or the light preset.
+ */
+export function resolveTheme(
+  option: DevicThemeOption,
+  systemPreset: DevicThemePreset,
+  parent?: DevicTheme | null
+): DevicTheme {
+  if (typeof option === 'string') {
+    return THEME_PRESETS[option === 'auto' ? systemPreset : option];
+  }
+  const { base, ...overrides } = option;
+  const baseTheme = base
+    ? THEME_PRESETS[base === 'auto' ? systemPreset : base]
+    : parent ?? lightTheme;
+  return createTheme(overrides, baseTheme);
+}
+
+/**
+ * Whether resolving the option depends on the system settings
+ */
+export function themeFollowsSystem(option: DevicThemeOption | undefined): boolean {
+  if (!option) return false;
+  return typeof option === 'string' ? option === 'auto' : option.base === 'auto';
+}
+
+/**
+ * CSS custom properties a theme sets on a component root. Covers every
+ * component's variables (`--devic-*` for the ChatDrawer and feedback
+ * components, the `-override` hooks of AICommandBar and AIGenerationButton,
+ * `--devic-aiwrap-*`). With no theme every value is undefined, so callers
+ * can clear what a previous theme set.
+ */
+export function themeToCssVars(theme: DevicTheme | null): Record<string, string | undefined> {
+  const c = theme?.colors;
+  const s = theme?.spacing;
+  const r = theme?.radius;
+  const t = theme?.typography;
+  const sh = theme?.shadows;
+  return {
+    'color-scheme': theme?.colorScheme,
+
+    // ChatDrawer, Feedback
+    '--devic-primary': c?.primary,
+    '--devic-primary-hover': c?.primaryHover,
+    '--devic-primary-light': c?.primaryLight,
+    '--devic-bg': c?.background,
+    '--devic-bg-secondary': c?.backgroundSecondary,
+    '--devic-text': c?.text,
+    '--devic-text-secondary': c?.textSecondary,
+    '--devic-text-muted': c?.textMuted,
+    '--devic-border': c?.border,
+    '--devic-user-bubble': c?.userBubble,
+    '--devic-user-bubble-text': c?.userBubbleText,
+    '--devic-assistant-bubble': c?.assistantBubble,
+    '--devic-assistant-bubble-text': c?.assistantBubbleText,
+    '--devic-danger': c?.danger,
+    '--devic-danger-bg': c?.dangerBackground,
+    '--devic-success': c?.success,
+    '--devic-warning': c?.warning,
+    '--devic-warning-bg': c?.warningBackground,
+    '--devic-space-sm': s?.sm,
+    '--devic-space-md': s?.md,
+    '--devic-space-lg': s?.lg,
+    '--devic-radius-sm': r?.sm,
+    '--devic-radius': r?.md,
+    '--devic-radius-lg': r?.lg,
+    '--devic-font-family': t?.fontFamily,
+    '--devic-font-size': t?.fontSize,
+    '--devic-shadow': sh?.panel,
+
+    // AICommandBar
+    '--devic-cmd-primary-override': c?.primary,
+    '--devic-cmd-bg-override': c?.background,
+    '--devic-cmd-text-override': c?.text,
+    '--devic-cmd-text-secondary-override': c?.textSecondary,
+    '--devic-cmd-border-override': c?.border,
+    '--devic-cmd-radius-override': r?.md,
+    '--devic-cmd-shadow-override': sh?.popover,
+    '--devic-cmd-font-family-override': t?.fontFamily,
+    '--devic-cmd-font-size-override': t?.fontSize,
+
+    // AIGenerationButton
+    '--devic-gen-primary-override': c?.primary,
+    '--devic-gen-primary-hover-override': c?.primaryHover,
+    '--devic-gen-bg-override': c?.background,
+    '--devic-gen-text-override': c?.text,
+    '--devic-gen-text-secondary-override': c?.textSecondary,
+    '--devic-gen-border-override': c?.border,
+    '--devic-gen-radius-override': r?.md,
+    '--devic-gen-font-family-override': t?.fontFamily,
+    '--devic-gen-font-size-override': t?.fontSize,
+    '--devic-gen-modal-bg-override': c?.background,
+    '--devic-gen-modal-text-override': c?.text,
+    '--devic-gen-modal-border-override': c?.border,
+
+    // AIElementWrapper
+    '--devic-aiwrap-color': c?.primary,
+    '--devic-aiwrap-color-2': c?.primaryHover,
+    '--devic-aiwrap-bg': c?.background,
+    '--devic-aiwrap-text': c?.text,
+    '--devic-aiwrap-border': c?.border,
+    '--devic-aiwrap-shadow': sh?.popover,
+  };
+}
+
+/**
+ * Set CSS variables on an element, removing those without a value. When a
+ * name repeats, the last defined value wins, so component options listed
+ * after the theme's variables override them.
+ */
+export function applyCssVars(el: HTMLElement, vars: [string, string | undefined][]): void {
+  const resolved = new Map<string, string | undefined>();
+  for (const [name, value] of vars) {
+    if (value) resolved.set(name, value);
+    else if (!resolved.has(name)) resolved.set(name, undefined);
+  }
+  for (const [name, value] of resolved) {
+    if (value) {
+      el.style.setProperty(name, value);
+    } else {
+      el.style.removeProperty(name);
+    }
+  }
+}
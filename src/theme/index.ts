@@ -0,0 +1,22 @@
+export type {
+  DevicTheme,
+  DevicThemeColors,
+  DevicThemeSpacing,
+  DevicThemeRadius,
+  DevicThemeTypography,
+  DevicThemeShadows,
+  DevicThemeOverrides,
+  DevicThemePreset,
+  DevicThemeMode,
+  DevicThemeInput,
+  DevicThemeOption,
+} from './types';
+export { lightTheme, darkTheme, highContrastTheme, THEME_PRESETS } from './presets';
+export {
+  createTheme,
+  resolveTheme,
+  themeFollowsSystem,
+  themeToCssVars,
+  applyCssVars,
+} from './createTheme';
+export { detectSystemTheme, subscribeSystemTheme } from './system';
@@ -0,0 +1,119 @@
+import type { DevicTheme, DevicThemePreset } from './types';
+
+const FONT_FAMILY =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+const SPACING = { sm: '8px', md: '12px', lg: '16px' };
+const RADIUS = { sm: '4px', md: '8px', lg: '16px' };
+const TYPOGRAPHY = { fontFamily: FONT_FAMILY, fontSize: '14px' };
+
+/**
+ * Light preset (the ChatDrawer's default look)
+ */
+export const lightTheme: DevicTheme = {
+  colorScheme: 'light',
+  colors: {
+    primary: '#1890ff',
+    primaryHover: '#40a9ff',
+    primaryLight: '#e6f7ff',
+    background: '#ffffff',
+    backgroundSecondary: '#f5f5f5',
+    text: '#333333',
+    textSecondary: '#666666',
+    textMuted: '#999999',
+    border: '#e8e8e8',
+    userBubble: '#1890ff',
+    userBubbleText: '#ffffff',
+    assistantBubble: '#f5f5f5',
+    assistantBubbleText: '#333333',
+    danger: '#cf1322',
+    dangerBackground: '#fff1f0',
+    success: '#389e0d',
+    warning: '#ad4e00',
+    warningBackground: '#fff7e6',
+  },
+  spacing: SPACING,
+  radius: RADIUS,
+  typography: TYPOGRAPHY,
+  shadows: {
+    panel: '0 4px 12px rgba(0, 0, 0, 0.15)',
+    popover: '0 8px 24px rgba(0, 0, 0, 0.12)',
+  },
+};
+
+/**
+ * Dark preset
+ */
+export const darkTheme: DevicTheme = {
+  colorScheme: 'dark',
+  colors: {
+    primary: '#1668dc',
+    primaryHover: '#3c89e8',
+    primaryLight: '#111d2c',
+    background: '#141414',
+    backgroundSecondary: '#1f1f1f',
+    text: '#e8e8e8',
+    textSecondary: '#bfbfbf',
+    textMuted: '#8c8c8c',
+    border: '#303030',
+    userBubble: '#1668dc',
+    userBubbleText: '#ffffff',
+    assistantBubble: '#262626',
+    assistantBubbleText: '#e8e8e8',
+    danger: '#ff7875',
+    dangerBackground: '#2a1215',
+    success: '#73d13d',
+    warning: '#ffc069',
+    warningBackground: '#2b2111',
+  },
+  spacing: SPACING,
+  radius: RADIUS,
+  typography: TYPOGRAPHY,
+  shadows: {
+    panel: '0 4px 16px rgba(0, 0, 0, 0.6)',
+    popover: '0 8px 24px rgba(0, 0, 0, 0.5)',
+  },
+};
+
+/**
+ * High-contrast preset: black on white, solid borders, no muted greys
+ */
+export const highContrastTheme: DevicTheme = {
+  colorScheme: 'light',
+  colors: {
+    primary: '#0000cc',
+    primaryHover: '#000099',
+    primaryLight: '#e0e0ff',
+    background: '#ffffff',
+    backgroundSecondary: '#f0f0f0',
+    text: '#000000',
+    textSecondary: '#000000',
+    textMuted: '#333333',
+    border: '#000000',
+    userBubble: '#0000cc',
+    userBubbleText: '#ffffff',
+    assistantBubble: '#ffffff',
+    assistantBubbleText: '#000000',
+    danger: '#b00000',
+    dangerBackground: '#ffffff',
+    success: '#006400',
+    warning: '#7a4100',
+    warningBackground: '#ffffff',
+  },
+  spacing: SPACING,
+  radius: RADIUS,
+  typography: { ...TYPOGRAPHY, fontSize: '15px' },
+  shadows: {
+    panel: '0 0 0 2px #000000',
+    popover: '0 0 0 2px #000000',
+  },
+};
+
+/**
+ * Built-in presets by name
+ */
+export const THEME_PRESETS: Record<DevicThemePreset, DevicTheme> = {
+  light: lightTheme,
+  dark: darkTheme,
+  'high-contrast': highContrastTheme,
+};
@@ -0,0 +1,41 @@
+import type { DevicThemePreset } from './types';
+
+const QUERIES = {
+  contrast: '(prefers-contrast: more), (forced-colors: active)',
+  dark: '(prefers-color-scheme: dark)',
+};
+
+function matches(query: string): boolean {
+  return typeof window !== 'undefined' && !!window.matchMedia?.(query).matches;
+}
+
+/**
+ * Preset matching the user's system settings: 'high-contrast' when more
+ * contrast is requested, otherwise 'dark' or 'light' from
+ * `prefers-color-scheme`. 'light' during SSR.
+ */
+export function detectSystemTheme(): DevicThemePreset {
+  if (matches(QUERIES.contrast)) return 'high-contrast';
+  return matches(QUERIES.dark) ? 'dark' : 'light';
+}
+
+/**
+ * Call `listener` with the new preset whenever the system settings change.
+ * Returns an unsubscribe function.
+ */
+export function subscribeSystemTheme(listener: (preset: DevicThemePreset) => void): () => void {
+  if (typeof window === 'undefined' || !window.matchMedia) return () => {};
+  const lists = Object.values(QUERIES).map((query) => window.matchMedia(query));
+  const handleChange = () => listener(detectSystemTheme());
+  for (const list of lists) {
+    // Safari < 14 only supports the deprecated addListener
+    if (list.addEventListener) list.addEventListener('change', handleChange);
+    else list.addListener(handleChange);
+  }
+  return () => {
+    for (const list of lists) {
+      if (list.removeEventListener) list.removeEventListener('change', handleChange);
+      else list.removeListener(handleChange);
+    }
+  };
+}
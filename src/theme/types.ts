@@ -0,0 +1,121 @@
+/**
+ * Colour tokens
+ */
+export interface DevicThemeColors {
+  /** Brand colour: buttons, links, focus rings, user bubbles */
+  primary: string;
+  primaryHover: string;
+  /** Tinted background for highlighted items (chips, suggestions) */
+  primaryLight: string;
+  /** Surface of drawers, bars, modals and tooltips */
+  background: string;
+  /** Inputs, triggers and secondary surfaces */
+  backgroundSecondary: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  border: string;
+  userBubble: string;
+  userBubbleText: string;
+  assistantBubble: string;
+  assistantBubbleText: string;
+  /** Errors and destructive actions */
+  danger: string;
+  dangerBackground: string;
+  success: string;
+  /** Usage limit warnings */
+  warning: string;
+  warningBackground: string;
+}
+
+/**
+ * Spacing tokens (component padding and gaps)
+ */
+export interface DevicThemeSpacing {
+  sm: string;
+  md: string;
+  lg: string;
+}
+
+/**
+ * Corner radius tokens
+ */
+export interface DevicThemeRadius {
+  /** Buttons, chips and inputs */
+  sm: string;
+  /** Panels, cards and bubbles */
+  md: string;
+  /** Large rounded surfaces */
+  lg: string;
+}
+
+/**
+ * Typography tokens
+ */
+export interface DevicThemeTypography {
+  fontFamily: string;
+  /** Base font size of the components */
+  fontSize: string;
+}
+
+/**
+ * Shadow tokens
+ */
+export interface DevicThemeShadows {
+  /** Drawers and docked panels */
+  panel: string;
+  /** Floating bars, popovers and tooltips */
+  popover: string;
+}
+
+/**
+ * A complete design-token theme
+ */
+export interface DevicTheme {
+  /** Native `color-scheme` of the components (scrollbars, form controls) */
+  colorScheme: 'light' | 'dark';
+  colors: DevicThemeColors;
+  spacing: DevicThemeSpacing;
+  radius: DevicThemeRadius;
+  typography: DevicThemeTypography;
+  shadows: DevicThemeShadows;
+}
+
+/**
+ * Partial theme, merged token group by token group onto a base theme
+ */
+export interface DevicThemeOverrides {
+  colorScheme?: 'light' | 'dark';
+  colors?: Partial<DevicThemeColors>;
+  spacing?: Partial<DevicThemeSpacing>;
+  radius?: Partial<DevicThemeRadius>;
+  typography?: Partial<DevicThemeTypography>;
+  shadows?: Partial<DevicThemeShadows>;
+}
+
+/**
+ * Built-in theme presets
+ */
+export type DevicThemePreset = 'light' | 'dark' | 'high-contrast';
+
+/**
+ * A preset, or `'auto'` to follow the system `prefers-color-scheme` and
+ * `prefers-contrast` settings
+ */
+export type DevicThemeMode = DevicThemePreset | 'auto';
+
+/**
+ * Custom theme: overrides applied on top of `base`
+ */
+export interface DevicThemeInput extends DevicThemeOverrides {
+  /**
+   * Theme the overrides are applied to. On a component it defaults to the
+   * provider's theme (or 'light' without one).
+   */
+  base?: DevicThemeMode;
+}
+
+/**
+ * Theme option accepted by DevicProvider and the components
+ */
+export type DevicThemeOption = DevicThemeMode | DevicThemeInput;
@@ -0,0 +1,87 @@
+import { getActiveElement } from '../shadow';
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+  '[contenteditable="true"]',
+].join(',');
+
+/**
+ * Keyboard-focusable descendants of `container`, in DOM order, skipping
+ * hidden ones
+ */
+export function getFocusableElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    (el) => !el.closest('[aria-hidden="true"]') && el.getClientRects().length > 0
+  );
+}
+
+/**
+ * Keep Tab / Shift+Tab cycling inside `container`. Call from a keydown
+ * handler; returns true when the event was handled.
+ */
+export function trapTabKey(event: KeyboardEvent, container: HTMLElement): boolean {
+  if (event.key !== 'Tab' || event.defaultPrevented) return false;
+  const focusable = getFocusableElements(container);
+  if (focusable.length === 0) {
+    event.preventDefault();
+    container.focus();
+    return true;
+  }
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = getActiveElement(container);
+  const outside = !active || !container.contains(active);
+  if (event.shiftKey && (active === first || active === container || outside)) {
+    event.preventDefault();
+    last.focus();
+    return true;
+  }
+  if (!event.shiftKey && (active === last || outside)) {
+    event.preventDefault();
+    first.focus();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Roving focus: the item an arrow / Home / End key moves to from `current`,
+ * or null when the key is not a navigation key. Horizontal arrows follow
+ * `direction`; `wrap` continues from the other end.
+ */
+export function getRovingTarget<T>(
+  items: T[],
+  current: T,
+  key: string,
+  { orientation, direction = 'ltr', wrap = true }: {
+    orientation: 'horizontal' | 'vertical';
+    direction?: 'ltr' | 'rtl';
+    wrap?: boolean;
+  }
+): T | null {
+  if (items.length === 0) return null;
+  const index = Math.max(0, items.indexOf(current));
+  const [prevKey, nextKey] =
+    orientation === 'vertical'
+      ? ['ArrowUp', 'ArrowDown']
+      : direction === 'rtl'
+        ? ['ArrowRight', 'ArrowLeft']
+        : ['ArrowLeft', 'ArrowRight'];
+  switch (key) {
+    case prevKey:
+      return wrap ? items[(index - 1 + items.length) % items.length] : items[Math.max(0, index - 1)];
+    case nextKey:
+      return wrap ? items[(index + 1) % items.length] : items[Math.min(items.length - 1, index + 1)];
+    case 'Home':
+      return items[0];
+    case 'End':
+      return items[items.length - 1];
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Limits and redaction applied to the application state snapshot sent with
+ * each message
+ */
+export interface ApplicationStateOptions {
+  /**
+   * Maximum size of the serialized snapshot in bytes. Sources that do not fit
+   * are left out and listed under `_omitted`.
+   * @default 16384
+   */
+  maxBytes?: number;
+
+  /**
+   * Strings longer than this are cut and end with `…`
+   * @default 2000
+   */
+  maxStringLength?: number;
+
+  /**
+   * Objects nested deeper than this are replaced with `'[truncated]'`
+   * @default 8
+   */
+  maxDepth?: number;
+
+  /**
+   * Property names whose values are replaced with `'[redacted]'` at any
+   * depth, in addition to the built-in list (passwords, tokens, secrets,
+   * API keys, card numbers...). Strings match case-insensitively.
+   */
+  redactKeys?: (string | RegExp)[];
+}
+
+/**
+ * State from one source (a state provider or a tool registration), keyed in
+ * the snapshot by `key`
+ */
+export interface ApplicationStateSource {
+  key: string;
+  value: unknown;
+  /** Extra property names redacted from this source's value */
+  redactKeys?: (string | RegExp)[];
+}
+
+export const REDACTED_VALUE = '[redacted]';
+
+// Matched against the end of property names (`password`, `accessToken`, `clientSecret`...)
+const DEFAULT_REDACT_KEYS =
+  /(password|passwd|passphrase|secret|token|api[-_]?key|authorization|cookie|session[-_]?id|card[-_]?number|cvv|cvc|ssn|iban)$/i;
+
+const DEFAULT_OPTIONS: Required<ApplicationStateOptions> = {
+  maxBytes: 16384,
+  maxStringLength: 2000,
+  maxDepth: 8,
+  redactKeys: [],
+};
+
+function byteLength(text: string): number {
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length;
+}
+
+function isRedacted(key: string, redactKeys: (string | RegExp)[]): boolean {
+  if (DEFAULT_REDACT_KEYS.test(key)) return true;
+  return redactKeys.some((pattern) =>
+    typeof pattern === 'string' ? pattern.toLowerCase() === key.toLowerCase() : pattern.test(key)
+  );
+}
+
+/**
+ * Copy a value into plain JSON data: redacts matching keys, cuts long
+ * strings, drops functions and DOM nodes, and replaces cycles and deep
+ * nesting. Returns undefined for values JSON cannot represent.
+ */
+function sanitize(
+  value: unknown,
+  depth: number,
+  seen: WeakSet<object>,
+  redactKeys: (string | RegExp)[],
+  options: Required<ApplicationStateOptions>
+): unknown {
+  if (value === null) return null;
+  switch (typeof value) {
+    case 'string':
+      return value.length > options.maxStringLength
+        ? `${value.slice(0, options.maxStringLength)}…`
+        : value;
+    case 'number':
+      return Number.isFinite(value) ? value : null;
+    case 'boolean':
+      return value;
+    case 'bigint':
+      return value.toString();
+    case 'object':
+      break;
+    default:
+      return undefined;
+  }
+
+  const obj = value as Record<string, any>;
+  if (typeof Node !== 'undefined' && obj instanceof Node) return undefined;
+  if (obj instanceof Date) return Number.isNaN(obj.getTime()) ? null : obj.toISOString();
+  if (seen.has(obj)) return '[circular]';
+  if (depth >= options.maxDepth) return '[truncated]';
+
+  seen.add(obj);
+  try {
+    if (obj instanceof Map) {
+      return sanitize(Object.fromEntries(obj), depth, seen, redactKeys, options);
+    }
+    if (Array.isArray(obj) || obj instanceof Set) {
+      return Array.from(obj, (item) => sanitize(item, depth + 1, seen, redactKeys, options) ?? null);
+    }
+    if (typeof obj.toJSON === 'function') {
+      return sanitize(obj.toJSON(), depth, seen, redactKeys, options);
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(obj)) {
+      if (isRedacted(key, redactKeys)) {
+        result[key] = REDACTED_VALUE;
+        continue;
+      }
+      const clean = sanitize(item, depth + 1, seen, redactKeys, options);
+      if (clean !== undefined) result[key] = clean;
+    }
+    return result;
+  } finally {
+    seen.delete(obj);
+  }
+}
+
+/**
+ * Build the `applicationState` of a message from its sources (unique keys):
+ * each value is sanitized and redacted, then sources are added in order while
+ * the snapshot stays within `maxBytes`. Keys of the sources left out are listed under
+ * `_omitted`. Returns undefined when no source has state.
+ *
+ * @example
+ * ```ts
+ * snapshotApplicationState([
+ *   { key: 'route', value: { path: '/invoices/42' } },
+ *   { key: 'user', value: { name: 'Ada', apiKey: 'sk-...' } },
+ * ]);
+ * // { route: { path: '/invoices/42' }, user: { name: 'Ada', apiKey: '[redacted]' } }
+ * ```
+ */
+export function snapshotApplicationState(
+  sources: ApplicationStateSource[],
+  options: ApplicationStateOptions = {}
+): Record<string, unknown> | undefined {
+  const opts: Required<ApplicationStateOptions> = { ...DEFAULT_OPTIONS, ...options };
+  const state: Record<string, unknown> = {};
+  const omitted: string[] = [];
+  // Room for the braces and the `_omitted` list
+  let size = 2;
+
+  for (const source of sources) {
+    const redactKeys = [...opts.redactKeys, ...(source.redactKeys ?? [])];
+    const value = isRedacted(source.key, redactKeys)
+      ? REDACTED_VALUE
+      : sanitize(source.value, 0, new WeakSet(), redactKeys, opts);
+    if (value === undefined) continue;
+
+    const entrySize = byteLength(`${JSON.stringify(source.key)}:${JSON.stringify(value)},`);
+    const omittedSize = omitted.length > 0 ? byteLength(`"_omitted":${JSON.stringify(omitted)}`) : 0;
+    if (size + entrySize + omittedSize > opts.maxBytes) {
+      omitted.push(source.key);
+      continue;
+    }
+    state[source.key] = value;
+    size += entrySize;
+  }
+
+  // Drop entries until the list of omitted keys fits too
+  if (omitted.length > 0) {
+    const keys = Object.keys(state);
+    while (
+      keys.length > 0 &&
+      byteLength(JSON.stringify({ ...state, _omitted: omitted })) > opts.maxBytes
+    ) {
+      const key = keys.pop()!;
+      delete state[key];
+      omitted.unshift(key);
+    }
+    state._omitted = omitted;
+  }
+
+  return Object.keys(state).length > 0 ? state : undefined;
+}
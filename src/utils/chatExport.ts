@@ -0,0 +1,413 @@
+import type { ChatHistory, ChatMessage, FeedbackEntry } from '../api/types';
+
+/**
+ * Current version of the JSON export schema. Bumped on breaking changes;
+ * importers should check it before reading the document.
+ */
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ChatExportFormat = 'markdown' | 'json' | 'html';
+
+/**
+ * A tool call made by the assistant, with its input and (if available) output
+ */
+export interface ChatExportToolCall {
+  id: string;
+  name: string;
+  input: any;
+  output?: any;
+}
+
+/**
+ * A message in the export document
+ */
+export interface ChatExportMessage {
+  uid: string;
+  role: ChatMessage['role'];
+  content: string;
+  /** ISO 8601 timestamp (null when the message's timestamp is invalid) */
+  timestamp: string | null;
+  files?: Array<{ name: string; url: string; type: string }>;
+  toolCalls?: ChatExportToolCall[];
+  feedback?: { positive: boolean; comment?: string };
+  transcriptId?: string;
+}
+
+/**
+ * Versioned JSON export of a conversation
+ */
+export interface ChatExport {
+  schema: 'devic.chat-export';
+  version: typeof CHAT_EXPORT_VERSION;
+  /** ISO 8601 timestamp */
+  exportedAt: string;
+  conversation: {
+    chatUid: string;
+    assistantId: string;
+    name?: string;
+    /** ISO 8601 timestamp (null when the creation time is invalid) */
+    createdAt: string | null;
+    /** ISO 8601 timestamp */
+    updatedAt?: string;
+    llm?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    tenantId?: string;
+    metadata?: Record<string, any>;
+  };
+  messages: ChatExportMessage[];
+}
+
+export interface ChatExportOptions {
+  /**
+   * Feedback to include, either as returned by `getChatFeedback` or as the
+   * ChatDrawer's message-uid → rating map
+   */
+  feedback?: FeedbackEntry[] | Map<string, 'positive' | 'negative'>;
+
+  /**
+   * Document title (Markdown heading / HTML title)
+   * @default conversation name, or 'Conversation <chatUid>'
+   */
+  title?: string;
+}
+
+/**
+ * ISO string of an epoch-ms timestamp; null when missing, NaN or out of the
+ * Date range, so one bad timestamp does not abort the export
+ */
+function toIso(ms: number | undefined): string | null {
+  if (ms == null) return null;
+  const date = new Date(ms);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseArguments(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function readToolOutput(message: ChatMessage): any {
+  if (message.content?.data !== undefined) return message.content.data;
+  const text = message.content?.message;
+  if (text == null) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function normalizeFeedback(
+  feedback: ChatExportOptions['feedback']
+): Map<string, { positive: boolean; comment?: string }> {
+  const result = new Map<string, { positive: boolean; comment?: string }>();
+  if (!feedback) return result;
+  if (feedback instanceof Map) {
+    feedback.forEach((value, uid) => result.set(uid, { positive: value === 'positive' }));
+    return result;
+  }
+  feedback.forEach((entry) => {
+    if (entry.feedback == null) return;
+    result.set(entry.requestId, {
+      positive: entry.feedback,
+      ...(entry.feedbackComment && { comment: entry.feedbackComment }),
+    });
+  });
+  return result;
+}
+
+/**
+ * Convert a chat history to the versioned export document. Tool results are
+ * attached to the assistant tool call that produced them.
+ */
+export function toChatExport(
+  history: ChatHistory,
+  options: ChatExportOptions = {}
+): ChatExport {
+  const feedback = normalizeFeedback(options.feedback);
+
+  const outputs = new Map<string, any>();
+  history.chatContent.forEach((m) => {
+    if (m.role === 'tool' && m.tool_call_id) {
+      outputs.set(m.tool_call_id, readToolOutput(m));
+    }
+  });
+  const knownCallIds = new Set(
+    history.chatContent.flatMap((m) => (m.tool_calls ?? []).map((tc) => tc.id))
+  );
+
+  const messages = history.chatContent
+    // Tool results are folded into their tool call unless orphaned
+    .filter((m) => !(m.role === 'tool' && m.tool_call_id && knownCallIds.has(m.tool_call_id)))
+    .map<ChatExportMessage>((m) => {
+      const rating = feedback.get(m.uid);
+      return {
+        uid: m.uid,
+        role: m.role,
+        content: m.content?.message ?? '',
+        timestamp: toIso(m.timestamp),
+        ...(m.content?.files?.length && { files: m.content.files }),
+        ...(m.tool_calls?.length && {
+          toolCalls: m.tool_calls.map((tc) => ({
+            id: tc.id,
+            name: tc.function.name,
+            input: parseArguments(tc.function.arguments),
+            ...(outputs.has(tc.id) && { output: outputs.get(tc.id) }),
+          })),
+        }),
+        ...(rating && { feedback: rating }),
+        ...(m.transcriptId && { transcriptId: m.transcriptId }),
+      };
+    });
+
+  return {
+    schema: 'devic.chat-export',
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      chatUid: history.chatUID,
+      assistantId: history.assistantSpecializationIdentifier,
+      ...(history.name && { name: history.name }),
+      createdAt: toIso(history.creationTimestampMs),
+      ...(() => {
+        const updatedAt = toIso(history.lastEditTimestampMs);
+        return updatedAt ? { updatedAt } : {};
+      })(),
+      ...(history.llm && { llm: history.llm }),
+      ...(history.inputTokens != null && { inputTokens: history.inputTokens }),
+      ...(history.outputTokens != null && { outputTokens: history.outputTokens }),
+      ...(history.tenantId && { tenantId: history.tenantId }),
+      ...(history.metadata && { metadata: history.metadata }),
+    },
+    messages,
+  };
+}
+
+function resolveTitle(doc: ChatExport, options: ChatExportOptions): string {
+  return options.title || doc.conversation.name || `Conversation ${doc.conversation.chatUid}`;
+}
+
+function formatValue(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Fenced code block for a tool value. The fence is one backtick longer than
+ * the longest run inside the value, so outputs containing markdown or code
+ * fences cannot close it early.
+ */
+function codeBlock(value: any): string[] {
+  const text = formatValue(value);
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [`${fence}json`, text, fence];
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  developer: 'Developer',
+  system: 'System',
+  tool: 'Tool',
+};
+
+const UNKNOWN_TIME = 'Unknown time';
+
+/**
+ * Serialise a chat history to the versioned JSON export schema
+ */
+export function exportChatAsJSON(
+  history: ChatHistory,
+  options: ChatExportOptions = {}
+): string {
+  return JSON.stringify(toChatExport(history, options), null, 2);
+}
+
+/**
+ * Serialise a chat history to Markdown
+ */
+export function exportChatAsMarkdown(
+  history: ChatHistory,
+  options: ChatExportOptions = {}
+): string {
+  const doc = toChatExport(history, options);
+  const lines: string[] = [
+    `# ${resolveTitle(doc, options)}`,
+    '',
+    `- Conversation: \`${doc.conversation.chatUid}\``,
+    `- Assistant: \`${doc.conversation.assistantId}\``,
+    `- Created: ${doc.conversation.createdAt ?? UNKNOWN_TIME}`,
+    `- Exported: ${doc.exportedAt}`,
+    '',
+  ];
+
+  doc.messages.forEach((m) => {
+    lines.push(`## ${ROLE_LABELS[m.role]} — ${m.timestamp ?? UNKNOWN_TIME}`, '');
+    if (m.content) lines.push(m.content, '');
+    m.files?.forEach((f) =>
+      lines.push(isSafeUrl(f.url) ? `- 📎 [${f.name}](${f.url})` : `- 📎 ${f.name}`)
+    );
+    if (m.files?.length) lines.push('');
+    m.toolCalls?.forEach((tc) => {
+      lines.push(`**Tool call:** \`${tc.name}\``, '', 'Input:', '', ...codeBlock(tc.input), '');
+      if (tc.output !== undefined) {
+        lines.push('Output:', '', ...codeBlock(tc.output), '');
+      }
+    });
+    if (m.feedback) {
+      lines.push(
+        `> Feedback: ${m.feedback.positive ? '👍' : '👎'}${m.feedback.comment ? ` — ${m.feedback.comment}` : ''}`,
+        ''
+      );
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Whether a file URL may be emitted as a link: only http(s), so imported
+ * `javascript:` or `data:` URLs are never made clickable
+ */
+function isSafeUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : UNKNOWN_TIME;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f1f1f; max-width: 800px; margin: 32px auto; padding: 0 16px; line-height: 1.5; }
+  header { border-bottom: 1px solid #e5e5e5; margin-bottom: 24px; }
+  header dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; font-size: 13px; color: #666; }
+  .message { margin: 0 0 16px; padding: 12px 16px; border-radius: 8px; border: 1px solid #e5e5e5; page-break-inside: avoid; }
+  .message[data-role="user"] { background: #f5f7ff; }
+  .meta { font-size: 12px; color: #666; margin-bottom: 6px; }
+  .content { white-space: pre-wrap; word-wrap: break-word; }
+  .tool { margin-top: 8px; font-size: 13px; }
+  pre { background: #f5f5f5; padding: 8px; border-radius: 4px; white-space: pre-wrap; word-wrap: break-word; font-size: 12px; }
+  .feedback { font-size: 12px; color: #666; margin-top: 6px; }
+  @media print { body { margin: 0; } .message { border-color: #ccc; } }
+`;
+
+/**
+ * Serialise a chat history to a self-contained, printable HTML document
+ * (inline styles, no external resources) suitable for "Save as PDF"
+ */
+export function exportChatAsHTML(
+  history: ChatHistory,
+  options: ChatExportOptions = {}
+): string {
+  const doc = toChatExport(history, options);
+  const title = escapeHtml(resolveTitle(doc, options));
+
+  const body = doc.messages
+    .map((m) => {
+      const files = m.files?.length
+        ? `<ul class="files">${m.files
+            .map((f) =>
+              isSafeUrl(f.url)
+                ? `<li><a href="${escapeHtml(f.url)}">${escapeHtml(f.name)}</a></li>`
+                : `<li>${escapeHtml(f.name)}</li>`
+            )
+            .join('')}</ul>`
+        : '';
+      const tools = (m.toolCalls ?? [])
+        .map(
+          (tc) =>
+            `<div class="tool"><strong>Tool call:</strong> <code>${escapeHtml(tc.name)}</code>` +
+            `<pre>${escapeHtml(formatValue(tc.input))}</pre>` +
+            (tc.output !== undefined
+              ? `<strong>Output</strong><pre>${escapeHtml(formatValue(tc.output))}</pre>`
+              : '') +
+            `</div>`
+        )
+        .join('');
+      const feedback = m.feedback
+        ? `<div class="feedback">Feedback: ${m.feedback.positive ? 'positive' : 'negative'}${
+            m.feedback.comment ? ` — ${escapeHtml(m.feedback.comment)}` : ''
+          }</div>`
+        : '';
+      return (
+        `<section class="message" data-role="${m.role}">` +
+        `<div class="meta">${ROLE_LABELS[m.role]} · ${escapeHtml(formatDate(m.timestamp))}</div>` +
+        (m.content ? `<div class="content">${escapeHtml(m.content)}</div>` : '') +
+        files +
+        tools +
+        feedback +
+        `</section>`
+      );
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<dl>
+<dt>Conversation</dt><dd>${escapeHtml(doc.conversation.chatUid)}</dd>
+<dt>Assistant</dt><dd>${escapeHtml(doc.conversation.assistantId)}</dd>
+<dt>Created</dt><dd>${escapeHtml(formatDate(doc.conversation.createdAt))}</dd>
+<dt>Exported</dt><dd>${escapeHtml(new Date(doc.exportedAt).toLocaleString())}</dd>
+</dl>
+</header>
+${body}
+</body>
+</html>
+`;
+}
+
+const EXPORTERS: Record<
+  ChatExportFormat,
+  { serialize: (h: ChatHistory, o?: ChatExportOptions) => string; mime: string; ext: string }
+> = {
+  markdown: { serialize: exportChatAsMarkdown, mime: 'text/markdown', ext: 'md' },
+  json: { serialize: exportChatAsJSON, mime: 'application/json', ext: 'json' },
+  html: { serialize: exportChatAsHTML, mime: 'text/html', ext: 'html' },
+};
+
+/**
+ * Serialise a chat history and save it as a file in the browser
+ */
+export function downloadChatExport(
+  history: ChatHistory,
+  format: ChatExportFormat,
+  options: ChatExportOptions = {}
+): void {
+  if (typeof document === 'undefined') return;
+  const { serialize, mime, ext } = EXPORTERS[format];
+  const blob = new Blob([serialize(history, options)], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `chat-${history.chatUID}.${ext}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,200 @@
+import { CHAT_EXPORT_VERSION } from './chatExport';
+import type { ChatExport, ChatExportMessage } from './chatExport';
+import type { ChatMessage, PreviousMessage } from '../api/types';
+
+/**
+ * Error thrown when an export document cannot be imported
+ */
+export class ChatImportError extends Error {
+  /** JSON path of the offending value (e.g. `messages[3].role`) */
+  public path?: string;
+
+  constructor(message: string, path?: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'ChatImportError';
+    this.path = path;
+  }
+}
+
+const ROLES: ChatMessage['role'][] = ['user', 'assistant', 'developer', 'system', 'tool'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, path: string, optional = false): void {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string') {
+    throw new ChatImportError('expected a string', path);
+  }
+}
+
+function expectTimestamp(
+  value: unknown,
+  path: string,
+  optional = false,
+  nullable = false
+): void {
+  if (value === undefined && optional) return;
+  if (value === null && nullable) return;
+  expectString(value, path);
+  if (Number.isNaN(Date.parse(value as string))) {
+    throw new ChatImportError('expected an ISO 8601 timestamp', path);
+  }
+}
+
+function validateMessage(value: unknown, path: string): void {
+  if (!isObject(value)) throw new ChatImportError('expected an object', path);
+  expectString(value.uid, `${path}.uid`);
+  if (!ROLES.includes(value.role)) {
+    throw new ChatImportError(`expected one of ${ROLES.join(', ')}`, `${path}.role`);
+  }
+  expectString(value.content, `${path}.content`);
+  expectTimestamp(value.timestamp, `${path}.timestamp`, false, true);
+
+  if (value.files !== undefined) {
+    if (!Array.isArray(value.files)) {
+      throw new ChatImportError('expected an array', `${path}.files`);
+    }
+    value.files.forEach((f: unknown, i: number) => {
+      if (!isObject(f)) throw new ChatImportError('expected an object', `${path}.files[${i}]`);
+      expectString(f.name, `${path}.files[${i}].name`);
+      expectString(f.url, `${path}.files[${i}].url`);
+      expectString(f.type, `${path}.files[${i}].type`);
+    });
+  }
+
+  if (value.toolCalls !== undefined) {
+    if (!Array.isArray(value.toolCalls)) {
+      throw new ChatImportError('expected an array', `${path}.toolCalls`);
+    }
+    value.toolCalls.forEach((tc: unknown, i: number) => {
+      if (!isObject(tc)) throw new ChatImportError('expected an object', `${path}.toolCalls[${i}]`);
+      expectString(tc.id, `${path}.toolCalls[${i}].id`);
+      expectString(tc.name, `${path}.toolCalls[${i}].name`);
+    });
+  }
+
+  if (value.feedback !== undefined) {
+    if (!isObject(value.feedback) || typeof value.feedback.positive !== 'boolean') {
+      throw new ChatImportError('expected { positive: boolean }', `${path}.feedback`);
+    }
+  }
+}
+
+/**
+ * Parse and validate a JSON export (as produced by `exportChatAsJSON`).
+ * Accepts the raw JSON string or an already-parsed value.
+ *
+ * @throws ChatImportError when the document is malformed or its schema
+ * version is not supported
+ */
+export function parseChatExport(input: string | unknown): ChatExport {
+  let value: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (err) {
+      throw new ChatImportError(
+        `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  if (!isObject(value)) throw new ChatImportError('expected an object');
+  if (value.schema !== 'devic.chat-export') {
+    throw new ChatImportError('not a Devic chat export', 'schema');
+  }
+  if (typeof value.version !== 'number') {
+    throw new ChatImportError('expected a number', 'version');
+  }
+  if (value.version > CHAT_EXPORT_VERSION) {
+    throw new ChatImportError(
+      `unsupported version ${value.version} (latest supported is ${CHAT_EXPORT_VERSION})`,
+      'version'
+    );
+  }
+  expectTimestamp(value.exportedAt, 'exportedAt');
+
+  const conversation = value.conversation;
+  if (!isObject(conversation)) {
+    throw new ChatImportError('expected an object', 'conversation');
+  }
+  expectString(conversation.chatUid, 'conversation.chatUid');
+  expectString(conversation.assistantId, 'conversation.assistantId');
+  expectString(conversation.name, 'conversation.name', true);
+  expectTimestamp(conversation.createdAt, 'conversation.createdAt', false, true);
+  expectTimestamp(conversation.updatedAt, 'conversation.updatedAt', true);
+
+  if (!Array.isArray(value.messages)) {
+    throw new ChatImportError('expected an array', 'messages');
+  }
+  value.messages.forEach((m: unknown, i: number) => validateMessage(m, `messages[${i}]`));
+
+  return value as unknown as ChatExport;
+}
+
+/**
+ * Map an export to the `previousConversation` of a new chat
+ * (ProcessMessageDto). Only user and assistant text is kept; tool calls,
+ * tool results and system messages are dropped.
+ */
+export function chatExportToPreviousConversation(doc: ChatExport): PreviousMessage[] {
+  return doc.messages
+    .filter(
+      (m): m is ChatExportMessage & { role: PreviousMessage['role'] } =>
+        (m.role === 'user' || m.role === 'assistant') && m.content.trim().length > 0
+    )
+    .map((m) => ({ role: m.role, message: m.content }));
+}
+
+function serializeValue(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value ?? null);
+}
+
+/**
+ * Rebuild chat messages from an export, expanding each recorded tool call
+ * back into an assistant `tool_calls` entry followed by its `tool` result
+ * so ChatMessages renders them as it would a live conversation.
+ */
+export function chatExportToMessages(doc: ChatExport): ChatMessage[] {
+  const chatUid = doc.conversation.chatUid;
+  const result: ChatMessage[] = [];
+
+  doc.messages.forEach((m) => {
+    // Messages exported without a valid time take the conversation's
+    const timestamp = Date.parse(m.timestamp ?? doc.conversation.createdAt ?? '') || 0;
+    result.push({
+      uid: m.uid,
+      role: m.role,
+      chatUid,
+      timestamp,
+      content: {
+        message: m.content,
+        ...(m.files?.length && { files: m.files }),
+      },
+      ...(m.toolCalls?.length && {
+        tool_calls: m.toolCalls.map((tc) => ({
+          id: tc.id,
+          type: 'function' as const,
+          function: { name: tc.name, arguments: serializeValue(tc.input) },
+        })),
+      }),
+      ...(m.transcriptId && { transcriptId: m.transcriptId }),
+    });
+
+    m.toolCalls?.forEach((tc) => {
+      if (tc.output === undefined) return;
+      result.push({
+        uid: `${m.uid}-${tc.id}`,
+        role: 'tool',
+        chatUid,
+        timestamp,
+        tool_call_id: tc.id,
+        content: { message: serializeValue(tc.output), data: tc.output },
+      });
+    });
+  });
+
+  return result;
+}
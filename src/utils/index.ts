@@ -1,7 +1,38 @@
 export { segmentToolCalls } from './toolGroups';
 export { createLogger } from './logger';
+export { getFocusableElements, trapTabKey, getRovingTarget } from './a11y';
 export type { DevicLogger } from './logger';
 export type { ToolGroupSegment } from './toolGroups';
+export {
+  CHAT_EXPORT_VERSION,
+  toChatExport,
+  exportChatAsJSON,
+  exportChatAsMarkdown,
+  exportChatAsHTML,
+  downloadChatExport,
+} from './chatExport';
+export type {
+  ChatExport,
+  ChatExportFormat,
+  ChatExportMessage,
+  ChatExportToolCall,
+  ChatExportOptions,
+} from './chatExport';
+export {
+  ToolArgumentsError,
+  validateJsonSchema,
+  parseToolArguments,
+  defineModelInterfaceTool,
+} from './toolSchema';
+export type { ToolArgumentIssue } from './toolSchema';
+export { REDACTED_VALUE, snapshotApplicationState } from './applicationState';
+export type { ApplicationStateOptions, ApplicationStateSource } from './applicationState';
+export {
+  ChatImportError,
+  parseChatExport,
+  chatExportToPreviousConversation,
+  chatExportToMessages,
+} from './chatImport';
 
 /**
  * Generate a unique ID
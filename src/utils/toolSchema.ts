@@ -0,0 +1,196 @@
+import type {
+  InferToolParams,
+  JsonSchema,
+  JsonSchemaType,
+  ModelInterfaceTool,
+  ModelInterfaceToolSchema,
+} from '../api/types';
+
+/**
+ * A value that does not match the tool's parameter schema
+ */
+export interface ToolArgumentIssue {
+  /** Path of the offending value (e.g. `address.zip`, `items[2]`); empty for the arguments themselves */
+  path: string;
+  /** What was expected (e.g. `expected a string`) */
+  message: string;
+}
+
+/**
+ * Error raised when a tool call's arguments are not valid JSON or do not
+ * match `schema.function.parameters`
+ */
+export class ToolArgumentsError extends Error {
+  public toolName: string;
+  public issues: ToolArgumentIssue[];
+
+  constructor(toolName: string, issues: ToolArgumentIssue[]) {
+    super(
+      `Invalid arguments for tool "${toolName}": ` +
+        issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ')
+    );
+    this.name = 'ToolArgumentsError';
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+
+  /**
+   * Tool response content sent back to the model so it can correct the call
+   */
+  toToolResponse(): { error: string; issues: ToolArgumentIssue[] } {
+    return {
+      error: `Invalid arguments for tool "${this.toolName}". Fix the listed issues and call the tool again.`,
+      issues: this.issues,
+    };
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    default:
+      return true;
+  }
+}
+
+const TYPE_NAMES: Record<JsonSchemaType, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  null: 'null',
+  array: 'an array',
+  object: 'an object',
+};
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a value against a JSON Schema (`type`, `properties`, `required`,
+ * `enum`, `items`, `additionalProperties`). Returns every mismatch found;
+ * an empty list means the value is valid.
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = ''
+): ToolArgumentIssue[] {
+  if (schema.type !== undefined) {
+    const types: readonly JsonSchemaType[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type as JsonSchemaType];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [
+        { path, message: `expected ${types.map((type) => TYPE_NAMES[type] ?? type).join(' or ')}` },
+      ];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    return [
+      { path, message: `expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` },
+    ];
+  }
+
+  const issues: ToolArgumentIssue[] = [];
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (item !== undefined) issues.push(...validateJsonSchema(propertySchema, item, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not an allowed property' });
+      } else if (isObject(schema.additionalProperties)) {
+        issues.push(...validateJsonSchema(schema.additionalProperties, item, joinPath(path, key)));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      issues.push(...validateJsonSchema(schema.items!, item, `${path}[${i}]`));
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Parse a tool call's JSON arguments and validate them against the tool's
+ * parameter schema. Throws a ToolArgumentsError when they are invalid.
+ */
+export function parseToolArguments<TParams = any>(
+  tool: ModelInterfaceTool<TParams>,
+  args: string | undefined
+): TParams {
+  let params: unknown;
+  try {
+    params = JSON.parse(args || '{}');
+  } catch (err) {
+    throw new ToolArgumentsError(tool.toolName, [
+      { path: '', message: `invalid JSON (${err instanceof Error ? err.message : String(err)})` },
+    ]);
+  }
+
+  if (tool.validateArguments !== false) {
+    const issues = validateJsonSchema(tool.schema.function.parameters, params);
+    if (issues.length > 0) throw new ToolArgumentsError(tool.toolName, issues);
+  }
+
+  return params as TParams;
+}
+
+/**
+ * Define a client-side tool whose `callback` and `responseWidget` params are
+ * typed from its schema
+ *
+ * @example
+ * ```ts
+ * const getWeather = defineModelInterfaceTool({
+ *   toolName: 'get_weather',
+ *   schema: {
+ *     type: 'function',
+ *     function: {
+ *       name: 'get_weather',
+ *       description: 'Current weather for a city',
+ *       parameters: {
+ *         type: 'object',
+ *         properties: { city: { type: 'string' }, unit: { enum: ['c', 'f'] } },
+ *         required: ['city'],
+ *       },
+ *     },
+ *   },
+ *   callback: async ({ city, unit }) => fetchWeather(city, unit ?? 'c'),
+ * });
+ * ```
+ */
+export function defineModelInterfaceTool<const S extends ModelInterfaceToolSchema>(
+  tool: ModelInterfaceTool<InferToolParams<S>> & { schema: S }
+): ModelInterfaceTool<InferToolParams<S>> {
+  return tool;
+}